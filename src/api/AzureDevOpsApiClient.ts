@@ -12,14 +12,28 @@ import axios, {
 interface ExtendedAxiosRequestConfig extends InternalAxiosRequestConfig {
   metadata?: {
     startTime?: number;
+    /** Request URL before it was pointed at `azureDevOps.apiBaseUrl` */
+    url?: string;
   };
 }
 import * as vscode from "vscode";
 import { AuthenticationService } from "../services/AuthenticationService";
-import { ConfigurationService } from "../services/ConfigurationService";
+import {
+  CacheManager,
+  CacheStatistics,
+  commentThreadsCacheTag,
+  pullRequestCacheTag,
+  pullRequestListCacheTag,
+} from "../services/CacheManager";
+import {
+  ConfigurationService,
+  ConnectionProfile,
+  resolveServerUrl,
+} from "../services/ConfigurationService";
 import {
   PullRequest,
   CommentThread,
+  CommentThreadStatus,
   Comment,
   GitRepository,
   TeamProject,
@@ -27,28 +41,34 @@ import {
   ApiErrorResponse,
   PolicyEvaluationRecord,
   GitPullRequestIteration,
+  GitItem,
   Identity,
+  IdentitySearchResult,
+  PullRequestReviewer,
+  GitPullRequestCompletionOptions,
+  ResourceRef,
+  WorkItem,
+  GitPush,
+  GitPushChange,
 } from "./models";
+import {
+  RequestPriority,
+  RequestScheduler,
+  SchedulerStats,
+} from "./RequestScheduler";
 
 /**
  * Rate limiting configuration
  */
 interface RateLimitConfig {
   readonly maxRequests: number;
+  /** Floor the adaptive limit never drops below */
+  readonly minRequests: number;
   readonly windowMs: number;
   readonly retryAfterMs: number;
   readonly maxRetries: number;
 }
 
-/**
- * Cache entry with expiration
- */
-interface CacheEntry<T> {
-  readonly data: T;
-  readonly expiry: number;
-  readonly etag?: string;
-}
-
 /**
  * Request retry configuration
  */
@@ -64,16 +84,102 @@ interface RetryConfig {
 export interface ApiRequestOptions {
   readonly useCache?: boolean;
   readonly cacheTtl?: number; // Time to live in milliseconds
+  readonly revalidate?: boolean; // Ask the server even if the cached copy is fresh, sending its ETag
+  readonly staleWhileRevalidate?: boolean; // Answer with an expired cached copy at once and refresh it in the background
   readonly timeout?: number;
   readonly retries?: number;
+  readonly headers?: Record<string, string>;
+  /** Defaults to "normal"; background work uses "low" */
+  readonly priority?: RequestPriority;
+  /** Cancels the request, e.g. when the view that needs it closes */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Scheduling options callers pass through services to the API client
+ */
+export type RequestContext = Pick<ApiRequestOptions, "priority" | "signal">;
+
+/**
+ * Pull request filters the server applies, sent as `searchCriteria.*`
+ */
+export interface PullRequestSearchCriteria {
+  readonly status?: string;
+  readonly creatorId?: string;
+  readonly reviewerId?: string;
+  readonly sourceRefName?: string;
+  readonly targetRefName?: string;
+  readonly minTime?: Date;
+  readonly queryTimeRangeType?: "created" | "closed";
+}
+
+/**
+ * Page of pull requests to request, continued by token or by offset
+ */
+export interface PullRequestPageRequest {
+  readonly top: number;
+  readonly skip?: number;
+  readonly continuationToken?: string;
+}
+
+/**
+ * Page of pull requests, with the request for the next page if there is one
+ */
+export interface PullRequestPage {
+  readonly pullRequests: PullRequest[];
+  readonly next?: PullRequestPageRequest;
+}
+
+/**
+ * Throttling state of the client, from the rate limit headers Azure DevOps
+ * sends once a user's usage gets close to or over its limits
+ */
+export interface ThrottlingState {
+  /** Requests are held back until this time (epoch ms), from `Retry-After` */
+  readonly delayedUntil?: number;
+  /** Requests the client currently sends per minute, lowered while throttled */
+  readonly requestsPerMinute: number;
+  /** Requests waiting for the limiter */
+  readonly queuedRequests: number;
+  /** Throttled resource, from `X-RateLimit-Resource`, e.g. "Core" */
+  readonly resource?: string;
+  /** Seconds the server delayed the last request, from `X-RateLimit-Delay` */
+  readonly delaySeconds?: number;
+  /** Usage left before requests get delayed, from `X-RateLimit-Remaining` */
+  readonly remaining?: number;
+  /** Usage allowed in the current window, from `X-RateLimit-Limit` */
+  readonly limit?: number;
+}
+
+/**
+ * Callback for completed requests
+ */
+export type RequestCompletedCallback = (
+  duration: number,
+  endpoint: string,
+  success: boolean,
+  throttling: ThrottlingState
+) => void;
+
+/**
+ * One page of a list response
+ */
+interface ListPage<T> {
+  readonly value: T[];
+  readonly continuationToken?: string;
 }
 
 /**
  * Azure DevOps REST API client with rate limiting and caching
  *
  * Implements:
- * - Rate limiting (200 requests/minute) with exponential backoff
- * - Multi-layer caching (memory + session)
+ * - Rate limiting (up to 200 requests/minute) that follows the server's
+ *   `Retry-After` and `X-RateLimit-*` headers, queueing requests while delayed
+ * - Request scheduling: identical GETs in flight at once are sent once,
+ *   user-initiated requests go before background ones, concurrency is
+ *   capped and requests can be cancelled with an `AbortSignal`
+ * - Multi-layer caching (memory + disk), revalidated with ETags or in the
+ *   background while expired copies are served
  * - Request/response models with TypeScript typing
  * - Comprehensive error handling without token exposure
  * - Authentication header management
@@ -82,52 +188,114 @@ export interface ApiRequestOptions {
  */
 export class AzureDevOpsApiClient {
   private static readonly API_VERSION = "7.1-preview.1";
+  private static readonly IDENTITY_PICKER_API_VERSION = "5.1-preview.1";
   private static readonly USER_AGENT = "Azure-DevOps-PR-Reviewer-VSCode/1.0.0";
 
   private static readonly RATE_LIMIT: RateLimitConfig = {
     maxRequests: 200,
+    minRequests: 20,
     windowMs: 60000, // 1 minute
-    retryAfterMs: 60000, // 1 minute
+    retryAfterMs: 60000, // Longest back-off when a 429 says nothing about when to retry
     maxRetries: 3,
   };
+  /** Share of `X-RateLimit-Limit` left below which the client slows down */
+  private static readonly LOW_REMAINING_RATIO = 0.2;
 
   private static readonly DEFAULT_TIMEOUT = 30000; // 30 seconds
+  private static readonly MAX_CONCURRENT_REQUESTS = 6;
+  private static readonly PULL_REQUEST_PAGE_SIZE = 100;
+  private static readonly NETWORK_ERROR_CODES = [
+    "ENOTFOUND",
+    "ECONNREFUSED",
+    "ECONNRESET",
+    "ECONNABORTED",
+    "ETIMEDOUT",
+    "ENETUNREACH",
+    "EAI_AGAIN",
+    "ERR_NETWORK",
+  ];
   private static readonly DEFAULT_CACHE_TTL = 300000; // 5 minutes
+  private static readonly REPOSITORY_PROFILES_KEY = "api_repository_profiles";
+  private static readonly WORK_ITEM_FIELDS = [
+    "System.Id",
+    "System.WorkItemType",
+    "System.Title",
+    "System.State",
+    "System.AssignedTo",
+    "System.AreaPath",
+    "System.IterationPath",
+    "System.Description",
+    "System.ChangedDate",
+  ];
 
   private readonly axiosInstance: AxiosInstance;
-  private readonly memoryCache = new Map<string, CacheEntry<any>>();
+  private readonly scheduler = new RequestScheduler(
+    AzureDevOpsApiClient.MAX_CONCURRENT_REQUESTS
+  );
   private readonly rateLimitTracker: number[] = [];
+  private requestLimit = AzureDevOpsApiClient.RATE_LIMIT.maxRequests;
+  private throttledUntil = 0;
+  private queuedRequests = 0;
+  private rateLimitQueue: Promise<void> = Promise.resolve();
+  private rateLimitHeaders: Pick<
+    ThrottlingState,
+    "resource" | "delaySeconds" | "remaining" | "limit"
+  > = {};
   private readonly sessionStorage: vscode.Memento;
-  private requestCallbacks: Array<(duration: number, endpoint: string, success: boolean) => void> = [];
+  private readonly repositoryProfiles: Map<string, string>;
+  private requestCallbacks: RequestCompletedCallback[] = [];
 
   constructor(
     private readonly authService: AuthenticationService,
     private readonly configService: ConfigurationService,
-    private readonly context: vscode.ExtensionContext
+    private readonly context: vscode.ExtensionContext,
+    private readonly cacheManager: CacheManager
   ) {
     this.sessionStorage = context.workspaceState;
+    this.repositoryProfiles = new Map(
+      Object.entries(
+        this.sessionStorage.get<Record<string, string>>(
+          AzureDevOpsApiClient.REPOSITORY_PROFILES_KEY
+        ) || {}
+      )
+    );
     this.axiosInstance = this.createAxiosInstance();
     this.setupRequestInterceptors();
     this.setupResponseInterceptors();
   }
 
   /**
-   * Get all repositories for the configured project
+   * Get all repositories of a connection profile's project
+   *
+   * Returned repositories are remembered across sessions so later calls for
+   * them are routed to the same organization and project.
    *
    * @param options Request options including caching preferences
+   * @param profileId Connection profile to query; the first profile when omitted
    * @returns Promise resolving to array of repositories
    */
   async getRepositories(
-    options: ApiRequestOptions = {}
+    options: ApiRequestOptions = {},
+    profileId?: string
   ): Promise<GitRepository[]> {
-    const config = this.configService.getConfiguration();
-    if (!config.project) {
+    const profile = profileId
+      ? this.configService.getProfile(profileId)
+      : this.configService.getProfiles()[0];
+    if (!profile) {
       throw new Error("Project not configured");
     }
 
-    const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories`;
+    const url = `${profile.organizationUrl}/${profile.project}/_apis/git/repositories`;
     const response = await this.get<ApiResponse<GitRepository>>(url, options);
 
+    response.value.forEach((repo) =>
+      this.repositoryProfiles.set(repo.id, profile.id)
+    );
+    await this.sessionStorage.update(
+      AzureDevOpsApiClient.REPOSITORY_PROFILES_KEY,
+      Object.fromEntries(this.repositoryProfiles)
+    );
+
     return response.value.map((repo) => ({
       ...repo,
       project: {
@@ -138,7 +306,8 @@ export class AzureDevOpsApiClient {
   }
 
   /**
-   * Get pull requests for a specific repository
+   * Get all pull requests for a specific repository, following pages until
+   * the server has no more
    *
    * @param repositoryId Repository ID
    * @param status Filter by status (optional)
@@ -150,20 +319,73 @@ export class AzureDevOpsApiClient {
     status?: string,
     options: ApiRequestOptions = {}
   ): Promise<PullRequest[]> {
-    const config = this.configService.getConfiguration();
-    let url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests`;
+    const pullRequests: PullRequest[] = [];
+    let page: PullRequestPageRequest | undefined = {
+      top: AzureDevOpsApiClient.PULL_REQUEST_PAGE_SIZE,
+    };
 
+    while (page) {
+      const result: PullRequestPage = await this.getPullRequestPage(
+        repositoryId,
+        { status },
+        page,
+        options
+      );
+      pullRequests.push(...result.pullRequests);
+      page = result.next;
+    }
+
+    return pullRequests;
+  }
+
+  /**
+   * Get one page of pull requests for a specific repository, filtered on the
+   * server. Pages continue with the `x-ms-continuationtoken` header when the
+   * server sends one, and with `$skip` otherwise.
+   *
+   * @param repositoryId Repository ID
+   * @param criteria Filters sent as `searchCriteria.*` query parameters
+   * @param page Page to get
+   * @param options Request options including caching preferences
+   * @returns Promise resolving to the page and the request for the next one
+   */
+  async getPullRequestPage(
+    repositoryId: string,
+    criteria: PullRequestSearchCriteria,
+    page: PullRequestPageRequest,
+    options: ApiRequestOptions = {}
+  ): Promise<PullRequestPage> {
+    const skip = page.skip || 0;
     const params: string[] = [];
-    if (status) {
-      params.push(`searchCriteria.status=${status}`);
+    for (const [name, value] of Object.entries(criteria)) {
+      if (value !== undefined && value !== "") {
+        const text = value instanceof Date ? value.toISOString() : value;
+        params.push(`searchCriteria.${name}=${encodeURIComponent(text)}`);
+      }
     }
-    if (params.length > 0) {
-      url += `?${params.join("&")}`;
+    params.push(`$top=${page.top}`);
+    if (page.continuationToken) {
+      params.push(
+        `continuationToken=${encodeURIComponent(page.continuationToken)}`
+      );
+    } else if (skip > 0) {
+      params.push(`$skip=${skip}`);
     }
 
-    const response = await this.get<ApiResponse<PullRequest>>(url, options);
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests?${params.join("&")}`;
+    const response = await this.getPage<PullRequest>(url, options);
+
+    let next: PullRequestPageRequest | undefined;
+    if (response.continuationToken) {
+      next = { top: page.top, continuationToken: response.continuationToken };
+    } else if (response.value.length >= page.top) {
+      next = { top: page.top, skip: skip + response.value.length };
+    }
 
-    return response.value.map(this.transformPullRequest);
+    return {
+      pullRequests: response.value.map(this.transformPullRequest),
+      next,
+    };
   }
 
   /**
@@ -179,13 +401,30 @@ export class AzureDevOpsApiClient {
     pullRequestId: number,
     options: ApiRequestOptions = {}
   ): Promise<PullRequest> {
-    const config = this.configService.getConfiguration();
-    const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}`;
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}`;
 
     const response = await this.get<PullRequest>(url, options);
     return this.transformPullRequest(response);
   }
 
+  /**
+   * Get a pull request by ID within the project of a repository, e.g. to
+   * follow a `!123` reference that may point at another repository
+   *
+   * @param pullRequestId Pull request ID
+   * @param repositoryId Repository whose project to look in
+   * @returns Promise resolving to pull request details
+   */
+  async getPullRequestById(
+    pullRequestId: number,
+    repositoryId?: string
+  ): Promise<PullRequest> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/pullrequests/${pullRequestId}`;
+
+    const response = await this.get<PullRequest>(url);
+    return this.transformPullRequest(response);
+  }
+
   /**
    * Get comment threads for a pull request
    *
@@ -199,8 +438,7 @@ export class AzureDevOpsApiClient {
     pullRequestId: number,
     options: ApiRequestOptions = {}
   ): Promise<CommentThread[]> {
-    const config = this.configService.getConfiguration();
-    const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads`;
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads`;
 
     const response = await this.get<ApiResponse<CommentThread>>(url, options);
 
@@ -240,11 +478,11 @@ export class AzureDevOpsApiClient {
     comment: string,
     threadId?: number
   ): Promise<Comment> {
-    const config = this.configService.getConfiguration();
+    const projectUrl = this.getProjectUrl(repositoryId);
 
     if (threadId) {
       // Reply to existing thread
-      const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads/${threadId}/comments`;
+      const url = `${projectUrl}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads/${threadId}/comments`;
       const payload = {
         content: comment,
         commentType: "text",
@@ -263,7 +501,7 @@ export class AzureDevOpsApiClient {
       };
     } else {
       // Create new thread
-      const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads`;
+      const url = `${projectUrl}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads`;
       const payload = {
         comments: [
           {
@@ -282,6 +520,26 @@ export class AzureDevOpsApiClient {
     }
   }
 
+  /**
+   * Update the status of a comment thread
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param threadId Thread ID
+   * @param status New thread status
+   * @returns Promise resolving to the updated thread
+   */
+  async updateThreadStatus(
+    repositoryId: string,
+    pullRequestId: number,
+    threadId: number,
+    status: CommentThreadStatus
+  ): Promise<CommentThread> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads/${threadId}`;
+
+    return this.patch<CommentThread>(url, { status });
+  }
+
   /**
    * Vote on a pull request
    *
@@ -295,17 +553,162 @@ export class AzureDevOpsApiClient {
     pullRequestId: number,
     vote: number
   ): Promise<void> {
-    const config = this.configService.getConfiguration();
-    const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/reviewers/@me`;
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/reviewers/@me`;
 
     const payload = {
       vote: vote,
     };
 
     await this.put<any>(url, payload);
+  }
+
+  /**
+   * Get the reviewers of a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param options Request options including caching preferences
+   * @returns Promise resolving to reviewers, with group votes in `votedFor`
+   */
+  async getPullRequestReviewers(
+    repositoryId: string,
+    pullRequestId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<PullRequestReviewer[]> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/reviewers`;
+
+    const response = await this.get<ApiResponse<PullRequestReviewer>>(url, {
+      useCache: false,
+      ...options,
+    });
+    return response.value;
+  }
+
+  /**
+   * Add a reviewer to a pull request, or update whether an existing reviewer is required
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param reviewerId Identity ID of the user or group
+   * @param isRequired Whether the reviewer is required
+   * @returns Promise resolving to the reviewer
+   */
+  async addPullRequestReviewer(
+    repositoryId: string,
+    pullRequestId: number,
+    reviewerId: string,
+    isRequired = false
+  ): Promise<PullRequestReviewer> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/reviewers/${reviewerId}`;
+
+    return this.put<PullRequestReviewer>(url, {
+      id: reviewerId,
+      isRequired,
+    });
+  }
+
+  /**
+   * Remove a reviewer from a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param reviewerId Identity ID of the user or group
+   * @returns Promise resolving when the reviewer is removed
+   */
+  async removePullRequestReviewer(
+    repositoryId: string,
+    pullRequestId: number,
+    reviewerId: string
+  ): Promise<void> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/reviewers/${reviewerId}`;
+
+    await this.delete<void>(url);
+  }
+
+  /**
+   * Search users and groups with the Identity Picker API
+   *
+   * @param query Name, email or alias to search for
+   * @param repositoryId Repository whose organization to search; the first profile's when omitted
+   * @returns Promise resolving to matching identities
+   */
+  async searchIdentities(
+    query: string,
+    repositoryId?: string
+  ): Promise<IdentitySearchResult[]> {
+    const url = `${this.getOrganizationUrl(repositoryId)}/_apis/IdentityPicker/Identities?api-version=${AzureDevOpsApiClient.IDENTITY_PICKER_API_VERSION}`;
+
+    const response = await this.post<{
+      results?: Array<{
+        identities?: Array<{
+          localId?: string;
+          originId?: string;
+          entityType: string;
+          displayName: string;
+          mail?: string;
+          signInAddress?: string;
+          samAccountName?: string;
+        }>;
+      }>;
+    }>(url, {
+      query,
+      identityTypes: ["user", "group"],
+      operationScopes: ["ims", "source"],
+      options: { MinResults: 5, MaxResults: 20 },
+      properties: ["DisplayName", "Mail", "SignInAddress", "SamAccountName"],
+    });
+
+    const identities = response.results?.[0]?.identities || [];
+    return identities
+      .filter((identity) => !!identity.localId)
+      .map((identity) => ({
+        id: identity.localId!,
+        displayName: identity.displayName,
+        uniqueName:
+          identity.mail ||
+          identity.signInAddress ||
+          identity.samAccountName ||
+          "",
+        isGroup: identity.entityType.toLowerCase() === "group",
+      }));
+  }
+
+  /**
+   * Get users and groups by identity ID, e.g. to resolve `@<GUID>` mentions
+   *
+   * @param identityIds Identity IDs
+   * @param repositoryId Repository whose organization to look in
+   * @returns Promise resolving to the identities that exist
+   */
+  async getIdentities(
+    identityIds: string[],
+    repositoryId?: string
+  ): Promise<Identity[]> {
+    if (identityIds.length === 0) {
+      return [];
+    }
 
-    // Invalidate cache for this PR
-    this.invalidateCache(`pr_${repositoryId}_${pullRequestId}`);
+    const url = `${this.getIdentityServiceUrl(repositoryId)}/_apis/identities?identityIds=${identityIds
+      .map(encodeURIComponent)
+      .join(",")}`;
+
+    // Display names rarely change, so they can be cached for long
+    const response = await this.get<{
+      value: Array<{
+        id: string;
+        providerDisplayName: string;
+        customDisplayName?: string;
+        properties?: { Account?: { $value?: string } };
+      } | null>;
+    }>(url, { useCache: true, cacheTtl: 60 * 60 * 1000 });
+
+    return response.value
+      .filter((identity): identity is NonNullable<typeof identity> => !!identity)
+      .map((identity) => ({
+        id: identity.id,
+        displayName: identity.customDisplayName || identity.providerDisplayName,
+        uniqueName: identity.properties?.Account?.$value || "",
+      }));
   }
 
   /**
@@ -328,8 +731,7 @@ export class AzureDevOpsApiClient {
     value: any[];
     count: number;
   }> {
-    const config = this.configService.getConfiguration();
-    let url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/files`;
+    let url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/files`;
 
     const params: string[] = [];
     if (iterationId) {
@@ -351,6 +753,145 @@ export class AzureDevOpsApiClient {
     };
   }
 
+  /**
+   * Get the identity of the authenticated user
+   *
+   * @param repositoryId Repository whose organization to ask; the first profile's when omitted
+   * @param options Request options including caching preferences
+   * @returns Promise resolving to the authenticated user's identity
+   */
+  async getAuthenticatedUser(
+    repositoryId?: string,
+    options: ApiRequestOptions = {}
+  ): Promise<Identity> {
+    const url = `${this.getOrganizationUrl(repositoryId)}/_apis/connectionData`;
+
+    const response = await this.get<{
+      authenticatedUser: {
+        id: string;
+        providerDisplayName: string;
+        properties?: { Account?: { $value?: string } };
+      };
+    }>(url, { useCache: true, cacheTtl: 60 * 60 * 1000, ...options });
+
+    const user = response.authenticatedUser;
+    return {
+      id: user.id,
+      displayName: user.providerDisplayName,
+      uniqueName: user.properties?.Account?.$value || "",
+    };
+  }
+
+  /**
+   * Get the custom properties of a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @returns Promise resolving to property values keyed by property name
+   */
+  async getPullRequestProperties(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<Record<string, string>> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/properties`;
+
+    const response = await this.get<{
+      value?: Record<string, { $value: string }>;
+    }>(url, { useCache: false });
+
+    const properties: Record<string, string> = {};
+    Object.entries(response.value || {}).forEach(([key, property]) => {
+      properties[key] = property.$value;
+    });
+    return properties;
+  }
+
+  /**
+   * Set custom properties on a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param properties Property values to add or replace
+   * @returns Promise resolving when the properties are saved
+   */
+  async updatePullRequestProperties(
+    repositoryId: string,
+    pullRequestId: number,
+    properties: Record<string, string>
+  ): Promise<void> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/properties`;
+
+    const patch = Object.entries(properties).map(([key, value]) => ({
+      op: "add",
+      path: `/${key}`,
+      value,
+    }));
+
+    await this.patch<unknown>(url, patch, {
+      headers: { "Content-Type": "application/json-patch+json" },
+    });
+  }
+
+  /**
+   * Get the content of a file at a specific commit
+   *
+   * @param repositoryId Repository ID
+   * @param path File path within the repository
+   * @param commitId Commit to read the file at
+   * @param options Request options including caching preferences
+   * @returns Promise resolving to the file content as text
+   */
+  async getFileContent(
+    repositoryId: string,
+    path: string,
+    commitId: string,
+    options: ApiRequestOptions = {}
+  ): Promise<string> {
+    const params = [
+      `path=${encodeURIComponent(path)}`,
+      `versionDescriptor.version=${commitId}`,
+      "versionDescriptor.versionType=commit",
+      "includeContent=true",
+    ];
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/items?${params.join("&")}`;
+
+    // Content at a commit never changes, so it can be cached for longer
+    const response = await this.get<GitItem & { content?: string }>(url, {
+      useCache: true,
+      cacheTtl: 30 * 60 * 1000,
+      ...options,
+    });
+
+    return response.content ?? "";
+  }
+
+  /**
+   * Commit file changes to a branch through the Pushes API
+   *
+   * @param repositoryId Repository ID
+   * @param refName Full name of the branch to push to
+   * @param oldObjectId Commit the branch is expected to point at
+   * @param message Commit message
+   * @param changes File changes to commit
+   * @returns Promise resolving to the created push
+   */
+  async createPush(
+    repositoryId: string,
+    refName: string,
+    oldObjectId: string,
+    message: string,
+    changes: GitPushChange[]
+  ): Promise<GitPush> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pushes`;
+
+    const payload = {
+      refUpdates: [{ name: refName, oldObjectId }],
+      commits: [{ comment: message, changes }],
+    };
+
+    return this.post<GitPush>(url, payload);
+  }
+
   /**
    * Abandon a pull request
    *
@@ -362,49 +903,352 @@ export class AzureDevOpsApiClient {
     repositoryId: string,
     pullRequestId: number
   ): Promise<void> {
-    const config = this.configService.getConfiguration();
-    const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}`;
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}`;
 
     const payload = {
       status: "abandoned",
     };
 
     await this.patch<any>(url, payload);
+  }
+
+  /**
+   * Complete (merge) a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param lastMergeSourceCommitId Source commit the user reviewed; completion fails if the branch moved since
+   * @param completionOptions Merge strategy and post-merge options
+   * @returns Promise resolving to the updated pull request
+   */
+  async completePullRequest(
+    repositoryId: string,
+    pullRequestId: number,
+    lastMergeSourceCommitId: string,
+    completionOptions: GitPullRequestCompletionOptions
+  ): Promise<PullRequest> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}`;
+
+    return this.patch<PullRequest>(url, {
+      status: "completed",
+      lastMergeSourceCommit: { commitId: lastMergeSourceCommitId },
+      completionOptions,
+    });
+  }
+
+  /**
+   * Set or cancel auto-complete on a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param autoCompleteSetById Identity enabling auto-complete, or undefined to cancel it
+   * @param completionOptions Options applied when the pull request completes
+   * @returns Promise resolving to the updated pull request
+   */
+  async setPullRequestAutoComplete(
+    repositoryId: string,
+    pullRequestId: number,
+    autoCompleteSetById: string | undefined,
+    completionOptions?: GitPullRequestCompletionOptions
+  ): Promise<PullRequest> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}`;
+
+    return this.patch<PullRequest>(url, {
+      // The empty GUID clears auto-complete
+      autoCompleteSetBy: {
+        id: autoCompleteSetById || "00000000-0000-0000-0000-000000000000",
+      },
+      ...(completionOptions ? { completionOptions } : {}),
+    });
+  }
+
+  /**
+   * Re-queue a policy evaluation, e.g. an expired or failed build validation
+   *
+   * @param repositoryId Repository of the pull request the policy applies to
+   * @param evaluationId Policy evaluation ID
+   * @returns Promise resolving to the updated evaluation record
+   */
+  async requeuePolicyEvaluation(
+    repositoryId: string,
+    evaluationId: string
+  ): Promise<PolicyEvaluationRecord> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/policy/evaluations/${evaluationId}`;
+
+    return this.patch<PolicyEvaluationRecord>(url, {});
+  }
 
-    // Invalidate cache
-    this.invalidateCache(`pr_${repositoryId}_${pullRequestId}`);
-    this.invalidateCache(`prs_${repositoryId}`);
+  /**
+   * Get the work items linked to a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param options Request options including caching preferences
+   * @returns Promise resolving to references of the linked work items
+   */
+  async getPullRequestWorkItemRefs(
+    repositoryId: string,
+    pullRequestId: number,
+    options: ApiRequestOptions = {}
+  ): Promise<ResourceRef[]> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/workitems`;
+
+    const response = await this.get<ApiResponse<ResourceRef>>(url, {
+      useCache: false,
+      ...options,
+    });
+    return response.value;
+  }
+
+  /**
+   * Get work items by ID from the project a repository belongs to
+   *
+   * Deleted or inaccessible work items are left out.
+   *
+   * @param repositoryId Repository whose project to query
+   * @param ids Work item IDs (at most 200)
+   * @param expandRelations Include the work items' links
+   * @returns Promise resolving to the work items
+   */
+  async getWorkItems(
+    repositoryId: string,
+    ids: number[],
+    expandRelations = false
+  ): Promise<WorkItem[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const query = expandRelations
+      ? "$expand=relations"
+      : `fields=${AzureDevOpsApiClient.WORK_ITEM_FIELDS.join(",")}`;
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/wit/workitems?ids=${ids.join(",")}&${query}&errorPolicy=omit`;
+
+    const response = await this.get<ApiResponse<WorkItem | null>>(url, {
+      useCache: false,
+    });
+    return response.value.filter((item): item is WorkItem => !!item);
+  }
+
+  /**
+   * Search work items of a repository's project by title
+   *
+   * @param repositoryId Repository whose project to search
+   * @param text Text the title contains
+   * @param top Maximum number of results
+   * @returns Promise resolving to matching work items, most recently changed first
+   */
+  async searchWorkItems(
+    repositoryId: string,
+    text: string,
+    top = 20
+  ): Promise<WorkItem[]> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/wit/wiql?$top=${top}`;
+
+    const response = await this.post<{ workItems: ResourceRef[] }>(url, {
+      query:
+        "SELECT [System.Id] FROM WorkItems" +
+        " WHERE [System.TeamProject] = @project" +
+        ` AND [System.Title] CONTAINS '${text.replace(/'/g, "''")}'` +
+        " ORDER BY [System.ChangedDate] DESC",
+    });
+
+    return this.getWorkItems(
+      repositoryId,
+      response.workItems.map((ref) => Number(ref.id))
+    );
+  }
+
+  /**
+   * Link a work item to a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param projectId ID of the project the repository belongs to
+   * @param workItemId Work item ID
+   * @returns Promise resolving to the updated work item
+   */
+  async linkWorkItem(
+    repositoryId: string,
+    pullRequestId: number,
+    projectId: string,
+    workItemId: number
+  ): Promise<WorkItem> {
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/wit/workitems/${workItemId}`;
+
+    const workItem = await this.patch<WorkItem>(
+      url,
+      [
+        {
+          op: "add",
+          path: "/relations/-",
+          value: {
+            rel: "ArtifactLink",
+            url: this.getPullRequestArtifactUrl(
+              projectId,
+              repositoryId,
+              pullRequestId
+            ),
+            attributes: { name: "Pull Request" },
+          },
+        },
+      ],
+      { headers: { "Content-Type": "application/json-patch+json" } }
+    );
+
+    // Work item links are cached with the pull request
+    await this.invalidatePullRequestCache(repositoryId, pullRequestId);
+    return workItem;
+  }
+
+  /**
+   * Remove the link between a work item and a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param projectId ID of the project the repository belongs to
+   * @param workItemId Work item ID
+   * @returns Promise resolving when the link is removed
+   * @throws Error if the work item is not linked to the pull request
+   */
+  async unlinkWorkItem(
+    repositoryId: string,
+    pullRequestId: number,
+    projectId: string,
+    workItemId: number
+  ): Promise<void> {
+    const [workItem] = await this.getWorkItems(repositoryId, [workItemId], true);
+    const artifactUrl = this.getPullRequestArtifactUrl(
+      projectId,
+      repositoryId,
+      pullRequestId
+    ).toLowerCase();
+    // The server may return the artifact URL with different casing or escaping
+    const index = (workItem?.relations || []).findIndex(
+      (relation) =>
+        relation.rel === "ArtifactLink" &&
+        decodeURIComponent(relation.url).toLowerCase() ===
+          decodeURIComponent(artifactUrl)
+    );
+    if (index < 0) {
+      throw new Error(
+        `Work item ${workItemId} is not linked to pull request ${pullRequestId}`
+      );
+    }
+
+    const url = `${this.getProjectUrl(repositoryId)}/_apis/wit/workitems/${workItemId}`;
+    await this.patch<WorkItem>(
+      url,
+      [
+        { op: "test", path: "/rev", value: workItem.rev },
+        { op: "remove", path: `/relations/${index}` },
+      ],
+      { headers: { "Content-Type": "application/json-patch+json" } }
+    );
+
+    // Work item links are cached with the pull request
+    await this.invalidatePullRequestCache(repositoryId, pullRequestId);
+  }
+
+  /**
+   * Get the connection profile a repository belongs to
+   *
+   * @param repositoryId Repository ID
+   * @returns Profile the repository was loaded from, or the first profile if it is unknown
+   */
+  getRepositoryProfile(repositoryId?: string): ConnectionProfile | undefined {
+    const profileId = repositoryId
+      ? this.repositoryProfiles.get(repositoryId)
+      : undefined;
+    return (
+      (profileId && this.configService.getProfile(profileId)) ||
+      this.configService.getProfiles()[0]
+    );
+  }
+
+  /**
+   * Get the project base URL (`<organization>/<project>`) for a repository
+   *
+   * @param repositoryId Repository ID
+   * @returns Project URL of the repository's connection profile
+   * @throws Error if no connection profile is configured
+   */
+  getProjectUrl(repositoryId?: string): string {
+    const profile = this.getRepositoryProfile(repositoryId);
+    if (!profile) {
+      throw new Error("Project not configured");
+    }
+    return `${profile.organizationUrl}/${profile.project}`;
   }
 
   /**
-   * Clear all cached data
+   * Get the organization URL for a repository
+   *
+   * @param repositoryId Repository ID
+   * @returns Organization URL of the repository's connection profile
+   * @throws Error if no connection profile is configured
    */
-  clearCache(): void {
-    this.memoryCache.clear();
-    // Clear session storage cache entries
-    const keys = this.context.workspaceState
-      .keys()
-      .filter((key) => key.startsWith("api_cache_"));
-    keys.forEach((key) => this.sessionStorage.update(key, undefined));
+  getOrganizationUrl(repositoryId?: string): string {
+    const profile = this.getRepositoryProfile(repositoryId);
+    if (!profile) {
+      throw new Error("Organization not configured");
+    }
+    return profile.organizationUrl;
+  }
+
+  /**
+   * Get the URL of the identity service of a repository's organization
+   *
+   * Azure DevOps Services hosts identities on a separate `vssps` host;
+   * Azure DevOps Server serves them from the collection URL.
+   */
+  private getIdentityServiceUrl(repositoryId?: string): string {
+    const organizationUrl = this.getOrganizationUrl(repositoryId);
+    return organizationUrl
+      .replace(/^https:\/\/dev\.azure\.com\//i, "https://vssps.dev.azure.com/")
+      .replace(
+        /^https:\/\/([^./]+)\.visualstudio\.com/i,
+        "https://$1.vssps.visualstudio.com"
+      );
+  }
+
+  /**
+   * Clear all cached data, including what services cached
+   */
+  async clearCache(): Promise<void> {
+    await this.cacheManager.clear();
   }
 
   /**
    * Get cache statistics for monitoring
    *
-   * @returns Cache statistics object
+   * @returns Statistics of the cache shared with the services
+   */
+  getCacheStats(): CacheStatistics {
+    return this.cacheManager.getStatistics();
+  }
+
+  /**
+   * Get request scheduler statistics
+   *
+   * @returns Running and queued requests, and how many joined identical ones
    */
-  getCacheStats(): {
-    memoryEntries: number;
-    sessionEntries: number;
-    hitRate?: number;
-  } {
-    const sessionEntries = this.context.workspaceState
-      .keys()
-      .filter((key) => key.startsWith("api_cache_")).length;
+  getSchedulerStats(): SchedulerStats {
+    return this.scheduler.getStats();
+  }
 
+  /**
+   * Get the current throttling state
+   *
+   * @returns Limiter state and the last rate limit headers the server sent
+   */
+  getThrottlingState(): ThrottlingState {
     return {
-      memoryEntries: this.memoryCache.size,
-      sessionEntries: sessionEntries,
+      delayedUntil:
+        this.throttledUntil > Date.now() ? this.throttledUntil : undefined,
+      requestsPerMinute: this.requestLimit,
+      queuedRequests: this.queuedRequests,
+      ...this.rateLimitHeaders,
     };
   }
 
@@ -433,20 +1277,33 @@ export class AzureDevOpsApiClient {
     this.axiosInstance.interceptors.request.use(
       async (config: ExtendedAxiosRequestConfig) => {
         // Add timing metadata for monitoring
-        config.metadata = { ...config.metadata, startTime: Date.now() };
-
-        // Add authentication header
-        const authHeader = await this.authService.getAuthHeader();
+        config.metadata = {
+          ...config.metadata,
+          startTime: Date.now(),
+          url: config.metadata?.url ?? config.url,
+        };
+
+        // Add authentication header of the profile the URL belongs to
+        const profile = this.getRequestProfile(config);
+        const authHeader = await this.authService.getAuthHeader(profile);
         if (authHeader) {
           config.headers["Authorization"] = authHeader;
         }
 
-        // Add API version
-        if (config.url) {
+        // Add API version unless the endpoint pins its own
+        if (config.url && !/[?&]api-version=/.test(config.url)) {
           const separator = config.url.includes("?") ? "&" : "?";
           config.url += `${separator}api-version=${AzureDevOpsApiClient.API_VERSION}`;
         }
 
+        // Send to the configured server, e.g. a local fake server
+        if (config.url) {
+          config.url = resolveServerUrl(
+            config.url,
+            this.configService.getApiBaseUrl()
+          );
+        }
+
         // Rate limiting check
         await this.checkRateLimit();
 
@@ -462,40 +1319,79 @@ export class AzureDevOpsApiClient {
   private setupResponseInterceptors(): void {
     this.axiosInstance.interceptors.response.use(
       (response) => {
+        this.updateThrottling(response.headers, response.status);
+
         // Track successful request timing
         const startTime = (response.config as any).metadata?.startTime;
         if (startTime) {
           const duration = Date.now() - startTime;
-          const endpoint = this.extractEndpointFromUrl(response.config.url || '');
+          const endpoint = this.extractEndpointFromUrl(
+            (response.config as ExtendedAxiosRequestConfig).metadata?.url ||
+              response.config.url ||
+              ''
+          );
           this.notifyRequestCallbacks(duration, endpoint, true);
         }
         return response;
       },
       async (error: AxiosError) => {
+        // Cancelled requests are no failures; their callers stopped waiting
+        if (axios.isCancel(error)) {
+          throw error;
+        }
+
+        if (error.response) {
+          this.updateThrottling(error.response.headers, error.response.status);
+        }
+
         // Track failed request timing
         const startTime = (error.config as any)?.metadata?.startTime;
         if (startTime) {
           const duration = Date.now() - startTime;
-          const endpoint = this.extractEndpointFromUrl(error.config?.url || '');
+          const endpoint = this.extractEndpointFromUrl(
+            (error.config as ExtendedAxiosRequestConfig | undefined)?.metadata
+              ?.url ||
+              error.config?.url ||
+              ''
+          );
           this.notifyRequestCallbacks(duration, endpoint, false);
         }
 
         const config = error.config as any;
 
-        // Handle rate limiting
+        // Handle rate limiting: retry once the server lets requests through
+        // again, queued behind the limiter like any other request
         if (error.response?.status === 429) {
-          const retryAfter = error.response.headers["retry-after"];
-          const delay = retryAfter
-            ? parseInt(retryAfter) * 1000
-            : AzureDevOpsApiClient.RATE_LIMIT.retryAfterMs;
-
           if (!config._retryCount) {
             config._retryCount = 0;
           }
 
           if (config._retryCount < AzureDevOpsApiClient.RATE_LIMIT.maxRetries) {
+            if (
+              parseRetryAfter(error.response.headers["retry-after"]) ===
+              undefined
+            ) {
+              this.delayRequests(
+                Math.min(
+                  1000 * 2 ** config._retryCount,
+                  AzureDevOpsApiClient.RATE_LIMIT.retryAfterMs
+                )
+              );
+            }
             config._retryCount++;
-            await this.delay(delay);
+            return this.axiosInstance.request(config);
+          }
+        }
+
+        // Retry once with a refreshed token when an Entra ID token expired
+        const profile = config ? this.getRequestProfile(config) : undefined;
+        if (
+          error.response?.status === 401 &&
+          profile?.authMethod === "entra" &&
+          !config._authRetried
+        ) {
+          config._authRetried = true;
+          if (await this.authService.refreshAuthHeader(profile)) {
             return this.axiosInstance.request(config);
           }
         }
@@ -503,7 +1399,9 @@ export class AzureDevOpsApiClient {
         // Handle authentication errors
         if (error.response?.status === 401 || error.response?.status === 403) {
           throw new Error(
-            "Authentication failed. Please check your Personal Access Token."
+            profile?.authMethod === "entra"
+              ? "Authentication failed. Please sign in again with Microsoft Entra ID."
+              : "Authentication failed. Please check your Personal Access Token."
           );
         }
 
@@ -516,7 +1414,10 @@ export class AzureDevOpsApiClient {
         }
 
         // Handle network errors
-        if (error.code === "ENOTFOUND" || error.code === "ECONNREFUSED") {
+        if (
+          error.code &&
+          AzureDevOpsApiClient.NETWORK_ERROR_CODES.includes(error.code)
+        ) {
           throw new Error(
             "Unable to connect to Azure DevOps. Please check your network connection."
           );
@@ -529,197 +1430,372 @@ export class AzureDevOpsApiClient {
 
   /**
    * Generic GET request with caching support
+   *
+   * Expired cache entries are revalidated with `If-None-Match`, so a
+   * resource that did not change is answered with 304 Not Modified instead of
+   * being downloaded again.
    */
   public async get<T>(
     url: string,
     options: ApiRequestOptions = {}
   ): Promise<T> {
-    const cacheKey = this.getCacheKey("GET", url);
+    return this.cachedGet<T, T>("GET", url, options, (response) => response.data);
+  }
+
+  /**
+   * GET one page of a list, keeping the continuation token Azure DevOps
+   * returns in the `x-ms-continuationtoken` header
+   */
+  private async getPage<T>(
+    url: string,
+    options: ApiRequestOptions = {}
+  ): Promise<ListPage<T>> {
+    return this.cachedGet<ApiResponse<T>, ListPage<T>>(
+      "PAGE",
+      url,
+      options,
+      (response) => ({
+        value: response.data.value || [],
+        continuationToken: response.headers["x-ms-continuationtoken"],
+      })
+    );
+  }
+
+  /**
+   * GET with caching and ETag revalidation, caching what `read` takes from
+   * the response
+   */
+  private async cachedGet<T, R>(
+    method: string,
+    url: string,
+    options: ApiRequestOptions,
+    read: (response: AxiosResponse<T>) => R
+  ): Promise<R> {
+    const cacheKey = this.getCacheKey(method, url);
+
+    // Callers asking for the same resource at once share one request; a
+    // background refresh is not cancelled by the caller that started it
+    const load = (background: boolean) =>
+      this.scheduler.run(
+        (signal) => this.fetchAndCache(cacheKey, url, options, read, signal),
+        background
+          ? { key: cacheKey, priority: "low" }
+          : { key: cacheKey, priority: options.priority, signal: options.signal }
+      );
 
     // Check cache if enabled
-    if (options.useCache !== false) {
-      const cached = this.getFromCache<T>(cacheKey);
-      if (cached) {
+    if (options.useCache !== false && !options.revalidate) {
+      if (options.staleWhileRevalidate) {
+        return this.cacheManager.getStaleWhileRevalidate<R>(cacheKey, load);
+      }
+      const cached = await this.cacheManager.get<R>(cacheKey);
+      if (cached !== null) {
         return cached;
       }
     }
 
+    return load(false);
+  }
+
+  /**
+   * Send a GET, revalidating the cached copy with its ETag, and cache what
+   * `read` takes from the response
+   */
+  private async fetchAndCache<T, R>(
+    cacheKey: string,
+    url: string,
+    options: ApiRequestOptions,
+    read: (response: AxiosResponse<T>) => R,
+    signal: AbortSignal
+  ): Promise<R> {
+    const useCache = options.useCache !== false;
+    const ttl = options.cacheTtl || AzureDevOpsApiClient.DEFAULT_CACHE_TTL;
+    const etag = useCache
+      ? this.cacheManager.getEntry<R>(cacheKey)?.etag
+      : undefined;
     const config: AxiosRequestConfig = {
       timeout: options.timeout || AzureDevOpsApiClient.DEFAULT_TIMEOUT,
+      headers: etag ? { "If-None-Match": etag } : undefined,
+      validateStatus: (status) =>
+        (status >= 200 && status < 300) || (!!etag && status === 304),
+      signal,
     };
 
     const response = await this.axiosInstance.get<T>(url, config);
 
+    if (response.status === 304) {
+      const data = await this.cacheManager.revalidate<R>(cacheKey, ttl);
+      if (data !== null) {
+        return data;
+      }
+      // The entry was invalidated while the request was in flight
+      return this.fetchAndCache(
+        cacheKey,
+        url,
+        { ...options, useCache: false },
+        read,
+        signal
+      );
+    }
+
     // Cache response if enabled
-    if (options.useCache !== false) {
-      this.setCache(
+    const data = read(response);
+    if (useCache) {
+      await this.cacheManager.set(
         cacheKey,
-        response.data,
-        options.cacheTtl || AzureDevOpsApiClient.DEFAULT_CACHE_TTL
+        data,
+        ttl,
+        undefined,
+        getCacheTags(url),
+        response.headers["etag"]
       );
     }
 
-    return response.data;
+    return data;
   }
 
   /**
-   * Generic POST request
+   * Generic POST request; invalidates what was cached for the resource
    */
   public async post<T>(
     url: string,
     data: any,
     options: ApiRequestOptions = {}
   ): Promise<T> {
-    const config: AxiosRequestConfig = {
-      timeout: options.timeout || AzureDevOpsApiClient.DEFAULT_TIMEOUT,
-    };
+    const result = await this.scheduler.run(
+      async (signal) => {
+        const response = await this.axiosInstance.post<T>(url, data, {
+          timeout: options.timeout || AzureDevOpsApiClient.DEFAULT_TIMEOUT,
+          headers: options.headers,
+          signal,
+        });
+        return response.data;
+      },
+      { priority: options.priority, signal: options.signal }
+    );
 
-    const response = await this.axiosInstance.post<T>(url, data, config);
-    return response.data;
+    await this.invalidateWrittenCache(url);
+    return result;
   }
 
   /**
-   * Generic PUT request
+   * Generic PUT request; invalidates what was cached for the resource
    */
   public async put<T>(
     url: string,
     data: any,
     options: ApiRequestOptions = {}
   ): Promise<T> {
-    const config: AxiosRequestConfig = {
-      timeout: options.timeout || AzureDevOpsApiClient.DEFAULT_TIMEOUT,
-    };
+    const result = await this.scheduler.run(
+      async (signal) => {
+        const response = await this.axiosInstance.put<T>(url, data, {
+          timeout: options.timeout || AzureDevOpsApiClient.DEFAULT_TIMEOUT,
+          headers: options.headers,
+          signal,
+        });
+        return response.data;
+      },
+      { priority: options.priority, signal: options.signal }
+    );
 
-    const response = await this.axiosInstance.put<T>(url, data, config);
-    return response.data;
+    await this.invalidateWrittenCache(url);
+    return result;
   }
 
   /**
-   * Generic PATCH request
+   * Generic PATCH request; invalidates what was cached for the resource
    */
   public async patch<T>(
     url: string,
     data: any,
     options: ApiRequestOptions = {}
   ): Promise<T> {
-    const config: AxiosRequestConfig = {
-      timeout: options.timeout || AzureDevOpsApiClient.DEFAULT_TIMEOUT,
-    };
+    const result = await this.scheduler.run(
+      async (signal) => {
+        const response = await this.axiosInstance.patch<T>(url, data, {
+          timeout: options.timeout || AzureDevOpsApiClient.DEFAULT_TIMEOUT,
+          headers: options.headers,
+          signal,
+        });
+        return response.data;
+      },
+      { priority: options.priority, signal: options.signal }
+    );
 
-    const response = await this.axiosInstance.patch<T>(url, data, config);
-    return response.data;
+    await this.invalidateWrittenCache(url);
+    return result;
   }
 
   /**
-   * Generic DELETE request
+   * Generic DELETE request; invalidates what was cached for the resource
    */
   public async delete<T>(
     url: string,
     options: ApiRequestOptions = {}
   ): Promise<T> {
-    const config: AxiosRequestConfig = {
-      timeout: options.timeout || AzureDevOpsApiClient.DEFAULT_TIMEOUT,
-    };
+    const result = await this.scheduler.run(
+      async (signal) => {
+        const response = await this.axiosInstance.delete<T>(url, {
+          timeout: options.timeout || AzureDevOpsApiClient.DEFAULT_TIMEOUT,
+          signal,
+        });
+        return response.data;
+      },
+      { priority: options.priority, signal: options.signal }
+    );
 
-    const response = await this.axiosInstance.delete<T>(url, config);
-    return response.data;
+    await this.invalidateWrittenCache(url);
+    return result;
   }
 
   /**
-   * Check and enforce rate limiting
+   * Wait for the rate limiter, in the order requests arrive
    */
-  private async checkRateLimit(): Promise<void> {
-    const now = Date.now();
-    const windowStart = now - AzureDevOpsApiClient.RATE_LIMIT.windowMs;
+  private checkRateLimit(): Promise<void> {
+    this.queuedRequests++;
+    const slot = this.rateLimitQueue.then(() => this.waitForRequestSlot());
+    this.rateLimitQueue = slot.catch(() => undefined);
+    return slot.finally(() => {
+      this.queuedRequests--;
+    });
+  }
 
-    // Remove old entries
-    while (
-      this.rateLimitTracker.length > 0 &&
-      this.rateLimitTracker[0] < windowStart
-    ) {
-      this.rateLimitTracker.shift();
-    }
+  /**
+   * Wait until the server accepts requests again and the current limit
+   * leaves room in the window, then record the request
+   */
+  private async waitForRequestSlot(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const windowStart = now - AzureDevOpsApiClient.RATE_LIMIT.windowMs;
+
+      // Remove old entries
+      while (
+        this.rateLimitTracker.length > 0 &&
+        this.rateLimitTracker[0] <= windowStart
+      ) {
+        this.rateLimitTracker.shift();
+      }
 
-    // Check if we're at the limit
-    if (
-      this.rateLimitTracker.length >=
-      AzureDevOpsApiClient.RATE_LIMIT.maxRequests
-    ) {
-      const delay =
-        this.rateLimitTracker[0] +
-        AzureDevOpsApiClient.RATE_LIMIT.windowMs -
-        now;
-      if (delay > 0) {
-        await this.delay(delay);
+      const windowDelay =
+        this.rateLimitTracker.length >= this.requestLimit
+          ? this.rateLimitTracker[
+              this.rateLimitTracker.length - this.requestLimit
+            ] +
+            AzureDevOpsApiClient.RATE_LIMIT.windowMs -
+            now
+          : 0;
+      const delay = Math.max(this.throttledUntil - now, windowDelay);
+      if (delay <= 0) {
+        this.rateLimitTracker.push(now);
+        return;
       }
+      await this.delay(delay);
     }
-
-    // Record this request
-    this.rateLimitTracker.push(now);
   }
 
   /**
-   * Generate cache key for request
+   * Hold back all requests for a while
    */
-  private getCacheKey(method: string, url: string): string {
-    return `${method}_${Buffer.from(url).toString("base64")}`;
+  private delayRequests(ms: number): void {
+    this.throttledUntil = Math.max(this.throttledUntil, Date.now() + ms);
   }
 
   /**
-   * Get data from cache (memory first, then session storage)
+   * Adapt the limiter to the rate limit headers of a response
+   *
+   * The limit is halved while the server delays or rejects requests, or
+   * usage gets close to its limit, and recovers by one request per minute
+   * with every response that is not throttled.
    */
-  private getFromCache<T>(key: string): T | null {
-    // Check memory cache first
-    const memoryEntry = this.memoryCache.get(key);
-    if (memoryEntry && memoryEntry.expiry > Date.now()) {
-      return memoryEntry.data;
-    }
-
-    // Check session storage
-    const sessionKey = `api_cache_${key}`;
-    const sessionEntry = this.sessionStorage.get<CacheEntry<T>>(sessionKey);
-    if (sessionEntry && sessionEntry.expiry > Date.now()) {
-      // Promote to memory cache
-      this.memoryCache.set(key, sessionEntry);
-      return sessionEntry.data;
+  private updateThrottling(
+    headers: Record<string, unknown> | undefined,
+    status: number
+  ): void {
+    const retryAfter = parseRetryAfter(headers?.["retry-after"]);
+    const delaySeconds = parseHeaderNumber(headers?.["x-ratelimit-delay"]);
+    const remaining = parseHeaderNumber(headers?.["x-ratelimit-remaining"]);
+    const limit = parseHeaderNumber(headers?.["x-ratelimit-limit"]);
+    const resource = headers?.["x-ratelimit-resource"];
+
+    if (retryAfter !== undefined) {
+      this.delayRequests(retryAfter);
     }
+    this.rateLimitHeaders = {
+      resource: typeof resource === "string" ? resource : undefined,
+      delaySeconds,
+      remaining,
+      limit,
+    };
 
-    return null;
+    const throttled =
+      status === 429 ||
+      retryAfter !== undefined ||
+      (delaySeconds !== undefined && delaySeconds > 0) ||
+      (remaining !== undefined &&
+        limit !== undefined &&
+        limit > 0 &&
+        remaining / limit < AzureDevOpsApiClient.LOW_REMAINING_RATIO);
+    const { maxRequests, minRequests } = AzureDevOpsApiClient.RATE_LIMIT;
+    this.requestLimit = throttled
+      ? Math.max(minRequests, Math.floor(this.requestLimit / 2))
+      : Math.min(maxRequests, this.requestLimit + 1);
   }
 
   /**
-   * Set data in cache (both memory and session storage)
+   * Get the connection profile a request belongs to, by its URL before it
+   * was pointed at `azureDevOps.apiBaseUrl`
    */
-  private setCache<T>(key: string, data: T, ttl: number): void {
-    const entry: CacheEntry<T> = {
-      data,
-      expiry: Date.now() + ttl,
-    };
-
-    // Set in memory cache
-    this.memoryCache.set(key, entry);
+  private getRequestProfile(
+    config: ExtendedAxiosRequestConfig
+  ): ConnectionProfile | undefined {
+    const url = config.metadata?.url ?? config.url;
+    return url ? this.configService.getProfileForUrl(url) : undefined;
+  }
 
-    // Set in session storage (async, don't wait)
-    const sessionKey = `api_cache_${key}`;
-    this.sessionStorage.update(sessionKey, entry);
+  /**
+   * Generate cache key for request
+   */
+  private getCacheKey(method: string, url: string): string {
+    return `${method}_${Buffer.from(url).toString("base64")}`;
   }
 
   /**
-   * Invalidate cache entries by key pattern
+   * Invalidate what was cached for the resource a write went to
    */
-  private invalidateCache(pattern: string): void {
-    // Invalidate memory cache
-    for (const key of Array.from(this.memoryCache.keys())) {
-      if (key.includes(pattern)) {
-        this.memoryCache.delete(key);
-      }
+  private async invalidateWrittenCache(url: string): Promise<void> {
+    const tags = getCacheTags(url);
+    const target = parsePullRequestUrl(url);
+    if (target?.pullRequestId !== undefined && !target.threads) {
+      // Listings show titles, status and votes
+      tags.push(pullRequestListCacheTag(target.repositoryId));
     }
+    await this.cacheManager.invalidateTags(tags);
+  }
 
-    // Invalidate session storage
-    const sessionKeys = this.context.workspaceState
-      .keys()
-      .filter((key) => key.startsWith("api_cache_") && key.includes(pattern));
-    sessionKeys.forEach((key) => this.sessionStorage.update(key, undefined));
+  /**
+   * Invalidate what was cached for a pull request, including the
+   * repository's pull request listings
+   */
+  private async invalidatePullRequestCache(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<void> {
+    await this.cacheManager.invalidateTags([
+      pullRequestCacheTag(repositoryId, pullRequestId),
+      pullRequestListCacheTag(repositoryId),
+    ]);
+  }
+
+  /**
+   * Build the artifact URL work items use to link to a pull request
+   */
+  private getPullRequestArtifactUrl(
+    projectId: string,
+    repositoryId: string,
+    pullRequestId: number
+  ): string {
+    return `vstfs:///Git/PullRequestId/${projectId}%2F${repositoryId}%2F${pullRequestId}`;
   }
 
   /**
@@ -785,14 +1861,14 @@ export class AzureDevOpsApiClient {
   /**
    * Register callback for request completion notifications
    */
-  public onRequestCompleted(callback: (duration: number, endpoint: string, success: boolean) => void): void {
+  public onRequestCompleted(callback: RequestCompletedCallback): void {
     this.requestCallbacks.push(callback);
   }
 
   /**
    * Remove callback for request completion notifications
    */
-  public removeRequestCallback(callback: (duration: number, endpoint: string, success: boolean) => void): void {
+  public removeRequestCallback(callback: RequestCompletedCallback): void {
     const index = this.requestCallbacks.indexOf(callback);
     if (index > -1) {
       this.requestCallbacks.splice(index, 1);
@@ -803,9 +1879,10 @@ export class AzureDevOpsApiClient {
    * Notify all registered callbacks about request completion
    */
   private notifyRequestCallbacks(duration: number, endpoint: string, success: boolean): void {
+    const throttling = this.getThrottlingState();
     this.requestCallbacks.forEach(callback => {
       try {
-        callback(duration, endpoint, success);
+        callback(duration, endpoint, success, throttling);
       } catch (error) {
         console.error('Error in request callback:', error);
       }
@@ -818,9 +1895,9 @@ export class AzureDevOpsApiClient {
   private extractEndpointFromUrl(url: string): string {
     try {
       // Remove organization URL and API version parameters
-      const config = this.configService.getConfiguration();
-      if (config.organizationUrl && url.startsWith(config.organizationUrl)) {
-        const relativeUrl = url.substring(config.organizationUrl.length);
+      const profile = this.configService.getProfileForUrl(url);
+      if (profile) {
+        const relativeUrl = url.substring(profile.organizationUrl.length);
         // Extract the main endpoint (e.g., _apis/git/repositories, _apis/git/pullrequests)
         const match = relativeUrl.match(/\/(_apis\/[^\/?]+)/);
         return match ? match[1] : 'unknown';
@@ -831,3 +1908,68 @@ export class AzureDevOpsApiClient {
     }
   }
 }
+
+/**
+ * Parse a `Retry-After` header given in seconds or as an HTTP date
+ *
+ * @returns Milliseconds to wait, undefined without a valid header
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Parse a numeric header, e.g. `X-RateLimit-Remaining`
+ */
+function parseHeaderNumber(value: unknown): number | undefined {
+  const number =
+    typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * Find the pull request resource a URL points at
+ */
+function parsePullRequestUrl(
+  url: string
+):
+  | { repositoryId: string; pullRequestId?: number; threads: boolean }
+  | undefined {
+  const match =
+    /\/repositories\/([^/?]+)\/pullrequests(?:\/(\d+)(\/threads)?)?/i.exec(
+      url.split("?")[0]
+    );
+  if (!match) {
+    return undefined;
+  }
+  return {
+    repositoryId: match[1],
+    pullRequestId: match[2] ? Number(match[2]) : undefined,
+    threads: !!match[3],
+  };
+}
+
+/**
+ * Get the invalidation tags a response is cached under
+ */
+function getCacheTags(url: string): string[] {
+  const target = parsePullRequestUrl(url);
+  if (!target) {
+    // Policy evaluation URLs do not name the repository
+    return url.includes("/_apis/policy/evaluations") ? ["policies"] : [];
+  }
+  if (target.pullRequestId === undefined) {
+    return [pullRequestListCacheTag(target.repositoryId)];
+  }
+  return target.threads
+    ? [commentThreadsCacheTag(target.repositoryId, target.pullRequestId)]
+    : [pullRequestCacheTag(target.repositoryId, target.pullRequestId)];
+}
@@ -0,0 +1,241 @@
+/**
+ * Request priority; background work runs at "low" so user-initiated
+ * requests go first
+ */
+export type RequestPriority = "high" | "normal" | "low";
+
+/**
+ * Options for scheduling a request
+ */
+export interface ScheduleOptions {
+  /** Defaults to "normal" */
+  readonly priority?: RequestPriority;
+  /** Cancels the request for this caller */
+  readonly signal?: AbortSignal;
+  /** Requests with the same key share one request while it is queued or in flight */
+  readonly key?: string;
+}
+
+/**
+ * Scheduler statistics
+ */
+export interface SchedulerStats {
+  readonly active: number;
+  readonly queued: number;
+  /** Requests that joined an identical queued or in-flight request */
+  readonly coalesced: number;
+}
+
+/**
+ * Request waiting for a slot
+ */
+interface QueuedRequest {
+  priority: RequestPriority;
+  readonly sequence: number;
+  readonly start: () => void;
+}
+
+/**
+ * Request shared by all callers that asked for it while it was pending
+ */
+interface SharedRequest {
+  readonly controller: AbortController;
+  promise?: Promise<unknown>;
+  /** Callers still waiting for the result */
+  subscribers: number;
+  /** Set while the request waits for a slot */
+  queued?: QueuedRequest;
+}
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+/**
+ * Schedules API requests: coalesces identical requests, runs higher
+ * priorities first, caps how many run at once, and cancels requests nobody
+ * waits for anymore
+ */
+export class RequestScheduler {
+  private readonly queue: QueuedRequest[] = [];
+  private readonly pending = new Map<string, SharedRequest>();
+  private active = 0;
+  private sequence = 0;
+  private coalesced = 0;
+
+  /**
+   * @param maxConcurrent Most requests to run at once
+   */
+  constructor(private readonly maxConcurrent: number) {}
+
+  /**
+   * Run a request once a slot is free
+   *
+   * A request with the key of a pending one joins it instead, raising its
+   * priority if needed. The request is cancelled once every caller that
+   * joined it has aborted.
+   *
+   * @param task Request to run; gets a signal to pass on to the HTTP client
+   * @param options Priority, cancellation and coalescing key
+   * @returns Promise resolving to the request's result, rejected with an
+   *   `AbortError` when the caller's signal aborts first
+   */
+  run<T>(
+    task: (signal: AbortSignal) => Promise<T>,
+    options: ScheduleOptions = {}
+  ): Promise<T> {
+    const priority = options.priority || "normal";
+    if (options.signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    // A request every caller aborted is still pending until it settles, but
+    // must not be joined
+    const existing = options.key ? this.pending.get(options.key) : undefined;
+    if (existing && !existing.controller.signal.aborted) {
+      this.coalesced++;
+      if (
+        existing.queued &&
+        PRIORITY_ORDER[priority] < PRIORITY_ORDER[existing.queued.priority]
+      ) {
+        existing.queued.priority = priority;
+      }
+      return this.subscribe(existing, options.signal) as Promise<T>;
+    }
+
+    const shared: SharedRequest = {
+      controller: new AbortController(),
+      subscribers: 0,
+    };
+    const key = options.key;
+    shared.promise = this.enqueue(shared, priority, task).finally(() => {
+      if (key && this.pending.get(key) === shared) {
+        this.pending.delete(key);
+      }
+    });
+    if (key) {
+      this.pending.set(key, shared);
+    }
+    return this.subscribe(shared, options.signal) as Promise<T>;
+  }
+
+  /**
+   * Get scheduler statistics
+   */
+  getStats(): SchedulerStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      coalesced: this.coalesced,
+    };
+  }
+
+  /**
+   * Wait for a shared request on behalf of one caller
+   */
+  private subscribe(
+    shared: SharedRequest,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    shared.subscribers++;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(createAbortError());
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          shared.controller.abort();
+        }
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      shared.promise!.then(
+        (value) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Queue a request and run it when its turn comes
+   */
+  private enqueue<T>(
+    shared: SharedRequest,
+    priority: RequestPriority,
+    task: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const entry: QueuedRequest = {
+        priority,
+        sequence: this.sequence++,
+        start: () => {
+          shared.queued = undefined;
+          this.active++;
+          task(shared.controller.signal)
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.startNext();
+            });
+        },
+      };
+      shared.queued = entry;
+
+      // Drop requests that are cancelled before they start
+      shared.controller.signal.addEventListener(
+        "abort",
+        () => {
+          const index = this.queue.indexOf(entry);
+          if (index >= 0) {
+            this.queue.splice(index, 1);
+            shared.queued = undefined;
+            reject(createAbortError());
+          }
+        },
+        { once: true }
+      );
+
+      this.queue.push(entry);
+      this.startNext();
+    });
+  }
+
+  /**
+   * Start queued requests while slots are free, highest priority and oldest
+   * first
+   */
+  private startNext(): void {
+    while (this.active < this.maxConcurrent && this.queue.length > 0) {
+      let next = 0;
+      for (let index = 1; index < this.queue.length; index++) {
+        const candidate = this.queue[index];
+        const best = this.queue[next];
+        if (
+          PRIORITY_ORDER[candidate.priority] < PRIORITY_ORDER[best.priority] ||
+          (candidate.priority === best.priority &&
+            candidate.sequence < best.sequence)
+        ) {
+          next = index;
+        }
+      }
+      this.queue.splice(next, 1)[0].start();
+    }
+  }
+}
+
+/**
+ * Create the error cancelled requests are rejected with
+ */
+function createAbortError(): Error {
+  const error = new Error("Request was cancelled");
+  error.name = "AbortError";
+  return error;
+}
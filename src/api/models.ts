@@ -101,6 +101,28 @@ export type PullRequestMergeStatus =
   | "rejectedByPolicy"
   | "succeeded";
 
+/**
+ * Strategy used to merge a completed pull request
+ * (merge commit, squash, rebase and fast-forward, rebase with merge commit)
+ */
+export type GitPullRequestMergeStrategy =
+  | "noFastForward"
+  | "squash"
+  | "rebase"
+  | "rebaseMerge";
+
+/**
+ * Options applied when a pull request is completed
+ */
+export interface GitPullRequestCompletionOptions {
+  readonly mergeStrategy?: GitPullRequestMergeStrategy;
+  readonly deleteSourceBranch?: boolean;
+  readonly transitionWorkItems?: boolean;
+  readonly mergeCommitMessage?: string;
+  readonly bypassPolicy?: boolean;
+  readonly bypassReason?: string;
+}
+
 /**
  * Azure DevOps Pull Request model
  */
@@ -130,6 +152,8 @@ export interface PullRequest {
   readonly hasMultipleMergeBases: boolean;
   readonly supportsIterations: boolean;
   readonly artifactId: string;
+  readonly autoCompleteSetBy?: Identity;
+  readonly completionOptions?: GitPullRequestCompletionOptions;
 }
 
 /**
@@ -147,6 +171,17 @@ export interface PullRequestReviewer {
   readonly imageUrl: string;
   readonly isRequired: boolean;
   readonly isContainer?: boolean;
+  readonly votedFor?: PullRequestReviewer[];
+}
+
+/**
+ * Identity returned by an identity search (user or group)
+ */
+export interface IdentitySearchResult {
+  readonly id: string;
+  readonly displayName: string;
+  readonly uniqueName: string;
+  readonly isGroup: boolean;
 }
 
 /**
@@ -212,6 +247,11 @@ export interface CommentThreadContext {
   readonly rightFileEnd?: CommentPosition;
 }
 
+/**
+ * Side of a diff a comment thread is anchored to (left = base, right = source)
+ */
+export type CommentThreadSide = "left" | "right";
+
 /**
  * Pull request specific comment thread context
  */
@@ -306,6 +346,15 @@ export interface GitPullRequestChange {
   readonly originalPath?: string;
 }
 
+/**
+ * Changes of a pull request iteration
+ */
+export interface GitPullRequestIterationChanges {
+  readonly changeEntries: GitPullRequestChange[];
+  readonly nextSkip?: number;
+  readonly nextTop?: number;
+}
+
 /**
  * Version control change type
  */
@@ -365,6 +414,39 @@ export interface FileContentMetadata {
   readonly vsLink?: string;
 }
 
+/**
+ * Ref update of a push; the push is rejected if the ref no longer points at
+ * `oldObjectId`
+ */
+export interface GitRefUpdate {
+  readonly name: string;
+  readonly oldObjectId: string;
+  readonly newObjectId?: string;
+}
+
+/**
+ * File change committed by a push
+ */
+export interface GitPushChange {
+  readonly changeType: VersionControlChangeType;
+  readonly item: { readonly path: string };
+  readonly newContent?: {
+    readonly content: string;
+    readonly contentType: "rawtext" | "base64encoded";
+  };
+}
+
+/**
+ * Push created through the Pushes API
+ */
+export interface GitPush {
+  readonly pushId: number;
+  readonly date: Date;
+  readonly refUpdates: GitRefUpdate[];
+  readonly commits: GitCommitRef[];
+  readonly url: string;
+}
+
 /**
  * API response wrapper for paginated results
  */
@@ -432,3 +514,23 @@ export interface PolicyType {
   readonly url: string;
   readonly description?: string;
 }
+
+/**
+ * Work item returned by the Work Item Tracking API
+ */
+export interface WorkItem {
+  readonly id: number;
+  readonly rev: number;
+  readonly fields: Record<string, unknown>;
+  readonly url: string;
+  readonly relations?: WorkItemRelation[];
+}
+
+/**
+ * Link from a work item to another work item or artifact
+ */
+export interface WorkItemRelation {
+  readonly rel: string;
+  readonly url: string;
+  readonly attributes?: Record<string, unknown>;
+}
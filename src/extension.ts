@@ -5,6 +5,7 @@ import { MonitoringService } from "./services/MonitoringService";
 import { ConfigurationService } from "./services/ConfigurationService";
 import { AuthenticationService } from "./services/AuthenticationService";
 import { AzureDevOpsApiClient } from "./api/AzureDevOpsApiClient";
+import { CacheManager } from "./services/CacheManager";
 // import { LoadTestCommands } from "./commands/LoadTestCommands";
 
 /**
@@ -26,10 +27,14 @@ export async function activate(
       "azure-devops-pr-reviewer",
       "1.0.0"
     );
+    // One cache for the API client and the services, so invalidation reaches all of them
+    const cacheManager = new CacheManager(context);
+    await cacheManager.initialize();
     const apiClient = new AzureDevOpsApiClient(
       authenticationService,
       configurationService,
-      context
+      context,
+      cacheManager
     );
 
     // Initialize monitoring service
@@ -41,12 +46,21 @@ export async function activate(
     );
 
     // Initialize extension controller (handles all services and commands)
-    const extensionController = new ExtensionController(context, apiClient);
+    const extensionController = new ExtensionController(
+      context,
+      apiClient,
+      authenticationService,
+      cacheManager
+    );
 
     // Initialize load testing commands (temporarily disabled during TS5 migration)
     // const loadTestCommands = new LoadTestCommands(context);
 
-    context.subscriptions.push(extensionController, monitoringService);
+    context.subscriptions.push(
+      extensionController,
+      monitoringService,
+      authenticationService
+    );
 
     // Track activation event
     telemetryService.trackEvent("extensionActivated");
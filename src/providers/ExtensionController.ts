@@ -1,8 +1,23 @@
 import * as vscode from "vscode";
 import { PullRequestTreeProvider } from "./PullRequestTreeProvider";
+import { PullRequestContentProvider } from "./PullRequestContentProvider";
+import { PullRequestCommentController } from "./PullRequestCommentController";
+import { NotificationTreeProvider } from "./NotificationTreeProvider";
+import { IdentityQuickPick } from "./IdentityQuickPick";
+import { WorkItemQuickPick } from "./WorkItemQuickPick";
+import { PRDetailWebView } from "../webview/PRDetailWebView";
+import { WorkItemWebView } from "../webview/WorkItemWebView";
+import { CreatePullRequestWebView } from "../webview/CreatePullRequestWebView";
 import { PullRequestService } from "../services/PullRequestService";
 import { CommentService } from "../services/CommentService";
-import { ConfigurationService } from "../services/ConfigurationService";
+import {
+  AuthenticationMethod,
+  ConfigurationService,
+  ConnectionProfile,
+  SavedPullRequestQuery,
+} from "../services/ConfigurationService";
+import { QueryService, PullRequestQuery } from "../services/QueryService";
+import { AuthenticationService } from "../services/AuthenticationService";
 import { StateManager } from "../services/StateManager";
 import { TelemetryService } from "../services/TelemetryService";
 import { MonitoringService } from "../services/MonitoringService";
@@ -10,8 +25,35 @@ import { CacheManager } from "../services/CacheManager";
 import { ErrorHandler, ErrorCategory } from "../utils/ErrorHandler";
 import { AzureDevOpsApiClient } from "../api/AzureDevOpsApiClient";
 import { IntegrationService } from "../services/IntegrationService";
+import { BackgroundSyncService } from "../services/BackgroundSyncService";
+import { OutboxService } from "../services/OutboxService";
+import { ReviewDraftService } from "../services/ReviewDraftService";
+import {
+  NotificationService,
+  PullRequestNotification,
+} from "../services/NotificationService";
+import { SuggestionService } from "../services/SuggestionService";
+import { ViewedFilesService } from "../services/ViewedFilesService";
+import { PolicyService } from "../services/PolicyService";
+import {
+  WorkItemService,
+  WorkItemSummary,
+} from "../services/WorkItemService";
+import {
+  GitCheckoutService,
+  CheckoutMode,
+  LocalRepositoryMatch,
+} from "../services/GitCheckoutService";
 import { WorkflowService, WorkflowResult } from "../services/WorkflowService";
-import { PullRequest, GitRepository, CommentThread } from "../api/models";
+import {
+  PullRequest,
+  GitRepository,
+  GitPullRequestIteration,
+  PullRequestReviewer,
+  PullRequestVote,
+  GitPullRequestCompletionOptions,
+  GitPullRequestMergeStrategy,
+} from "../api/models";
 
 // Type for tree item data passed to command handlers
 interface PullRequestTreeItemData {
@@ -21,9 +63,9 @@ interface PullRequestTreeItemData {
   pullRequestId: number;
 }
 
-// Type for webview messages
-interface WebviewMessage {
-  command: "approve" | "reject" | "comment";
+// Type for linked work item tree item data passed to command handlers
+interface WorkItemTreeItemData extends PullRequestTreeItemData {
+  workItem?: WorkItemSummary;
 }
 
 /**
@@ -41,17 +83,31 @@ export class ExtensionController implements vscode.Disposable {
   private readonly cacheManager: CacheManager;
   private readonly errorHandler: ErrorHandler;
   private readonly apiClient: AzureDevOpsApiClient;
+  private readonly authenticationService: AuthenticationService;
   private readonly integrationService: IntegrationService;
   private readonly workflowService: WorkflowService;
+  private readonly commentController: PullRequestCommentController;
+  private readonly gitCheckoutService: GitCheckoutService;
+  private readonly policyService: PolicyService;
+  private readonly queryService: QueryService;
+  private readonly workItemService: WorkItemService;
+  private readonly backgroundSyncService: BackgroundSyncService;
+  private readonly outboxService: OutboxService;
+  private readonly reviewDraftService: ReviewDraftService;
+  private readonly notificationService: NotificationService;
 
   private disposables: vscode.Disposable[] = [];
 
   constructor(
     context: vscode.ExtensionContext,
-    apiClient: AzureDevOpsApiClient
+    apiClient: AzureDevOpsApiClient,
+    authenticationService: AuthenticationService,
+    cacheManager: CacheManager
   ) {
     this.context = context;
     this.apiClient = apiClient;
+    this.authenticationService = authenticationService;
+    this.cacheManager = cacheManager;
     this.configurationService = new ConfigurationService();
     this.stateManager = new StateManager(context);
     this.telemetryService = TelemetryService.getInstance(
@@ -59,19 +115,20 @@ export class ExtensionController implements vscode.Disposable {
       "1.0.0"
     );
     this.monitoringService = MonitoringService.getInstance();
-    this.cacheManager = new CacheManager(context);
     this.errorHandler = ErrorHandler.getInstance(this.telemetryService);
 
     this.pullRequestService = new PullRequestService(
       this.apiClient,
       this.configurationService,
-      context
+      context,
+      this.cacheManager
     );
 
     this.commentService = new CommentService(
       this.apiClient,
       this.configurationService,
-      context
+      context,
+      this.cacheManager
     );
 
     this.integrationService = new IntegrationService(
@@ -92,11 +149,74 @@ export class ExtensionController implements vscode.Disposable {
       this.stateManager
     );
 
+    this.policyService = new PolicyService(
+      this.apiClient,
+      this.pullRequestService
+    );
+
+    this.queryService = new QueryService(
+      this.apiClient,
+      this.configurationService,
+      this.pullRequestService
+    );
+
+    this.workItemService = new WorkItemService(this.apiClient);
+
     this.treeProvider = new PullRequestTreeProvider(
       this.pullRequestService,
       this.stateManager,
       this.telemetryService,
-      this.integrationService
+      this.integrationService,
+      new ViewedFilesService(this.apiClient),
+      this.policyService,
+      this.queryService,
+      this.workItemService
+    );
+
+    this.gitCheckoutService = new GitCheckoutService();
+
+    // Polling stays with the refresh timer; the sync service tracks whether
+    // Azure DevOps is reachable for the outbox
+    this.backgroundSyncService = new BackgroundSyncService(
+      this.pullRequestService,
+      this.commentService,
+      this.stateManager,
+      this.cacheManager,
+      context,
+      { enabled: false, syncOnFocus: false }
+    );
+
+    this.outboxService = new OutboxService(
+      this.apiClient,
+      this.commentService,
+      this.pullRequestService,
+      this.backgroundSyncService,
+      context
+    );
+
+    this.reviewDraftService = new ReviewDraftService(context);
+
+    this.notificationService = new NotificationService(
+      this.pullRequestService,
+      this.commentService,
+      this.policyService,
+      this.configurationService,
+      this.backgroundSyncService,
+      context
+    );
+
+    this.commentController = new PullRequestCommentController(
+      this.commentService,
+      this.pullRequestService,
+      this.outboxService,
+      this.reviewDraftService,
+      new SuggestionService(
+        this.apiClient,
+        this.pullRequestService,
+        this.commentService,
+        this.gitCheckoutService
+      ),
+      this.errorHandler
     );
 
     this.initialize();
@@ -107,8 +227,12 @@ export class ExtensionController implements vscode.Disposable {
    */
   private async initialize(): Promise<void> {
     try {
-      // Initialize cache manager
-      await this.cacheManager.initialize();
+      // Show the pull request view once any connection profile exists
+      await vscode.commands.executeCommand(
+        "setContext",
+        "azureDevOps:configured",
+        this.configurationService.getProfiles().length > 0
+      );
 
       // Register tree view
       const treeView = vscode.window.createTreeView("azureDevOpsPRs", {
@@ -118,6 +242,33 @@ export class ExtensionController implements vscode.Disposable {
 
       this.disposables.push(treeView);
 
+      // Persist viewed file checkboxes
+      this.disposables.push(
+        treeView.onDidChangeCheckboxState((e) => {
+          this.treeProvider.updateViewedState(e.items);
+        })
+      );
+
+      // Register notifications view
+      const notificationTreeProvider = new NotificationTreeProvider(
+        this.notificationService
+      );
+      this.disposables.push(
+        notificationTreeProvider,
+        vscode.window.registerTreeDataProvider(
+          NotificationService.VIEW_ID,
+          notificationTreeProvider
+        )
+      );
+
+      // Serve pull request file versions to the diff editor
+      this.disposables.push(
+        vscode.workspace.registerTextDocumentContentProvider(
+          PullRequestContentProvider.SCHEME,
+          new PullRequestContentProvider(this.apiClient)
+        )
+      );
+
       // Load initial pull requests after cache is initialized
       await this.treeProvider.refresh();
 
@@ -150,6 +301,69 @@ export class ExtensionController implements vscode.Disposable {
       })
     );
 
+    this.disposables.push(
+      vscode.commands.registerCommand("azureDevOps.addProfile", () =>
+        this.addProfile()
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.removeProfile",
+        (item?: { profile?: ConnectionProfile }) => this.removeProfile(item)
+      )
+    );
+
+    // Saved query commands
+    this.disposables.push(
+      vscode.commands.registerCommand("azureDevOps.saveQuery", () =>
+        this.saveQuery()
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.removeSavedQuery",
+        (item?: { query?: PullRequestQuery }) => this.removeSavedQuery(item)
+      )
+    );
+
+    // Offline outbox commands
+    this.disposables.push(
+      vscode.commands.registerCommand("azureDevOps.showPendingActions", () =>
+        this.outboxService.showPendingActions()
+      )
+    );
+
+    // Notification commands
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        NotificationService.OPEN_COMMAND,
+        (item: PullRequestNotification | { notification: PullRequestNotification }) =>
+          this.openNotification("notification" in item ? item.notification : item)
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.markNotificationRead",
+        (item: { notification: PullRequestNotification }) =>
+          this.notificationService.markRead(item.notification.id)
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand("azureDevOps.markAllNotificationsRead", () =>
+        this.notificationService.markAllRead()
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand("azureDevOps.checkNotifications", () =>
+        this.notificationService.check()
+      )
+    );
+
     // Pull request commands
     this.disposables.push(
       vscode.commands.registerCommand("azureDevOps.refreshPullRequests", () => {
@@ -157,6 +371,13 @@ export class ExtensionController implements vscode.Disposable {
       })
     );
 
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.loadMorePullRequests",
+        (item: vscode.TreeItem) => this.treeProvider.loadMorePullRequests(item)
+      )
+    );
+
     this.disposables.push(
       vscode.commands.registerCommand(
         "azureDevOps.approvePullRequest",
@@ -202,6 +423,206 @@ export class ExtensionController implements vscode.Disposable {
       })
     );
 
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.checkoutPullRequest",
+        (item: PullRequestTreeItemData) => {
+          this.checkoutPullRequest(item);
+        }
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.completePullRequest",
+        (item: PullRequestTreeItemData) => this.completePullRequest(item)
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.setAutoComplete",
+        (item: PullRequestTreeItemData) => this.setAutoComplete(item)
+      )
+    );
+
+    // Reviewer commands
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.addReviewer",
+        (item: PullRequestTreeItemData) => this.addReviewer(item)
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.removeReviewer",
+        (item: PullRequestTreeItemData, reviewerId?: string) =>
+          this.removeReviewer(item, reviewerId)
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.toggleReviewerRequired",
+        (item: PullRequestTreeItemData, reviewerId?: string) =>
+          this.toggleReviewerRequired(item, reviewerId)
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.resetReviewerVote",
+        (item: PullRequestTreeItemData, reviewerId?: string) =>
+          this.resetReviewerVote(item, reviewerId)
+      )
+    );
+
+    // Work item commands
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.linkWorkItem",
+        (item: PullRequestTreeItemData) => this.linkWorkItem(item)
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.unlinkWorkItem",
+        (item: WorkItemTreeItemData, workItemId?: number) =>
+          this.unlinkWorkItem(item, workItemId)
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.openWorkItem",
+        (item: WorkItemTreeItemData, workItemId?: number) =>
+          this.openWorkItem(item, workItemId)
+      )
+    );
+
+    // Pending review commands
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.startReview",
+        (item: PullRequestTreeItemData) => this.startReview(item)
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.submitReview",
+        (item: PullRequestTreeItemData, vote?: PullRequestVote) =>
+          this.submitReview(item, vote)
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.discardReview",
+        (item: PullRequestTreeItemData) => this.discardReview(item)
+      )
+    );
+
+    // Iteration comparison commands
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.compareIterations",
+        (item: PullRequestTreeItemData) => {
+          this.compareIterations(item);
+        }
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.showChangesSinceLastReview",
+        (item: PullRequestTreeItemData) => {
+          this.showChangesSinceLastReview(item);
+        }
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.clearIterationComparison",
+        (item: PullRequestTreeItemData) => {
+          if (item && item.pullRequest) {
+            this.treeProvider.setIterationComparison(
+              item.repository.id,
+              item.pullRequest.pullRequestId
+            );
+          }
+        }
+      )
+    );
+
+    // Inline comment commands
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.submitComment",
+        (reply: vscode.CommentReply) => {
+          this.commentController.submitComment(reply);
+        }
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.resolveThread",
+        (thread: vscode.CommentThread) => {
+          this.commentController.resolveThread(thread);
+        }
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.reactivateThread",
+        (thread: vscode.CommentThread) => {
+          this.commentController.reactivateThread(thread);
+        }
+      )
+    );
+
+    // Suggestion commands
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.suggestChange",
+        (reply: vscode.CommentReply) => {
+          this.commentController.suggestChange(reply);
+        }
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.saveSuggestion",
+        (comment: vscode.Comment) => {
+          this.commentController.saveSuggestion(comment);
+        }
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.cancelSuggestion",
+        (comment: vscode.Comment) => {
+          this.commentController.cancelSuggestion(comment);
+        }
+      )
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand(
+        "azureDevOps.applySuggestion",
+        (comment: vscode.Comment) => {
+          this.commentController.applySuggestion(comment);
+        }
+      )
+    );
+
     // Workflow commands
     this.disposables.push(
       vscode.commands.registerCommand(
@@ -229,53 +650,8 @@ export class ExtensionController implements vscode.Disposable {
     this.disposables.push(
       vscode.commands.registerCommand(
         "azureDevOps.createPullRequest",
-        async () => {
-          try {
-            // Quick pick for branch selection
-            const sourceBranch = await vscode.window.showInputBox({
-              prompt: "Enter source branch name",
-              placeHolder: "feature/new-feature",
-            });
-            if (!sourceBranch) {
-              return;
-            }
-
-            const targetBranch = await vscode.window.showInputBox({
-              prompt: "Enter target branch name",
-              placeHolder: "main",
-            });
-            if (!targetBranch) {
-              return;
-            }
-
-            const title = await vscode.window.showInputBox({
-              prompt: "Enter pull request title",
-              placeHolder: "Add new feature",
-            });
-            if (!title) {
-              return;
-            }
-
-            const description = await vscode.window.showInputBox({
-              prompt: "Enter pull request description (optional)",
-              placeHolder: "Description of changes",
-            });
-
-            const result =
-              await this.workflowService.executePullRequestCreationWorkflow(
-                sourceBranch,
-                targetBranch,
-                title,
-                description || ""
-              );
-            this.showWorkflowResult(result);
-          } catch (error) {
-            await this.errorHandler.handleError(
-              error instanceof Error ? error : String(error),
-              ErrorCategory.INTERNAL
-            );
-          }
-        }
+        (item?: { repository?: GitRepository }) =>
+          this.createPullRequest(item?.repository)
       )
     );
 
@@ -390,11 +766,15 @@ export class ExtensionController implements vscode.Disposable {
       })
     );
 
-    // Tree view selection changes
+    // Show what was refreshed after the tree rendered it from the cache,
+    // once a burst of refreshes settles
+    let staleRefresh: ReturnType<typeof setTimeout> | undefined;
     this.disposables.push(
-      this.treeProvider.onDidChangeTreeData(() => {
-        this.treeProvider.refresh();
-      })
+      this.cacheManager.onDidRefresh(() => {
+        clearTimeout(staleRefresh);
+        staleRefresh = setTimeout(() => this.treeProvider.refresh(), 500);
+      }),
+      { dispose: () => clearTimeout(staleRefresh) }
     );
   }
 
@@ -402,472 +782,1950 @@ export class ExtensionController implements vscode.Disposable {
    * Start background synchronization
    */
   private async startBackgroundSync(): Promise<void> {
+    await this.backgroundSyncService.initialize();
+
+    // Send actions left over from a previous offline session
+    this.outboxService.replay();
+
+    // Record the current state, so later checks can tell what changed
+    this.notificationService.check();
+
     const config = this.configurationService.getConfiguration();
     if (config.refreshInterval > 0) {
       // Start background sync timer
       setInterval(() => {
         this.refreshPullRequests();
+        this.notificationService.check();
       }, config.refreshInterval * 1000);
     }
   }
 
   /**
-   * Configure the extension
+   * Configure the extension by managing its connection profiles
    */
   private async configureExtension(): Promise<void> {
     try {
-      const organizationUrl = await vscode.window.showInputBox({
-        prompt: "Enter Azure DevOps organization URL",
-        placeHolder: "https://dev.azure.com/myorg",
-        validateInput: (value) => {
-          if (!value) {
-            return "Organization URL is required";
-          }
-          if (
-            !value.match(
-              /^https:\/\/(dev\.azure\.com\/[^/]+|[^/]+\.visualstudio\.com)\/?$/
-            )
-          ) {
+      const profiles = this.configurationService.getProfiles();
+      if (profiles.length === 0) {
+        await this.addProfile();
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(
+        [
+          ...profiles.map((profile) => ({
+            label: `$(organization) ${profile.name}`,
+            description: `${profile.organizationUrl}/${profile.project}`,
+            profile,
+          })),
+          {
+            label: "$(add) Add Connection Profile",
+            description: "Connect another organization or project",
+            profile: undefined,
+          },
+        ],
+        { placeHolder: "Select a connection profile to manage" }
+      );
+      if (!selected) {
+        return;
+      }
+      if (!selected.profile) {
+        await this.addProfile();
+        return;
+      }
+
+      const profile = selected.profile;
+      const usesEntra = profile.authMethod === "entra";
+      const action = await vscode.window.showQuickPick(
+        usesEntra
+          ? ["Sign In Again", "Switch to Personal Access Token", "Remove Profile"]
+          : [
+              "Update Personal Access Token",
+              "Switch to Microsoft Entra ID",
+              "Remove Profile",
+            ],
+        { placeHolder: profile.name }
+      );
+      if (!action) {
+        return;
+      }
+      if (action === "Remove Profile") {
+        await this.removeProfile({ profile });
+        return;
+      }
+
+      const authMethod: AuthenticationMethod =
+        action === "Switch to Personal Access Token" ||
+        action === "Update Personal Access Token"
+          ? "pat"
+          : "entra";
+      const updated: ConnectionProfile = { ...profile, authMethod };
+      if (!(await this.authenticateProfile(updated))) {
+        return;
+      }
+
+      if (authMethod !== profile.authMethod) {
+        await this.configurationService.saveProfile(updated);
+        if (authMethod === "entra") {
+          await this.authenticationService.clearProfilePat(profile.id);
+        } else {
+          this.authenticationService.forgetEntraSession(profile.id);
+        }
+      }
+
+      vscode.window.showInformationMessage(
+        authMethod === "entra"
+          ? `${profile.name} now signs in with Microsoft Entra ID`
+          : `Personal Access Token of ${profile.name} updated`
+      );
+      await this.refreshPullRequests();
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Add a connection profile for an organization and project
+   */
+  private async addProfile(): Promise<void> {
+    try {
+      const organizationUrl = await vscode.window.showInputBox({
+        prompt: "Enter Azure DevOps organization URL",
+        placeHolder: "https://dev.azure.com/myorg",
+        validateInput: (value) => {
+          if (!value) {
+            return "Organization URL is required";
+          }
+          if (
+            !value.match(
+              /^https:\/\/(dev\.azure\.com\/[^/]+|[^/]+\.visualstudio\.com)\/?$/
+            )
+          ) {
             return "Please enter a valid Azure DevOps organization URL";
           }
           return null;
         },
       });
 
-      if (!organizationUrl) {
+      if (!organizationUrl) {
+        return;
+      }
+
+      const projectName = await vscode.window.showInputBox({
+        prompt: "Enter Azure DevOps project name",
+        placeHolder: "My Project",
+        validateInput: (value) => {
+          if (!value) {
+            return "Project name is required";
+          }
+          return null;
+        },
+      });
+
+      if (!projectName) {
+        return;
+      }
+
+      const id = this.configurationService.createProfileId(
+        organizationUrl,
+        projectName
+      );
+      if (this.configurationService.getProfile(id)) {
+        vscode.window.showWarningMessage(
+          `A connection profile for ${projectName} already exists`
+        );
+        return;
+      }
+
+      const name = await vscode.window.showInputBox({
+        prompt: "Enter a display name for this connection",
+        value: id,
+      });
+      if (name === undefined) {
+        return;
+      }
+
+      const authMethod = await this.promptAuthenticationMethod();
+      if (!authMethod) {
+        return;
+      }
+
+      const profile: ConnectionProfile = {
+        id,
+        name: name.trim() || id,
+        organizationUrl,
+        project: projectName,
+        authMethod,
+      };
+      if (!(await this.authenticateProfile(profile))) {
+        return;
+      }
+
+      await this.configurationService.saveProfile(profile);
+      await this.pullRequestService.clearProfileCache();
+
+      vscode.window.showInformationMessage(
+        `Connection profile ${profile.name} added`
+      );
+      await this.refreshPullRequests();
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Save a named pull request query shown as a category in the tree
+   */
+  private async saveQuery(): Promise<void> {
+    try {
+      const name = await vscode.window.showInputBox({
+        prompt: "Enter a name for the query",
+        placeHolder: "Team PRs into main",
+        validateInput: (value) => {
+          if (!value.trim()) {
+            return "Query name is required";
+          }
+          if (
+            this.queryService
+              .getQueries()
+              .some(
+                (query) =>
+                  query.isBuiltIn &&
+                  query.name.toLowerCase() === value.trim().toLowerCase()
+              )
+          ) {
+            return "A built-in query already has this name";
+          }
+          return null;
+        },
+      });
+      if (!name) {
+        return;
+      }
+
+      const status = await vscode.window.showQuickPick(
+        [
+          { label: "Active", status: "active" as const },
+          { label: "Completed", status: "completed" as const },
+          { label: "Abandoned", status: "abandoned" as const },
+        ],
+        { placeHolder: "Pull request status" }
+      );
+      if (!status) {
+        return;
+      }
+
+      const people = await vscode.window.showQuickPick(
+        [
+          {
+            label: "Created by me",
+            criteria: { createdBy: QueryService.CURRENT_USER },
+          },
+          {
+            label: "I'm a reviewer",
+            criteria: { reviewer: QueryService.CURRENT_USER },
+          },
+          {
+            label: "Waiting for my vote",
+            criteria: {
+              reviewer: QueryService.CURRENT_USER,
+              myVote: "pending" as const,
+            },
+          },
+          { label: "Anyone", criteria: {} },
+        ],
+        { placeHolder: "Whose pull requests?" }
+      );
+      if (!people) {
+        return;
+      }
+
+      const targetBranch = await vscode.window.showInputBox({
+        prompt: "Target branch (optional)",
+        placeHolder: "main",
+      });
+      if (targetBranch === undefined) {
+        return;
+      }
+
+      const searchQuery = await vscode.window.showInputBox({
+        prompt: "Text the title or description must contain (optional)",
+      });
+      if (searchQuery === undefined) {
+        return;
+      }
+
+      const query: SavedPullRequestQuery = {
+        id: name.trim().toLowerCase().replace(/\s+/g, "-"),
+        name: name.trim(),
+        status: status.status,
+        ...people.criteria,
+        targetBranch: targetBranch.trim() || undefined,
+        searchQuery: searchQuery.trim() || undefined,
+      };
+
+      await this.configurationService.saveQuery(query);
+      this.telemetryService.trackEvent("querySaved");
+      vscode.window.showInformationMessage(`Query "${query.name}" saved`);
+      await this.refreshPullRequests();
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Remove a saved pull request query
+   */
+  private async removeSavedQuery(item?: {
+    query?: PullRequestQuery;
+  }): Promise<void> {
+    try {
+      let query = item?.query;
+      if (!query) {
+        const selected = await vscode.window.showQuickPick(
+          this.configurationService.getSavedQueries().map((candidate) => ({
+            label: candidate.name,
+            query: { ...candidate, isBuiltIn: false },
+          })),
+          { placeHolder: "Select the query to remove" }
+        );
+        query = selected?.query;
+      }
+      if (!query || query.isBuiltIn) {
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Remove query "${query.name}"?`,
+        { modal: true },
+        "Remove"
+      );
+      if (confirm !== "Remove") {
+        return;
+      }
+
+      await this.configurationService.removeQuery(query.id);
+      await this.refreshPullRequests();
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Remove a connection profile and its stored token
+   */
+  private async removeProfile(item?: {
+    profile?: ConnectionProfile;
+  }): Promise<void> {
+    try {
+      let profile = item?.profile;
+      if (!profile) {
+        const selected = await vscode.window.showQuickPick(
+          this.configurationService.getProfiles().map((candidate) => ({
+            label: candidate.name,
+            description: `${candidate.organizationUrl}/${candidate.project}`,
+            profile: candidate,
+          })),
+          { placeHolder: "Select the connection profile to remove" }
+        );
+        profile = selected?.profile;
+      }
+      if (!profile) {
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Remove connection profile ${profile.name}? Its stored credentials will be deleted.`,
+        { modal: true },
+        "Remove"
+      );
+      if (confirm !== "Remove") {
+        return;
+      }
+
+      await this.authenticationService.clearProfilePat(profile.id);
+      this.authenticationService.forgetEntraSession(profile.id);
+      await this.configurationService.removeProfile(profile.id);
+      await this.pullRequestService.clearProfileCache();
+      await vscode.commands.executeCommand(
+        "setContext",
+        "azureDevOps:configured",
+        this.configurationService.getProfiles().length > 0
+      );
+
+      vscode.window.showInformationMessage(
+        `Connection profile ${profile.name} removed`
+      );
+      await this.refreshPullRequests();
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Ask how a new connection profile should authenticate
+   */
+  private async promptAuthenticationMethod(): Promise<
+    AuthenticationMethod | undefined
+  > {
+    const selected = await vscode.window.showQuickPick(
+      [
+        {
+          label: "Microsoft Entra ID",
+          description: "Recommended",
+          detail: "Sign in with your work or school Microsoft account",
+          method: "entra" as const,
+        },
+        {
+          label: "Personal Access Token",
+          detail: "Use a token with Code (Read & Write) scope",
+          method: "pat" as const,
+        },
+      ],
+      { placeHolder: "How do you want to sign in to Azure DevOps?" }
+    );
+    return selected?.method;
+  }
+
+  /**
+   * Sign a profile in with its authentication method: Entra ID through the
+   * `microsoft` provider, or a Personal Access Token that is validated and stored
+   *
+   * @returns True if the profile can authenticate
+   */
+  private async authenticateProfile(
+    profile: ConnectionProfile
+  ): Promise<boolean> {
+    let token: string | undefined;
+    if (profile.authMethod !== "entra") {
+      token = await vscode.window.showInputBox({
+        prompt: `Enter a Personal Access Token for ${profile.organizationUrl}`,
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: (value) =>
+          value ? null : "Personal Access Token is required",
+      });
+      if (!token) {
+        return false;
+      }
+    }
+
+    try {
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title:
+            profile.authMethod === "entra"
+              ? "Signing in with Microsoft Entra ID..."
+              : "Validating Personal Access Token...",
+          cancellable: false,
+        },
+        () =>
+          token
+            ? this.authenticationService.storeProfilePat(profile, token)
+            : this.authenticationService.signInWithEntra(profile)
+      );
+      this.telemetryService.trackEvent("profileAuthenticated", {
+        method: profile.authMethod || "pat",
+        organization: result.organizationName || "unknown",
+      });
+      return true;
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        error instanceof Error ? error.message : "Authentication failed"
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Refresh pull requests
+   */
+  private async refreshPullRequests(): Promise<void> {
+    try {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Refreshing pull requests...",
+          cancellable: false,
+        },
+        async () => {
+          await this.treeProvider.refresh();
+        }
+      );
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Approve a pull request
+   */
+  private async approvePullRequest(item: PullRequestTreeItemData): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const result = await this.integrationService.approvePullRequest(
+        item.repository.id,
+        item.pullRequest.pullRequestId
+      );
+
+      if (result.success) {
+        vscode.window.showInformationMessage(
+          `Pull request #${item.pullRequest.pullRequestId} approved successfully!`
+        );
+        this.treeProvider.refresh();
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to approve pull request: ${result.error}`
+        );
+      }
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Open the create pull request form for a local clone
+   *
+   * @param repository Repository to create the pull request in; inferred from
+   *                   the open local repositories when omitted
+   */
+  private async createPullRequest(repository?: GitRepository): Promise<void> {
+    try {
+      const candidates: Array<{
+        repository: GitRepository;
+        match: LocalRepositoryMatch;
+      }> = [];
+      // Repository nodes pass the repository embedded in pull requests, which
+      // lacks the remote URLs and default branch, so use the listed one
+      const listed = await this.pullRequestService.getRepositories();
+      const repositories = repository
+        ? listed.filter((candidate) => candidate.id === repository.id)
+        : listed;
+      for (const candidate of repositories) {
+        const match = await this.gitCheckoutService.findLocalRepository(
+          candidate
+        );
+        if (match) {
+          candidates.push({ repository: candidate, match });
+        }
+      }
+
+      if (candidates.length === 0) {
+        vscode.window.showErrorMessage(
+          repository
+            ? `No open local repository has a remote for ${repository.name}`
+            : "No open local repository has a remote for a configured Azure DevOps repository"
+        );
+        return;
+      }
+
+      // Prefer the clone containing the active editor
+      const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+      let selected = candidates.find(
+        (candidate) =>
+          !!activePath &&
+          activePath.startsWith(candidate.match.repository.rootUri.fsPath)
+      );
+      if (!selected && candidates.length > 1) {
+        selected = (
+          await vscode.window.showQuickPick(
+            candidates.map((candidate) => ({
+              label: `$(repo) ${candidate.repository.name}`,
+              description: candidate.match.repository.rootUri.fsPath,
+              candidate,
+            })),
+            { placeHolder: "Select the repository to create a pull request in" }
+          )
+        )?.candidate;
+        if (!selected) {
+          return;
+        }
+      }
+      selected = selected || candidates[0];
+
+      new CreatePullRequestWebView(
+        selected.repository,
+        selected.match,
+        this.gitCheckoutService,
+        this.pullRequestService,
+        this.workItemService,
+        this.workflowService,
+        this.telemetryService
+      );
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error instanceof Error ? error : String(error),
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Check out a pull request in the matching local repository
+   */
+  private async checkoutPullRequest(
+    item: PullRequestTreeItemData
+  ): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const pullRequest = item.pullRequest;
+      const repository = await this.pullRequestService.getRepository(
+        item.repository.id
+      );
+      const match =
+        repository &&
+        (await this.gitCheckoutService.findLocalRepository(repository));
+      if (!match) {
+        vscode.window.showErrorMessage(
+          `No open local repository has a remote for ${item.repository.name}`
+        );
+        return;
+      }
+
+      const branchName = pullRequest.sourceRefName.replace(
+        /^refs\/heads\//,
+        ""
+      );
+      const mode = await vscode.window.showQuickPick(
+        [
+          {
+            label: `$(git-branch) ${branchName}`,
+            description: "Source branch",
+            detail: "Switch to the pull request branch to make changes",
+            mode: "branch" as CheckoutMode,
+          },
+          {
+            label: `$(git-merge) refs/pull/${pullRequest.pullRequestId}/merge`,
+            description: "Merge preview (detached)",
+            detail: "Check out the result of merging into the target branch",
+            mode: "merge" as CheckoutMode,
+          },
+        ],
+        {
+          placeHolder: `Check out pull request #${pullRequest.pullRequestId}`,
+        }
+      );
+      if (!mode) {
+        return;
+      }
+
+      if (this.gitCheckoutService.hasUncommittedChanges(match.repository)) {
+        const choice = await vscode.window.showWarningMessage(
+          "You have uncommitted changes. Stash them before checking out the pull request?",
+          { modal: true },
+          "Stash and Checkout"
+        );
+        if (choice !== "Stash and Checkout") {
+          return;
+        }
+
+        await this.gitCheckoutService.stashChanges(
+          match.repository,
+          `Before checking out pull request #${pullRequest.pullRequestId}`
+        );
+        if (this.gitCheckoutService.hasUncommittedChanges(match.repository)) {
+          vscode.window.showWarningMessage(
+            "Checkout cancelled: uncommitted changes were not stashed"
+          );
+          return;
+        }
+      }
+
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Checking out pull request #${pullRequest.pullRequestId}...`,
+        },
+        () =>
+          this.gitCheckoutService.checkoutPullRequest(
+            match,
+            pullRequest,
+            mode.mode
+          )
+      );
+
+      if (result.success) {
+        vscode.window.showInformationMessage(
+          `Checked out ${result.ref} for pull request #${pullRequest.pullRequestId}`
+        );
+        this.telemetryService.trackEvent("pullRequestCheckedOut", {
+          mode: mode.mode,
+        });
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to check out pull request: ${result.error}`
+        );
+      }
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error instanceof Error ? error : String(error),
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Compare the changes between two iterations of a pull request
+   */
+  private async compareIterations(
+    item: PullRequestTreeItemData
+  ): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const iterations = (
+        await this.pullRequestService.getPullRequestIterations(
+          item.repository.id,
+          item.pullRequest.pullRequestId
+        )
+      ).sort((a, b) => a.id - b.id);
+
+      if (iterations.length < 2) {
+        vscode.window.showInformationMessage(
+          `Pull request #${item.pullRequest.pullRequestId} has only one iteration`
+        );
+        return;
+      }
+
+      const toPickItem = (iteration: GitPullRequestIteration) => ({
+        label: `Iteration ${iteration.id}`,
+        description: new Date(iteration.createdDate).toLocaleString(),
+        detail: iteration.description,
+        iteration,
+      });
+
+      const base = await vscode.window.showQuickPick(
+        iterations.slice(0, -1).map(toPickItem),
+        { placeHolder: "Select the base iteration" }
+      );
+      if (!base) {
+        return;
+      }
+
+      const target = await vscode.window.showQuickPick(
+        iterations
+          .filter((iteration) => iteration.id > base.iteration.id)
+          .reverse()
+          .map(toPickItem),
+        { placeHolder: `Compare iteration ${base.iteration.id} with` }
+      );
+      if (!target) {
+        return;
+      }
+
+      this.treeProvider.setIterationComparison(
+        item.repository.id,
+        item.pullRequest.pullRequestId,
+        { baseIteration: base.iteration, targetIteration: target.iteration }
+      );
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error instanceof Error ? error : String(error),
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Show the changes pushed since the current user last voted
+   */
+  private async showChangesSinceLastReview(
+    item: PullRequestTreeItemData
+  ): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const pullRequestId = item.pullRequest.pullRequestId;
+      const reviewed = await this.pullRequestService.getLastVotedIteration(
+        item.repository.id,
+        pullRequestId
+      );
+      if (!reviewed) {
+        vscode.window.showInformationMessage(
+          `You have not voted on pull request #${pullRequestId} yet`
+        );
+        return;
+      }
+
+      const iterations = await this.pullRequestService.getPullRequestIterations(
+        item.repository.id,
+        pullRequestId
+      );
+      const base = iterations.find(
+        (iteration) => iteration.id === reviewed.iterationId
+      );
+      const latest = iterations.reduce<GitPullRequestIteration | undefined>(
+        (a, b) => (!a || b.id > a.id ? b : a),
+        undefined
+      );
+
+      if (!base || !latest || latest.id <= base.id) {
+        vscode.window.showInformationMessage(
+          `No new changes since your last review of pull request #${pullRequestId}`
+        );
+        return;
+      }
+
+      this.treeProvider.setIterationComparison(
+        item.repository.id,
+        pullRequestId,
+        { baseIteration: base, targetIteration: latest }
+      );
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error instanceof Error ? error : String(error),
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Reject a pull request
+   */
+  private async rejectPullRequest(item: PullRequestTreeItemData): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const comment = await vscode.window.showInputBox({
+        prompt: "Enter rejection reason",
+        placeHolder: "Please address the following issues...",
+        validateInput: (value) => {
+          if (!value || value.trim().length === 0) {
+            return "Rejection reason is required";
+          }
+          return null;
+        },
+      });
+
+      if (!comment) {
+        return;
+      }
+
+      const result = await this.integrationService.rejectPullRequest(
+        item.repository.id,
+        item.pullRequest.pullRequestId,
+        comment
+      );
+
+      if (result.success) {
+        vscode.window.showInformationMessage(
+          `Pull request #${item.pullRequest.pullRequestId} rejected with comment`
+        );
+        this.treeProvider.refresh();
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to reject pull request: ${result.error}`
+        );
+      }
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Abandon a pull request
+   */
+  private async abandonPullRequest(item: PullRequestTreeItemData): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Are you sure you want to abandon pull request #${item.pullRequest.pullRequestId}?`,
+        { modal: true },
+        "Abandon",
+        "Cancel"
+      );
+
+      if (confirm !== "Abandon") {
+        return;
+      }
+
+      const result = await this.pullRequestService.abandonPullRequest(
+        item.repository.id,
+        item.pullRequest.pullRequestId
+      );
+
+      if (result.success) {
+        vscode.window.showInformationMessage(
+          `Pull request #${item.pullRequest.pullRequestId} abandoned successfully!`
+        );
+        this.treeProvider.refresh();
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to abandon pull request: ${result.error}`
+        );
+      }
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Complete (merge) a pull request
+   */
+  private async completePullRequest(
+    item: PullRequestTreeItemData
+  ): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const pullRequest = item.pullRequest;
+      if (pullRequest.isDraft) {
+        vscode.window.showErrorMessage(
+          "Draft pull requests must be published before they can be completed."
+        );
+        return;
+      }
+
+      const completionOptions = await this.promptCompletionOptions(
+        pullRequest,
+        true
+      );
+      if (!completionOptions) {
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Complete pull request #${pullRequest.pullRequestId} into ${pullRequest.targetRefName.replace(
+          /^refs\/heads\//,
+          ""
+        )}?`,
+        { modal: true },
+        "Complete"
+      );
+      if (confirm !== "Complete") {
+        return;
+      }
+
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Completing pull request #${pullRequest.pullRequestId}...`,
+          cancellable: false,
+        },
+        () =>
+          this.pullRequestService.completePullRequest(
+            item.repository.id,
+            pullRequest.pullRequestId,
+            pullRequest.lastMergeSourceCommit.commitId,
+            completionOptions
+          )
+      );
+
+      if (result.success) {
+        vscode.window.showInformationMessage(
+          `Pull request #${pullRequest.pullRequestId} completed successfully!`
+        );
+        this.telemetryService.trackEvent("pullRequestCompleted", {
+          mergeStrategy: completionOptions.mergeStrategy || "noFastForward",
+          bypassPolicy: String(!!completionOptions.bypassPolicy),
+        });
+        this.treeProvider.refresh();
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to complete pull request: ${result.error}`
+        );
+      }
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error instanceof Error ? error : String(error),
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Set, update or cancel auto-complete on a pull request
+   */
+  private async setAutoComplete(item: PullRequestTreeItemData): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const pullRequest = item.pullRequest;
+      let cancel = false;
+      if (pullRequest.autoCompleteSetBy) {
+        const action = await vscode.window.showQuickPick(
+          [
+            { label: "Update Auto-Complete Options", cancel: false },
+            { label: "Cancel Auto-Complete", cancel: true },
+          ],
+          {
+            placeHolder: `Auto-complete was set by ${pullRequest.autoCompleteSetBy.displayName}`,
+          }
+        );
+        if (!action) {
+          return;
+        }
+        cancel = action.cancel;
+      }
+
+      const completionOptions = cancel
+        ? undefined
+        : await this.promptCompletionOptions(pullRequest, false);
+      if (!cancel && !completionOptions) {
+        return;
+      }
+
+      const result = await this.pullRequestService.setAutoComplete(
+        item.repository.id,
+        pullRequest.pullRequestId,
+        completionOptions
+      );
+
+      if (result.success) {
+        vscode.window.showInformationMessage(
+          cancel
+            ? `Auto-complete cancelled for pull request #${pullRequest.pullRequestId}.`
+            : `Pull request #${pullRequest.pullRequestId} will complete automatically once all policies pass.`
+        );
+        this.treeProvider.refresh();
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to update auto-complete: ${result.error}`
+        );
+      }
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error instanceof Error ? error : String(error),
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Ask for merge strategy and completion options
+   *
+   * @param pullRequest Pull request being completed
+   * @param allowBypass Whether to offer bypassing branch policies (only when completing now)
+   * @returns Completion options, or undefined if the user cancelled
+   */
+  private async promptCompletionOptions(
+    pullRequest: PullRequest,
+    allowBypass: boolean
+  ): Promise<GitPullRequestCompletionOptions | undefined> {
+    const previous = pullRequest.completionOptions;
+    const strategies: Array<
+      vscode.QuickPickItem & { strategy: GitPullRequestMergeStrategy }
+    > = [
+      {
+        label: "Merge (no fast-forward)",
+        detail: "Keep all commits and add a merge commit",
+        strategy: "noFastForward",
+      },
+      {
+        label: "Squash commit",
+        detail: "Combine all commits into a single commit on the target branch",
+        strategy: "squash",
+      },
+      {
+        label: "Rebase and fast-forward",
+        detail: "Rebase the source commits onto the target and fast-forward",
+        strategy: "rebase",
+      },
+      {
+        label: "Semi-linear merge",
+        detail: "Rebase the source commits onto the target and add a merge commit",
+        strategy: "rebaseMerge",
+      },
+    ];
+    strategies.forEach((item) => {
+      if (item.strategy === previous?.mergeStrategy) {
+        item.description = "(current)";
+      }
+    });
+
+    const strategy = await vscode.window.showQuickPick(strategies, {
+      placeHolder: "Select merge strategy",
+    });
+    if (!strategy) {
+      return undefined;
+    }
+
+    const optionItems: Array<vscode.QuickPickItem & { option: string }> = [
+      {
+        label: "Delete source branch",
+        description: pullRequest.sourceRefName.replace(/^refs\/heads\//, ""),
+        picked: previous?.deleteSourceBranch ?? true,
+        option: "deleteSourceBranch",
+      },
+      {
+        label: "Complete associated work items",
+        picked: previous?.transitionWorkItems ?? true,
+        option: "transitionWorkItems",
+      },
+    ];
+    if (allowBypass) {
+      optionItems.push({
+        label: "Bypass branch policies",
+        description: "Requires bypass permission",
+        picked: false,
+        option: "bypassPolicy",
+      });
+    }
+
+    const selectedOptions = await vscode.window.showQuickPick(optionItems, {
+      placeHolder: "Completion options",
+      canPickMany: true,
+    });
+    if (!selectedOptions) {
+      return undefined;
+    }
+    const isSelected = (option: string): boolean =>
+      selectedOptions.some((item) => item.option === option);
+
+    // Rebase and fast-forward creates no merge commit
+    let mergeCommitMessage: string | undefined;
+    if (strategy.strategy !== "rebase") {
+      mergeCommitMessage = await vscode.window.showInputBox({
+        prompt: "Merge commit message",
+        value:
+          previous?.mergeCommitMessage ||
+          `Merged PR ${pullRequest.pullRequestId}: ${pullRequest.title}`,
+      });
+      if (mergeCommitMessage === undefined) {
+        return undefined;
+      }
+    }
+
+    let bypassReason: string | undefined;
+    if (isSelected("bypassPolicy")) {
+      bypassReason = await vscode.window.showInputBox({
+        prompt: "Reason for bypassing branch policies",
+        validateInput: (value) =>
+          value.trim() ? null : "A reason is required to bypass policies",
+      });
+      if (!bypassReason) {
+        return undefined;
+      }
+    }
+
+    return {
+      mergeStrategy: strategy.strategy,
+      deleteSourceBranch: isSelected("deleteSourceBranch"),
+      transitionWorkItems: isSelected("transitionWorkItems"),
+      mergeCommitMessage: mergeCommitMessage?.trim() || undefined,
+      bypassPolicy: isSelected("bypassPolicy"),
+      bypassReason: bypassReason?.trim(),
+    };
+  }
+
+  /**
+   * Add a comment to a pull request
+   */
+  private async addComment(item: PullRequestTreeItemData): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const comment = await vscode.window.showInputBox({
+        prompt: "Enter your comment",
+        placeHolder: "Add your review comment here...",
+        validateInput: (value) => {
+          if (!value || value.trim().length === 0) {
+            return "Comment cannot be empty";
+          }
+          return null;
+        },
+      });
+
+      if (!comment) {
+        return;
+      }
+
+      const result = await this.integrationService.addComment(
+        item.repository.id,
+        item.pullRequest.pullRequestId,
+        comment
+      );
+
+      if (result.success) {
+        vscode.window.showInformationMessage("Comment added successfully!");
+        this.treeProvider.refresh();
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to add comment: ${result.error}`
+        );
+      }
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Open pull request in browser
+   */
+  private async openInBrowser(item: PullRequestTreeItemData): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const url = item.pullRequest.webUrl;
+      if (url) {
+        vscode.env.openExternal(vscode.Uri.parse(url));
+      }
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Mark a notification as read and open its pull request
+   */
+  private async openNotification(
+    notification: PullRequestNotification
+  ): Promise<void> {
+    try {
+      await this.notificationService.markRead(notification.id);
+
+      const pullRequest = await this.pullRequestService.getPullRequest(
+        notification.repositoryId,
+        notification.pullRequestId
+      );
+      if (!pullRequest) {
+        vscode.window.showErrorMessage(
+          `Pull request #${notification.pullRequestId} could not be loaded`
+        );
+        return;
+      }
+
+      await this.openPullRequest({
+        repository: pullRequest.repository,
+        pullRequest,
+        repositoryId: notification.repositoryId,
+        pullRequestId: notification.pullRequestId,
+      });
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Open pull request detail view
+   */
+  private async openPullRequest(item: PullRequestTreeItemData): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      new PRDetailWebView(
+        item.pullRequest,
+        item.repository.id,
+        this.pullRequestService,
+        this.commentService,
+        this.telemetryService,
+        this.context.extensionUri,
+        this.policyService,
+        this.workItemService,
+        this.outboxService,
+        this.reviewDraftService
+      );
+    } catch (error) {
+      await this.errorHandler.handleError(
+        error as Error,
+        ErrorCategory.INTERNAL
+      );
+    }
+  }
+
+  /**
+   * Add a user or group as reviewer
+   */
+  private async addReviewer(item: PullRequestTreeItemData): Promise<void> {
+    try {
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
         return;
       }
 
-      const projectName = await vscode.window.showInputBox({
-        prompt: "Enter Azure DevOps project name",
-        placeHolder: "My Project",
-        validateInput: (value) => {
-          if (!value) {
-            return "Project name is required";
-          }
-          return null;
-        },
-      });
+      const repositoryId = item.repository.id;
+      const pullRequestId = item.pullRequest.pullRequestId;
+      const reviewers = await this.pullRequestService.getReviewers(
+        repositoryId,
+        pullRequestId
+      );
 
-      if (!projectName) {
+      const identity = await new IdentityQuickPick(
+        this.pullRequestService,
+        repositoryId
+      ).pick(
+        `Add Reviewer to PR #${pullRequestId}`,
+        new Set(reviewers.map((reviewer) => reviewer.id))
+      );
+      if (!identity) {
         return;
       }
 
-      // Save configuration
-      const config = vscode.workspace.getConfiguration("azureDevOps");
-      await config.update(
-        "organizationUrl",
-        organizationUrl,
-        vscode.ConfigurationTarget.Global
-      );
-      await config.update(
-        "project",
-        projectName,
-        vscode.ConfigurationTarget.Global
+      const requirement = await vscode.window.showQuickPick(
+        [
+          { label: "Optional", isRequired: false },
+          { label: "Required", isRequired: true },
+        ],
+        { placeHolder: `Add ${identity.displayName} as` }
       );
+      if (!requirement) {
+        return;
+      }
 
-      vscode.window.showInformationMessage(
-        "Azure DevOps configuration saved successfully!"
+      const result = await this.pullRequestService.addReviewer(
+        repositoryId,
+        pullRequestId,
+        identity.id,
+        requirement.isRequired
       );
-      this.refreshPullRequests();
+
+      if (result.success) {
+        vscode.window.showInformationMessage(
+          `Added ${identity.displayName} as ${requirement.label.toLowerCase()} reviewer.`
+        );
+        this.treeProvider.refresh();
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to add reviewer: ${result.error}`
+        );
+      }
     } catch (error) {
       await this.errorHandler.handleError(
-        error as Error,
+        error instanceof Error ? error : String(error),
         ErrorCategory.INTERNAL
       );
     }
   }
 
   /**
-   * Refresh pull requests
+   * Remove a reviewer from a pull request
    */
-  private async refreshPullRequests(): Promise<void> {
+  private async removeReviewer(
+    item: PullRequestTreeItemData,
+    reviewerId?: string
+  ): Promise<void> {
     try {
-      await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: "Refreshing pull requests...",
-          cancellable: false,
-        },
-        async () => {
-          await this.treeProvider.refresh();
-        }
+      if (!item || !item.pullRequest) {
+        vscode.window.showErrorMessage("No pull request selected");
+        return;
+      }
+
+      const reviewer = await this.selectReviewer(
+        item,
+        reviewerId,
+        "Select reviewer to remove"
+      );
+      if (!reviewer) {
+        return;
+      }
+
+      const confirmation = await vscode.window.showWarningMessage(
+        `Remove ${reviewer.displayName} from PR #${item.pullRequest.pullRequestId}?`,
+        { modal: true },
+        "Remove"
+      );
+      if (confirmation !== "Remove") {
+        return;
+      }
+
+      const result = await this.pullRequestService.removeReviewer(
+        item.repository.id,
+        item.pullRequest.pullRequestId,
+        reviewer.id
       );
+
+      if (result.success) {
+        vscode.window.showInformationMessage(
+          `Removed ${reviewer.displayName} from reviewers.`
+        );
+        this.treeProvider.refresh();
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to remove reviewer: ${result.error}`
+        );
+      }
     } catch (error) {
       await this.errorHandler.handleError(
-        error as Error,
+        error instanceof Error ? error : String(error),
         ErrorCategory.INTERNAL
       );
     }
   }
 
   /**
-   * Approve a pull request
+   * Switch a reviewer between required and optional
    */
-  private async approvePullRequest(item: PullRequestTreeItemData): Promise<void> {
+  private async toggleReviewerRequired(
+    item: PullRequestTreeItemData,
+    reviewerId?: string
+  ): Promise<void> {
     try {
       if (!item || !item.pullRequest) {
         vscode.window.showErrorMessage("No pull request selected");
         return;
       }
 
-      const result = await this.integrationService.approvePullRequest(
+      const reviewer = await this.selectReviewer(
+        item,
+        reviewerId,
+        "Select reviewer to make required or optional"
+      );
+      if (!reviewer) {
+        return;
+      }
+
+      const isRequired = !reviewer.isRequired;
+      const result = await this.pullRequestService.setReviewerRequired(
         item.repository.id,
-        item.pullRequest.pullRequestId
+        item.pullRequest.pullRequestId,
+        reviewer.id,
+        isRequired
       );
 
       if (result.success) {
         vscode.window.showInformationMessage(
-          `Pull request #${item.pullRequest.pullRequestId} approved successfully!`
+          `${reviewer.displayName} is now ${
+            isRequired ? "required" : "optional"
+          }.`
         );
         this.treeProvider.refresh();
       } else {
         vscode.window.showErrorMessage(
-          `Failed to approve pull request: ${result.error}`
+          `Failed to update reviewer: ${result.error}`
         );
       }
     } catch (error) {
       await this.errorHandler.handleError(
-        error as Error,
+        error instanceof Error ? error : String(error),
         ErrorCategory.INTERNAL
       );
     }
   }
 
   /**
-   * Reject a pull request
+   * Reset a reviewer's vote to "no vote"
    */
-  private async rejectPullRequest(item: PullRequestTreeItemData): Promise<void> {
+  private async resetReviewerVote(
+    item: PullRequestTreeItemData,
+    reviewerId?: string
+  ): Promise<void> {
     try {
       if (!item || !item.pullRequest) {
         vscode.window.showErrorMessage("No pull request selected");
         return;
       }
 
-      const comment = await vscode.window.showInputBox({
-        prompt: "Enter rejection reason",
-        placeHolder: "Please address the following issues...",
-        validateInput: (value) => {
-          if (!value || value.trim().length === 0) {
-            return "Rejection reason is required";
-          }
-          return null;
-        },
-      });
-
-      if (!comment) {
+      const reviewer = await this.selectReviewer(
+        item,
+        reviewerId,
+        "Select reviewer whose vote to reset",
+        (candidate) => candidate.vote !== 0
+      );
+      if (!reviewer) {
         return;
       }
 
-      const result = await this.integrationService.rejectPullRequest(
+      const result = await this.pullRequestService.resetReviewerVote(
         item.repository.id,
         item.pullRequest.pullRequestId,
-        comment
+        reviewer
       );
 
       if (result.success) {
         vscode.window.showInformationMessage(
-          `Pull request #${item.pullRequest.pullRequestId} rejected with comment`
+          `Reset the vote of ${reviewer.displayName}.`
         );
         this.treeProvider.refresh();
       } else {
         vscode.window.showErrorMessage(
-          `Failed to reject pull request: ${result.error}`
+          `Failed to reset vote: ${result.error}`
         );
+        // The reviewer may have been removed without being added back
+        this.treeProvider.refresh();
       }
     } catch (error) {
       await this.errorHandler.handleError(
-        error as Error,
+        error instanceof Error ? error : String(error),
         ErrorCategory.INTERNAL
       );
     }
   }
 
   /**
-   * Abandon a pull request
+   * Resolve a reviewer by ID, or let the user pick one of the pull request's
+   * current reviewers
    */
-  private async abandonPullRequest(item: PullRequestTreeItemData): Promise<void> {
+  private async selectReviewer(
+    item: PullRequestTreeItemData,
+    reviewerId: string | undefined,
+    placeHolder: string,
+    filter: (reviewer: PullRequestReviewer) => boolean = () => true
+  ): Promise<PullRequestReviewer | undefined> {
+    const reviewers = await this.pullRequestService.getReviewers(
+      item.repository.id,
+      item.pullRequest.pullRequestId
+    );
+
+    if (reviewerId) {
+      const reviewer = reviewers.find(
+        (candidate) => candidate.id === reviewerId
+      );
+      if (!reviewer) {
+        vscode.window.showErrorMessage(
+          "The reviewer is no longer on this pull request."
+        );
+      }
+      return reviewer;
+    }
+
+    const candidates = reviewers.filter(filter);
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage(
+        "No matching reviewers on this pull request."
+      );
+      return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      candidates.map((reviewer) => ({
+        label: `$(${reviewer.isContainer ? "organization" : "person"}) ${
+          reviewer.displayName
+        }`,
+        description: `${this.getVoteLabel(reviewer.vote)} • ${
+          reviewer.isRequired ? "Required" : "Optional"
+        }`,
+        detail: reviewer.votedFor?.length
+          ? `Voted by: ${reviewer.votedFor
+              .map(
+                (member) =>
+                  `${member.displayName} (${this.getVoteLabel(member.vote)})`
+              )
+              .join(", ")}`
+          : undefined,
+        reviewer,
+      })),
+      { placeHolder, matchOnDetail: true }
+    );
+
+    return selected?.reviewer;
+  }
+
+  /**
+   * Link a work item to a pull request by ID or title search
+   */
+  private async linkWorkItem(item: PullRequestTreeItemData): Promise<void> {
     try {
       if (!item || !item.pullRequest) {
         vscode.window.showErrorMessage("No pull request selected");
         return;
       }
 
-      const confirm = await vscode.window.showWarningMessage(
-        `Are you sure you want to abandon pull request #${item.pullRequest.pullRequestId}?`,
-        { modal: true },
-        "Abandon",
-        "Cancel"
+      const repositoryId = item.repository.id;
+      const pullRequestId = item.pullRequest.pullRequestId;
+      const linked = await this.workItemService.getLinkedWorkItems(
+        repositoryId,
+        pullRequestId
       );
 
-      if (confirm !== "Abandon") {
+      const workItem = await new WorkItemQuickPick(
+        this.workItemService,
+        repositoryId
+      ).pick(
+        `Link Work Item to PR #${pullRequestId}`,
+        new Set(linked.map((linkedItem) => linkedItem.id))
+      );
+      if (!workItem) {
         return;
       }
 
-      const result = await this.pullRequestService.abandonPullRequest(
-        item.repository.id,
-        item.pullRequest.pullRequestId
+      const result = await this.workItemService.linkWorkItem(
+        item.pullRequest,
+        workItem.id
       );
 
       if (result.success) {
         vscode.window.showInformationMessage(
-          `Pull request #${item.pullRequest.pullRequestId} abandoned successfully!`
+          `Linked ${workItem.type} ${workItem.id} to PR #${pullRequestId}.`
         );
-        this.treeProvider.refresh();
+        this.treeProvider.refreshWorkItems();
       } else {
         vscode.window.showErrorMessage(
-          `Failed to abandon pull request: ${result.error}`
+          `Failed to link work item: ${result.error}`
         );
       }
     } catch (error) {
       await this.errorHandler.handleError(
-        error as Error,
+        error instanceof Error ? error : String(error),
         ErrorCategory.INTERNAL
       );
     }
   }
 
   /**
-   * Add a comment to a pull request
+   * Remove the link between a work item and a pull request
    */
-  private async addComment(item: PullRequestTreeItemData): Promise<void> {
+  private async unlinkWorkItem(
+    item: WorkItemTreeItemData,
+    workItemId?: number
+  ): Promise<void> {
     try {
       if (!item || !item.pullRequest) {
         vscode.window.showErrorMessage("No pull request selected");
         return;
       }
 
-      const comment = await vscode.window.showInputBox({
-        prompt: "Enter your comment",
-        placeHolder: "Add your review comment here...",
-        validateInput: (value) => {
-          if (!value || value.trim().length === 0) {
-            return "Comment cannot be empty";
-          }
-          return null;
-        },
-      });
+      const workItem = await this.selectWorkItem(
+        item,
+        workItemId ?? item.workItem?.id,
+        "Select work item to unlink"
+      );
+      if (!workItem) {
+        return;
+      }
 
-      if (!comment) {
+      const confirmation = await vscode.window.showWarningMessage(
+        `Unlink ${workItem.type} ${workItem.id} from PR #${item.pullRequest.pullRequestId}?`,
+        { modal: true },
+        "Unlink"
+      );
+      if (confirmation !== "Unlink") {
         return;
       }
 
-      const result = await this.integrationService.addComment(
-        item.repository.id,
-        item.pullRequest.pullRequestId,
-        comment
+      const result = await this.workItemService.unlinkWorkItem(
+        item.pullRequest,
+        workItem.id
       );
 
       if (result.success) {
-        vscode.window.showInformationMessage("Comment added successfully!");
-        this.treeProvider.refresh();
+        vscode.window.showInformationMessage(
+          `Unlinked ${workItem.type} ${workItem.id}.`
+        );
+        this.treeProvider.refreshWorkItems();
       } else {
         vscode.window.showErrorMessage(
-          `Failed to add comment: ${result.error}`
+          `Failed to unlink work item: ${result.error}`
         );
       }
     } catch (error) {
       await this.errorHandler.handleError(
-        error as Error,
+        error instanceof Error ? error : String(error),
         ErrorCategory.INTERNAL
       );
     }
   }
 
   /**
-   * Open pull request in browser
+   * Open the summary of a work item linked to a pull request
    */
-  private async openInBrowser(item: PullRequestTreeItemData): Promise<void> {
+  private async openWorkItem(
+    item: WorkItemTreeItemData,
+    workItemId?: number
+  ): Promise<void> {
     try {
       if (!item || !item.pullRequest) {
         vscode.window.showErrorMessage("No pull request selected");
         return;
       }
 
-      const url = item.pullRequest.webUrl;
-      if (url) {
-        vscode.env.openExternal(vscode.Uri.parse(url));
+      const id = workItemId ?? item.workItem?.id;
+      const workItem = id
+        ? await this.workItemService.getWorkItem(item.repository.id, id)
+        : await this.selectWorkItem(item, undefined, "Select work item to open");
+      if (!workItem) {
+        if (id) {
+          vscode.window.showErrorMessage(`Work item ${id} was not found.`);
+        }
+        return;
       }
+
+      new WorkItemWebView(workItem, this.telemetryService);
     } catch (error) {
       await this.errorHandler.handleError(
-        error as Error,
+        error instanceof Error ? error : String(error),
         ErrorCategory.INTERNAL
       );
     }
   }
 
   /**
-   * Open pull request detail view
+   * Resolve a linked work item from an ID, or let the user pick one
    */
-  private async openPullRequest(item: PullRequestTreeItemData): Promise<void> {
+  private async selectWorkItem(
+    item: PullRequestTreeItemData,
+    workItemId: number | undefined,
+    placeHolder: string
+  ): Promise<WorkItemSummary | undefined> {
+    const workItems = await this.workItemService.getLinkedWorkItems(
+      item.repository.id,
+      item.pullRequest.pullRequestId
+    );
+
+    if (workItemId) {
+      const workItem = workItems.find(
+        (candidate) => candidate.id === workItemId
+      );
+      if (!workItem) {
+        vscode.window.showErrorMessage(
+          "The work item is no longer linked to this pull request."
+        );
+      }
+      return workItem;
+    }
+
+    if (workItems.length === 0) {
+      vscode.window.showInformationMessage(
+        "No work items are linked to this pull request."
+      );
+      return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      workItems.map((workItem) => ({
+        label: `${workItem.id}: ${workItem.title}`,
+        description: `${workItem.type} • ${workItem.state}`,
+        workItem,
+      })),
+      { placeHolder, matchOnDescription: true }
+    );
+
+    return selected?.workItem;
+  }
+
+  /**
+   * Start holding new comments on a pull request as review drafts
+   */
+  private async startReview(item: PullRequestTreeItemData): Promise<void> {
+    if (!item || !item.pullRequest) {
+      vscode.window.showErrorMessage("No pull request selected");
+      return;
+    }
+
+    const repositoryId = item.repository.id;
+    const pullRequestId = item.pullRequest.pullRequestId;
+    if (this.reviewDraftService.isReviewing(repositoryId, pullRequestId)) {
+      vscode.window.showInformationMessage(
+        `A review of PR #${pullRequestId} is already in progress.`
+      );
+      return;
+    }
+
+    await this.reviewDraftService.startReview(repositoryId, pullRequestId);
+    vscode.window.showInformationMessage(
+      `Review of PR #${pullRequestId} started. New comments are held as drafts until you submit the review.`
+    );
+    this.telemetryService.trackEvent("reviewStarted");
+  }
+
+  /**
+   * Post the drafts of a pending review together with the vote
+   *
+   * Drafts that fail to post stay pending so the review can be submitted
+   * again.
+   */
+  private async submitReview(
+    item: PullRequestTreeItemData,
+    vote?: PullRequestVote
+  ): Promise<void> {
     try {
       if (!item || !item.pullRequest) {
         vscode.window.showErrorMessage("No pull request selected");
         return;
       }
 
-      // Use integration service to get PR details with performance optimization
-      const prDetails = await this.integrationService.getPullRequestDetails(
-        item.repository.id,
-        item.pullRequest.pullRequestId
+      const repositoryId = item.repository.id;
+      const pullRequestId = item.pullRequest.pullRequestId;
+      if (!this.reviewDraftService.isReviewing(repositoryId, pullRequestId)) {
+        vscode.window.showErrorMessage(
+          `No review of PR #${pullRequestId} is in progress.`
+        );
+        return;
+      }
+
+      const drafts = this.reviewDraftService.getDrafts(
+        repositoryId,
+        pullRequestId
       );
+      if (vote === undefined) {
+        const votes: PullRequestVote[] = [10, 5, -5, -10, 0];
+        const selected = await vscode.window.showQuickPick(
+          votes.map((value) => ({
+            label: value === 0 ? "Comment only" : this.getVoteLabel(value),
+            value,
+          })),
+          {
+            placeHolder: `Submit ${drafts.length} pending comment${
+              drafts.length === 1 ? "" : "s"
+            } with vote`,
+          }
+        );
+        if (!selected) {
+          return;
+        }
+        vote = selected.value;
+      }
 
-      // Show progress while opening PR detail view
-      await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: `Opening pull request #${item.pullRequest.pullRequestId}...`,
-          cancellable: false,
-        },
-        async () => {
-          // Create or show PR detail webview panel
-          const panel = vscode.window.createWebviewPanel(
-            "prDetail",
-            `PR #${item.pullRequest.pullRequestId}: ${item.pullRequest.title}`,
-            vscode.ViewColumn.Active,
-            {
-              enableScripts: true,
-              localResourceRoots: [],
-              retainContextWhenHidden: true,
-            }
-          );
+      const result = await this.workflowService.executeReviewSubmissionWorkflow(
+        repositoryId,
+        pullRequestId,
+        drafts,
+        vote === 0 ? undefined : vote
+      );
 
-          // Set webview content with PR details
-          panel.webview.html = this.getPRDetailWebviewContent(prDetails);
+      const postedDraftIds: string[] = result.data.postedDraftIds || [];
+      const remaining = drafts.length - postedDraftIds.length;
+      if (remaining === 0) {
+        await this.reviewDraftService.endReview(repositoryId, pullRequestId);
+      } else {
+        await this.reviewDraftService.removeDrafts(
+          repositoryId,
+          pullRequestId,
+          postedDraftIds
+        );
+      }
 
-          // Handle webview messages
-          panel.webview.onDidReceiveMessage(async (message) => {
-            await this.handleWebviewMessage(message, item);
-          });
+      if (result.errors.length === 0) {
+        vscode.window.showInformationMessage(
+          `Review of PR #${pullRequestId} submitted.`
+        );
+      } else {
+        const pending =
+          remaining > 0
+            ? ` ${remaining} comment${remaining === 1 ? "" : "s"} remain${
+                remaining === 1 ? "s" : ""
+              } pending.`
+            : "";
+        vscode.window.showWarningMessage(
+          `Review of PR #${pullRequestId} was not fully submitted.${pending} ${result.errors.join(
+            "; "
+          )}`
+        );
+      }
 
-          panel.onDidDispose(() => {
-            // Clean up when webview is closed
-          });
-        }
-      );
+      await this.commentController.reloadThreads(repositoryId, pullRequestId);
+      this.telemetryService.trackEvent("reviewSubmitted", {
+        status: result.status,
+        draftCount: drafts.length.toString(),
+      });
+      await this.refreshPullRequests();
     } catch (error) {
       await this.errorHandler.handleError(
-        error as Error,
+        error instanceof Error ? error : String(error),
         ErrorCategory.INTERNAL
       );
     }
   }
 
   /**
-   * Generate webview content for PR details
+   * End a pending review without posting its drafts
    */
-  private getPRDetailWebviewContent(prDetails: {
-    pullRequest: PullRequest;
-    fileCount: number;
-    commentThreads: CommentThread[];
-  }): string {
-    return `
-            <!DOCTYPE html>
-            <html>
-            <head>
-                <meta charset="UTF-8">
-                <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                <title>PR Details</title>
-                <style>
-                    body { font-family: Arial, sans-serif; margin: 20px; }
-                    .header { margin-bottom: 20px; }
-                    .title { font-size: 24px; font-weight: bold; margin-bottom: 10px; }
-                    .meta { color: #666; margin-bottom: 5px; }
-                    .section { margin-bottom: 20px; }
-                    .section-title { font-size: 18px; font-weight: bold; margin-bottom: 10px; }
-                    .comment { border-left: 3px solid #007acc; padding-left: 10px; margin-bottom: 10px; }
-                    .actions { margin-top: 20px; }
-                    button { margin-right: 10px; padding: 5px 15px; }
-                </style>
-            </head>
-            <body>
-                <div class="header">
-                    <div class="title">${prDetails.pullRequest.title}</div>
-                    <div class="meta">Created by ${
-                      prDetails.pullRequest.createdBy?.displayName || "Unknown"
-                    }</div>
-                    <div class="meta">Status: ${
-                      prDetails.pullRequest.status
-                    }</div>
-                    <div class="meta">Files changed: ${
-                      prDetails.fileCount
-                    }</div>
-                    <div class="meta">Comments: ${
-                      prDetails.commentThreads.length
-                    }</div>
-                </div>
-
-                <div class="section">
-                    <div class="section-title">Description</div>
-                    <div>${
-                      prDetails.pullRequest.description ||
-                      "No description provided"
-                    }</div>
-                </div>
-
-                <div class="section">
-                    <div class="section-title">Comments (${
-                      prDetails.commentThreads.length
-                    })</div>
-                    ${prDetails.commentThreads
-                      .map(
-                        (thread: CommentThread) => `
-                        <div class="comment">
-                            <div class="meta">${
-                              thread.comments?.[0]?.author?.displayName ||
-                              "Unknown"
-                            } - ${
-                          thread.comments?.[0]?.publishedDate
-                            ? thread.comments[0].publishedDate.toLocaleString()
-                            : new Date().toLocaleString()
-                        }</div>
-                            <div>${thread.comments?.[0]?.content || ""}</div>
-                        </div>
-                    `
-                      )
-                      .join("")}
-                </div>
-
-                <div class="actions">
-                    <button onclick="approvePR()">Approve</button>
-                    <button onclick="rejectPR()">Reject</button>
-                    <button onclick="addComment()">Add Comment</button>
-                </div>
-
-                <script>
-                    const vscode = acquireVsCodeApi();
-
-                    function approvePR() {
-                        vscode.postMessage({ command: 'approve' });
-                    }
-
-                    function rejectPR() {
-                        vscode.postMessage({ command: 'reject' });
-                    }
-
-                    function addComment() {
-                        vscode.postMessage({ command: 'comment' });
-                    }
-                </script>
-            </body>
-            </html>
-        `;
+  private async discardReview(item: PullRequestTreeItemData): Promise<void> {
+    if (!item || !item.pullRequest) {
+      vscode.window.showErrorMessage("No pull request selected");
+      return;
+    }
+
+    const repositoryId = item.repository.id;
+    const pullRequestId = item.pullRequest.pullRequestId;
+    const drafts = this.reviewDraftService.getDrafts(
+      repositoryId,
+      pullRequestId
+    );
+    if (drafts.length > 0) {
+      const confirmed = await vscode.window.showWarningMessage(
+        `Discard ${drafts.length} pending comment${
+          drafts.length === 1 ? "" : "s"
+        } of PR #${pullRequestId}?`,
+        { modal: true },
+        "Discard"
+      );
+      if (confirmed !== "Discard") {
+        return;
+      }
+    }
+
+    await this.reviewDraftService.endReview(repositoryId, pullRequestId);
+    await this.commentController.reloadThreads(repositoryId, pullRequestId);
   }
 
   /**
-   * Handle messages from webview
+   * Get the display label of a reviewer vote
    */
-  private async handleWebviewMessage(message: WebviewMessage, item: PullRequestTreeItemData): Promise<void> {
-    switch (message.command) {
-      case "approve":
-        await this.approvePullRequest(item);
-        break;
-      case "reject":
-        await this.rejectPullRequest(item);
-        break;
-      case "comment":
-        await this.addComment(item);
-        break;
+  private getVoteLabel(vote: PullRequestVote): string {
+    switch (vote) {
+      case 10:
+        return "Approved";
+      case 5:
+        return "Approved with suggestions";
+      case -5:
+        return "Waiting for author";
+      case -10:
+        return "Rejected";
+      default:
+        return "No vote";
     }
   }
 
@@ -1051,6 +2909,11 @@ export class ExtensionController implements vscode.Disposable {
     this.disposables = [];
 
     // Dispose services
+    this.commentController.dispose();
+    this.outboxService.dispose();
+    this.notificationService.dispose();
+    this.reviewDraftService.dispose();
+    this.backgroundSyncService.dispose();
     this.integrationService.dispose();
     this.workflowService?.dispose();
     this.monitoringService.dispose();
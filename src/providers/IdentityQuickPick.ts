@@ -0,0 +1,105 @@
+import * as vscode from "vscode";
+import { IdentitySearchResult } from "../api/models";
+import { PullRequestService } from "../services/PullRequestService";
+
+/**
+ * Quick pick item carrying an identity search result
+ */
+interface IdentityQuickPickItem extends vscode.QuickPickItem {
+  readonly identity: IdentitySearchResult;
+}
+
+/**
+ * Quick pick that searches Azure DevOps users and groups as the user types
+ */
+export class IdentityQuickPick {
+  private static readonly SEARCH_DELAY_MS = 300;
+
+  constructor(
+    private readonly pullRequestService: PullRequestService,
+    private readonly repositoryId?: string
+  ) {}
+
+  /**
+   * Show the picker and wait for a selection
+   *
+   * @param title Picker title
+   * @param excludeIds Identity IDs that should not be offered (e.g. existing reviewers)
+   * @returns Selected identity, or undefined if the picker was dismissed
+   */
+  pick(
+    title: string,
+    excludeIds: ReadonlySet<string> = new Set()
+  ): Promise<IdentitySearchResult | undefined> {
+    const quickPick = vscode.window.createQuickPick<IdentityQuickPickItem>();
+    quickPick.title = title;
+    quickPick.placeholder = "Search users and groups by name or email";
+    quickPick.matchOnDescription = true;
+    quickPick.matchOnDetail = true;
+
+    let searchTimer: ReturnType<typeof setTimeout> | undefined;
+    let searchVersion = 0;
+
+    const search = async (query: string): Promise<void> => {
+      const version = ++searchVersion;
+      quickPick.busy = true;
+      const identities = await this.pullRequestService.searchIdentities(
+        query,
+        this.repositoryId
+      );
+
+      // Ignore results of searches superseded by newer input
+      if (version !== searchVersion) {
+        return;
+      }
+
+      quickPick.items = identities
+        .filter((identity) => !excludeIds.has(identity.id))
+        .map((identity) => ({
+          label: `$(${identity.isGroup ? "organization" : "person"}) ${identity.displayName}`,
+          description: identity.uniqueName,
+          detail: identity.isGroup ? "Group" : undefined,
+          alwaysShow: true,
+          identity,
+        }));
+      quickPick.busy = false;
+    };
+
+    return new Promise((resolve) => {
+      const disposables: vscode.Disposable[] = [
+        quickPick.onDidChangeValue((value) => {
+          if (searchTimer) {
+            clearTimeout(searchTimer);
+          }
+          if (!value.trim()) {
+            searchVersion++;
+            quickPick.items = [];
+            quickPick.busy = false;
+            return;
+          }
+          searchTimer = setTimeout(
+            () => search(value),
+            IdentityQuickPick.SEARCH_DELAY_MS
+          );
+        }),
+        quickPick.onDidAccept(() => {
+          const selected = quickPick.selectedItems[0];
+          if (selected) {
+            resolve(selected.identity);
+            quickPick.hide();
+          }
+        }),
+        quickPick.onDidHide(() => {
+          if (searchTimer) {
+            clearTimeout(searchTimer);
+          }
+          resolve(undefined);
+          disposables.forEach((disposable) => disposable.dispose());
+          quickPick.dispose();
+        }),
+      ];
+
+      quickPick.show();
+    });
+  }
+}
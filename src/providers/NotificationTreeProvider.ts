@@ -0,0 +1,83 @@
+import * as vscode from "vscode";
+import {
+  NotificationService,
+  PullRequestNotification,
+} from "../services/NotificationService";
+import { NotificationType } from "../services/ConfigurationService";
+
+/**
+ * Unread notification tree item, opening its pull request when clicked
+ */
+class NotificationTreeItem extends vscode.TreeItem {
+  private static readonly ICONS: Record<NotificationType, string> = {
+    reviewRequested: "eye",
+    threadReply: "comment-discussion",
+    newIteration: "git-commit",
+    policyFailed: "error",
+  };
+
+  constructor(public readonly notification: PullRequestNotification) {
+    super(notification.message, vscode.TreeItemCollapsibleState.None);
+
+    this.id = notification.id;
+    this.description = notification.pullRequestTitle;
+    this.tooltip = `${notification.message}\n${
+      notification.pullRequestTitle
+    }\n${new Date(notification.createdAt).toLocaleString()}`;
+    this.iconPath = new vscode.ThemeIcon(
+      NotificationTreeItem.ICONS[notification.type]
+    );
+    this.contextValue = "azureDevOpsNotification";
+    this.command = {
+      command: NotificationService.OPEN_COMMAND,
+      title: "Open Notification",
+      arguments: [notification],
+    };
+  }
+}
+
+/**
+ * Notifications tree data provider listing unread notifications, newest first
+ */
+export class NotificationTreeProvider
+  implements vscode.TreeDataProvider<NotificationTreeItem>, vscode.Disposable
+{
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData: vscode.Event<void> =
+    this._onDidChangeTreeData.event;
+
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly notificationService: NotificationService) {
+    this.subscription = notificationService.onDidChangeNotifications(() =>
+      this._onDidChangeTreeData.fire()
+    );
+  }
+
+  /**
+   * Get tree item for the given element
+   */
+  getTreeItem(element: NotificationTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * Get the unread notifications; they have no children
+   */
+  getChildren(element?: NotificationTreeItem): NotificationTreeItem[] {
+    if (element) {
+      return [];
+    }
+    return this.notificationService
+      .getNotifications()
+      .map((notification) => new NotificationTreeItem(notification));
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
@@ -0,0 +1,937 @@
+import * as vscode from "vscode";
+import { CommentService } from "../services/CommentService";
+import { PullRequestService } from "../services/PullRequestService";
+import { OutboxService } from "../services/OutboxService";
+import {
+  ReviewDraft,
+  ReviewDraftService,
+} from "../services/ReviewDraftService";
+import {
+  SuggestionApplyResult,
+  SuggestionService,
+  createSuggestionBlock,
+  parseSuggestions,
+  renderSuggestionDiff,
+} from "../services/SuggestionService";
+import { replaceMentions } from "../utils/Markdown";
+import { ErrorCategory, ErrorHandler } from "../utils/ErrorHandler";
+import { PullRequestContentProvider } from "./PullRequestContentProvider";
+import {
+  Comment,
+  CommentThread,
+  CommentThreadSide,
+  CommentThreadStatus,
+} from "../api/models";
+
+/**
+ * Azure DevOps thread a VS Code comment thread is bound to
+ */
+interface ThreadBinding {
+  readonly repositoryId: string;
+  readonly pullRequestId: number;
+  readonly filePath: string;
+  readonly side: CommentThreadSide;
+  threadId?: number;
+  status?: CommentThreadStatus;
+}
+
+/**
+ * Read-only view of an Azure DevOps comment
+ *
+ * Mentions are shown with display names, and suggestion blocks as diffs
+ * against the lines the thread is anchored to.
+ */
+class PullRequestComment implements vscode.Comment {
+  public readonly body: vscode.MarkdownString;
+  public readonly mode = vscode.CommentMode.Preview;
+  public readonly author: vscode.CommentAuthorInformation;
+  public readonly timestamp: Date;
+  public readonly contextValue: string;
+  public parent?: vscode.CommentThread;
+
+  constructor(
+    public readonly comment: Comment,
+    originalLines: readonly string[] = [],
+    canApplySuggestion = false,
+    mentions: ReadonlyMap<string, string> = new Map()
+  ) {
+    this.body = new vscode.MarkdownString(
+      renderSuggestionDiff(
+        replaceMentions(comment.content, mentions),
+        originalLines
+      )
+    );
+    this.author = { name: comment.author.displayName };
+    this.timestamp = new Date(comment.publishedDate);
+    this.contextValue =
+      canApplySuggestion && parseSuggestions(comment.content).length > 0
+        ? "azureDevOpsSuggestion"
+        : "azureDevOpsComment";
+  }
+}
+
+/**
+ * Suggestion being written in the comment widget, posted when saved
+ */
+class SuggestionDraftComment implements vscode.Comment {
+  public body: string | vscode.MarkdownString;
+  public mode = vscode.CommentMode.Editing;
+  public readonly author: vscode.CommentAuthorInformation = { name: "You" };
+  public readonly contextValue = "azureDevOpsSuggestionDraft";
+
+  constructor(
+    body: string,
+    public readonly parent: vscode.CommentThread
+  ) {
+    this.body = body;
+  }
+}
+
+/**
+ * Draft of a pending review, shown until the review is submitted
+ */
+class PendingReviewComment implements vscode.Comment {
+  public readonly body: vscode.MarkdownString;
+  public readonly mode = vscode.CommentMode.Preview;
+  public readonly author: vscode.CommentAuthorInformation = { name: "You" };
+  public readonly label = "Pending";
+  public readonly timestamp: Date;
+  public readonly contextValue = "azureDevOpsPendingComment";
+
+  constructor(public readonly draft: ReviewDraft) {
+    this.body = new vscode.MarkdownString(draft.content);
+    this.timestamp = new Date(draft.createdAt);
+  }
+}
+
+/**
+ * Places pull request comment threads in the diff editors opened from the
+ * Changed Files tree and lets the user reply, resolve and start new threads
+ *
+ * Threads anchored with `rightFile*` positions are shown on the source
+ * document, threads with only `leftFile*` positions on the base document.
+ * New threads and replies are sent through the outbox, so they are queued
+ * while Azure DevOps is unreachable. While a review of the pull request is
+ * pending, new threads and replies are held as drafts and shown with a
+ * "Pending" label. Suggestions can be written on the source document and
+ * applied by the pull request author.
+ */
+export class PullRequestCommentController implements vscode.Disposable {
+  public static readonly CONTROLLER_ID = "azureDevOpsPullRequest";
+
+  private readonly controller: vscode.CommentController;
+  private readonly bindings = new Map<vscode.CommentThread, ThreadBinding>();
+  private readonly threadsByDocument = new Map<string, vscode.CommentThread[]>();
+  private readonly suggestionPermissions = new Map<string, Promise<boolean>>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly commentService: CommentService,
+    private readonly pullRequestService: PullRequestService,
+    private readonly outboxService: OutboxService,
+    private readonly reviewDraftService: ReviewDraftService,
+    private readonly suggestionService: SuggestionService,
+    private readonly errorHandler: ErrorHandler
+  ) {
+    this.controller = vscode.comments.createCommentController(
+      PullRequestCommentController.CONTROLLER_ID,
+      "Azure DevOps Pull Request"
+    );
+    this.controller.options = {
+      prompt: "Reply to thread",
+      placeHolder: "Leave a comment",
+    };
+    this.controller.commentingRangeProvider = {
+      provideCommentingRanges: (document) => {
+        const query = PullRequestContentProvider.fromUri(document.uri);
+        if (!query?.commitId || document.lineCount === 0) {
+          return [];
+        }
+        return [new vscode.Range(0, 0, document.lineCount - 1, 0)];
+      },
+    };
+
+    this.disposables.push(
+      this.controller,
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        this.showThreads(document)
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.clearThreads(document.uri)
+      )
+    );
+
+    vscode.workspace.textDocuments.forEach((document) =>
+      this.showThreads(document)
+    );
+  }
+
+  /**
+   * Submit the text of a comment reply, either as a reply to an existing
+   * thread or as the first comment of a new thread
+   *
+   * @param reply Reply from the comment widget
+   */
+  async submitComment(reply: vscode.CommentReply): Promise<void> {
+    await this.postComment(reply.thread, reply.text);
+  }
+
+  /**
+   * Start a suggestion in a thread, prefilled with the lines the thread is
+   * anchored to and any text already typed in the reply box
+   *
+   * @param reply Reply from the comment widget
+   */
+  async suggestChange(reply: vscode.CommentReply): Promise<void> {
+    const binding = this.getBinding(reply.thread);
+    if (!binding || binding.side !== "right" || !reply.thread.range) {
+      vscode.window.showErrorMessage(
+        "Suggestions can only be made on the source side of a pull request diff."
+      );
+      return;
+    }
+
+    const body = [
+      reply.text.trim(),
+      createSuggestionBlock(this.getThreadLines(reply.thread)),
+    ]
+      .filter((part) => !!part)
+      .join("\n\n");
+    reply.thread.comments = [
+      ...reply.thread.comments,
+      new SuggestionDraftComment(body, reply.thread),
+    ];
+  }
+
+  /**
+   * Post a suggestion written in the comment widget
+   *
+   * @param comment Suggestion draft being edited
+   */
+  async saveSuggestion(comment: vscode.Comment): Promise<void> {
+    if (!(comment instanceof SuggestionDraftComment)) {
+      return;
+    }
+
+    this.removeComment(comment.parent, comment);
+    await this.postComment(
+      comment.parent,
+      typeof comment.body === "string" ? comment.body : comment.body.value
+    );
+  }
+
+  /**
+   * Discard a suggestion written in the comment widget
+   *
+   * @param comment Suggestion draft being edited
+   */
+  cancelSuggestion(comment: vscode.Comment): void {
+    if (comment instanceof SuggestionDraftComment) {
+      this.removeComment(comment.parent, comment);
+    }
+  }
+
+  /**
+   * Apply the suggestion of a comment to the pull request source branch,
+   * either in the local checkout or as a commit pushed to Azure DevOps, and
+   * resolve its thread
+   *
+   * @param comment Comment containing a suggestion block
+   */
+  async applySuggestion(comment: vscode.Comment): Promise<void> {
+    if (!(comment instanceof PullRequestComment) || !comment.parent) {
+      return;
+    }
+    const thread = comment.parent;
+    const binding = this.bindings.get(thread);
+    const [lines] = parseSuggestions(comment.comment.content);
+    if (!binding || binding.threadId === undefined || !thread.range || !lines) {
+      return;
+    }
+
+    const pullRequest = await this.pullRequestService.getPullRequest(
+      binding.repositoryId,
+      binding.pullRequestId
+    );
+    if (!pullRequest) {
+      vscode.window.showErrorMessage("Failed to load pull request.");
+      return;
+    }
+
+    const branch = pullRequest.sourceRefName.replace(/^refs\/heads\//, "");
+    const local = await this.suggestionService.findLocalCheckout(pullRequest);
+    const targets = [
+      ...(local
+        ? [
+            {
+              label: "$(file-code) Apply to Local File",
+              description: local.repository.rootUri.fsPath,
+              local: true,
+            },
+          ]
+        : []),
+      {
+        label: `$(git-commit) Commit to ${branch}`,
+        description: "Push a commit to the source branch",
+        local: false,
+      },
+    ];
+    const target = await vscode.window.showQuickPick(targets, {
+      placeHolder: "Apply the suggestion",
+    });
+    if (!target) {
+      return;
+    }
+
+    const location = {
+      threadId: binding.threadId,
+      filePath: binding.filePath,
+      startLine: thread.range.start.line + 1,
+      endLine: thread.range.end.line + 1,
+      originalLines: this.getThreadLines(thread),
+    };
+    const result: SuggestionApplyResult = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Applying suggestion...",
+      },
+      () =>
+        local && target.local
+          ? this.suggestionService.applyToLocalFile(
+              local,
+              pullRequest,
+              location,
+              lines
+            )
+          : this.suggestionService.commitSuggestion(
+              pullRequest,
+              location,
+              lines
+            )
+    );
+
+    if (!result.success) {
+      vscode.window.showErrorMessage(
+        `Failed to apply suggestion: ${result.error}`
+      );
+      return;
+    }
+
+    if (result.threadResolved) {
+      this.applyThreadState(thread, binding, "fixed");
+    } else {
+      vscode.window.showWarningMessage(
+        "The suggestion was applied, but its thread could not be resolved."
+      );
+    }
+    vscode.window.showInformationMessage(
+      target.local
+        ? `Suggestion applied to ${binding.filePath}. Commit and push it to update the pull request.`
+        : `Suggestion committed to ${branch}.`
+    );
+  }
+
+  /**
+   * Post a reply, or the first comment of a new thread
+   */
+  private async postComment(
+    thread: vscode.CommentThread,
+    content: string
+  ): Promise<void> {
+    const text = content.trim();
+    if (!text) {
+      return;
+    }
+
+    const binding = this.getBinding(thread);
+    if (!binding) {
+      vscode.window.showErrorMessage(
+        "Comments can only be added to pull request diff documents."
+      );
+      return;
+    }
+
+    if (
+      this.reviewDraftService.isReviewing(
+        binding.repositoryId,
+        binding.pullRequestId
+      )
+    ) {
+      await this.addDraft(thread, binding, text);
+      return;
+    }
+
+    if (binding.threadId !== undefined) {
+      try {
+        const result = await this.outboxService.submit({
+          type: "reply",
+          repositoryId: binding.repositoryId,
+          pullRequestId: binding.pullRequestId,
+          threadId: binding.threadId,
+          content: text,
+          baseline: binding.status && {
+            status: binding.status,
+            commentCount: thread.comments.length,
+          },
+        });
+        if (result.queued) {
+          vscode.window.showInformationMessage(
+            OutboxService.getQueuedMessage(result.queueReason, "The reply")
+          );
+        } else if (result.comment) {
+          thread.comments = [
+            ...thread.comments,
+            ...(await this.createComments(thread, binding, [result.comment])),
+          ];
+        }
+      } catch {
+        vscode.window.showErrorMessage("Failed to add reply.");
+      }
+      return;
+    }
+
+    const range = thread.range;
+    if (!range) {
+      return;
+    }
+    const latestIteration = await this.getLatestIterationId(binding);
+
+    try {
+      const result = await this.outboxService.submit({
+        type: "comment",
+        repositoryId: binding.repositoryId,
+        pullRequestId: binding.pullRequestId,
+        content: text,
+        position: {
+          filePath: binding.filePath,
+          line: range.start.line + 1,
+          endLine: range.end.line + 1,
+          side: binding.side,
+          iterationId: latestIteration,
+        },
+      });
+      if (result.queued) {
+        vscode.window.showInformationMessage(
+          OutboxService.getQueuedMessage(result.queueReason, "The comment")
+        );
+      } else if (result.thread) {
+        binding.threadId = result.thread.id;
+        this.applyThreadState(thread, binding, result.thread.status);
+        thread.comments = await this.createComments(
+          thread,
+          binding,
+          result.thread.comments
+        );
+      }
+    } catch {
+      vscode.window.showErrorMessage("Failed to create comment thread.");
+    }
+  }
+
+  /**
+   * Reload the threads of all open diff documents of a pull request, e.g.
+   * after its pending review was submitted or discarded
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   */
+  async reloadThreads(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<void> {
+    const documents = vscode.workspace.textDocuments.filter((document) => {
+      const query = PullRequestContentProvider.fromUri(document.uri);
+      return (
+        query?.repositoryId === repositoryId &&
+        query.pullRequestId === pullRequestId
+      );
+    });
+    await Promise.all(documents.map((document) => this.loadThreads(document)));
+  }
+
+  /**
+   * Mark a thread as resolved (fixed) in Azure DevOps
+   *
+   * @param thread Comment thread to resolve
+   */
+  async resolveThread(thread: vscode.CommentThread): Promise<void> {
+    await this.setThreadStatus(thread, "fixed");
+  }
+
+  /**
+   * Reactivate a resolved thread in Azure DevOps
+   *
+   * @param thread Comment thread to reactivate
+   */
+  async reactivateThread(thread: vscode.CommentThread): Promise<void> {
+    await this.setThreadStatus(thread, "active");
+  }
+
+  /**
+   * Hold a reply or the first comment of a new thread as a review draft
+   */
+  private async addDraft(
+    thread: vscode.CommentThread,
+    binding: ThreadBinding,
+    text: string
+  ): Promise<void> {
+    const range = thread.range;
+    if (binding.threadId === undefined && !range) {
+      return;
+    }
+
+    const draft = await this.reviewDraftService.addDraft(
+      binding.repositoryId,
+      binding.pullRequestId,
+      binding.threadId !== undefined
+        ? { content: text, threadId: binding.threadId }
+        : {
+            content: text,
+            filePath: binding.filePath,
+            line: (range?.start.line ?? 0) + 1,
+            endLine: (range?.end.line ?? 0) + 1,
+            side: binding.side,
+            iterationId: await this.getLatestIterationId(binding),
+          }
+    );
+
+    thread.comments = [...thread.comments, new PendingReviewComment(draft)];
+    if (binding.threadId === undefined) {
+      // The thread only exists in Azure DevOps once the review is submitted
+      thread.canReply = false;
+      thread.label = "Pending";
+    }
+  }
+
+  /**
+   * Get the ID of the latest iteration of a thread's pull request
+   */
+  private async getLatestIterationId(
+    binding: ThreadBinding
+  ): Promise<number | undefined> {
+    const iterations = await this.pullRequestService.getPullRequestIterations(
+      binding.repositoryId,
+      binding.pullRequestId
+    );
+    return iterations.length
+      ? Math.max(...iterations.map((iteration) => iteration.id))
+      : undefined;
+  }
+
+  /**
+   * Update the status of a bound thread
+   */
+  private async setThreadStatus(
+    thread: vscode.CommentThread,
+    status: CommentThreadStatus
+  ): Promise<void> {
+    const binding = this.bindings.get(thread);
+    if (!binding || binding.threadId === undefined) {
+      return;
+    }
+
+    try {
+      const result = await this.outboxService.submit({
+        type: "threadStatus",
+        repositoryId: binding.repositoryId,
+        pullRequestId: binding.pullRequestId,
+        threadId: binding.threadId,
+        status,
+        baseline: binding.status && {
+          status: binding.status,
+          commentCount: thread.comments.length,
+        },
+      });
+      if (result.queued) {
+        vscode.window.showInformationMessage(
+          OutboxService.getQueuedMessage(
+            result.queueReason,
+            "The thread status change"
+          )
+        );
+      }
+    } catch {
+      vscode.window.showErrorMessage("Failed to update thread status.");
+      return;
+    }
+
+    this.applyThreadState(thread, binding, status);
+  }
+
+  /**
+   * Load the threads of a document without waiting, reporting failures
+   */
+  private showThreads(document: vscode.TextDocument): void {
+    this.loadThreads(document).catch((error) =>
+      this.errorHandler.handleError(
+        error instanceof Error ? error : String(error),
+        ErrorCategory.API
+      )
+    );
+  }
+
+  /**
+   * Load the Azure DevOps threads for a pull request diff document
+   */
+  private async loadThreads(document: vscode.TextDocument): Promise<void> {
+    const query = PullRequestContentProvider.fromUri(document.uri);
+    if (!query?.commitId) {
+      return;
+    }
+
+    const side = query.side || "right";
+    // Threads on the base side of a renamed file may be filed under either path
+    const filePaths = [query.path];
+    if (side === "left" && query.originalPath) {
+      filePaths.push(query.originalPath);
+    }
+    const threads = (
+      await this.commentService.getCommentThreads(
+        query.repositoryId,
+        query.pullRequestId
+      )
+    ).filter((thread) =>
+      filePaths.includes(thread.threadContext?.filePath || "")
+    );
+
+    const canApplySuggestions =
+      side === "right" &&
+      (await this.canApplySuggestions(query.repositoryId, query.pullRequestId));
+    const mentions = await this.commentService.resolveMentions(
+      query.repositoryId,
+      threads.flatMap((thread) =>
+        thread.comments.map((comment) => comment.content || "")
+      )
+    );
+
+    this.clearThreads(document.uri);
+    const drafts = this.reviewDraftService.getDrafts(
+      query.repositoryId,
+      query.pullRequestId
+    );
+    const created = threads
+      .filter((thread) => !thread.isDeleted && this.getSide(thread) === side)
+      .map((thread) => {
+        const commentThread = this.createThread(
+          document,
+          thread,
+          {
+            repositoryId: query.repositoryId,
+            pullRequestId: query.pullRequestId,
+            filePath: query.path,
+            side,
+            threadId: thread.id,
+          },
+          canApplySuggestions,
+          mentions
+        );
+        const replies = drafts.filter((draft) => draft.threadId === thread.id);
+        if (replies.length > 0) {
+          commentThread.comments = [
+            ...commentThread.comments,
+            ...replies.map((draft) => new PendingReviewComment(draft)),
+          ];
+        }
+        return commentThread;
+      });
+
+    // Threads started during the pending review
+    const pending = drafts
+      .filter(
+        (draft) =>
+          draft.threadId === undefined &&
+          draft.filePath === query.path &&
+          (draft.side || "right") === side
+      )
+      .map((draft) => this.createPendingThread(document, draft));
+
+    this.threadsByDocument.set(document.uri.toString(), [
+      ...created,
+      ...pending,
+    ]);
+  }
+
+  /**
+   * Create a VS Code comment thread for a new thread drafted in a pending
+   * review
+   */
+  private createPendingThread(
+    document: vscode.TextDocument,
+    draft: ReviewDraft
+  ): vscode.CommentThread {
+    const lastLine = Math.max(document.lineCount - 1, 0);
+    const startLine = Math.min(Math.max((draft.line ?? 1) - 1, 0), lastLine);
+    const endLine = Math.min(
+      Math.max((draft.endLine ?? draft.line ?? 1) - 1, startLine),
+      lastLine
+    );
+
+    const commentThread = this.controller.createCommentThread(
+      document.uri,
+      new vscode.Range(startLine, 0, endLine, 0),
+      [new PendingReviewComment(draft)]
+    );
+    commentThread.canReply = false;
+    commentThread.label = "Pending";
+    commentThread.collapsibleState =
+      vscode.CommentThreadCollapsibleState.Expanded;
+
+    return commentThread;
+  }
+
+  /**
+   * Create a VS Code comment thread for an Azure DevOps thread
+   */
+  private createThread(
+    document: vscode.TextDocument,
+    thread: CommentThread,
+    binding: ThreadBinding,
+    canApplySuggestions: boolean,
+    mentions: ReadonlyMap<string, string>
+  ): vscode.CommentThread {
+    const context = thread.threadContext;
+    const start =
+      binding.side === "left" ? context?.leftFileStart : context?.rightFileStart;
+    const end =
+      binding.side === "left" ? context?.leftFileEnd : context?.rightFileEnd;
+    const lastLine = Math.max(document.lineCount - 1, 0);
+    const startLine = Math.min(Math.max((start?.line ?? 1) - 1, 0), lastLine);
+    const endLine = Math.min(
+      Math.max((end?.line ?? start?.line ?? 1) - 1, startLine),
+      lastLine
+    );
+
+    const range = new vscode.Range(startLine, 0, endLine, 0);
+    const originalLines = this.getLines(document, range);
+    const commentThread = this.controller.createCommentThread(
+      document.uri,
+      range,
+      []
+    );
+    commentThread.comments = thread.comments
+      .filter(
+        (comment) => !comment.isDeleted && comment.commentType !== "system"
+      )
+      .map((comment) =>
+        this.createComment(
+          commentThread,
+          comment,
+          originalLines,
+          canApplySuggestions,
+          mentions
+        )
+      );
+    commentThread.canReply = true;
+    this.bindings.set(commentThread, binding);
+    this.applyThreadState(commentThread, binding, thread.status);
+
+    return commentThread;
+  }
+
+  /**
+   * Create the views of comments posted to a thread
+   */
+  private async createComments(
+    thread: vscode.CommentThread,
+    binding: ThreadBinding,
+    comments: Comment[]
+  ): Promise<PullRequestComment[]> {
+    const canApplySuggestions =
+      binding.side === "right" &&
+      (await this.canApplySuggestions(
+        binding.repositoryId,
+        binding.pullRequestId
+      ));
+    const originalLines = this.getThreadLines(thread);
+    const mentions = await this.commentService.resolveMentions(
+      binding.repositoryId,
+      comments.map((comment) => comment.content || "")
+    );
+
+    return comments.map((comment) =>
+      this.createComment(
+        thread,
+        comment,
+        originalLines,
+        canApplySuggestions,
+        mentions
+      )
+    );
+  }
+
+  /**
+   * Create the view of a comment, linked to its thread
+   */
+  private createComment(
+    thread: vscode.CommentThread,
+    comment: Comment,
+    originalLines: readonly string[],
+    canApplySuggestions: boolean,
+    mentions: ReadonlyMap<string, string>
+  ): PullRequestComment {
+    const view = new PullRequestComment(
+      comment,
+      originalLines,
+      canApplySuggestions,
+      mentions
+    );
+    view.parent = thread;
+    return view;
+  }
+
+  /**
+   * Check whether the current user may apply suggestions to a pull request,
+   * remembering the answer for the session
+   */
+  private canApplySuggestions(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<boolean> {
+    const key = `${repositoryId}:${pullRequestId}`;
+    let permission = this.suggestionPermissions.get(key);
+    if (!permission) {
+      permission = this.suggestionService.canApply(repositoryId, pullRequestId);
+      this.suggestionPermissions.set(key, permission);
+    }
+    return permission;
+  }
+
+  /**
+   * Get the text of the lines a thread is anchored to
+   */
+  private getThreadLines(thread: vscode.CommentThread): string[] {
+    const document = vscode.workspace.textDocuments.find(
+      (candidate) => candidate.uri.toString() === thread.uri.toString()
+    );
+    return document && thread.range ? this.getLines(document, thread.range) : [];
+  }
+
+  private getLines(document: vscode.TextDocument, range: vscode.Range): string[] {
+    const lines: string[] = [];
+    for (
+      let line = range.start.line;
+      line <= range.end.line && line < document.lineCount;
+      line++
+    ) {
+      lines.push(document.lineAt(line).text);
+    }
+    return lines;
+  }
+
+  /**
+   * Remove a comment from a thread
+   */
+  private removeComment(
+    thread: vscode.CommentThread,
+    comment: vscode.Comment
+  ): void {
+    thread.comments = thread.comments.filter(
+      (candidate) => candidate !== comment
+    );
+  }
+
+  /**
+   * Reflect an Azure DevOps thread status on the VS Code thread
+   */
+  private applyThreadState(
+    thread: vscode.CommentThread,
+    binding: ThreadBinding,
+    status: CommentThreadStatus
+  ): void {
+    const isActive = status === "active" || status === "pending";
+    binding.status = status;
+    thread.contextValue = isActive ? "active" : "resolved";
+    thread.label = isActive ? undefined : this.getStatusLabel(status);
+    thread.state = isActive
+      ? vscode.CommentThreadState.Unresolved
+      : vscode.CommentThreadState.Resolved;
+    thread.collapsibleState = isActive
+      ? vscode.CommentThreadCollapsibleState.Expanded
+      : vscode.CommentThreadCollapsibleState.Collapsed;
+  }
+
+  /**
+   * Get the binding for a thread, creating one for threads the user just
+   * started on a pull request document
+   */
+  private getBinding(thread: vscode.CommentThread): ThreadBinding | undefined {
+    const existing = this.bindings.get(thread);
+    if (existing) {
+      return existing;
+    }
+
+    const query = PullRequestContentProvider.fromUri(thread.uri);
+    if (!query?.commitId) {
+      return undefined;
+    }
+
+    const binding: ThreadBinding = {
+      repositoryId: query.repositoryId,
+      pullRequestId: query.pullRequestId,
+      filePath: query.path,
+      side: query.side || "right",
+    };
+    this.bindings.set(thread, binding);
+
+    const key = thread.uri.toString();
+    this.threadsByDocument.set(key, [
+      ...(this.threadsByDocument.get(key) || []),
+      thread,
+    ]);
+
+    return binding;
+  }
+
+  /**
+   * Determine which diff side a thread is anchored to
+   */
+  private getSide(thread: CommentThread): CommentThreadSide | undefined {
+    if (thread.threadContext?.rightFileStart) {
+      return "right";
+    }
+    if (thread.threadContext?.leftFileStart) {
+      return "left";
+    }
+    return undefined;
+  }
+
+  private getStatusLabel(status: CommentThreadStatus): string {
+    switch (status) {
+      case "fixed":
+        return "Resolved";
+      case "wontFix":
+        return "Won't Fix";
+      case "byDesign":
+        return "By Design";
+      case "closed":
+        return "Closed";
+      default:
+        return status;
+    }
+  }
+
+  /**
+   * Dispose the threads shown for a document
+   */
+  private clearThreads(uri: vscode.Uri): void {
+    const key = uri.toString();
+    const threads = this.threadsByDocument.get(key) || [];
+    threads.forEach((thread) => {
+      this.bindings.delete(thread);
+      thread.dispose();
+    });
+    this.threadsByDocument.delete(key);
+  }
+
+  /**
+   * Dispose all resources
+   */
+  dispose(): void {
+    this.threadsByDocument.forEach((threads) =>
+      threads.forEach((thread) => thread.dispose())
+    );
+    this.threadsByDocument.clear();
+    this.bindings.clear();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
@@ -0,0 +1,111 @@
+import * as vscode from "vscode";
+import { AzureDevOpsApiClient } from "../api/AzureDevOpsApiClient";
+import { CommentThreadSide } from "../api/models";
+
+/**
+ * Identifies one version of a file in a pull request
+ */
+export interface PullRequestFileQuery {
+  readonly repositoryId: string;
+  readonly pullRequestId: number;
+  readonly path: string;
+  /** Path a renamed file had in the base version, which it is read at there */
+  readonly originalPath?: string;
+  /** Commit to read the file at; empty when the file does not exist on this side */
+  readonly commitId?: string;
+  /** Diff side the document is shown on, used to anchor comment threads */
+  readonly side?: CommentThreadSide;
+}
+
+/**
+ * Serves pull request file versions to the built-in diff editor
+ *
+ * Documents are addressed with the `azuredevops-pr` scheme. The URI path is
+ * the file path (so VS Code picks the right language mode) and the query
+ * carries the repository, pull request and commit the content is read at.
+ * Base documents of renamed files keep the new path, as comment threads are
+ * filed under it, and carry the path to read in the query.
+ */
+export class PullRequestContentProvider
+  implements vscode.TextDocumentContentProvider
+{
+  public static readonly SCHEME = "azuredevops-pr";
+
+  constructor(private readonly apiClient: AzureDevOpsApiClient) {}
+
+  /**
+   * Build a document URI for a pull request file version
+   *
+   * @param query File version to address
+   * @returns URI resolvable by this provider
+   */
+  static toUri(query: PullRequestFileQuery): vscode.Uri {
+    return vscode.Uri.from({
+      scheme: PullRequestContentProvider.SCHEME,
+      path: query.path.startsWith("/") ? query.path : `/${query.path}`,
+      query: JSON.stringify({
+        repositoryId: query.repositoryId,
+        pullRequestId: query.pullRequestId,
+        commitId: query.commitId ?? "",
+        side: query.side ?? "right",
+        ...(query.originalPath ? { originalPath: query.originalPath } : {}),
+      }),
+    });
+  }
+
+  /**
+   * Parse a document URI created by {@link PullRequestContentProvider.toUri}
+   *
+   * @param uri Document URI
+   * @returns File version query, or undefined for foreign URIs
+   */
+  static fromUri(uri: vscode.Uri): PullRequestFileQuery | undefined {
+    if (uri.scheme !== PullRequestContentProvider.SCHEME) {
+      return undefined;
+    }
+
+    try {
+      const params = JSON.parse(uri.query);
+      return {
+        repositoryId: params.repositoryId,
+        pullRequestId: Number(params.pullRequestId),
+        path: uri.path,
+        commitId: params.commitId || undefined,
+        side: params.side === "left" ? "left" : "right",
+        originalPath: params.originalPath || undefined,
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Provide the file content for a pull request document
+   */
+  async provideTextDocumentContent(
+    uri: vscode.Uri,
+    token: vscode.CancellationToken
+  ): Promise<string> {
+    const query = PullRequestContentProvider.fromUri(uri);
+    if (!query || !query.commitId) {
+      // Added files have no base version and deleted files no source version
+      return "";
+    }
+
+    const path = query.originalPath || query.path;
+    try {
+      const content = await this.apiClient.getFileContent(
+        query.repositoryId,
+        path,
+        query.commitId
+      );
+      return token.isCancellationRequested ? "" : content;
+    } catch (error) {
+      console.error(
+        `Failed to load ${path} at ${query.commitId}:`,
+        error
+      );
+      throw error;
+    }
+  }
+}
@@ -3,14 +3,53 @@ import { PullRequestService } from "../services/PullRequestService";
 import { StateManager } from "../services/StateManager";
 import { TelemetryService } from "../services/TelemetryService";
 import { IntegrationService } from "../services/IntegrationService";
-import { PullRequest, GitRepository } from "../api/models";
+import {
+  ViewedFilesService,
+  ReviewProgress,
+} from "../services/ViewedFilesService";
+import {
+  PolicyService,
+  PolicySummaryStatus,
+} from "../services/PolicyService";
+import { ConnectionProfile } from "../services/ConfigurationService";
+import { QueryService, PullRequestQuery } from "../services/QueryService";
+import {
+  WorkItemService,
+  WorkItemSummary,
+} from "../services/WorkItemService";
+import { PullRequestContentProvider } from "./PullRequestContentProvider";
+import {
+  PullRequestPage,
+  PullRequestPageRequest,
+} from "../api/AzureDevOpsApiClient";
+import {
+  PullRequest,
+  GitRepository,
+  GitPullRequestChange,
+  GitPullRequestIteration,
+} from "../api/models";
+
+/**
+ * Iteration range the changed files of a pull request are compared across
+ */
+export interface IterationComparison {
+  readonly baseIteration: GitPullRequestIteration;
+  readonly targetIteration: GitPullRequestIteration;
+}
 
 /**
  * Tree item types
  */
 enum TreeItemType {
+  QUERY = "query",
+  PROFILE = "profile",
   REPOSITORY = "repository",
   PULL_REQUEST = "pullRequest",
+  CHANGED_FILES = "changedFiles",
+  CHANGED_FILE = "changedFile",
+  WORK_ITEMS = "workItems",
+  WORK_ITEM = "workItem",
+  LOAD_MORE = "loadMore",
   LOADING = "loading",
   ERROR = "error",
   NO_PULL_REQUESTS = "noPullRequests",
@@ -20,41 +59,131 @@ enum TreeItemType {
  * Base tree item class
  */
 abstract class BaseTreeItem extends vscode.TreeItem {
+  public readonly id: string;
+
+  /**
+   * @param scope ID of the query the item is listed under, keeping IDs unique
+   *              when a pull request matches several queries
+   */
   constructor(
-    public readonly id: string,
+    id: string,
     public readonly type: TreeItemType,
     label: string,
     collapsibleState: vscode.TreeItemCollapsibleState = vscode
-      .TreeItemCollapsibleState.None
+      .TreeItemCollapsibleState.None,
+    public readonly scope?: string
   ) {
     super(label, collapsibleState);
+    this.id = scope ? `${scope}/${id}` : id;
   }
 
   abstract getContextValue(): string;
 }
 
+/**
+ * Query tree item, a top-level category listing the pull requests matching
+ * a built-in or saved query
+ */
+class QueryTreeItem extends BaseTreeItem {
+  constructor(public readonly query: PullRequestQuery) {
+    super(
+      `query-${query.id}`,
+      TreeItemType.QUERY,
+      query.name,
+      query.isBuiltIn && query.status !== "completed"
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed
+    );
+
+    this.iconPath = new vscode.ThemeIcon(
+      query.isBuiltIn ? "list-filter" : "filter"
+    );
+    this.contextValue = this.getContextValue();
+  }
+
+  getContextValue(): string {
+    return this.query.isBuiltIn ? "builtInQuery" : "savedQuery";
+  }
+}
+
+/**
+ * Connection profile tree item, shown when more than one organization or
+ * project is configured
+ */
+class ProfileTreeItem extends BaseTreeItem {
+  constructor(
+    public readonly profile: ConnectionProfile,
+    public readonly repositories: RepositoryTreeItem[],
+    scope?: string
+  ) {
+    super(
+      `profile-${profile.id}`,
+      TreeItemType.PROFILE,
+      profile.name,
+      repositories.length > 0
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None,
+      scope
+    );
+
+    this.description =
+      repositories.length > 0
+        ? `${profile.organizationUrl.replace(/^https?:\/\//, "")}/${
+            profile.project
+          }`
+        : "No pull requests";
+    this.tooltip = `${profile.organizationUrl}/${profile.project}`;
+    this.iconPath = new vscode.ThemeIcon("organization");
+    this.contextValue = "connectionProfile";
+  }
+
+  getContextValue(): string {
+    return "connectionProfile";
+  }
+}
+
 /**
  * Repository tree item
  */
 class RepositoryTreeItem extends BaseTreeItem {
+  /**
+   * @param nextPage Request for the next page of the query's pull requests,
+   *                 offered as "Load more…" when set
+   */
   constructor(
     public readonly repository: GitRepository,
-    public readonly pullRequests: PullRequest[]
+    public readonly pullRequests: PullRequest[],
+    scope?: string,
+    public nextPage?: PullRequestPageRequest
   ) {
     super(
       `repository-${repository.id}`,
       TreeItemType.REPOSITORY,
       repository.name,
-      pullRequests.length > 0
+      pullRequests.length > 0 || nextPage
         ? vscode.TreeItemCollapsibleState.Collapsed
-        : vscode.TreeItemCollapsibleState.None
+        : vscode.TreeItemCollapsibleState.None,
+      scope
     );
 
-    this.description = `${pullRequests.length} pull request${
-      pullRequests.length !== 1 ? "s" : ""
-    }`;
     this.iconPath = new vscode.ThemeIcon("repo");
     this.contextValue = "repository";
+    this.updateDescription();
+  }
+
+  /**
+   * Append a loaded page of pull requests
+   */
+  addPage(page: PullRequestPage): void {
+    this.pullRequests.push(...page.pullRequests);
+    this.nextPage = page.next;
+    this.updateDescription();
+  }
+
+  private updateDescription(): void {
+    this.description = `${this.pullRequests.length}${
+      this.nextPage ? "+" : ""
+    } pull request${this.pullRequests.length !== 1 ? "s" : ""}`;
   }
 
   getContextValue(): string {
@@ -68,13 +197,17 @@ class RepositoryTreeItem extends BaseTreeItem {
 class PullRequestTreeItem extends BaseTreeItem {
   constructor(
     public readonly repository: GitRepository,
-    public readonly pullRequest: PullRequest
+    public readonly pullRequest: PullRequest,
+    private readonly reviewProgress?: ReviewProgress,
+    private readonly policyStatus?: PolicySummaryStatus,
+    scope?: string
   ) {
     super(
-      `pr-${pullRequest.pullRequestId}`,
+      `pr-${repository.id}-${pullRequest.pullRequestId}`,
       TreeItemType.PULL_REQUEST,
       `#${pullRequest.pullRequestId}: ${pullRequest.title}`,
-      vscode.TreeItemCollapsibleState.None
+      vscode.TreeItemCollapsibleState.Collapsed,
+      scope
     );
 
     this.description = this.getPullRequestDescription();
@@ -93,7 +226,24 @@ class PullRequestTreeItem extends BaseTreeItem {
     const created = new Date(
       this.pullRequest.creationDate
     ).toLocaleDateString();
-    return `${author} • ${created}`;
+    const progress = this.reviewProgress
+      ? ` • ${this.reviewProgress.viewed}/${this.reviewProgress.total} files reviewed`
+      : "";
+    const policies = this.getPolicyStatusLabel();
+    return `${author} • ${created}${progress}${policies ? ` • ${policies}` : ""}`;
+  }
+
+  private getPolicyStatusLabel(): string | undefined {
+    switch (this.policyStatus) {
+      case "approved":
+        return "✓ Policies passed";
+      case "rejected":
+        return "✗ Policies failed";
+      case "running":
+        return "⋯ Policies pending";
+      default:
+        return undefined;
+    }
   }
 
   private getPullRequestTooltip(): string {
@@ -101,9 +251,11 @@ class PullRequestTreeItem extends BaseTreeItem {
     const mergeStatus = this.pullRequest.mergeStatus;
     const draft = this.pullRequest.isDraft ? " (Draft)" : "";
 
+    const policies = this.getPolicyStatusLabel();
+
     return `Status: ${status}${draft}\nMerge Status: ${mergeStatus}\nCreated: ${new Date(
       this.pullRequest.creationDate
-    ).toLocaleString()}`;
+    ).toLocaleString()}${policies ? `\n${policies}` : ""}`;
   }
 
   private getPullRequestIcon(): vscode.ThemeIcon {
@@ -128,16 +280,261 @@ class PullRequestTreeItem extends BaseTreeItem {
   }
 }
 
+/**
+ * Changed files folder tree item
+ */
+class ChangedFilesTreeItem extends BaseTreeItem {
+  constructor(
+    public readonly repository: GitRepository,
+    public readonly pullRequest: PullRequest,
+    public readonly comparison?: IterationComparison,
+    scope?: string
+  ) {
+    super(
+      `pr-${repository.id}-${pullRequest.pullRequestId}-changes`,
+      TreeItemType.CHANGED_FILES,
+      comparison
+        ? `Changes: Iteration ${comparison.baseIteration.id} → ${comparison.targetIteration.id}`
+        : "Changed Files",
+      vscode.TreeItemCollapsibleState.Collapsed,
+      scope
+    );
+
+    this.iconPath = new vscode.ThemeIcon(comparison ? "git-compare" : "diff");
+    this.contextValue = this.getContextValue();
+  }
+
+  getContextValue(): string {
+    return this.comparison ? "changedFilesComparison" : "changedFiles";
+  }
+}
+
+/**
+ * Changed file tree item, opens the base vs. source diff when selected
+ */
+class ChangedFileTreeItem extends BaseTreeItem {
+  constructor(
+    public readonly repository: GitRepository,
+    public readonly pullRequest: PullRequest,
+    public readonly change: GitPullRequestChange,
+    public readonly comparison?: IterationComparison,
+    isViewed?: boolean,
+    scope?: string
+  ) {
+    super(
+      `pr-${repository.id}-${pullRequest.pullRequestId}-file-${change.item.path}`,
+      TreeItemType.CHANGED_FILE,
+      change.item.path.split("/").pop() || change.item.path,
+      vscode.TreeItemCollapsibleState.None,
+      scope
+    );
+
+    const directory = change.item.path.substring(
+      0,
+      change.item.path.lastIndexOf("/")
+    );
+    const changeLabel = this.getChangeLabel();
+
+    this.description = directory
+      ? `${directory.replace(/^\//, "")} • ${changeLabel}`
+      : changeLabel;
+    this.tooltip = `${change.item.path}\n${change.changeType}`;
+    this.contextValue = "changedFile";
+    if (isViewed !== undefined) {
+      this.checkboxState = {
+        state: isViewed
+          ? vscode.TreeItemCheckboxState.Checked
+          : vscode.TreeItemCheckboxState.Unchecked,
+        tooltip: isViewed ? "Mark as not viewed" : "Mark as viewed",
+      };
+    }
+
+    const { left, right } = this.getDiffUris();
+    this.resourceUri = right;
+    this.command = {
+      command: "vscode.diff",
+      title: "Open Diff",
+      arguments: [
+        left,
+        right,
+        `${this.label} (#${pullRequest.pullRequestId})`,
+      ],
+    };
+  }
+
+  /**
+   * Build the base and source document URIs, either target branch vs. PR
+   * branch or the source commits of the two compared iterations
+   */
+  private getDiffUris(): { left: vscode.Uri; right: vscode.Uri } {
+    const changeType = this.change.changeType;
+    const isAdd = changeType.includes("add");
+    const isDelete = changeType.includes("delete");
+    const baseCommitId = this.comparison
+      ? this.comparison.baseIteration.sourceRefCommit?.commitId
+      : this.pullRequest.lastMergeTargetCommit?.commitId;
+    const sourceCommitId = this.comparison
+      ? this.comparison.targetIteration.sourceRefCommit?.commitId
+      : this.pullRequest.lastMergeSourceCommit?.commitId;
+
+    const left = PullRequestContentProvider.toUri({
+      repositoryId: this.repository.id,
+      pullRequestId: this.pullRequest.pullRequestId,
+      path: this.change.item.path,
+      originalPath: this.change.originalPath,
+      commitId: isAdd ? undefined : baseCommitId,
+      side: "left",
+    });
+    const right = PullRequestContentProvider.toUri({
+      repositoryId: this.repository.id,
+      pullRequestId: this.pullRequest.pullRequestId,
+      path: this.change.item.path,
+      commitId: isDelete ? undefined : sourceCommitId,
+      side: "right",
+    });
+
+    return { left, right };
+  }
+
+  private getChangeLabel(): string {
+    const changeType = this.change.changeType;
+    if (changeType.includes("add")) {
+      return "A";
+    }
+    if (changeType.includes("delete")) {
+      return "D";
+    }
+    if (changeType.includes("rename")) {
+      return "R";
+    }
+    return "M";
+  }
+
+  getContextValue(): string {
+    return "changedFile";
+  }
+}
+
+/**
+ * Linked work items folder tree item
+ */
+class WorkItemsTreeItem extends BaseTreeItem {
+  constructor(
+    public readonly repository: GitRepository,
+    public readonly pullRequest: PullRequest,
+    scope?: string
+  ) {
+    super(
+      `pr-${repository.id}-${pullRequest.pullRequestId}-workitems`,
+      TreeItemType.WORK_ITEMS,
+      "Work Items",
+      vscode.TreeItemCollapsibleState.Collapsed,
+      scope
+    );
+
+    this.iconPath = new vscode.ThemeIcon("checklist");
+    this.contextValue = this.getContextValue();
+  }
+
+  getContextValue(): string {
+    return "workItems";
+  }
+}
+
+/**
+ * Linked work item tree item, opens the work item summary when selected
+ */
+class WorkItemTreeItem extends BaseTreeItem {
+  constructor(
+    public readonly repository: GitRepository,
+    public readonly pullRequest: PullRequest,
+    public readonly workItem: WorkItemSummary,
+    scope?: string
+  ) {
+    super(
+      `pr-${repository.id}-${pullRequest.pullRequestId}-workitem-${workItem.id}`,
+      TreeItemType.WORK_ITEM,
+      `${workItem.type} ${workItem.id}: ${workItem.title}`,
+      vscode.TreeItemCollapsibleState.None,
+      scope
+    );
+
+    this.description = workItem.assignedTo
+      ? `${workItem.state} • ${workItem.assignedTo}`
+      : workItem.state;
+    this.tooltip = `${workItem.type} ${workItem.id}: ${workItem.title}\nState: ${
+      workItem.state
+    }\nAssigned to: ${workItem.assignedTo || "Unassigned"}`;
+    this.iconPath = this.getWorkItemIcon();
+    this.contextValue = this.getContextValue();
+    this.command = {
+      command: "azureDevOps.openWorkItem",
+      title: "Open Work Item",
+      arguments: [this],
+    };
+  }
+
+  private getWorkItemIcon(): vscode.ThemeIcon {
+    switch (this.workItem.type.toLowerCase()) {
+      case "bug":
+        return new vscode.ThemeIcon("bug");
+      case "task":
+        return new vscode.ThemeIcon("tasklist");
+      case "epic":
+        return new vscode.ThemeIcon("rocket");
+      case "feature":
+        return new vscode.ThemeIcon("star-empty");
+      case "user story":
+      case "product backlog item":
+        return new vscode.ThemeIcon("book");
+      default:
+        return new vscode.ThemeIcon("issues");
+    }
+  }
+
+  getContextValue(): string {
+    return "workItem";
+  }
+}
+
+/**
+ * Load more tree item, ending a repository's pull requests when the query
+ * has more pages
+ */
+class LoadMoreTreeItem extends BaseTreeItem {
+  constructor(public readonly repositoryItem: RepositoryTreeItem) {
+    super(
+      `load-more-${repositoryItem.repository.id}`,
+      TreeItemType.LOAD_MORE,
+      "Load more…",
+      vscode.TreeItemCollapsibleState.None,
+      repositoryItem.scope
+    );
+    this.iconPath = new vscode.ThemeIcon("ellipsis");
+    this.contextValue = this.getContextValue();
+    this.command = {
+      command: "azureDevOps.loadMorePullRequests",
+      title: "Load More Pull Requests",
+      arguments: [this],
+    };
+  }
+
+  getContextValue(): string {
+    return "loadMore";
+  }
+}
+
 /**
  * Loading tree item
  */
 class LoadingTreeItem extends BaseTreeItem {
-  constructor() {
+  constructor(scope?: string) {
     super(
       "loading",
       TreeItemType.LOADING,
       "Loading...",
-      vscode.TreeItemCollapsibleState.None
+      vscode.TreeItemCollapsibleState.None,
+      scope
     );
     this.iconPath = new vscode.ThemeIcon("loading~spin");
   }
@@ -151,12 +548,16 @@ class LoadingTreeItem extends BaseTreeItem {
  * Error tree item
  */
 class ErrorTreeItem extends BaseTreeItem {
-  constructor(private readonly errorMessage: string) {
+  constructor(
+    private readonly errorMessage: string,
+    scope?: string
+  ) {
     super(
       "error",
       TreeItemType.ERROR,
       "Error loading pull requests",
-      vscode.TreeItemCollapsibleState.None
+      vscode.TreeItemCollapsibleState.None,
+      scope
     );
     this.iconPath = new vscode.ThemeIcon("error");
   }
@@ -170,12 +571,13 @@ class ErrorTreeItem extends BaseTreeItem {
  * No pull requests tree item
  */
 class NoPullRequestsTreeItem extends BaseTreeItem {
-  constructor() {
+  constructor(scope?: string, label = "No pull requests found") {
     super(
       "no-prs",
       TreeItemType.NO_PULL_REQUESTS,
-      "No pull requests found",
-      vscode.TreeItemCollapsibleState.None
+      label,
+      vscode.TreeItemCollapsibleState.None,
+      scope
     );
     this.iconPath = new vscode.ThemeIcon("info");
   }
@@ -191,6 +593,9 @@ class NoPullRequestsTreeItem extends BaseTreeItem {
 export class PullRequestTreeProvider
   implements vscode.TreeDataProvider<BaseTreeItem>
 {
+  /** Pull requests requested per repository and page of a query */
+  private static readonly PAGE_SIZE = 50;
+
   private readonly _onDidChangeTreeData: vscode.EventEmitter<
     BaseTreeItem | undefined | null | void
   > = new vscode.EventEmitter<BaseTreeItem | undefined | null | void>();
@@ -200,12 +605,31 @@ export class PullRequestTreeProvider
 
   private treeItems: BaseTreeItem[] = [];
   private isLoading = false;
+  private readonly iterationComparisons = new Map<
+    string,
+    IterationComparison
+  >();
+  private readonly pullRequestChanges = new Map<
+    string,
+    GitPullRequestChange[]
+  >();
+  private readonly reviewProgress = new Map<string, ReviewProgress>();
+  private readonly reviewProgressRequests = new Set<string>();
+  private readonly policyStatus = new Map<string, PolicySummaryStatus>();
+  private readonly policyStatusRequests = new Set<string>();
+  private readonly queryResults = new Map<string, BaseTreeItem[]>();
+  private readonly queryRequests = new Map<string, Promise<BaseTreeItem[]>>();
+  private readonly pageRequests = new Set<string>();
 
   constructor(
     private readonly pullRequestService: PullRequestService,
     private readonly stateManager: StateManager,
     private readonly telemetryService: TelemetryService,
-    private readonly integrationService?: IntegrationService
+    private readonly integrationService?: IntegrationService,
+    private readonly viewedFilesService?: ViewedFilesService,
+    private readonly policyService?: PolicyService,
+    private readonly queryService?: QueryService,
+    private readonly workItemService?: WorkItemService
   ) {
     // Don't load pull requests in constructor - will be initialized by ExtensionController
   }
@@ -225,26 +649,423 @@ export class PullRequestTreeProvider
       return this.treeItems;
     }
 
+    if (element instanceof QueryTreeItem) {
+      return this.loadQuery(element);
+    }
+
+    if (element instanceof ProfileTreeItem) {
+      return element.repositories;
+    }
+
     if (element instanceof RepositoryTreeItem) {
-      return element.pullRequests.map(
-        (pr) => new PullRequestTreeItem(element.repository, pr)
-      );
+      const children: BaseTreeItem[] = element.pullRequests.map((pr) => {
+        const key = this.getPullRequestKey(
+          element.repository.id,
+          pr.pullRequestId
+        );
+        if (pr.status === "active") {
+          this.loadPolicyStatus(element.repository.id, pr.pullRequestId);
+          this.loadReviewProgress(element.repository.id, pr.pullRequestId);
+        }
+        return new PullRequestTreeItem(
+          element.repository,
+          pr,
+          this.reviewProgress.get(key),
+          this.policyStatus.get(key),
+          element.scope
+        );
+      });
+      if (element.nextPage) {
+        children.push(new LoadMoreTreeItem(element));
+      }
+      return children;
+    }
+
+    if (element instanceof PullRequestTreeItem) {
+      const children: BaseTreeItem[] = [
+        new ChangedFilesTreeItem(
+          element.repository,
+          element.pullRequest,
+          this.getIterationComparison(
+            element.repository.id,
+            element.pullRequest.pullRequestId
+          ),
+          element.scope
+        ),
+      ];
+      if (this.workItemService) {
+        children.push(
+          new WorkItemsTreeItem(
+            element.repository,
+            element.pullRequest,
+            element.scope
+          )
+        );
+      }
+      return children;
+    }
+
+    if (element instanceof ChangedFilesTreeItem) {
+      return this.loadChangedFiles(element);
+    }
+
+    if (element instanceof WorkItemsTreeItem) {
+      return this.loadWorkItems(element);
     }
 
     return [];
   }
 
+  /**
+   * Load the changed files of a pull request
+   */
+  private async loadChangedFiles(
+    element: ChangedFilesTreeItem
+  ): Promise<BaseTreeItem[]> {
+    try {
+      const changes = await this.pullRequestService.getPullRequestChanges(
+        element.repository.id,
+        element.pullRequest.pullRequestId,
+        element.comparison?.targetIteration.id,
+        element.comparison?.baseIteration.id
+      );
+      const files = changes.filter(
+        (change) => change.item && !change.item.isFolder
+      );
+
+      const viewed = this.viewedFilesService
+        ? await this.viewedFilesService.getViewedFiles(
+            element.repository.id,
+            element.pullRequest.pullRequestId
+          )
+        : undefined;
+
+      if (!element.comparison) {
+        const key = this.getPullRequestKey(
+          element.repository.id,
+          element.pullRequest.pullRequestId
+        );
+        this.pullRequestChanges.set(key, files);
+        if (viewed) {
+          this.updateReviewProgress(key, files, viewed);
+        }
+      }
+
+      return files
+        .sort((a, b) => a.item.path.localeCompare(b.item.path))
+        .map(
+          (change) =>
+            new ChangedFileTreeItem(
+              element.repository,
+              element.pullRequest,
+              change,
+              element.comparison,
+              viewed
+                ? this.viewedFilesService!.isViewed(change, viewed)
+                : undefined,
+              element.scope
+            )
+        );
+    } catch (error) {
+      this.handleError(error, "PullRequestTreeProvider.loadChangedFiles");
+      return [
+        new ErrorTreeItem(
+          error instanceof Error ? error.message : "Unknown error",
+          element.scope
+        ),
+      ];
+    }
+  }
+
+  /**
+   * Load the work items linked to a pull request
+   */
+  private async loadWorkItems(
+    element: WorkItemsTreeItem
+  ): Promise<BaseTreeItem[]> {
+    const workItems = await this.workItemService!.getLinkedWorkItems(
+      element.repository.id,
+      element.pullRequest.pullRequestId
+    );
+    if (workItems.length === 0) {
+      return [
+        new NoPullRequestsTreeItem(element.id, "No linked work items"),
+      ];
+    }
+    return workItems.map(
+      (workItem) =>
+        new WorkItemTreeItem(
+          element.repository,
+          element.pullRequest,
+          workItem,
+          element.scope
+        )
+    );
+  }
+
+  /**
+   * Load the pull requests of a query, once per refresh
+   */
+  private async loadQuery(element: QueryTreeItem): Promise<BaseTreeItem[]> {
+    const queryId = element.query.id;
+    const loaded = this.queryResults.get(queryId);
+    if (loaded) {
+      return loaded;
+    }
+
+    let request = this.queryRequests.get(queryId);
+    if (!request) {
+      request = this.runQuery(element);
+      this.queryRequests.set(queryId, request);
+    }
+
+    const items = await request;
+    if (this.queryRequests.get(queryId) === request) {
+      this.queryRequests.delete(queryId);
+      this.queryResults.set(queryId, items);
+    }
+    return items;
+  }
+
+  /**
+   * Run a query and group the first page of each repository's pull requests
+   * below the query item
+   */
+  private async runQuery(element: QueryTreeItem): Promise<BaseTreeItem[]> {
+    const scope = element.query.id;
+    try {
+      const startTime = Date.now();
+      const repositories = await this.pullRequestService.getRepositories();
+      const repositoryItems: RepositoryTreeItem[] = [];
+      for (const repository of repositories) {
+        const page = await this.queryService!.getPullRequestPage(
+          element.query,
+          repository.id,
+          { top: PullRequestTreeProvider.PAGE_SIZE }
+        );
+        if (page.pullRequests.length > 0 || page.next) {
+          repositoryItems.push(
+            new RepositoryTreeItem(
+              repository,
+              page.pullRequests,
+              scope,
+              page.next
+            )
+          );
+        }
+      }
+
+      const count = repositoryItems.reduce(
+        (total, item) => total + item.pullRequests.length,
+        0
+      );
+      this.telemetryService.trackEvent("pullRequestsLoaded", {
+        count: count.toString(),
+        loadTime: (Date.now() - startTime).toString(),
+        query: element.query.isBuiltIn ? element.query.id : "custom",
+      });
+
+      this.updateQueryDescription(element, repositoryItems);
+
+      return repositoryItems.length > 0
+        ? this.groupByProfile(repositoryItems, scope)
+        : [new NoPullRequestsTreeItem(scope)];
+    } catch (error) {
+      this.handleError(error, "PullRequestTreeProvider.runQuery");
+      return [
+        new ErrorTreeItem(
+          error instanceof Error ? error.message : "Unknown error",
+          scope
+        ),
+      ];
+    }
+  }
+
+  /**
+   * Load the next page of a repository's pull requests for its query
+   *
+   * @param item Load more item that was clicked
+   */
+  async loadMorePullRequests(item: vscode.TreeItem): Promise<void> {
+    if (!(item instanceof LoadMoreTreeItem)) {
+      return;
+    }
+
+    const repositoryItem = item.repositoryItem;
+    const queryItem = this.treeItems.find(
+      (treeItem): treeItem is QueryTreeItem =>
+        treeItem instanceof QueryTreeItem &&
+        treeItem.query.id === repositoryItem.scope
+    );
+    if (
+      !this.queryService ||
+      !queryItem ||
+      !repositoryItem.nextPage ||
+      this.pageRequests.has(repositoryItem.id)
+    ) {
+      return;
+    }
+
+    this.pageRequests.add(repositoryItem.id);
+    try {
+      const page = await this.queryService.getPullRequestPage(
+        queryItem.query,
+        repositoryItem.repository.id,
+        repositoryItem.nextPage
+      );
+      repositoryItem.addPage(page);
+      this.updateQueryDescription(
+        queryItem,
+        this.getRepositoryItems().filter(
+          (treeItem) => treeItem.scope === repositoryItem.scope
+        )
+      );
+      this._onDidChangeTreeData.fire(repositoryItem);
+    } catch (error) {
+      this.handleError(error, "PullRequestTreeProvider.loadMorePullRequests");
+      vscode.window.showErrorMessage("Failed to load more pull requests");
+    } finally {
+      this.pageRequests.delete(repositoryItem.id);
+    }
+  }
+
+  /**
+   * Show the number of loaded pull requests on a query item, with a "+" when
+   * more can be loaded
+   */
+  private updateQueryDescription(
+    element: QueryTreeItem,
+    repositoryItems: RepositoryTreeItem[]
+  ): void {
+    const count = repositoryItems.reduce(
+      (total, item) => total + item.pullRequests.length,
+      0
+    );
+    const hasMore = repositoryItems.some((item) => item.nextPage);
+    element.description = `${count}${hasMore ? "+" : ""}`;
+    this._onDidChangeTreeData.fire(element);
+  }
+
+  /**
+   * Load the policy status badge of a pull request in the background
+   */
+  private async loadPolicyStatus(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<void> {
+    const key = this.getPullRequestKey(repositoryId, pullRequestId);
+    if (!this.policyService || this.policyStatusRequests.has(key)) {
+      return;
+    }
+    this.policyStatusRequests.add(key);
+
+    try {
+      const checks = await this.policyService.getPolicyChecks(
+        repositoryId,
+        pullRequestId
+      );
+      const status = this.policyService.getSummaryStatus(checks);
+      if (this.policyStatus.get(key) !== status) {
+        this.policyStatus.set(key, status);
+        this._onDidChangeTreeData.fire();
+      }
+    } catch (error) {
+      this.handleError(error, "PullRequestTreeProvider.loadPolicyStatus");
+    }
+  }
+
+  /**
+   * Load the review progress of a pull request in the background, so it is
+   * shown before its changed files are expanded
+   */
+  private async loadReviewProgress(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<void> {
+    const key = this.getPullRequestKey(repositoryId, pullRequestId);
+    if (!this.viewedFilesService || this.reviewProgressRequests.has(key)) {
+      return;
+    }
+    this.reviewProgressRequests.add(key);
+
+    try {
+      const [changes, viewed] = await Promise.all([
+        this.pullRequestService.getPullRequestChanges(
+          repositoryId,
+          pullRequestId
+        ),
+        this.viewedFilesService.getViewedFiles(repositoryId, pullRequestId),
+      ]);
+      const files = changes.filter(
+        (change) => change.item && !change.item.isFolder
+      );
+      if (files.length === 0) {
+        // Changes that failed to load come back empty; retry on the next render
+        this.reviewProgressRequests.delete(key);
+        return;
+      }
+      this.pullRequestChanges.set(key, files);
+      this.updateReviewProgress(key, files, viewed);
+    } catch (error) {
+      this.handleError(error, "PullRequestTreeProvider.loadReviewProgress");
+    }
+  }
+
   /**
    * Get parent of the given element
    */
   getParent(element: BaseTreeItem): vscode.ProviderResult<BaseTreeItem> {
+    if (element instanceof ChangedFileTreeItem) {
+      return new ChangedFilesTreeItem(
+        element.repository,
+        element.pullRequest,
+        element.comparison,
+        element.scope
+      );
+    }
+    if (element instanceof WorkItemTreeItem) {
+      return new WorkItemsTreeItem(
+        element.repository,
+        element.pullRequest,
+        element.scope
+      );
+    }
+    if (
+      element instanceof ChangedFilesTreeItem ||
+      element instanceof WorkItemsTreeItem
+    ) {
+      return new PullRequestTreeItem(
+        element.repository,
+        element.pullRequest,
+        undefined,
+        undefined,
+        element.scope
+      );
+    }
     if (element instanceof PullRequestTreeItem) {
-      return this.treeItems.find(
+      return this.getRepositoryItems().find(
         (item) =>
-          item instanceof RepositoryTreeItem &&
+          item.scope === element.scope &&
           item.repository.id === element.repository.id
       );
     }
+    if (element instanceof RepositoryTreeItem) {
+      return (
+        this.getProfileItems().find((item) =>
+          item.repositories.includes(element)
+        ) ||
+        this.treeItems.find(
+          (item) =>
+            item instanceof QueryTreeItem && item.query.id === element.scope
+        )
+      );
+    }
+    if (element instanceof ProfileTreeItem) {
+      return this.treeItems.find(
+        (item) =>
+          item instanceof QueryTreeItem && item.query.id === element.scope
+      );
+    }
     return null;
   }
 
@@ -254,6 +1075,10 @@ export class PullRequestTreeProvider
   async refresh(): Promise<void> {
     try {
       this.isLoading = true;
+      this.policyStatusRequests.clear();
+      this.reviewProgressRequests.clear();
+      this.queryResults.clear();
+      this.queryRequests.clear();
       this._onDidChangeTreeData.fire();
       await this.loadPullRequests();
     } catch (error) {
@@ -270,6 +1095,14 @@ export class PullRequestTreeProvider
     try {
       this.treeItems = [new LoadingTreeItem()];
 
+      // Queries load their pull requests when expanded
+      if (this.queryService) {
+        this.treeItems = this.queryService
+          .getQueries()
+          .map((query) => new QueryTreeItem(query));
+        return;
+      }
+
       const startTime = Date.now();
       let pullRequests: PullRequest[] = [];
 
@@ -290,45 +1123,15 @@ export class PullRequestTreeProvider
         usedIntegration: this.integrationService ? "true" : "false",
       });
 
-      if (pullRequests.length === 0) {
+      if (
+        pullRequests.length === 0 &&
+        this.pullRequestService.getConnectionProfiles().length <= 1
+      ) {
         this.treeItems = [new NoPullRequestsTreeItem()];
         return;
       }
 
-      // Group pull requests by repository
-      const repositoryMap = new Map<
-        string,
-        { repository: GitRepository; pullRequests: PullRequest[] }
-      >();
-
-      pullRequests.forEach((pr) => {
-        if (!pr.repository) {
-          return;
-        }
-
-        if (!repositoryMap.has(pr.repository.id)) {
-          repositoryMap.set(pr.repository.id, {
-            repository: pr.repository,
-            pullRequests: [],
-          });
-        }
-
-        repositoryMap.get(pr.repository.id)!.pullRequests.push(pr);
-      });
-
-      // Create tree items
-      this.treeItems = Array.from(repositoryMap.values()).map(
-        ({ repository, pullRequests }) => {
-          // Sort pull requests by creation date (newest first)
-          pullRequests.sort(
-            (a, b) =>
-              new Date(b.creationDate).getTime() -
-              new Date(a.creationDate).getTime()
-          );
-
-          return new RepositoryTreeItem(repository, pullRequests);
-        }
-      );
+      this.treeItems = this.groupPullRequests(pullRequests);
     } catch (error) {
       this.handleError(error, "PullRequestTreeProvider.loadPullRequests");
       this.treeItems = [
@@ -341,6 +1144,82 @@ export class PullRequestTreeProvider
     }
   }
 
+  /**
+   * Group pull requests by repository, and by connection profile when
+   * several are configured
+   *
+   * @param pullRequests Pull requests to group
+   * @param scope ID of the query the items are listed under
+   */
+  private groupPullRequests(
+    pullRequests: PullRequest[],
+    scope?: string
+  ): BaseTreeItem[] {
+    const repositoryMap = new Map<
+      string,
+      { repository: GitRepository; pullRequests: PullRequest[] }
+    >();
+
+    pullRequests.forEach((pr) => {
+      if (!pr.repository) {
+        return;
+      }
+
+      if (!repositoryMap.has(pr.repository.id)) {
+        repositoryMap.set(pr.repository.id, {
+          repository: pr.repository,
+          pullRequests: [],
+        });
+      }
+
+      repositoryMap.get(pr.repository.id)!.pullRequests.push(pr);
+    });
+
+    // Create tree items
+    const repositoryItems = Array.from(repositoryMap.values()).map(
+      ({ repository, pullRequests }) => {
+        // Sort pull requests by creation date (newest first)
+        pullRequests.sort(
+          (a, b) =>
+            new Date(b.creationDate).getTime() -
+            new Date(a.creationDate).getTime()
+        );
+
+        return new RepositoryTreeItem(repository, pullRequests, scope);
+      }
+    );
+
+    return this.groupByProfile(repositoryItems, scope);
+  }
+
+  /**
+   * Group repository items by connection profile when several are configured
+   *
+   * @param repositoryItems Repository items to group
+   * @param scope ID of the query the items are listed under
+   */
+  private groupByProfile(
+    repositoryItems: RepositoryTreeItem[],
+    scope?: string
+  ): BaseTreeItem[] {
+    const profiles = this.pullRequestService.getConnectionProfiles();
+    return profiles.length > 1
+      ? profiles.map(
+          (profile) =>
+            new ProfileTreeItem(
+              profile,
+              repositoryItems.filter(
+                (item) =>
+                  this.pullRequestService.getRepositoryProfile(
+                    item.repository.id
+                  )?.id === profile.id
+              ),
+              scope
+            )
+        )
+      : repositoryItems;
+  }
+
   /**
    * Handle errors
    */
@@ -351,18 +1230,142 @@ export class PullRequestTreeProvider
     console.error(`Error in ${operation}:`, errorMessage);
   }
 
+  /**
+   * Persist viewed checkbox changes of changed file items
+   *
+   * @param items Tree items whose checkbox state changed
+   */
+  async updateViewedState(
+    items: ReadonlyArray<[BaseTreeItem, vscode.TreeItemCheckboxState]>
+  ): Promise<void> {
+    if (!this.viewedFilesService) {
+      return;
+    }
+
+    const updated = new Map<
+      string,
+      { repositoryId: string; pullRequestId: number }
+    >();
+    for (const [item, state] of items) {
+      if (!(item instanceof ChangedFileTreeItem)) {
+        continue;
+      }
+
+      const repositoryId = item.repository.id;
+      const pullRequestId = item.pullRequest.pullRequestId;
+      try {
+        await this.viewedFilesService.setViewed(
+          repositoryId,
+          pullRequestId,
+          item.change,
+          state === vscode.TreeItemCheckboxState.Checked
+        );
+        updated.set(this.getPullRequestKey(repositoryId, pullRequestId), {
+          repositoryId,
+          pullRequestId,
+        });
+      } catch (error) {
+        this.handleError(error, "PullRequestTreeProvider.updateViewedState");
+        vscode.window.showErrorMessage(
+          `Failed to update viewed state of ${item.change.item.path}`
+        );
+      }
+    }
+
+    for (const [key, { repositoryId, pullRequestId }] of updated) {
+      const changes = this.pullRequestChanges.get(key);
+      if (changes) {
+        const viewed = await this.viewedFilesService.getViewedFiles(
+          repositoryId,
+          pullRequestId
+        );
+        this.updateReviewProgress(key, changes, viewed);
+      }
+    }
+
+    // Refresh so failed updates revert their checkbox
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Recompute the review progress shown on a pull request item
+   */
+  private updateReviewProgress(
+    key: string,
+    changes: GitPullRequestChange[],
+    viewed: Map<string, string>
+  ): void {
+    const progress = this.viewedFilesService!.getReviewProgress(
+      changes,
+      viewed
+    );
+    const previous = this.reviewProgress.get(key);
+    this.reviewProgress.set(key, progress);
+
+    if (
+      !previous ||
+      previous.viewed !== progress.viewed ||
+      previous.total !== progress.total
+    ) {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  private getPullRequestKey(repositoryId: string, pullRequestId: number): string {
+    return `${repositoryId}_${pullRequestId}`;
+  }
+
+  /**
+   * Compare the changed files of a pull request across two iterations
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param comparison Iterations to compare, or undefined to show the full pull request diff again
+   */
+  setIterationComparison(
+    repositoryId: string,
+    pullRequestId: number,
+    comparison?: IterationComparison
+  ): void {
+    const key = this.getPullRequestKey(repositoryId, pullRequestId);
+    if (comparison) {
+      this.iterationComparisons.set(key, comparison);
+    } else {
+      this.iterationComparisons.delete(key);
+    }
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get the active iteration comparison of a pull request
+   */
+  getIterationComparison(
+    repositoryId: string,
+    pullRequestId: number
+  ): IterationComparison | undefined {
+    return this.iterationComparisons.get(
+      this.getPullRequestKey(repositoryId, pullRequestId)
+    );
+  }
+
+  /**
+   * Reload the linked work items of expanded pull requests, e.g. after
+   * linking or unlinking one
+   */
+  refreshWorkItems(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
   /**
    * Get pull request by ID
    */
   getPullRequestById(pullRequestId: number): PullRequest | undefined {
-    for (const item of this.treeItems) {
-      if (item instanceof RepositoryTreeItem) {
-        const pr = item.pullRequests.find(
-          (p) => p.pullRequestId === pullRequestId
-        );
-        if (pr) {
-          return pr;
-        }
+    for (const item of this.getRepositoryItems()) {
+      const pr = item.pullRequests.find(
+        (p) => p.pullRequestId === pullRequestId
+      );
+      if (pr) {
+        return pr;
       }
     }
     return undefined;
@@ -373,16 +1376,46 @@ export class PullRequestTreeProvider
    */
   getActivePullRequests(): PullRequest[] {
     const activePRs: PullRequest[] = [];
-    for (const item of this.treeItems) {
-      if (item instanceof RepositoryTreeItem) {
-        activePRs.push(
-          ...item.pullRequests.filter((pr) => pr.status === "active")
-        );
-      }
+    for (const item of this.getRepositoryItems()) {
+      activePRs.push(
+        ...item.pullRequests.filter((pr) => pr.status === "active")
+      );
     }
     return activePRs;
   }
 
+  /**
+   * Get all loaded items below the root, including query results
+   */
+  private getLoadedItems(): BaseTreeItem[] {
+    return [
+      ...this.treeItems,
+      ...Array.from(this.queryResults.values()).flat(),
+    ];
+  }
+
+  /**
+   * Get loaded profile items
+   */
+  private getProfileItems(): ProfileTreeItem[] {
+    return this.getLoadedItems().filter(
+      (item): item is ProfileTreeItem => item instanceof ProfileTreeItem
+    );
+  }
+
+  /**
+   * Get loaded repository items, including those nested under profile items
+   */
+  private getRepositoryItems(): RepositoryTreeItem[] {
+    return this.getLoadedItems().flatMap((item) =>
+      item instanceof ProfileTreeItem
+        ? item.repositories
+        : item instanceof RepositoryTreeItem
+        ? [item]
+        : []
+    );
+  }
+
   /**
    * Check if tree is currently loading
    */
@@ -0,0 +1,106 @@
+import * as vscode from "vscode";
+import {
+  WorkItemService,
+  WorkItemSummary,
+} from "../services/WorkItemService";
+
+/**
+ * Quick pick item carrying a work item
+ */
+interface WorkItemQuickPickItem extends vscode.QuickPickItem {
+  readonly workItem: WorkItemSummary;
+}
+
+/**
+ * Quick pick that finds work items by ID or title as the user types
+ */
+export class WorkItemQuickPick {
+  private static readonly SEARCH_DELAY_MS = 300;
+
+  constructor(
+    private readonly workItemService: WorkItemService,
+    private readonly repositoryId: string
+  ) {}
+
+  /**
+   * Show the picker and wait for a selection
+   *
+   * @param title Picker title
+   * @param excludeIds Work item IDs that should not be offered (e.g. already linked ones)
+   * @returns Selected work item, or undefined if the picker was dismissed
+   */
+  pick(
+    title: string,
+    excludeIds: ReadonlySet<number> = new Set()
+  ): Promise<WorkItemSummary | undefined> {
+    const quickPick = vscode.window.createQuickPick<WorkItemQuickPickItem>();
+    quickPick.title = title;
+    quickPick.placeholder = "Enter a work item ID or search by title";
+    quickPick.matchOnDescription = true;
+
+    let searchTimer: ReturnType<typeof setTimeout> | undefined;
+    let searchVersion = 0;
+
+    const search = async (query: string): Promise<void> => {
+      const version = ++searchVersion;
+      quickPick.busy = true;
+      const workItems = await this.workItemService.searchWorkItems(
+        this.repositoryId,
+        query
+      );
+
+      // Ignore results of searches superseded by newer input
+      if (version !== searchVersion) {
+        return;
+      }
+
+      quickPick.items = workItems
+        .filter((workItem) => !excludeIds.has(workItem.id))
+        .map((workItem) => ({
+          label: `${workItem.id}: ${workItem.title}`,
+          description: `${workItem.type} • ${workItem.state}`,
+          detail: workItem.assignedTo,
+          alwaysShow: true,
+          workItem,
+        }));
+      quickPick.busy = false;
+    };
+
+    return new Promise((resolve) => {
+      const disposables: vscode.Disposable[] = [
+        quickPick.onDidChangeValue((value) => {
+          if (searchTimer) {
+            clearTimeout(searchTimer);
+          }
+          if (!value.trim()) {
+            searchVersion++;
+            quickPick.items = [];
+            quickPick.busy = false;
+            return;
+          }
+          searchTimer = setTimeout(
+            () => search(value),
+            WorkItemQuickPick.SEARCH_DELAY_MS
+          );
+        }),
+        quickPick.onDidAccept(() => {
+          const selected = quickPick.selectedItems[0];
+          if (selected) {
+            resolve(selected.workItem);
+            quickPick.hide();
+          }
+        }),
+        quickPick.onDidHide(() => {
+          if (searchTimer) {
+            clearTimeout(searchTimer);
+          }
+          resolve(undefined);
+          disposables.forEach((disposable) => disposable.dispose());
+          quickPick.dispose();
+        }),
+      ];
+
+      quickPick.show();
+    });
+  }
+}
@@ -1,4 +1,9 @@
 import * as vscode from "vscode";
+import {
+  ConfigurationService,
+  ConnectionProfile,
+  resolveServerUrl,
+} from "./ConfigurationService";
 
 /**
  * Azure DevOps Personal Access Token configuration interface
@@ -23,9 +28,10 @@ export interface AuthValidationResult {
 }
 
 /**
- * Authentication service for secure Personal Access Token management
+ * Authentication service for secure Personal Access Token and Microsoft Entra ID sign-in
  *
- * Handles PAT storage in VS Code Secret Storage, validation against Azure DevOps API,
+ * Handles PAT storage in VS Code Secret Storage, Entra ID sessions from the VS Code
+ * `microsoft` authentication provider, validation against Azure DevOps API,
  * and provides secure authentication headers for API requests.
  *
  * Security Requirements:
@@ -34,15 +40,32 @@ export interface AuthValidationResult {
  * - Token validation with proper permission scope verification
  * - Error handling without sensitive data exposure
  */
-export class AuthenticationService {
+export class AuthenticationService implements vscode.Disposable {
   private static readonly PAT_KEY = "azure-devops-pat";
   private static readonly CONFIG_KEY = "azure-devops-config";
   private static readonly VALIDATION_TIMEOUT = 10000; // 10 seconds
+  private static readonly ENTRA_PROVIDER_ID = "microsoft";
+  /** Azure DevOps resource ID, the audience of Entra ID access tokens */
+  private static readonly AZURE_DEVOPS_RESOURCE =
+    "499b84ac-1321-427f-aa17-267ca6975798";
+
+  private readonly entraSessions = new Map<
+    string,
+    vscode.AuthenticationSession
+  >();
+  private readonly sessionListener: vscode.Disposable;
 
   constructor(
     private readonly context: vscode.ExtensionContext,
     private readonly secretStorage: vscode.SecretStorage
-  ) {}
+  ) {
+    // Drop cached sessions when the user signs out or tokens are refreshed
+    this.sessionListener = vscode.authentication.onDidChangeSessions((e) => {
+      if (e.provider.id === AuthenticationService.ENTRA_PROVIDER_ID) {
+        this.entraSessions.clear();
+      }
+    });
+  }
 
   /**
    * Store Personal Access Token securely in VS Code Secret Storage
@@ -132,22 +155,171 @@ export class AuthenticationService {
     }
   }
 
+  /**
+   * Validate and store the Personal Access Token of a connection profile
+   *
+   * @param profile Connection profile the token belongs to
+   * @param token Personal Access Token
+   * @returns Promise resolving to the validation result
+   * @throws Error if validation or storage fails
+   */
+  async storeProfilePat(
+    profile: ConnectionProfile,
+    token: string
+  ): Promise<AuthValidationResult> {
+    try {
+      const validationResult = await this.validatePatWithApi(
+        token,
+        profile.organizationUrl
+      );
+      if (!validationResult.isValid) {
+        throw new Error(
+          `PAT validation failed: ${
+            validationResult.errorMessage || "Invalid token"
+          }`
+        );
+      }
+
+      await this.secretStorage.store(this.getSecretKey(profile.id), token);
+      await vscode.commands.executeCommand(
+        "setContext",
+        "azureDevOps:configured",
+        true
+      );
+
+      return validationResult;
+    } catch (error) {
+      // Ensure no PAT leaks in error messages
+      const safeError =
+        error instanceof Error
+          ? error.message.replace(token, "[REDACTED]")
+          : "PAT storage failed";
+      throw new Error(safeError);
+    }
+  }
+
+  /**
+   * Sign a connection profile in with Microsoft Entra ID
+   *
+   * Prompts for a Microsoft account if none has granted access yet, then
+   * checks that the account can reach the profile's organization.
+   *
+   * @param profile Connection profile to sign in
+   * @returns Promise resolving to the validation result
+   * @throws Error if sign-in is cancelled or the account has no access
+   */
+  async signInWithEntra(
+    profile: ConnectionProfile
+  ): Promise<AuthValidationResult> {
+    const session = await vscode.authentication.getSession(
+      AuthenticationService.ENTRA_PROVIDER_ID,
+      this.getEntraScopes(profile),
+      { createIfNone: true }
+    );
+
+    const validationResult = await this.validateAuthorizationWithApi(
+      `Bearer ${session.accessToken}`,
+      profile.organizationUrl
+    );
+    if (!validationResult.isValid) {
+      throw new Error(
+        `Microsoft Entra ID sign-in failed: ${
+          validationResult.errorMessage || "Access denied"
+        }`
+      );
+    }
+
+    this.entraSessions.set(profile.id, session);
+    await vscode.commands.executeCommand(
+      "setContext",
+      "azureDevOps:configured",
+      true
+    );
+
+    return validationResult;
+  }
+
+  /**
+   * Forget the Entra ID session of a connection profile. The Microsoft
+   * account itself stays signed in to VS Code.
+   *
+   * @param profileId Profile ID
+   */
+  forgetEntraSession(profileId: string): void {
+    this.entraSessions.delete(profileId);
+  }
+
+  /**
+   * Check whether a connection profile has a stored token
+   *
+   * @param profileId Profile ID
+   * @returns Promise resolving to true if a token is stored
+   */
+  async hasProfilePat(profileId: string): Promise<boolean> {
+    return !!(await this.secretStorage.get(this.getSecretKey(profileId)));
+  }
+
+  /**
+   * Delete the stored token of a connection profile
+   *
+   * @param profileId Profile ID
+   * @returns Promise that resolves when the token is deleted
+   */
+  async clearProfilePat(profileId: string): Promise<void> {
+    try {
+      await this.secretStorage.delete(this.getSecretKey(profileId));
+    } catch {
+      throw new Error("Failed to clear PAT configuration");
+    }
+  }
+
   /**
    * Get secure authentication header for Azure DevOps API requests
    *
+   * @param profile Connection profile to authenticate as; the legacy single PAT when omitted
    * @returns Promise resolving to authorization header or null if not configured
    */
-  async getAuthHeader(): Promise<string | null> {
-    const config = await this.getPatConfiguration();
-    if (!config) {
+  async getAuthHeader(profile?: ConnectionProfile): Promise<string | null> {
+    if (profile?.authMethod === "entra") {
+      const session = await this.getEntraSession(profile);
+      return session ? `Bearer ${session.accessToken}` : null;
+    }
+
+    const token = profile
+      ? await this.secretStorage.get(this.getSecretKey(profile.id))
+      : (await this.getPatConfiguration())?.token;
+    if (!token) {
       return null;
     }
 
     // Basic auth with PAT (username can be empty for PAT)
-    const credentials = Buffer.from(`:${config.token}`).toString("base64");
+    const credentials = Buffer.from(`:${token}`).toString("base64");
     return `Basic ${credentials}`;
   }
 
+  /**
+   * Get a fresh authentication header after a request was rejected
+   *
+   * Entra ID access tokens expire after about an hour; asking the `microsoft`
+   * provider again returns a refreshed token without prompting the user.
+   *
+   * @param profile Connection profile whose request failed
+   * @returns Promise resolving to a new authorization header, or null if it cannot be refreshed
+   */
+  async refreshAuthHeader(profile: ConnectionProfile): Promise<string | null> {
+    if (profile.authMethod !== "entra") {
+      return null;
+    }
+
+    const previous = this.entraSessions.get(profile.id);
+    this.entraSessions.delete(profile.id);
+    const session = await this.getEntraSession(profile);
+    if (!session || session.accessToken === previous?.accessToken) {
+      return null;
+    }
+    return `Bearer ${session.accessToken}`;
+  }
+
   /**
    * Validate current PAT against Azure DevOps API
    *
@@ -198,6 +370,60 @@ export class AuthenticationService {
     return config !== null;
   }
 
+  /**
+   * Dispose of resources
+   */
+  dispose(): void {
+    this.sessionListener.dispose();
+  }
+
+  /**
+   * Get a profile's Entra ID session without prompting the user
+   */
+  private async getEntraSession(
+    profile: ConnectionProfile
+  ): Promise<vscode.AuthenticationSession | undefined> {
+    const cached = this.entraSessions.get(profile.id);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const session = await vscode.authentication.getSession(
+        AuthenticationService.ENTRA_PROVIDER_ID,
+        this.getEntraScopes(profile),
+        { silent: true }
+      );
+      if (session) {
+        this.entraSessions.set(profile.id, session);
+      }
+      return session;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the scopes requested from the `microsoft` provider for a profile
+   */
+  private getEntraScopes(profile: ConnectionProfile): string[] {
+    const scopes = [`${AuthenticationService.AZURE_DEVOPS_RESOURCE}/.default`];
+    if (profile.tenantId) {
+      scopes.push(`VSCODE_TENANT:${profile.tenantId}`);
+    }
+    return scopes;
+  }
+
+  /**
+   * Get the secret storage key of a profile's token. The default profile
+   * keeps the original key so existing installations stay signed in.
+   */
+  private getSecretKey(profileId: string): string {
+    return profileId === ConfigurationService.DEFAULT_PROFILE_ID
+      ? AuthenticationService.PAT_KEY
+      : `${AuthenticationService.PAT_KEY}:${profileId}`;
+  }
+
   /**
    * Validate PAT against Azure DevOps API with timeout
    *
@@ -208,6 +434,24 @@ export class AuthenticationService {
   private async validatePatWithApi(
     token: string,
     organizationUrl: string
+  ): Promise<AuthValidationResult> {
+    const credentials = Buffer.from(`:${token}`).toString("base64");
+    return this.validateAuthorizationWithApi(
+      `Basic ${credentials}`,
+      organizationUrl
+    );
+  }
+
+  /**
+   * Validate an authorization header against Azure DevOps API with timeout
+   *
+   * @param authorization Basic (PAT) or Bearer (Entra ID) authorization header
+   * @param organizationUrl Azure DevOps organization URL
+   * @returns Promise resolving to validation result
+   */
+  private async validateAuthorizationWithApi(
+    authorization: string,
+    organizationUrl: string
   ): Promise<AuthValidationResult> {
     try {
       // Create timeout promise
@@ -221,9 +465,9 @@ export class AuthenticationService {
       // Import axios dynamically to avoid loading issues
       const axios = await import("axios");
 
-      const validationPromise = this.performPatValidation(
+      const validationPromise = this.performValidation(
         axios.default,
-        token,
+        authorization,
         organizationUrl
       );
 
@@ -240,25 +484,31 @@ export class AuthenticationService {
   }
 
   /**
-   * Perform actual PAT validation API call
+   * Perform actual validation API call
    *
    * @param axios Axios instance for HTTP requests
-   * @param token Personal Access Token
+   * @param authorization Authorization header
    * @param organizationUrl Organization URL
    * @returns Promise resolving to validation result
    */
-  private async performPatValidation(
+  private async performValidation(
     axios: any,
-    token: string,
+    authorization: string,
     organizationUrl: string
   ): Promise<AuthValidationResult> {
     try {
-      const credentials = Buffer.from(`:${token}`).toString("base64");
+      // Follow azureDevOps.apiBaseUrl like the API client, e.g. to a local fake server
+      const apiBaseUrl = vscode.workspace
+        .getConfiguration("azureDevOps")
+        .get<string>("apiBaseUrl");
       const response = await axios.get(
-        `${organizationUrl}/_apis/profile/profiles/me?api-version=7.1-preview.3`,
+        resolveServerUrl(
+          `${organizationUrl}/_apis/profile/profiles/me?api-version=7.1-preview.3`,
+          apiBaseUrl
+        ),
         {
           headers: {
-            Authorization: `Basic ${credentials}`,
+            Authorization: authorization,
             Accept: "application/json",
           },
           timeout: AuthenticationService.VALIDATION_TIMEOUT,
@@ -296,7 +546,9 @@ export class AuthenticationService {
         if (status === 401 || status === 403) {
           return {
             isValid: false,
-            errorMessage: "Invalid or expired Personal Access Token",
+            errorMessage: authorization.startsWith("Bearer ")
+              ? "Account has no access to this organization"
+              : "Invalid or expired Personal Access Token",
             errorCode: "INVALID_TOKEN",
           };
         } else if (status === 404) {
@@ -4,6 +4,7 @@ import { CommentService } from "./CommentService";
 import { StateManager } from "./StateManager";
 import { CacheManager } from "./CacheManager";
 import { PullRequest, CommentThread, Identity } from "../api/models";
+import { diffCommentThreads, diffPullRequest } from "../utils/ChangeDetection";
 
 /**
  * Sync configuration options
@@ -20,6 +21,7 @@ export interface SyncConfiguration {
   readonly maxRetryAttempts: number; // Maximum retry attempts for failed syncs
   readonly syncOnStartup: boolean; // Sync on extension startup
   readonly syncOnFocus: boolean; // Sync when window gains focus
+  readonly maxRequestsPerMinute: number; // Request budget for comment polling
 }
 
 /**
@@ -113,7 +115,9 @@ export interface SyncConflict {
  * - Conflict detection and resolution
  * - Offline support with queueing
  * - Performance optimization with batching
- * - Real-time updates via intelligent polling
+ * - Real-time updates via intelligent polling: ETag-revalidated requests,
+ *   change events only for what changed, and comment polling within a
+ *   request budget, starting with pull requests that changed
  * - Network status awareness
  * - Sync statistics and monitoring
  */
@@ -127,6 +131,9 @@ export class BackgroundSyncService {
   private config: SyncConfiguration;
   private isOnline = true;
   private isInitialized = false;
+  private readonly iterationCounts = new Map<string, number>();
+  private readonly pendingThreadSyncs = new Set<string>();
+  private threadSyncCursor = 0;
 
   constructor(
     private readonly pullRequestService: PullRequestService,
@@ -248,10 +255,10 @@ export class BackgroundSyncService {
     try {
       switch (entityType) {
         case "pullRequest":
-          await this.syncPullRequest(entityId);
+          await this.syncPullRequest(entityId, priority);
           break;
         case "comment":
-          await this.syncComments(entityId);
+          await this.syncComments(entityId, priority);
           break;
       }
 
@@ -265,6 +272,27 @@ export class BackgroundSyncService {
     }
   }
 
+  /**
+   * Switch to offline mode when a request failed because the network is
+   * unreachable
+   *
+   * Network monitoring reports the connection as online again once it is
+   * restored, which lets callers retry work that failed in the meantime.
+   *
+   * @param error Error thrown by the failed request
+   * @returns True if the error was network-related
+   */
+  reportNetworkError(error: unknown): boolean {
+    if (!this.isNetworkError(error)) {
+      return false;
+    }
+
+    if (this.isOnline) {
+      this.activateOfflineMode();
+    }
+    return true;
+  }
+
   /**
    * Get current sync status
    */
@@ -345,11 +373,11 @@ export class BackgroundSyncService {
     });
 
     try {
-      // Sync pull requests
-      await this.syncAllPullRequests();
+      // Sync pull requests; a forced sync is asked for, so not in the background
+      await this.syncAllPullRequests("normal");
 
       // Sync comments for active PRs
-      await this.syncAllComments();
+      await this.syncAllComments("normal");
 
       // Update status
       this.status.lastSync = new Date();
@@ -412,8 +440,12 @@ export class BackgroundSyncService {
 
   /**
    * Sync all pull requests
+   *
+   * @param priority Priority of the requests, below user-initiated ones by default
    */
-  private async syncAllPullRequests(): Promise<void> {
+  private async syncAllPullRequests(
+    priority: SyncPriority = "low"
+  ): Promise<void> {
     if (!this.isOnline || this.status.isSyncing) {
       return;
     }
@@ -429,12 +461,13 @@ export class BackgroundSyncService {
 
       // Fetch latest pull requests
       const latestPullRequests =
-        await this.pullRequestService.getPullRequests();
+        await this.pullRequestService.getPullRequests({}, {}, { priority });
 
       // Detect conflicts and updates
       await this.processPullRequestUpdates(
         currentPullRequests,
-        latestPullRequests
+        latestPullRequests,
+        priority
       );
 
       // Update status
@@ -449,8 +482,12 @@ export class BackgroundSyncService {
 
   /**
    * Sync all comments
+   *
+   * @param priority Priority of the requests, below user-initiated ones by default
    */
-  private async syncAllComments(): Promise<void> {
+  private async syncAllComments(
+    priority: SyncPriority = "low"
+  ): Promise<void> {
     if (!this.isOnline || this.status.isSyncing) {
       return;
     }
@@ -459,11 +496,25 @@ export class BackgroundSyncService {
       this.status.isSyncing = true;
 
       const currentState = this.stateManager.getState();
-      const pullRequests = Array.from(currentState.pullRequests.values());
+      const prKeys = Array.from(currentState.pullRequests.values()).map(
+        (pr) => `${pr.repository.id}_${pr.pullRequestId}`
+      );
 
-      // Sync comments for each pull request
-      for (const pr of pullRequests) {
-        await this.syncComments(`${pr.repository.id}_${pr.pullRequestId}`);
+      // Pull requests that changed first, then the others in turns
+      const pending = prKeys.filter((key) => this.pendingThreadSyncs.has(key));
+      const others = prKeys.filter((key) => !this.pendingThreadSyncs.has(key));
+      const start = others.length > 0 ? this.threadSyncCursor % others.length : 0;
+      const batch = [
+        ...pending,
+        ...others.slice(start),
+        ...others.slice(0, start),
+      ].slice(0, this.getThreadSyncBudget());
+      this.threadSyncCursor =
+        start + Math.max(0, batch.length - pending.length);
+
+      for (const prKey of batch) {
+        await this.syncComments(prKey, priority);
+        this.pendingThreadSyncs.delete(prKey);
       }
 
       this.status.syncCounters.comments++;
@@ -477,42 +528,73 @@ export class BackgroundSyncService {
   /**
    * Sync specific pull request
    */
-  private async syncPullRequest(prKey: string): Promise<void> {
+  private async syncPullRequest(
+    prKey: string,
+    priority: SyncPriority
+  ): Promise<void> {
     const [repositoryId, pullRequestId] = prKey.split("_");
     const pullRequest = await this.pullRequestService.getPullRequest(
       repositoryId,
-      parseInt(pullRequestId)
+      parseInt(pullRequestId),
+      { priority }
     );
 
-    if (pullRequest) {
-      this.stateManager.updatePullRequest(
-        repositoryId,
-        parseInt(pullRequestId),
-        pullRequest
-      );
-      this.notifySyncEvent({
-        type: "pullRequestUpdated",
-        data: { pullRequest },
-        timestamp: new Date(),
-      });
+    if (!pullRequest) {
+      return;
     }
+
+    const current = this.stateManager.getState().pullRequests.get(prKey);
+    if (!current) {
+      this.stateManager.addPullRequest(pullRequest);
+      return;
+    }
+
+    await this.applyPullRequestChanges(current, pullRequest, priority);
   }
 
   /**
    * Sync comments for specific pull request
    */
-  private async syncComments(prKey: string): Promise<void> {
+  private async syncComments(
+    prKey: string,
+    priority: SyncPriority
+  ): Promise<void> {
     const [repositoryId, pullRequestId] = prKey.split("_");
+    const known = this.stateManager.getState().commentThreads.get(prKey);
     const threads = await this.commentService.getCommentThreads(
       repositoryId,
-      parseInt(pullRequestId)
+      parseInt(pullRequestId),
+      {},
+      { priority }
     );
 
+    // Deleted threads stay listed, so no threads after some means the
+    // request failed
+    if (known && known.length > 0 && threads.length === 0) {
+      return;
+    }
+
     this.stateManager.updateCommentThreads(
       repositoryId,
       parseInt(pullRequestId),
       threads
     );
+
+    if (known) {
+      const changes = diffCommentThreads(known, threads);
+      const threadIds = [...changes.added, ...changes.replied];
+      if (threadIds.length > 0) {
+        this.notifySyncEvent({
+          type: "commentAdded",
+          data: {
+            repositoryId,
+            pullRequestId: parseInt(pullRequestId),
+            threadIds,
+          },
+          timestamp: new Date(),
+        });
+      }
+    }
   }
 
   /**
@@ -531,16 +613,22 @@ export class BackgroundSyncService {
    */
   private async processPullRequestUpdates(
     current: PullRequest[],
-    latest: PullRequest[]
+    latest: PullRequest[],
+    priority: SyncPriority
   ): Promise<void> {
     for (const latestPr of latest) {
       const currentPr = current.find(
-        (pr) => pr.pullRequestId === latestPr.pullRequestId
+        (pr) =>
+          pr.repository.id === latestPr.repository.id &&
+          pr.pullRequestId === latestPr.pullRequestId
       );
 
       if (!currentPr) {
         // New PR
         this.stateManager.addPullRequest(latestPr);
+        this.pendingThreadSyncs.add(
+          `${latestPr.repository.id}_${latestPr.pullRequestId}`
+        );
         continue;
       }
 
@@ -555,42 +643,91 @@ export class BackgroundSyncService {
         continue;
       }
 
-      // Update PR if changed
-      if (this.hasPullRequestChanged(currentPr, latestPr)) {
-        this.stateManager.updatePullRequest(
-          latestPr.repository.id,
-          latestPr.pullRequestId,
-          latestPr
-        );
-      }
+      await this.applyPullRequestChanges(currentPr, latestPr, priority);
     }
   }
 
   /**
-   * Check if pull request has conflicts
+   * Store the latest version of a pull request and report what changed
+   *
+   * A new source commit is looked up in the pull request's iterations, and
+   * any change queues the pull request's threads for the next comment sync,
+   * since votes and pushes add system comments.
    */
-  private hasPullRequestConflict(
+  private async applyPullRequestChanges(
     current: PullRequest,
-    latest: PullRequest
-  ): boolean {
-    // Simple conflict detection based on status and merge status
-    // In a real implementation, you would compare specific fields
-    return current.status !== latest.status && current.status !== "active";
+    latest: PullRequest,
+    priority: SyncPriority
+  ): Promise<void> {
+    const changes = diffPullRequest(current, latest);
+    if (changes.length === 0) {
+      return;
+    }
+
+    const key = `${latest.repository.id}_${latest.pullRequestId}`;
+    const iterationCount = changes.includes("sourceCommit")
+      ? await this.getIterationCount(latest, priority)
+      : this.iterationCounts.get(key);
+
+    this.stateManager.updatePullRequest(
+      latest.repository.id,
+      latest.pullRequestId,
+      latest
+    );
+    this.pendingThreadSyncs.add(key);
+
+    this.notifySyncEvent({
+      type: "pullRequestUpdated",
+      data: { pullRequest: latest, changes, iterationCount },
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Get the number of iterations of a pull request
+   *
+   * @returns Iteration count, or the last known count if it could not be loaded
+   */
+  private async getIterationCount(
+    pullRequest: PullRequest,
+    priority: SyncPriority
+  ): Promise<number | undefined> {
+    const key = `${pullRequest.repository.id}_${pullRequest.pullRequestId}`;
+    const iterations = await this.pullRequestService.getPullRequestIterations(
+      pullRequest.repository.id,
+      pullRequest.pullRequestId,
+      { priority }
+    );
+    if (iterations.length > 0) {
+      this.iterationCounts.set(key, iterations.length);
+    }
+    return this.iterationCounts.get(key);
+  }
+
+  /**
+   * Get the number of thread requests a comment sync may make, keeping
+   * polling within the configured share of the API rate limit
+   */
+  private getThreadSyncBudget(): number {
+    return Math.max(
+      1,
+      Math.floor(
+        (this.config.maxRequestsPerMinute * this.config.commentInterval) /
+          60000
+      )
+    );
   }
 
   /**
-   * Check if pull request has changed
+   * Check if pull request has conflicts
    */
-  private hasPullRequestChanged(
+  private hasPullRequestConflict(
     current: PullRequest,
     latest: PullRequest
   ): boolean {
-    return (
-      current.status !== latest.status ||
-      current.title !== latest.title ||
-      current.mergeStatus !== latest.mergeStatus ||
-      current.reviewers.length !== latest.reviewers.length
-    );
+    // Simple conflict detection based on status and merge status
+    // In a real implementation, you would compare specific fields
+    return current.status !== latest.status && current.status !== "active";
   }
 
   /**
@@ -925,6 +1062,7 @@ export class BackgroundSyncService {
       maxRetryAttempts: 3,
       syncOnStartup: true,
       syncOnFocus: true,
+      maxRequestsPerMinute: 60, // Well under the API client's 200 requests/minute
     };
 
     return { ...defaults, ...config };
@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { DiskCache } from "./DiskCache";
 
 /**
  * Cache entry with metadata
@@ -19,10 +20,11 @@ export interface CacheEntry<T> {
 export interface CacheConfig {
   readonly defaultTtl: number; // Default time-to-live in milliseconds
   readonly maxMemoryEntries: number; // Maximum entries in memory cache
-  readonly maxSessionEntries: number; // Maximum entries in session storage
+  readonly maxSessionEntries: number; // Maximum entries in the disk cache
   readonly enableCompression: boolean; // Enable data compression for large entries
   readonly enableEviction: boolean; // Enable automatic eviction of expired entries
   readonly cleanupInterval: number; // Cleanup interval in milliseconds
+  readonly staleRetention: number; // How long expired entries are kept on disk to serve them stale or revalidate them
 }
 
 /**
@@ -34,6 +36,7 @@ export interface CacheStatistics {
   readonly hits: number;
   readonly misses: number;
   readonly evictions: number;
+  readonly revalidations: number; // Expired entries renewed because the server reported no change
   readonly hitRate: number;
   readonly totalMemoryUsage: number;
   readonly averageEntrySize: number;
@@ -61,11 +64,13 @@ export interface CacheInvalidationRule {
 /**
  * Advanced cache manager with multi-layer caching and intelligent eviction policies
  *
- * Provides high-performance caching with memory and session storage layers,
- * automatic cleanup, statistics tracking, and flexible invalidation strategies.
+ * Provides high-performance caching with memory and disk layers, automatic
+ * cleanup, statistics tracking, and flexible invalidation strategies.
  *
  * Features:
- * - Multi-layer caching (memory + session storage)
+ * - Multi-layer caching (memory + disk, kept across restarts)
+ * - Stale-while-revalidate: expired entries answer at once while they are
+ *   refreshed in the background
  * - Intelligent eviction policies (LRU, TTL-based)
  * - Cache compression for large entries
  * - Statistics and monitoring
@@ -81,15 +86,30 @@ export class CacheManager {
   >();
   private readonly cleanupIntervals = new Set<NodeJS.Timeout>();
   private readonly invalidationRules = new Set<CacheInvalidationRule>();
+  private readonly refreshes = new Map<string, Promise<void>>();
+  private readonly onDidRefreshEmitter = new vscode.EventEmitter<string>();
+  private readonly diskCache: DiskCache;
+  private revalidations = 0;
 
   private config: CacheConfig;
   private initialized = false;
 
+  /**
+   * Fires with the key of an entry that was served stale once its background
+   * refresh brought different data
+   */
+  readonly onDidRefresh = this.onDidRefreshEmitter.event;
+
   constructor(
     private readonly context: vscode.ExtensionContext,
     config?: Partial<CacheConfig>
   ) {
     this.config = this.mergeConfig(config);
+    this.diskCache = new DiskCache(
+      context.globalStorageUri,
+      context.workspaceState,
+      this.config.maxSessionEntries
+    );
   }
 
   /**
@@ -100,6 +120,8 @@ export class CacheManager {
       return;
     }
 
+    await this.diskCache.load();
+
     // Setup cleanup intervals
     const cleanupInterval = setInterval(
       () => this.performCleanup(),
@@ -135,14 +157,12 @@ export class CacheManager {
       return memoryEntry.data;
     }
 
-    // Check session storage
-    const sessionKey = `cache_${key}`;
-    const sessionEntry =
-      this.context.workspaceState.get<CacheEntry<T>>(sessionKey);
-    if (sessionEntry && this.isValidEntry(sessionEntry)) {
+    // Check disk cache
+    const diskEntry = this.diskCache.get<T>(key);
+    if (diskEntry && this.isValidEntry(diskEntry)) {
       // Promote to memory cache with compression if needed
-      await this.promoteToMemoryCache(key, sessionEntry);
-      return sessionEntry.data;
+      await this.promoteToMemoryCache(key, diskEntry);
+      return diskEntry.data;
     }
 
     return null;
@@ -156,13 +176,15 @@ export class CacheManager {
    * @param ttl Time-to-live in milliseconds (uses default if not specified)
    * @param metadata Optional metadata for the cache entry
    * @param tags Optional tags for invalidation
+   * @param etag Optional ETag to revalidate the entry with once it expires
    */
   async set<T>(
     key: string,
     data: T,
     ttl?: number,
     metadata?: Record<string, any>,
-    tags?: string[]
+    tags?: string[],
+    etag?: string
   ): Promise<void> {
     this.ensureInitialized();
 
@@ -176,6 +198,7 @@ export class CacheManager {
       expiry,
       accessCount: 0,
       lastAccess: Date.now(),
+      etag,
       metadata: { ...metadata, tags },
     };
 
@@ -187,12 +210,94 @@ export class CacheManager {
       this.evictIfNeeded();
     }
 
-    // Store in session storage (async)
-    this.setSessionCache(key, entry).catch((error) => {
-      console.error("Failed to store in session cache:", error);
+    // Store in disk cache (async)
+    this.setDiskCache(key, entry).catch((error) => {
+      console.error("Failed to store in disk cache:", error);
     });
   }
 
+  /**
+   * Get a cache entry whether or not it expired, e.g. to revalidate it with
+   * its ETag
+   *
+   * @param key Cache key
+   * @returns Cache entry or null if not found
+   */
+  getEntry<T>(key: string): CacheEntry<T> | null {
+    this.ensureInitialized();
+
+    return this.memoryCache.get(key) || this.diskCache.get<T>(key) || null;
+  }
+
+  /**
+   * Get data, answering with an expired entry at once while it is refreshed
+   * in the background (stale-while-revalidate)
+   *
+   * Entries are refreshed once at a time; `onDidRefresh` fires when a
+   * refresh brings different data.
+   *
+   * @param key Cache key
+   * @param refresh Loads the data and caches it under the key; `background`
+   *   is true when stale data was served
+   * @returns Cached data, stale data, or what `refresh` loaded if nothing was
+   *   cached
+   */
+  async getStaleWhileRevalidate<T>(
+    key: string,
+    refresh: (background: boolean) => Promise<T>
+  ): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== null) {
+      return cached;
+    }
+
+    const stale = this.getEntry<T>(key);
+    if (!stale) {
+      return refresh(false);
+    }
+
+    if (!this.refreshes.has(key)) {
+      const refreshing = refresh(true)
+        .then((data) => {
+          if (JSON.stringify(data) !== JSON.stringify(stale.data)) {
+            this.onDidRefreshEmitter.fire(key);
+          }
+        })
+        .catch((error) => {
+          console.error(`Failed to refresh cache key ${key}:`, error);
+        })
+        .finally(() => this.refreshes.delete(key));
+      this.refreshes.set(key, refreshing);
+    }
+
+    return stale.data;
+  }
+
+  /**
+   * Renew an entry the server reported unchanged
+   *
+   * @param key Cache key
+   * @param ttl Time-to-live in milliseconds (uses default if not specified)
+   * @returns Renewed data, or null if the entry was deleted in the meantime
+   */
+  async revalidate<T>(key: string, ttl?: number): Promise<T | null> {
+    const entry = this.getEntry<T>(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.revalidations++;
+    await this.set(
+      key,
+      entry.data,
+      ttl,
+      entry.metadata,
+      entry.metadata?.tags,
+      entry.etag
+    );
+    return entry.data;
+  }
+
   /**
    * Delete data from cache
    *
@@ -204,9 +309,8 @@ export class CacheManager {
     // Remove from memory cache
     this.memoryCache.delete(key);
 
-    // Remove from session storage
-    const sessionKey = `cache_${key}`;
-    await this.context.workspaceState.update(sessionKey, undefined);
+    // Remove from disk cache
+    this.diskCache.delete(key);
 
     // Remove access counters
     this.hitCounters.delete(key);
@@ -221,16 +325,12 @@ export class CacheManager {
     // Clear memory cache
     this.memoryCache.clear();
 
-    // Clear session storage
-    const keys = this.context.workspaceState
-      .keys()
-      .filter((key) => key.startsWith("cache_"));
-    for (const key of keys) {
-      await this.context.workspaceState.update(key, undefined);
-    }
+    // Clear disk cache
+    this.diskCache.clear();
 
     // Clear counters
     this.hitCounters.clear();
+    this.revalidations = 0;
   }
 
   /**
@@ -246,6 +346,15 @@ export class CacheManager {
     }
   }
 
+  /**
+   * Invalidate every entry carrying one of the tags
+   *
+   * @param tags Tags to invalidate, e.g. `pr:<repositoryId>:<pullRequestId>`
+   */
+  async invalidateTags(tags: string[]): Promise<void> {
+    await this.invalidate([{ strategy: "tag", pattern: "", tags }]);
+  }
+
   /**
    * Add invalidation rule
    *
@@ -269,9 +378,7 @@ export class CacheManager {
    */
   getStatistics(): CacheStatistics {
     const memoryEntries = this.memoryCache.size;
-    const sessionEntries = this.context.workspaceState
-      .keys()
-      .filter((key) => key.startsWith("cache_")).length;
+    const sessionEntries = this.diskCache.size;
 
     let totalHits = 0;
     let totalMisses = 0;
@@ -299,6 +406,7 @@ export class CacheManager {
       hits: totalHits,
       misses: totalMisses,
       evictions: this.calculateEvictions(),
+      revalidations: this.revalidations,
       hitRate,
       totalMemoryUsage,
       averageEntrySize,
@@ -361,7 +469,7 @@ export class CacheManager {
     const memoryEntry = this.memoryCache.get(key);
     if (memoryEntry) {
       memoryEntry.metadata = { ...memoryEntry.metadata, ...metadata };
-      await this.setSessionCache(key, memoryEntry);
+      await this.setDiskCache(key, memoryEntry);
     }
   }
 
@@ -413,6 +521,13 @@ export class CacheManager {
     );
   }
 
+  /**
+   * Write pending changes of the disk cache now
+   */
+  async flush(): Promise<void> {
+    await this.diskCache.flush();
+  }
+
   /**
    * Clean up resources
    */
@@ -423,10 +538,14 @@ export class CacheManager {
     }
     this.cleanupIntervals.clear();
 
+    // Write what the disk cache has not written yet
+    this.diskCache.dispose();
+
     // Clear cache
     this.memoryCache.clear();
     this.hitCounters.clear();
     this.invalidationRules.clear();
+    this.onDidRefreshEmitter.dispose();
   }
 
   /**
@@ -449,6 +568,7 @@ export class CacheManager {
       enableCompression: true,
       enableEviction: true,
       cleanupInterval: 60000, // 1 minute
+      staleRetention: 604800000, // 1 week
     };
 
     return { ...defaults, ...config };
@@ -484,13 +604,12 @@ export class CacheManager {
   }
 
   /**
-   * Store data in session cache with compression if needed
+   * Store data in disk cache with compression if needed
    */
-  private async setSessionCache<T>(
+  private async setDiskCache<T>(
     key: string,
     entry: CacheEntry<T>
   ): Promise<void> {
-    const sessionKey = `cache_${key}`;
     let dataToStore = entry;
 
     // Compress large entries if enabled
@@ -498,7 +617,7 @@ export class CacheManager {
       dataToStore = await this.compressEntry(entry);
     }
 
-    await this.context.workspaceState.update(sessionKey, dataToStore);
+    this.diskCache.set(key, dataToStore);
   }
 
   /**
@@ -519,7 +638,7 @@ export class CacheManager {
   }
 
   /**
-   * Promote session cache entry to memory cache
+   * Promote disk cache entry to memory cache
    */
   private async promoteToMemoryCache<T>(
     key: string,
@@ -596,12 +715,11 @@ export class CacheManager {
       }
     }
 
-    // Session cache
-    const sessionKeys = this.context.workspaceState
-      .keys()
-      .filter((key) => key.startsWith("cache_") && key.includes(prefix));
-    for (const sessionKey of sessionKeys) {
-      await this.context.workspaceState.update(sessionKey, undefined);
+    // Disk cache
+    for (const key of this.diskCache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.diskCache.delete(key);
+      }
     }
   }
 
@@ -618,14 +736,10 @@ export class CacheManager {
       }
     }
 
-    // Session cache
-    const sessionKeys = this.context.workspaceState
-      .keys()
-      .filter((key) => key.startsWith("cache_"));
-    for (const sessionKey of sessionKeys) {
-      const key = sessionKey.substring(6); // Remove 'cache_' prefix
+    // Disk cache
+    for (const key of this.diskCache.keys()) {
       if (regex.test(key)) {
-        await this.context.workspaceState.update(sessionKey, undefined);
+        this.diskCache.delete(key);
       }
     }
   }
@@ -648,46 +762,72 @@ export class CacheManager {
       }
     }
 
-    // Session cache (more complex - would need to load and check each entry)
-    // This is simplified for now
-    const sessionKeys = this.context.workspaceState
-      .keys()
-      .filter((key) => key.startsWith("cache_"));
-    for (const sessionKey of sessionKeys) {
-      const entry =
-        this.context.workspaceState.get<CacheEntry<any>>(sessionKey);
+    // Disk cache
+    for (const key of this.diskCache.keys()) {
+      const entry = this.diskCache.get(key);
       if (
         entry?.metadata?.tags &&
         tags.some((tag) => (entry.metadata?.tags || []).includes(tag))
       ) {
-        await this.context.workspaceState.update(sessionKey, undefined);
+        this.diskCache.delete(key);
       }
     }
   }
 
+  /**
+   * Check if an entry is past keeping; the disk cache keeps entries a while
+   * after they expire so they can still be served stale or revalidated
+   */
+  private isDisposable<T>(entry: CacheEntry<T>, now: number): boolean {
+    return now >= entry.expiry + this.config.staleRetention;
+  }
+
   /**
    * Perform cleanup of expired entries
    */
   private async performCleanup(): Promise<void> {
     const now = Date.now();
 
-    // Clean memory cache
+    // Clean memory cache; expired entries stay on disk
     for (const [key, entry] of this.memoryCache.entries()) {
-      if (now >= entry.expiry) {
+      if (!this.isValidEntry(entry)) {
         this.memoryCache.delete(key);
       }
     }
 
-    // Clean session cache
-    const sessionKeys = this.context.workspaceState
-      .keys()
-      .filter((key) => key.startsWith("cache_"));
-    for (const sessionKey of sessionKeys) {
-      const entry =
-        this.context.workspaceState.get<CacheEntry<any>>(sessionKey);
-      if (entry && now >= entry.expiry) {
-        await this.context.workspaceState.update(sessionKey, undefined);
+    // Clean disk cache
+    for (const key of this.diskCache.keys()) {
+      const entry = this.diskCache.get(key);
+      if (entry && this.isDisposable(entry, now)) {
+        this.diskCache.delete(key);
       }
     }
   }
 }
+
+/**
+ * Tag of everything cached for a pull request except its comment threads
+ */
+export function pullRequestCacheTag(
+  repositoryId: string,
+  pullRequestId: number
+): string {
+  return `pr:${repositoryId}:${pullRequestId}`;
+}
+
+/**
+ * Tag of the comment threads cached for a pull request
+ */
+export function commentThreadsCacheTag(
+  repositoryId: string,
+  pullRequestId: number
+): string {
+  return `threads:${repositoryId}:${pullRequestId}`;
+}
+
+/**
+ * Tag of the cached pull request listings of a repository
+ */
+export function pullRequestListCacheTag(repositoryId: string): string {
+  return `prs:${repositoryId}`;
+}
@@ -1,15 +1,21 @@
 import * as vscode from "vscode";
-import { AzureDevOpsApiClient } from "../api/AzureDevOpsApiClient";
+import {
+  AzureDevOpsApiClient,
+  RequestContext,
+} from "../api/AzureDevOpsApiClient";
 import { ConfigurationService } from "./ConfigurationService";
+import { CacheManager, commentThreadsCacheTag } from "./CacheManager";
 import {
   CommentThread,
   Comment,
   CommentThreadStatus,
   CommentType,
   CommentThreadContext,
+  CommentThreadSide,
   CommentPosition,
   Identity,
 } from "../api/models";
+import { findMentions } from "../utils/Markdown";
 
 /**
  * Comment creation options
@@ -31,6 +37,8 @@ export interface CreateThreadOptions {
   readonly content: string;
   readonly filePath?: string;
   readonly line?: number;
+  readonly endLine?: number;
+  readonly side?: CommentThreadSide;
   readonly iterationId?: number;
   readonly status?: CommentThreadStatus;
   readonly commentType?: CommentType;
@@ -104,7 +112,8 @@ export class CommentService {
   constructor(
     private readonly apiClient: AzureDevOpsApiClient,
     private readonly configService: ConfigurationService,
-    private readonly context: vscode.ExtensionContext
+    private readonly context: vscode.ExtensionContext,
+    private readonly cacheManager: CacheManager
   ) {}
 
   /**
@@ -113,36 +122,39 @@ export class CommentService {
    * @param repositoryId Repository ID
    * @param pullRequestId Pull request ID
    * @param filter Comment filter criteria
+   * @param request Priority and cancellation of the request
    * @returns Promise resolving to array of comment threads
    */
   async getCommentThreads(
     repositoryId: string,
     pullRequestId: number,
-    filter: CommentFilter = {}
+    filter: CommentFilter = {},
+    request: RequestContext = {}
   ): Promise<CommentThread[]> {
-    const cacheKey = this.getCacheKey(
-      "threads",
-      repositoryId,
-      pullRequestId,
-      filter
-    );
+    // Threads are cached unfiltered
+    const cacheKey = this.getCacheKey("threads", repositoryId, pullRequestId);
 
     // Check cache first
-    const cached = this.getCachedData<CommentThread[]>(cacheKey);
-    if (cached && this.isCacheValid(cached.timestamp, 30000)) {
-      // 30 second cache
-      return this.applyCommentFilters(cached.data, filter);
+    const cached = await this.cacheManager.get<CommentThread[]>(cacheKey);
+    if (cached) {
+      return this.applyCommentFilters(cached, filter);
     }
 
     try {
       const threads = await this.apiClient.getCommentThreads(
         repositoryId,
         pullRequestId,
-        { useCache: true, cacheTtl: 15000 }
+        { useCache: true, cacheTtl: 15000, ...request }
       );
 
       // Cache the result
-      this.setCacheData(cacheKey, threads);
+      await this.cacheManager.set(
+        cacheKey,
+        threads,
+        30000, // 30 seconds
+        undefined,
+        [commentThreadsCacheTag(repositoryId, pullRequestId)]
+      );
 
       return this.applyCommentFilters(threads, filter);
     } catch (error) {
@@ -177,7 +189,7 @@ export class CommentService {
    * @param repositoryId Repository ID
    * @param pullRequestId Pull request ID
    * @param options Thread creation options
-   * @returns Promise resolving to created comment thread
+   * @returns Promise resolving to created comment thread or null if failed
    */
   async createCommentThread(
     repositoryId: string,
@@ -185,67 +197,80 @@ export class CommentService {
     options: CreateThreadOptions
   ): Promise<CommentThread | null> {
     try {
-      const config = this.configService.getConfiguration();
-      const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads`;
-
-      const payload: any = {
-        comments: [
-          {
-            content: options.content,
-            commentType: options.commentType || "text",
-          },
-        ],
-        status: options.status || "active",
-      };
+      return await this.postCommentThread(repositoryId, pullRequestId, options);
+    } catch (error) {
+      console.error("Failed to create comment thread:", error);
+      return null;
+    }
+  }
 
-      // Add thread context if file positioning is specified
-      if (options.filePath && options.line !== undefined) {
-        payload.threadContext = {
-          filePath: options.filePath,
-        };
+  /**
+   * Create a new comment thread, letting request errors through so callers
+   * can tell network failures apart
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param options Thread creation options
+   * @returns Promise resolving to created comment thread
+   */
+  async postCommentThread(
+    repositoryId: string,
+    pullRequestId: number,
+    options: CreateThreadOptions
+  ): Promise<CommentThread> {
+    const projectUrl = this.apiClient.getProjectUrl(repositoryId);
+    const url = `${projectUrl}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads`;
+
+    const payload: any = {
+      comments: [
+        {
+          content: options.content,
+          commentType: options.commentType || "text",
+        },
+      ],
+      status: options.status || "active",
+    };
 
-        // Add pull request specific context
-        payload.pullRequestThreadContext = {
-          iterationContext: options.iterationId
-            ? {
-                firstComparingIteration: 1,
-                secondComparingIteration: options.iterationId,
-              }
-            : undefined,
-        };
+    // Add thread context if file positioning is specified
+    if (options.filePath && options.line !== undefined) {
+      payload.threadContext = {
+        filePath: options.filePath,
+      };
 
-        // Add file positioning
-        if (options.line !== undefined) {
-          payload.threadContext.rightFileStart = {
-            line: options.line,
-            offset: 0,
-          };
-          payload.threadContext.rightFileEnd = {
-            line: options.line,
-            offset: 0,
-          };
-        }
-      }
+      // Add pull request specific context
+      payload.pullRequestThreadContext = {
+        iterationContext: options.iterationId
+          ? {
+              firstComparingIteration: 1,
+              secondComparingIteration: options.iterationId,
+            }
+          : undefined,
+      };
 
-      const thread = await this.apiClient.post<CommentThread>(url, payload);
+      // Add file positioning, on the source (right) side unless told otherwise
+      const side = options.side || "right";
+      payload.threadContext[`${side}FileStart`] = {
+        line: options.line,
+        offset: 0,
+      };
+      payload.threadContext[`${side}FileEnd`] = {
+        line: options.endLine ?? options.line,
+        offset: 0,
+      };
+    }
 
-      // Invalidate cache
-      this.invalidateCommentCache(repositoryId, pullRequestId);
+    const thread = await this.apiClient.post<CommentThread>(url, payload);
 
-      // Notify listeners
-      this.notifyCommentUpdate({
-        type: "threadCreated",
-        repositoryId,
-        pullRequestId,
-        threadId: thread.id,
-        timestamp: new Date(),
-      });
+    // Notify listeners
+    this.notifyCommentUpdate({
+      type: "threadCreated",
+      repositoryId,
+      pullRequestId,
+      threadId: thread.id,
+      timestamp: new Date(),
+    });
 
-      return thread;
-    } catch (error) {
-      console.error("Failed to create comment thread:", error);
-      return null;
-    }
+    return thread;
   }
 
   /**
@@ -303,9 +328,6 @@ export class CommentService {
         comment = thread.comments[0];
       }
 
-      // Invalidate cache
-      this.invalidateCommentCache(repositoryId, pullRequestId);
-
       return comment;
     } catch (error) {
       console.error("Failed to add comment:", error);
@@ -331,8 +353,8 @@ export class CommentService {
     options: UpdateCommentOptions
   ): Promise<Comment | null> {
     try {
-      const config = this.configService.getConfiguration();
-      const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads/${threadId}/comments/${commentId}`;
+      const projectUrl = this.apiClient.getProjectUrl(repositoryId);
+      const url = `${projectUrl}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads/${threadId}/comments/${commentId}`;
 
       const payload: any = {};
       if (options.content !== undefined) payload.content = options.content;
@@ -341,9 +363,6 @@ export class CommentService {
 
       const comment = await this.apiClient.patch<Comment>(url, payload);
 
-      // Invalidate cache
-      this.invalidateCommentCache(repositoryId, pullRequestId);
-
       // Notify listeners
       this.notifyCommentUpdate({
         type: "commentUpdated",
@@ -377,8 +396,8 @@ export class CommentService {
     options: UpdateThreadOptions
   ): Promise<CommentThread | null> {
     try {
-      const config = this.configService.getConfiguration();
-      const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads/${threadId}`;
+      const projectUrl = this.apiClient.getProjectUrl(repositoryId);
+      const url = `${projectUrl}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads/${threadId}`;
 
       const payload: any = {};
       if (options.status !== undefined) payload.status = options.status;
@@ -403,9 +422,6 @@ export class CommentService {
 
       const thread = await this.apiClient.patch<CommentThread>(url, payload);
 
-      // Invalidate cache
-      this.invalidateCommentCache(repositoryId, pullRequestId);
-
       // Notify listeners
       this.notifyCommentUpdate({
         type: "threadUpdated",
@@ -438,14 +454,11 @@ export class CommentService {
     commentId: number
   ): Promise<boolean> {
     try {
-      const config = this.configService.getConfiguration();
-      const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads/${threadId}/comments/${commentId}`;
+      const projectUrl = this.apiClient.getProjectUrl(repositoryId);
+      const url = `${projectUrl}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads/${threadId}/comments/${commentId}`;
 
       await this.apiClient.delete<any>(url);
 
-      // Invalidate cache
-      this.invalidateCommentCache(repositoryId, pullRequestId);
-
       // Notify listeners
       this.notifyCommentUpdate({
         type: "commentDeleted",
@@ -463,6 +476,100 @@ export class CommentService {
     }
   }
 
+  /**
+   * Like or unlike a comment as the current user
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param threadId Thread ID
+   * @param commentId Comment ID
+   * @param liked True to like the comment, false to remove the like
+   * @returns Promise resolving to true if successful
+   */
+  async setCommentLiked(
+    repositoryId: string,
+    pullRequestId: number,
+    threadId: number,
+    commentId: number,
+    liked: boolean
+  ): Promise<boolean> {
+    try {
+      const projectUrl = this.apiClient.getProjectUrl(repositoryId);
+      const url = `${projectUrl}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/threads/${threadId}/comments/${commentId}/likes`;
+
+      if (liked) {
+        await this.apiClient.post<void>(url, undefined);
+      } else {
+        await this.apiClient.delete<void>(url);
+      }
+
+      // Notify listeners
+      this.notifyCommentUpdate({
+        type: "commentUpdated",
+        repositoryId,
+        pullRequestId,
+        threadId,
+        commentId,
+        timestamp: new Date(),
+      });
+
+      return true;
+    } catch (error) {
+      console.error("Failed to update comment like:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Resolve the `@<GUID>` mentions in comment or description text to display
+   * names
+   *
+   * @param repositoryId Repository whose organization the identities belong to
+   * @param contents Texts to look for mentions in
+   * @returns Promise resolving to display names keyed by lowercase identity ID;
+   * identities that cannot be resolved are left out
+   */
+  async resolveMentions(
+    repositoryId: string,
+    contents: string[]
+  ): Promise<Map<string, string>> {
+    const identityIds = [
+      ...new Set(contents.flatMap((content) => findMentions(content))),
+    ];
+
+    try {
+      const identities = await this.apiClient.getIdentities(
+        identityIds,
+        repositoryId
+      );
+      return new Map(
+        identities.map((identity) => [
+          identity.id.toLowerCase(),
+          identity.displayName,
+        ])
+      );
+    } catch (error) {
+      console.error("Failed to resolve mentions:", error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Get the identity ID of the signed-in user, e.g. to tell which comments
+   * they liked
+   *
+   * @param repositoryId Repository whose organization to ask
+   * @returns Promise resolving to the user ID, or undefined on failure
+   */
+  async getCurrentUserId(repositoryId: string): Promise<string | undefined> {
+    try {
+      return (await this.apiClient.getAuthenticatedUser(repositoryId)).id;
+    } catch (error) {
+      console.error("Failed to get current user:", error);
+      return undefined;
+    }
+  }
+
   /**
    * Get comment statistics for a pull request
    *
@@ -641,6 +748,22 @@ export class CommentService {
     this.commentUpdateListeners.delete(listener);
   }
 
+  /**
+   * Invalidate the cached comment threads of a pull request, e.g. after they
+   * were changed without going through this service
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   */
+  async invalidateCommentCache(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<void> {
+    await this.cacheManager.invalidateTags([
+      commentThreadsCacheTag(repositoryId, pullRequestId),
+    ]);
+  }
+
   /**
    * Clean up resources and intervals
    */
@@ -729,49 +852,6 @@ export class CommentService {
   private getCacheKey(...parts: any[]): string {
     return `${this.cacheKeyPrefix}${parts.join("_")}`;
   }
-
-  /**
-   * Get cached data with metadata
-   */
-  private getCachedData<T>(key: string): { data: T; timestamp: number } | null {
-    const cached = this.context.workspaceState.get<{
-      data: T;
-      timestamp: number;
-    }>(key);
-    return cached || null;
-  }
-
-  /**
-   * Set cached data with timestamp
-   */
-  private setCacheData<T>(key: string, data: T): void {
-    this.context.workspaceState.update(key, {
-      data,
-      timestamp: Date.now(),
-    });
-  }
-
-  /**
-   * Check if cache is still valid
-   */
-  private isCacheValid(timestamp: number, maxAgeMs: number): boolean {
-    return Date.now() - timestamp < maxAgeMs;
-  }
-
-  /**
-   * Invalidate comment cache
-   */
-  private invalidateCommentCache(
-    repositoryId: string,
-    pullRequestId: number
-  ): void {
-    const keys = this.context.workspaceState
-      .keys()
-      .filter((key) =>
-        key.includes(`threads_${repositoryId}_${pullRequestId}`)
-      );
-    keys.forEach((key) => this.context.workspaceState.update(key, undefined));
-  }
 }
 
 /**
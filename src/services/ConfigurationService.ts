@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { PullRequestStatus } from "../api/models";
 
 /**
  * Azure DevOps extension configuration interface
@@ -13,6 +14,87 @@ export interface AzureDevOpsConfiguration {
   };
 }
 
+/**
+ * How a connection profile authenticates: a Personal Access Token or a
+ * Microsoft Entra ID account
+ */
+export type AuthenticationMethod = "pat" | "entra";
+
+/**
+ * Connection to one Azure DevOps organization and project
+ */
+export interface ConnectionProfile {
+  readonly id: string;
+  readonly name: string;
+  readonly organizationUrl: string;
+  readonly project: string;
+  /** Defaults to "pat" */
+  readonly authMethod?: AuthenticationMethod;
+  /** Entra ID tenant of the organization, for accounts in several tenants */
+  readonly tenantId?: string;
+}
+
+/**
+ * Named pull request query shown as a category in the Pull Requests view
+ *
+ * Identity fields accept an identity ID or `@me` for the signed-in user of
+ * each connection profile.
+ */
+export interface SavedPullRequestQuery {
+  readonly id: string;
+  readonly name: string;
+  /** Defaults to "active" */
+  readonly status?: PullRequestStatus;
+  readonly createdBy?: string;
+  readonly reviewer?: string;
+  /** Only pull requests the current user has not voted on yet, or has voted on */
+  readonly myVote?: "pending" | "voted";
+  /** Only pull requests with new commits since the current user voted */
+  readonly changedSinceMyVote?: boolean;
+  readonly closedWithinDays?: number;
+  readonly targetBranch?: string;
+  readonly searchQuery?: string;
+  /** Defaults to true */
+  readonly includeDrafts?: boolean;
+}
+
+/**
+ * Events the extension notifies the user about
+ */
+export type NotificationType =
+  | "reviewRequested"
+  | "threadReply"
+  | "newIteration"
+  | "policyFailed";
+
+/**
+ * Notification settings from `azureDevOps.notifications.*`
+ */
+export interface NotificationSettings {
+  /** Whether each notification type is enabled */
+  readonly types: Readonly<Record<NotificationType, boolean>>;
+  /** Time of day ("HH:MM") from which toasts are held back */
+  readonly quietHoursStart: string;
+  /** Time of day ("HH:MM") until which toasts are held back */
+  readonly quietHoursEnd: string;
+}
+
+/**
+ * Point an Azure DevOps Services URL at another server, e.g. a local fake
+ * server for offline development. Identity requests for the `vssps` host go
+ * to the same server.
+ *
+ * @param url Request URL on `https://dev.azure.com` or `https://vssps.dev.azure.com`
+ * @param apiBaseUrl Server to use instead; the URL is unchanged when omitted
+ * @returns URL on the given server
+ */
+export function resolveServerUrl(url: string, apiBaseUrl?: string): string {
+  const baseUrl = apiBaseUrl?.trim().replace(/\/+$/, "");
+  return baseUrl
+    ? url.replace(/^https:\/\/(vssps\.)?dev\.azure\.com(?=\/|$)/i, baseUrl)
+    : url;
+}
+
 /**
  * Configuration validation result
  */
@@ -31,6 +113,9 @@ export interface ConfigValidationResult {
  * Configuration namespace: azureDevOps.*
  */
 export class ConfigurationService {
+  /** ID of the profile synthesized from the legacy organizationUrl/project settings */
+  public static readonly DEFAULT_PROFILE_ID = "default";
+
   private static readonly SECTION = "azureDevOps";
   private readonly changeEmitter =
     new vscode.EventEmitter<AzureDevOpsConfiguration>();
@@ -58,11 +143,17 @@ export class ConfigurationService {
       ConfigurationService.SECTION
     );
 
+    // Fall back to the first connection profile when only profiles are configured
+    const organizationUrl = config.get<string>("organizationUrl");
+    const firstProfile = organizationUrl
+      ? undefined
+      : this.getConfiguredProfiles()[0];
+
     return {
       organizationUrl: this.normalizeOrganizationUrl(
-        config.get<string>("organizationUrl") || ""
+        organizationUrl || firstProfile?.organizationUrl || ""
       ),
-      project: config.get<string>("project") || "",
+      project: config.get<string>("project") || firstProfile?.project || "",
       refreshInterval: config.get<number>("refreshInterval") || 300,
       telemetry: {
         enabled: config.get<boolean>("telemetry.enabled") ?? true,
@@ -72,6 +163,227 @@ export class ConfigurationService {
     };
   }
 
+  /**
+   * Get all connection profiles
+   *
+   * Profiles come from the `azureDevOps.profiles` setting. When none are
+   * configured, the legacy `organizationUrl`/`project` settings form a single
+   * default profile.
+   *
+   * @returns Connection profiles in configuration order
+   */
+  getProfiles(): ConnectionProfile[] {
+    const profiles = this.getConfiguredProfiles();
+    if (profiles.length > 0) {
+      return profiles;
+    }
+
+    const config = vscode.workspace.getConfiguration(
+      ConfigurationService.SECTION
+    );
+    const organizationUrl = this.normalizeOrganizationUrl(
+      config.get<string>("organizationUrl") || ""
+    );
+    const project = config.get<string>("project") || "";
+    if (!organizationUrl || !project) {
+      return [];
+    }
+
+    return [
+      {
+        id: ConfigurationService.DEFAULT_PROFILE_ID,
+        name: `${this.extractOrganizationName(organizationUrl)}/${project}`,
+        organizationUrl,
+        project,
+      },
+    ];
+  }
+
+  /**
+   * Get a connection profile by ID
+   *
+   * @param profileId Profile ID
+   * @returns Profile, or undefined if it does not exist
+   */
+  getProfile(profileId: string): ConnectionProfile | undefined {
+    return this.getProfiles().find((profile) => profile.id === profileId);
+  }
+
+  /**
+   * Find the profile an Azure DevOps request URL belongs to
+   *
+   * Prefers a profile whose organization and project both match, so two
+   * projects in the same organization resolve to the right profile.
+   *
+   * @param url Request URL
+   * @returns Matching profile, or undefined for foreign URLs
+   */
+  getProfileForUrl(url: string): ConnectionProfile | undefined {
+    const lowerUrl = url.toLowerCase();
+    const profiles = this.getProfiles().filter((profile) =>
+      lowerUrl.startsWith(`${profile.organizationUrl.toLowerCase()}/`)
+    );
+
+    return (
+      profiles.find((profile) =>
+        [profile.project, encodeURIComponent(profile.project)].some(
+          (project) =>
+            lowerUrl.startsWith(
+              `${profile.organizationUrl}/${project}/`.toLowerCase()
+            )
+        )
+      ) || profiles[0]
+    );
+  }
+
+  /**
+   * Add or update a connection profile
+   *
+   * The legacy single-connection settings are migrated into the profile list
+   * the first time a profile is saved.
+   *
+   * @param profile Profile to save; an existing profile with the same ID is replaced
+   * @returns Promise that resolves when the profile is saved
+   */
+  async saveProfile(profile: ConnectionProfile): Promise<void> {
+    const profiles = this.getProfiles();
+    const index = profiles.findIndex((existing) => existing.id === profile.id);
+    const normalized: ConnectionProfile = {
+      ...profile,
+      organizationUrl: this.normalizeOrganizationUrl(profile.organizationUrl),
+    };
+
+    if (index >= 0) {
+      profiles[index] = normalized;
+    } else {
+      profiles.push(normalized);
+    }
+
+    await this.updateConfiguration("profiles", profiles);
+  }
+
+  /**
+   * Remove a connection profile
+   *
+   * @param profileId Profile ID
+   * @returns Promise that resolves when the profile is removed
+   */
+  async removeProfile(profileId: string): Promise<void> {
+    const profiles = this.getProfiles().filter(
+      (profile) => profile.id !== profileId
+    );
+    await this.updateConfiguration("profiles", profiles);
+
+    if (profileId === ConfigurationService.DEFAULT_PROFILE_ID) {
+      await this.updateConfiguration("organizationUrl", undefined);
+      await this.updateConfiguration("project", undefined);
+    }
+  }
+
+  /**
+   * Create a stable profile ID for an organization and project
+   *
+   * @param organizationUrl Organization URL
+   * @param project Project name
+   * @returns Profile ID
+   */
+  createProfileId(organizationUrl: string, project: string): string {
+    const organization = this.extractOrganizationName(
+      this.normalizeOrganizationUrl(organizationUrl)
+    );
+    return `${organization}/${project}`.toLowerCase();
+  }
+
+  /**
+   * Get the user-defined pull request queries from the `azureDevOps.savedQueries` setting
+   *
+   * @returns Saved queries with a name, in configuration order
+   */
+  getSavedQueries(): SavedPullRequestQuery[] {
+    const config = vscode.workspace.getConfiguration(
+      ConfigurationService.SECTION
+    );
+    const queries =
+      config.get<Partial<SavedPullRequestQuery>[]>("savedQueries") || [];
+
+    return queries
+      .filter((query) => !!query && !!query.name)
+      .map((query) => ({
+        ...query,
+        id: query.id || query.name!.toLowerCase().replace(/\s+/g, "-"),
+        name: query.name!,
+      }));
+  }
+
+  /**
+   * Get the notification settings from `azureDevOps.notifications.*`
+   *
+   * @returns Notification settings; every type is enabled by default
+   */
+  getNotificationSettings(): NotificationSettings {
+    const config = vscode.workspace.getConfiguration(
+      `${ConfigurationService.SECTION}.notifications`
+    );
+
+    return {
+      types: {
+        reviewRequested: config.get<boolean>("reviewRequested") ?? true,
+        threadReply: config.get<boolean>("threadReply") ?? true,
+        newIteration: config.get<boolean>("newIteration") ?? true,
+        policyFailed: config.get<boolean>("policyFailed") ?? true,
+      },
+      quietHoursStart: config.get<string>("quietHours.start") || "",
+      quietHoursEnd: config.get<string>("quietHours.end") || "",
+    };
+  }
+
+  /**
+   * Get the server requests to Azure DevOps Services are sent to instead,
+   * from `azureDevOps.apiBaseUrl`
+   *
+   * @returns Base URL without trailing slash, undefined when not configured
+   */
+  getApiBaseUrl(): string | undefined {
+    const apiBaseUrl = vscode.workspace
+      .getConfiguration(ConfigurationService.SECTION)
+      .get<string>("apiBaseUrl")
+      ?.trim()
+      .replace(/\/+$/, "");
+    return apiBaseUrl || undefined;
+  }
+
+  /**
+   * Add or update a saved pull request query
+   *
+   * @param query Query to save; an existing query with the same ID is replaced
+   * @returns Promise that resolves when the query is saved
+   */
+  async saveQuery(query: SavedPullRequestQuery): Promise<void> {
+    const queries = this.getSavedQueries();
+    const index = queries.findIndex((existing) => existing.id === query.id);
+
+    if (index >= 0) {
+      queries[index] = query;
+    } else {
+      queries.push(query);
+    }
+
+    await this.updateConfiguration("savedQueries", queries);
+  }
+
+  /**
+   * Remove a saved pull request query
+   *
+   * @param queryId Query ID
+   * @returns Promise that resolves when the query is removed
+   */
+  async removeQuery(queryId: string): Promise<void> {
+    await this.updateConfiguration(
+      "savedQueries",
+      this.getSavedQueries().filter((query) => query.id !== queryId)
+    );
+  }
+
   /**
    * Validate current configuration
    *
@@ -82,22 +394,27 @@ export class ConfigurationService {
     const errors: string[] = [];
     const warnings: string[] = [];
 
-    // Validate organization URL
-    if (!config.organizationUrl) {
-      errors.push("Organization URL is required");
-    } else if (!this.isValidOrganizationUrl(config.organizationUrl)) {
-      errors.push(
-        "Invalid organization URL format. Expected: https://dev.azure.com/myorg or https://myorg.visualstudio.com"
-      );
+    const profiles = this.getProfiles();
+    if (profiles.length === 0) {
+      errors.push("Organization URL is required", "Project name is required");
     }
 
-    // Validate project
-    if (!config.project) {
-      errors.push("Project name is required");
-    } else if (!this.isValidProjectName(config.project)) {
-      errors.push(
-        "Invalid project name. Must be alphanumeric with spaces, hyphens, or underscores"
-      );
+    for (const profile of profiles) {
+      const prefix = profiles.length > 1 ? `${profile.name}: ` : "";
+
+      // Validate organization URL
+      if (!this.isValidOrganizationUrl(profile.organizationUrl)) {
+        errors.push(
+          `${prefix}Invalid organization URL format. Expected: https://dev.azure.com/myorg or https://myorg.visualstudio.com`
+        );
+      }
+
+      // Validate project
+      if (!this.isValidProjectName(profile.project)) {
+        errors.push(
+          `${prefix}Invalid project name. Must be alphanumeric with spaces, hyphens, or underscores`
+        );
+      }
     }
 
     // Validate refresh interval
@@ -211,11 +528,11 @@ export class ConfigurationService {
       return `Configuration incomplete: ${validation.errors.join(", ")}`;
     }
 
-    const orgName = this.extractOrganizationName(config.organizationUrl);
+    const profiles = this.getProfiles();
     const refreshText =
       config.refreshInterval === 0 ? "disabled" : `${config.refreshInterval}s`;
 
-    return `${orgName}/${config.project} (refresh: ${refreshText})`;
+    return `${profiles.map((profile) => profile.name).join(", ")} (refresh: ${refreshText})`;
   }
 
   /**
@@ -230,6 +547,7 @@ export class ConfigurationService {
     const keys = [
       "organizationUrl",
       "project",
+      "profiles",
       "refreshInterval",
       "telemetry.enabled",
       "telemetry.allowSensitiveData",
@@ -252,6 +570,39 @@ export class ConfigurationService {
     }
   }
 
+  /**
+   * Read the profiles from the `azureDevOps.profiles` setting, skipping
+   * incomplete entries
+   */
+  private getConfiguredProfiles(): ConnectionProfile[] {
+    const config = vscode.workspace.getConfiguration(
+      ConfigurationService.SECTION
+    );
+    const profiles = config.get<Partial<ConnectionProfile>[]>("profiles") || [];
+
+    return profiles
+      .filter(
+        (profile) => !!profile && !!profile.organizationUrl && !!profile.project
+      )
+      .map((profile) => {
+        const organizationUrl = this.normalizeOrganizationUrl(
+          profile.organizationUrl!
+        );
+        return {
+          id:
+            profile.id ||
+            this.createProfileId(organizationUrl, profile.project!),
+          name:
+            profile.name ||
+            `${this.extractOrganizationName(organizationUrl)}/${profile.project}`,
+          organizationUrl,
+          project: profile.project!,
+          authMethod: profile.authMethod === "entra" ? "entra" : "pat",
+          tenantId: profile.tenantId || undefined,
+        };
+      });
+  }
+
   /**
    * Normalize organization URL to standard format
    *
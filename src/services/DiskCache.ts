@@ -0,0 +1,416 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { CacheEntry } from "./CacheManager";
+
+/**
+ * Contents of the cache file
+ */
+interface DiskCacheFile {
+  readonly version: number;
+  readonly entries: Record<string, CacheEntry<unknown>>;
+}
+
+/**
+ * Local changes not yet written to the cache file
+ */
+interface PendingChanges {
+  /** Keys set or deleted since the last write */
+  readonly keys: Set<string>;
+  /** Whether all entries were deleted since the last write */
+  readonly cleared: boolean;
+}
+
+/**
+ * Step migrating the entries of a cache file to the next schema version
+ */
+type DiskCacheMigration = (
+  entries: Record<string, CacheEntry<unknown>>,
+  legacyState: vscode.Memento
+) => Record<string, CacheEntry<unknown>>;
+
+/**
+ * Migrations by the schema version they migrate from; the current version is
+ * the number of migrations
+ */
+const MIGRATIONS: DiskCacheMigration[] = [
+  // 0 -> 1: the cache moved from the workspace state to disk. Its entries are
+  // dropped rather than imported, as the workspace state stored their dates
+  // as strings; keys of caches that no longer exist are dropped with them.
+  (entries, legacyState) => {
+    const legacyPrefixes = [
+      "cache_",
+      "api_cache_",
+      "pr_service_",
+      "comment_service_",
+    ];
+    for (const key of legacyState.keys()) {
+      if (legacyPrefixes.some((prefix) => key.startsWith(prefix))) {
+        legacyState.update(key, undefined);
+      }
+    }
+    return entries;
+  },
+];
+
+/**
+ * Versioned cache stored as a JSON file under the extension's global storage,
+ * so cached data survives restarts
+ *
+ * Features:
+ * - Schema migration by version, discarding files of newer versions
+ * - Least recently used entries evicted beyond a maximum number of entries
+ * - Dates kept as dates through serialization
+ * - Writes batched and replaced atomically; in memory only without a storage
+ *   location
+ *
+ * Every window of VS Code shares the file. Each write rewrites the whole
+ * file, so before writing, the entries other windows wrote since are merged
+ * in and only this window's own changes override them. A write landing
+ * between another window's read and rename can still be lost, which only
+ * costs a cache miss.
+ */
+export class DiskCache {
+  static readonly VERSION = MIGRATIONS.length;
+  static readonly FILE_NAME = "cache.json";
+  private static readonly WRITE_DELAY = 1000; // 1 second
+
+  private readonly entries = new Map<string, CacheEntry<unknown>>();
+  private readonly filePath?: string;
+  private writeTimer?: ReturnType<typeof setTimeout>;
+  private writing: Promise<void> = Promise.resolve();
+  private dirty = false;
+  private changedKeys = new Set<string>();
+  private cleared = false;
+
+  /**
+   * @param storageUri Directory to keep the cache file in, usually
+   *   `context.globalStorageUri`
+   * @param legacyState Workspace state that held the cache before it moved to
+   *   disk
+   * @param maxEntries Most entries to keep
+   */
+  constructor(
+    storageUri: vscode.Uri | undefined,
+    private readonly legacyState: vscode.Memento,
+    private readonly maxEntries: number
+  ) {
+    this.filePath = storageUri
+      ? path.join(storageUri.fsPath, DiskCache.FILE_NAME)
+      : undefined;
+  }
+
+  /**
+   * Load the cache file, migrating it to the current schema version
+   */
+  async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    let file: DiskCacheFile = { version: 0, entries: {} };
+    try {
+      const text = await fs.promises.readFile(this.filePath, "utf8");
+      file = JSON.parse(text, reviveDates);
+    } catch (error) {
+      if ((error as { code?: string }).code !== "ENOENT") {
+        console.error("Failed to read the disk cache:", error);
+      }
+    }
+
+    let entries = file.entries || {};
+    if (file.version > DiskCache.VERSION) {
+      // Written by a newer version of the extension
+      entries = {};
+    }
+    for (
+      let version = file.version;
+      version < DiskCache.VERSION;
+      version++
+    ) {
+      entries = MIGRATIONS[version](entries, this.legacyState);
+    }
+
+    for (const [key, entry] of Object.entries(entries)) {
+      this.entries.set(key, entry);
+    }
+    this.evictIfNeeded();
+
+    if (file.version !== DiskCache.VERSION) {
+      this.scheduleWrite();
+    }
+  }
+
+  /**
+   * Get an entry, whether or not it expired
+   */
+  get<T>(key: string): CacheEntry<T> | undefined {
+    return this.entries.get(key) as CacheEntry<T> | undefined;
+  }
+
+  /**
+   * Store an entry, evicting the least recently used ones beyond the limit
+   */
+  set<T>(key: string, entry: CacheEntry<T>): void {
+    this.entries.set(key, entry);
+    this.changedKeys.add(key);
+    this.evictIfNeeded();
+    this.scheduleWrite();
+  }
+
+  /**
+   * Delete an entry
+   */
+  delete(key: string): void {
+    if (this.entries.delete(key)) {
+      this.changedKeys.add(key);
+      this.scheduleWrite();
+    }
+  }
+
+  /**
+   * Delete all entries
+   */
+  clear(): void {
+    this.entries.clear();
+    this.changedKeys.clear();
+    this.cleared = true;
+    this.scheduleWrite();
+  }
+
+  /**
+   * Get the keys of all entries
+   */
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Number of entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Write pending changes to disk now
+   */
+  async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = undefined;
+    }
+    this.writing = this.writing.then(() => this.write());
+    await this.writing;
+  }
+
+  /**
+   * Write pending changes synchronously, as disposal cannot wait
+   */
+  dispose(): void {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = undefined;
+    }
+    if (!this.filePath || !this.dirty) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.merge(readEntries(() => fs.readFileSync(this.filePath!, "utf8")));
+      fs.writeFileSync(this.getTempPath(), this.serialize());
+      fs.renameSync(this.getTempPath(), this.filePath);
+      this.dirty = false;
+    } catch (error) {
+      console.error("Failed to write the disk cache:", error);
+    }
+  }
+
+  /**
+   * Write the cache file once changes settle
+   */
+  private scheduleWrite(): void {
+    if (!this.filePath) {
+      return;
+    }
+
+    this.dirty = true;
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+    }
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = undefined;
+      this.writing = this.writing.then(() => this.write());
+    }, DiskCache.WRITE_DELAY);
+  }
+
+  /**
+   * Write the cache file to a temporary file and move it in place, so a
+   * crash never leaves a partial file
+   */
+  private async write(): Promise<void> {
+    if (!this.filePath || !this.dirty) {
+      return;
+    }
+
+    const filePath = this.filePath;
+    this.dirty = false;
+    let changes: PendingChanges | undefined;
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const text = await fs.promises
+        .readFile(filePath, "utf8")
+        .catch(() => undefined);
+      changes = this.merge(readEntries(() => text));
+      await fs.promises.writeFile(this.getTempPath(), this.serialize());
+      await fs.promises.rename(this.getTempPath(), filePath);
+    } catch (error) {
+      this.dirty = true;
+      if (changes) {
+        // Keep overriding the other windows' entries on the next write
+        changes.keys.forEach((key) => this.changedKeys.add(key));
+        this.cleared = this.cleared || changes.cleared;
+      }
+      console.error("Failed to write the disk cache:", error);
+    }
+  }
+
+  /**
+   * Merge the entries other windows wrote to the cache file into this one,
+   * keeping this window's changes since the last write
+   *
+   * @param written Entries in the cache file, or undefined to keep this
+   *   window's entries only
+   * @returns The changes merged, which are no longer pending
+   */
+  private merge(
+    written: Record<string, CacheEntry<unknown>> | undefined
+  ): PendingChanges {
+    const changes: PendingChanges = {
+      keys: this.changedKeys,
+      cleared: this.cleared,
+    };
+    this.changedKeys = new Set();
+    this.cleared = false;
+    if (!written) {
+      return changes;
+    }
+
+    const merged = new Map(changes.cleared ? [] : Object.entries(written));
+    for (const key of changes.keys) {
+      const entry = this.entries.get(key);
+      if (entry) {
+        merged.set(key, entry);
+      } else {
+        merged.delete(key);
+      }
+    }
+
+    this.entries.clear();
+    merged.forEach((entry, key) => this.entries.set(key, entry));
+    this.evictIfNeeded();
+    return changes;
+  }
+
+  /**
+   * Temporary file to write to, per process so windows don't write into
+   * each other's
+   */
+  private getTempPath(): string {
+    return `${this.filePath}.${process.pid}.tmp`;
+  }
+
+  /**
+   * Serialize the cache file
+   */
+  private serialize(): string {
+    const file: DiskCacheFile = {
+      version: DiskCache.VERSION,
+      entries: Object.fromEntries(this.entries),
+    };
+    return JSON.stringify(file, replaceDates);
+  }
+
+  /**
+   * Evict the least recently used entries beyond the limit
+   */
+  private evictIfNeeded(): void {
+    if (this.entries.size <= this.maxEntries) {
+      return;
+    }
+
+    const entries = Array.from(this.entries.entries()).sort(
+      ([, a], [, b]) => a.lastAccess - b.lastAccess
+    );
+    const toRemove = entries.length - this.maxEntries;
+    for (let i = 0; i < toRemove; i++) {
+      this.entries.delete(entries[i][0]);
+    }
+  }
+}
+
+/**
+ * Read the entries of a cache file of the current version
+ *
+ * @param read Reads the file's text
+ * @returns The entries, or undefined if the file is missing, unreadable or
+ *   of another version
+ */
+function readEntries(
+  read: () => string | undefined
+): Record<string, CacheEntry<unknown>> | undefined {
+  try {
+    const text = read();
+    if (text === undefined) {
+      return undefined;
+    }
+    const file: DiskCacheFile = JSON.parse(text, reviveDates);
+    return file.version === DiskCache.VERSION ? file.entries || {} : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * JSON replacer writing dates as `{ $date: <ISO string> }`
+ */
+function replaceDates(
+  this: Record<string, unknown>,
+  key: string,
+  value: unknown
+): unknown {
+  const original = this[key];
+  if (original instanceof Date) {
+    return isNaN(original.getTime()) ? null : { $date: value };
+  }
+  return value;
+}
+
+/**
+ * JSON reviver turning `{ $date: <ISO string> }` back into dates
+ */
+function reviveDates(_key: string, value: unknown): unknown {
+  if (value && typeof value === "object" && Object.keys(value).length === 1) {
+    const { $date } = value as { $date?: unknown };
+    if (typeof $date === "string") {
+      return new Date($date);
+    }
+  }
+  return value;
+}
+
+/**
+ * Convert a value for storage that serializes to JSON, such as the workspace
+ * state, keeping its dates
+ */
+export function encodeDates<T>(value: T): unknown {
+  return JSON.parse(JSON.stringify(value, replaceDates));
+}
+
+/**
+ * Restore a value stored with `encodeDates`
+ */
+export function decodeDates<T>(value: unknown): T {
+  return JSON.parse(JSON.stringify(value), reviveDates);
+}
@@ -0,0 +1,411 @@
+import { execFile } from "child_process";
+import * as vscode from "vscode";
+import { GitRepository, PullRequest } from "../api/models";
+import {
+  API,
+  Commit,
+  GitExtension,
+  Remote,
+  Repository,
+} from "../typings/git";
+
+/**
+ * How a pull request is checked out locally
+ */
+export type CheckoutMode = "branch" | "merge";
+
+/**
+ * Local git repository matching an Azure DevOps repository
+ */
+export interface LocalRepositoryMatch {
+  readonly repository: Repository;
+  readonly remote: Remote;
+}
+
+/**
+ * Publish state of a local branch
+ */
+export interface BranchPushState {
+  readonly isPublished: boolean;
+  readonly ahead: number;
+}
+
+/**
+ * Checkout operation result
+ */
+export interface CheckoutResult {
+  readonly success: boolean;
+  readonly ref?: string;
+  readonly error?: string;
+  readonly timestamp: Date;
+}
+
+/**
+ * Normalize an Azure DevOps git remote URL so HTTPS, SSH and legacy
+ * visualstudio.com forms of the same repository compare equal
+ *
+ * @param url Remote URL
+ * @returns Normalized `dev.azure.com/<org>/<project>/<repo>` form (lowercase)
+ */
+export function normalizeRemoteUrl(url: string): string {
+  let normalized = url.trim().toLowerCase();
+
+  try {
+    normalized = decodeURIComponent(normalized);
+  } catch {
+    // Keep the raw URL if it is not valid percent-encoding
+  }
+
+  normalized = normalized.replace(/\.git$/, "").replace(/\/+$/, "");
+
+  // SSH: git@ssh.dev.azure.com:v3/org/project/repo, org@vs-ssh.visualstudio.com:v3/org/project/repo
+  const ssh = normalized.match(
+    /^(?:ssh:\/\/)?[^@]+@(?:ssh\.dev\.azure\.com|vs-ssh\.visualstudio\.com)(?::\d+)?[:/]v3\/([^/]+)\/([^/]+)\/([^/]+)$/
+  );
+  if (ssh) {
+    return `dev.azure.com/${ssh[1]}/${ssh[2]}/${ssh[3]}`;
+  }
+
+  // HTTPS: https://[user@]dev.azure.com/org/project/_git/repo
+  const devAzure = normalized.match(
+    /^https?:\/\/(?:[^@/]+@)?dev\.azure\.com\/([^/]+)\/([^/]+)\/_git\/([^/]+)$/
+  );
+  if (devAzure) {
+    return `dev.azure.com/${devAzure[1]}/${devAzure[2]}/${devAzure[3]}`;
+  }
+
+  // HTTPS: https://org.visualstudio.com/[DefaultCollection/]project/_git/repo
+  const visualStudio = normalized.match(
+    /^https?:\/\/(?:[^@/]+@)?([^./]+)\.visualstudio\.com\/(?:defaultcollection\/)?([^/]+)\/_git\/([^/]+)$/
+  );
+  if (visualStudio) {
+    return `dev.azure.com/${visualStudio[1]}/${visualStudio[2]}/${visualStudio[3]}`;
+  }
+
+  return normalized.replace(/^[a-z]+:\/\/(?:[^@/]+@)?/, "");
+}
+
+/**
+ * Git checkout service bridging pull requests and local repositories
+ *
+ * Uses the built-in `vscode.git` extension API to find the local clone of a
+ * pull request's repository and switch it to the pull request's source
+ * branch or to the `refs/pull/<id>/merge` preview ref, and to read the
+ * branch state a new pull request is created from.
+ */
+export class GitCheckoutService {
+  /** Folders Azure Repos looks in for pull request templates, in order */
+  private static readonly TEMPLATE_FOLDERS = [
+    ".azuredevops/",
+    ".vsts/",
+    "docs/",
+    "",
+  ];
+  private static readonly MAX_COMMITS = 100;
+
+  private gitApi?: API;
+
+  /**
+   * Find the local repository and remote that point at an Azure DevOps repository
+   *
+   * @param repository Azure DevOps repository
+   * @returns Matching local repository and remote, or undefined if none is open
+   */
+  async findLocalRepository(
+    repository: GitRepository
+  ): Promise<LocalRepositoryMatch | undefined> {
+    const git = await this.getGitApi();
+    if (!git) {
+      return undefined;
+    }
+
+    const targets = new Set(
+      [repository.remoteUrl, repository.sshUrl, repository.webUrl]
+        .filter((url): url is string => !!url)
+        .map(normalizeRemoteUrl)
+    );
+
+    for (const localRepository of git.repositories) {
+      const remote = localRepository.state.remotes.find((candidate) =>
+        [candidate.fetchUrl, candidate.pushUrl].some(
+          (url) => !!url && targets.has(normalizeRemoteUrl(url))
+        )
+      );
+      if (remote) {
+        return { repository: localRepository, remote };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check whether a local repository has uncommitted changes
+   *
+   * @param repository Local repository
+   * @returns True if the working tree or index is dirty
+   */
+  hasUncommittedChanges(repository: Repository): boolean {
+    const state = repository.state;
+    return (
+      state.workingTreeChanges.length > 0 ||
+      state.indexChanges.length > 0 ||
+      state.mergeChanges.length > 0
+    );
+  }
+
+  /**
+   * Stash the uncommitted changes of a local repository, untracked files
+   * included
+   *
+   * The git extension API offers no stash, so `git stash push` runs in the
+   * repository's own root, which keeps multi-root workspaces from stashing
+   * another repository.
+   *
+   * @param repository Local repository
+   * @param message Message of the stash entry
+   */
+  async stashChanges(repository: Repository, message: string): Promise<void> {
+    const gitApi = await this.getGitApi();
+    await runGit(
+      gitApi?.git.path || "git",
+      ["stash", "push", "--include-untracked", "--message", message],
+      repository.rootUri.fsPath
+    );
+    await repository.status();
+  }
+
+  /**
+   * Fetch and switch to a pull request
+   *
+   * @param match Local repository and remote to use
+   * @param pullRequest Pull request to check out
+   * @param mode Source branch or detached merge preview
+   * @returns Promise resolving to checkout result
+   */
+  async checkoutPullRequest(
+    match: LocalRepositoryMatch,
+    pullRequest: PullRequest,
+    mode: CheckoutMode
+  ): Promise<CheckoutResult> {
+    const { repository, remote } = match;
+
+    try {
+      if (mode === "merge") {
+        const mergeRef = `refs/pull/${pullRequest.pullRequestId}/merge`;
+        await repository.fetch(remote.name, mergeRef);
+        await repository.checkout("FETCH_HEAD");
+        return { success: true, ref: mergeRef, timestamp: new Date() };
+      }
+
+      const branchName = pullRequest.sourceRefName.replace(/^refs\/heads\//, "");
+      const remoteBranch = `${remote.name}/${branchName}`;
+      await repository.fetch(remote.name, branchName);
+
+      const localBranch = await repository
+        .getBranch(branchName)
+        .catch(() => undefined);
+
+      if (localBranch) {
+        await repository.checkout(branchName);
+        if (repository.state.HEAD?.behind) {
+          await repository.pull();
+        }
+      } else {
+        await repository.createBranch(branchName, true, remoteBranch);
+        await repository.setBranchUpstream(branchName, remoteBranch);
+      }
+
+      return { success: true, ref: branchName, timestamp: new Date() };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to check out pull request",
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Get the branch checked out in a local repository
+   *
+   * @param repository Local repository
+   * @returns Branch name, or undefined when HEAD is detached
+   */
+  getCurrentBranch(repository: Repository): string | undefined {
+    return repository.state.HEAD?.name;
+  }
+
+  /**
+   * List the local branches of a repository
+   *
+   * @param repository Local repository
+   * @returns Branch names, sorted by name
+   */
+  async getLocalBranches(repository: Repository): Promise<string[]> {
+    const refs = await repository.getBranches({ remote: false });
+    return refs
+      .filter((ref) => !ref.remote && !!ref.name)
+      .map((ref) => ref.name!)
+      .sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * List the branches of a remote known to a local repository
+   *
+   * @param match Local repository and remote
+   * @returns Branch names without the remote prefix, sorted by name
+   */
+  async getRemoteBranches(match: LocalRepositoryMatch): Promise<string[]> {
+    const prefix = `${match.remote.name}/`;
+    const refs = await match.repository.getBranches({ remote: true });
+    return refs
+      .filter(
+        (ref) =>
+          ref.remote === match.remote.name &&
+          !!ref.name?.startsWith(prefix) &&
+          ref.name !== `${prefix}HEAD`
+      )
+      .map((ref) => ref.name!.substring(prefix.length))
+      .sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Check whether a local branch and its commits have been pushed
+   *
+   * @param match Local repository and remote
+   * @param branch Local branch name
+   * @returns Whether the branch exists on the remote and how many local commits it lacks
+   */
+  async getPushState(
+    match: LocalRepositoryMatch,
+    branch: string
+  ): Promise<BranchPushState> {
+    const remoteBranch = `${match.remote.name}/${branch}`;
+    const remoteBranches = await this.getRemoteBranches(match);
+    if (!remoteBranches.includes(branch)) {
+      return { isPublished: false, ahead: 0 };
+    }
+
+    const unpushed = await match.repository
+      .log({ range: `${remoteBranch}..${branch}` })
+      .catch(() => []);
+    return { isPublished: true, ahead: unpushed.length };
+  }
+
+  /**
+   * Get the commits a branch adds on top of a remote target branch
+   *
+   * @param match Local repository and remote
+   * @param sourceBranch Local source branch
+   * @param targetBranch Target branch on the remote
+   * @returns Commits, newest first, or an empty array if the range cannot be resolved
+   */
+  async getCommits(
+    match: LocalRepositoryMatch,
+    sourceBranch: string,
+    targetBranch: string
+  ): Promise<Commit[]> {
+    return match.repository
+      .log({
+        range: `${match.remote.name}/${targetBranch}..${sourceBranch}`,
+        maxEntries: GitCheckoutService.MAX_COMMITS,
+      })
+      .catch(() => []);
+  }
+
+  /**
+   * Push a branch and set its upstream
+   *
+   * @param match Local repository and remote to push to
+   * @param branch Local branch name
+   */
+  async pushBranch(match: LocalRepositoryMatch, branch: string): Promise<void> {
+    await match.repository.push(match.remote.name, branch, true);
+  }
+
+  /**
+   * Read the pull request template of a local repository
+   *
+   * Looks for a template specific to the target branch first, then for the
+   * default template in the locations Azure Repos supports.
+   *
+   * @param repository Local repository
+   * @param targetBranch Target branch of the pull request
+   * @returns Template content, or undefined if the repository has none
+   */
+  async readPullRequestTemplate(
+    repository: Repository,
+    targetBranch?: string
+  ): Promise<string | undefined> {
+    const candidates = [
+      ...(targetBranch
+        ? GitCheckoutService.TEMPLATE_FOLDERS.map(
+            (folder) =>
+              `${folder}pull_request_template/branches/${targetBranch}.md`
+          )
+        : []),
+      ...GitCheckoutService.TEMPLATE_FOLDERS.map(
+        (folder) => `${folder}pull_request_template.md`
+      ),
+    ];
+
+    for (const candidate of candidates) {
+      try {
+        const content = await vscode.workspace.fs.readFile(
+          vscode.Uri.joinPath(repository.rootUri, candidate)
+        );
+        return Buffer.from(content).toString("utf8");
+      } catch {
+        // Try the next location
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the git extension API, activating the extension if needed
+   */
+  private async getGitApi(): Promise<API | undefined> {
+    if (this.gitApi) {
+      return this.gitApi;
+    }
+
+    const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
+    if (!extension) {
+      return undefined;
+    }
+
+    const gitExtension = extension.isActive
+      ? extension.exports
+      : await extension.activate();
+    if (!gitExtension.enabled) {
+      return undefined;
+    }
+
+    this.gitApi = gitExtension.getAPI(1);
+    return this.gitApi;
+  }
+}
+
+/**
+ * Run a git command in a repository
+ *
+ * @param gitPath Path of the git executable
+ * @param args Command line arguments
+ * @param cwd Root folder of the repository
+ */
+function runGit(gitPath: string, args: string[], cwd: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile(gitPath, args, { cwd }, (error, _stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
@@ -1,7 +1,19 @@
 import * as vscode from "vscode";
-import { PullRequestService } from "../services/PullRequestService";
-import { CommentService } from "../services/CommentService";
-import { CacheManager } from "../services/CacheManager";
+import {
+  PullRequestService,
+  CreatePullRequestOptions,
+  PullRequestOperationResult,
+} from "../services/PullRequestService";
+import {
+  CommentService,
+  CreateThreadOptions,
+} from "../services/CommentService";
+import {
+  CacheManager,
+  commentThreadsCacheTag,
+  pullRequestCacheTag,
+  pullRequestListCacheTag,
+} from "../services/CacheManager";
 import { StateManager } from "../services/StateManager";
 import { TelemetryService } from "../services/TelemetryService";
 import { MonitoringService } from "../services/MonitoringService";
@@ -117,8 +129,14 @@ export class IntegrationService implements vscode.Disposable {
         fromCache: "false",
       });
 
-      // Cache results
-      await this.cacheManager.set(cacheKey, results, 300000); // 5 minutes
+      // Cache results; a write to any of these repositories' pull requests drops them
+      await this.cacheManager.set(
+        cacheKey,
+        results,
+        300000, // 5 minutes
+        undefined,
+        results.map(({ repository }) => pullRequestListCacheTag(repository.id))
+      );
 
       return results;
     } catch (error) {
@@ -219,7 +237,16 @@ export class IntegrationService implements vscode.Disposable {
       });
 
       // Cache result
-      await this.cacheManager.set(cacheKey, result, 180000); // 3 minutes
+      await this.cacheManager.set(
+        cacheKey,
+        result,
+        180000, // 3 minutes
+        undefined,
+        [
+          pullRequestCacheTag(repositoryId, pullRequestId),
+          commentThreadsCacheTag(repositoryId, pullRequestId),
+        ]
+      );
 
       return result;
     } catch (error) {
@@ -292,7 +319,13 @@ export class IntegrationService implements vscode.Disposable {
       );
 
       // Cache paginated results for shorter time
-      await this.cacheManager.set(cacheKey, result, 60000); // 1 minute
+      await this.cacheManager.set(
+        cacheKey,
+        result,
+        60000, // 1 minute
+        undefined,
+        [pullRequestCacheTag(repositoryId, pullRequestId)]
+      );
 
       return result;
     } catch (error) {
@@ -356,13 +389,65 @@ export class IntegrationService implements vscode.Disposable {
         success: result.success.toString(),
       });
 
-      // Clear related cache
-      await this.clearPullRequestCache(repositoryId, pullRequestId);
-
       return result;
     });
   }
 
+  /**
+   * Create a pull request
+   */
+  async createPullRequest(
+    options: CreatePullRequestOptions
+  ): Promise<PullRequestOperationResult> {
+    const startTime = Date.now();
+
+    const result = await this.pullRequestService.createPullRequest(options);
+
+    this.monitoringService.trackPerformance(
+      "createPullRequest",
+      Date.now() - startTime,
+      result.success
+    );
+    this.telemetryService.trackPullRequestOperation("create", {
+      repositoryId: options.repositoryId,
+      isDraft: String(!!options.isDraft),
+      success: result.success.toString(),
+    });
+
+    return result;
+  }
+
+  /**
+   * Cast the current user's vote on a pull request
+   */
+  async votePullRequest(
+    repositoryId: string,
+    pullRequestId: number,
+    vote: PullRequestVote
+  ): Promise<PullRequestOperationResult> {
+    const startTime = Date.now();
+
+    const result = await this.pullRequestService.votePullRequest(
+      repositoryId,
+      pullRequestId,
+      vote
+    );
+
+    this.monitoringService.trackPerformance(
+      "votePullRequest",
+      Date.now() - startTime,
+      result.success
+    );
+    this.telemetryService.trackPullRequestOperation("vote", {
+      repositoryId,
+      pullRequestId: pullRequestId.toString(),
+      vote: vote.toString(),
+      success: result.success.toString(),
+    });
+
+    return result;
+  }
+
   /**
    * Reject pull request with comment validation
    */
@@ -403,9 +488,6 @@ export class IntegrationService implements vscode.Disposable {
         success: result.success.toString(),
       });
 
-      // Clear related cache
-      await this.clearPullRequestCache(repositoryId, pullRequestId);
-
       return result;
     });
   }
@@ -457,11 +539,6 @@ export class IntegrationService implements vscode.Disposable {
         success: success.toString(),
       });
 
-      // Clear PR details cache
-      await this.cacheManager.delete(
-        `prDetails_${repositoryId}_${pullRequestId}`
-      );
-
       return {
         success,
         comment: result || undefined,
@@ -469,6 +546,37 @@ export class IntegrationService implements vscode.Disposable {
     });
   }
 
+  /**
+   * Start a comment thread, anchored to a file range when the options
+   * include a file position
+   */
+  async createCommentThread(
+    repositoryId: string,
+    pullRequestId: number,
+    options: CreateThreadOptions
+  ): Promise<CommentThread | null> {
+    const startTime = Date.now();
+
+    const thread = await this.commentService.createCommentThread(
+      repositoryId,
+      pullRequestId,
+      options
+    );
+
+    this.monitoringService.trackPerformance(
+      "createCommentThread",
+      Date.now() - startTime,
+      thread !== null
+    );
+    this.telemetryService.trackPullRequestOperation("comment", {
+      repositoryId,
+      pullRequestId: pullRequestId.toString(),
+      success: (thread !== null).toString(),
+    });
+
+    return thread;
+  }
+
   /**
    * Execute operation with retry logic and error recovery
    */
@@ -528,23 +636,6 @@ export class IntegrationService implements vscode.Disposable {
     }
   }
 
-  /**
-   * Clear pull request related cache
-   */
-  private async clearPullRequestCache(
-    repositoryId: string,
-    pullRequestId: number
-  ): Promise<void> {
-    const cacheKeys = [
-      `prDetails_${repositoryId}_${pullRequestId}`,
-      `prFiles_${repositoryId}_${pullRequestId}`,
-      `pullRequests_${repositoryId}`,
-      "allPullRequests",
-    ];
-
-    await Promise.all(cacheKeys.map((key) => this.cacheManager.delete(key)));
-  }
-
   /**
    * Setup performance monitoring
    */
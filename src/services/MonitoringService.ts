@@ -1,6 +1,9 @@
 import * as vscode from "vscode";
 import { TelemetryService } from "./TelemetryService";
-import { AzureDevOpsApiClient } from "../api/AzureDevOpsApiClient";
+import {
+  AzureDevOpsApiClient,
+  ThrottlingState,
+} from "../api/AzureDevOpsApiClient";
 import { ConfigurationService } from "./ConfigurationService";
 import { AuthenticationService } from "./AuthenticationService";
 import { Logger } from "../utils/Logger";
@@ -22,6 +25,7 @@ export class MonitoringService {
   private errorRates: Map<string, ErrorRate> = new Map();
   private apiMetrics: Map<string, ApiMetric> = new Map();
   private userBehaviorMetrics: Map<string, UserBehaviorMetric> = new Map();
+  private throttlingState?: ThrottlingState;
   private isDisposed = false;
   private subscriptions: vscode.Disposable[] = [];
 
@@ -127,6 +131,9 @@ export class MonitoringService {
       // Check configuration
       healthStatus.checks.configuration = await this.checkConfigurationHealth();
 
+      // Check Azure DevOps throttling
+      healthStatus.checks.throttling = this.checkThrottlingHealth();
+
       // Determine overall health
       const failedChecks = Object.values(healthStatus.checks).filter(
         (check) => check.status === "unhealthy"
@@ -380,6 +387,40 @@ export class MonitoringService {
     }
   }
 
+  /**
+   * Check whether Azure DevOps throttles the extension's requests
+   */
+  private checkThrottlingHealth(): HealthCheck {
+    const throttling = this.getThrottlingState();
+    if (!throttling) {
+      return {
+        status: "healthy",
+        message: "API client not available",
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    let status: "healthy" | "degraded" | "unhealthy" = "healthy";
+    let message = "Requests are not throttled";
+
+    if (throttling.delayedUntil) {
+      status = "degraded";
+      message = `Requests delayed by Azure DevOps${
+        throttling.resource ? ` (${throttling.resource})` : ""
+      } until ${new Date(throttling.delayedUntil).toLocaleTimeString()}`;
+    } else if (throttling.delaySeconds) {
+      status = "degraded";
+      message = `Azure DevOps delays requests by ${throttling.delaySeconds}s`;
+    }
+
+    return {
+      status,
+      message,
+      timestamp: new Date().toISOString(),
+      details: { ...throttling },
+    };
+  }
+
   /**
    * Report health status
    */
@@ -545,6 +586,36 @@ export class MonitoringService {
     }
   }
 
+  /**
+   * Track the throttling state after an API request, reporting when Azure
+   * DevOps starts delaying requests
+   */
+  trackThrottling(endpoint: string, throttling: ThrottlingState): void {
+    const wasDelayed = !!this.throttlingState?.delayedUntil;
+    this.throttlingState = throttling;
+
+    if (throttling.delayedUntil && !wasDelayed) {
+      this.logger.warn(
+        `Azure DevOps throttled ${endpoint}, holding requests for ${Math.ceil(
+          (throttling.delayedUntil - Date.now()) / 1000
+        )}s`
+      );
+      this.telemetry.trackEvent('api.throttled', {
+        endpoint,
+        resource: throttling.resource || 'unknown',
+        requestsPerMinute: throttling.requestsPerMinute.toString(),
+        queuedRequests: throttling.queuedRequests.toString(),
+      });
+    }
+  }
+
+  /**
+   * Get the latest Azure DevOps throttling state
+   */
+  getThrottlingState(): ThrottlingState | undefined {
+    return this.apiClient?.getThrottlingState() ?? this.throttlingState;
+  }
+
   /**
    * Track user action
    */
@@ -860,9 +931,10 @@ ${this.getRecentIssues().slice(0, 5).map(issue => `- ${issue.severity}: ${issue.
       return;
     }
 
-    // Monitor API response times and success rates
-    this.apiClient.onRequestCompleted((duration: number, endpoint: string, success: boolean) => {
+    // Monitor API response times, success rates and throttling
+    this.apiClient.onRequestCompleted((duration, endpoint, success, throttling) => {
       this.trackApiPerformance(endpoint, duration, success);
+      this.trackThrottling(endpoint, throttling);
     });
 
     this.logger.info('API monitoring started');
@@ -920,6 +992,7 @@ ${this.getRecentIssues().slice(0, 5).map(issue => `- ${issue.severity}: ${issue.
       errorRatesCount: this.errorRates.size,
       lastHealthCheck: new Date().toISOString(), // This would be stored in practice
       isDisposed: this.isDisposed,
+      throttling: this.getThrottlingState(),
     };
   }
 
@@ -981,6 +1054,7 @@ interface MonitoringStatus {
   errorRatesCount: number;
   lastHealthCheck: string;
   isDisposed: boolean;
+  throttling?: ThrottlingState;
 }
 
 interface ApiMetric {
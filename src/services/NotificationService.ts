@@ -0,0 +1,582 @@
+import * as vscode from "vscode";
+import { CommentService } from "./CommentService";
+import { PullRequestService } from "./PullRequestService";
+import { PolicyService } from "./PolicyService";
+import { BackgroundSyncService, SyncEvent } from "./BackgroundSyncService";
+import {
+  ConfigurationService,
+  NotificationSettings,
+  NotificationType,
+} from "./ConfigurationService";
+import { PullRequest } from "../api/models";
+import { diffPullRequest } from "../utils/ChangeDetection";
+
+/**
+ * Unread notification about a pull request
+ */
+export interface PullRequestNotification {
+  readonly id: string;
+  readonly type: NotificationType;
+  readonly repositoryId: string;
+  readonly pullRequestId: number;
+  readonly pullRequestTitle: string;
+  readonly message: string;
+  /** Thread of a reply */
+  readonly threadId?: number;
+  /** ISO timestamp of when the event was detected */
+  readonly createdAt: string;
+}
+
+/**
+ * State of a pull request the current user is involved in, compared between
+ * checks to detect events
+ */
+interface PullRequestSnapshot {
+  readonly isReviewer: boolean;
+  readonly vote: number;
+  readonly sourceCommitId?: string;
+  /** Last comment ID by someone else in each thread the current user started */
+  readonly threads: Record<string, number>;
+  /** Evaluation IDs of failed policies */
+  readonly failedPolicies: string[];
+  /**
+   * True while policies may change without the pull request changing, as
+   * none were evaluated yet or some are queued or running
+   */
+  readonly pendingPolicies?: boolean;
+}
+
+/**
+ * Check whether a time falls within quiet hours
+ *
+ * Quiet hours may wrap around midnight, e.g. "22:00" to "07:00". They are
+ * off when either end is missing or invalid, or both ends are equal.
+ *
+ * @param start Start of quiet hours ("HH:MM")
+ * @param end End of quiet hours ("HH:MM"), exclusive
+ * @param date Time to check
+ * @returns True if notifications should stay silent
+ */
+export function isWithinQuietHours(
+  start: string,
+  end: string,
+  date: Date = new Date()
+): boolean {
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+  if (
+    startMinutes === undefined ||
+    endMinutes === undefined ||
+    startMinutes === endMinutes
+  ) {
+    return false;
+  }
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return startMinutes < endMinutes
+    ? minutes >= startMinutes && minutes < endMinutes
+    : minutes >= startMinutes || minutes < endMinutes;
+}
+
+/**
+ * Parse a "HH:MM" time of day into minutes since midnight
+ */
+function toMinutes(time: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return undefined;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Notification service telling the user about review requests, replies to
+ * their threads, new iterations of pull requests they voted on and failed
+ * policies of their pull requests
+ *
+ * Events are detected by comparing the active pull requests the user created
+ * or reviews with a snapshot from the previous check, which runs on the
+ * refresh timer and whenever the background sync service reports an update.
+ * Threads and policies are only fetched again for pull requests that changed
+ * since the previous check, whose threads the background sync reported new
+ * comments on, or whose policies are still pending.
+ * Unread notifications are kept in global state until they are read, and
+ * shown as a toast (outside quiet hours) and a status bar badge.
+ */
+export class NotificationService implements vscode.Disposable {
+  private static readonly STORAGE_KEY = "azureDevOps.notifications";
+  private static readonly SNAPSHOT_KEY = "azureDevOps.notificationSnapshots";
+  private static readonly MAX_NOTIFICATIONS = 100;
+  static readonly OPEN_COMMAND = "azureDevOps.openNotification";
+  static readonly VIEW_ID = "azureDevOpsNotifications";
+
+  private notifications: PullRequestNotification[];
+  private snapshots: Record<string, PullRequestSnapshot> | undefined;
+  private checking: Promise<void> | undefined;
+  /** Pull requests as of the previous check, to detect which changed */
+  private readonly pullRequests = new Map<string, PullRequest>();
+  /** Pull requests the background sync found new comments on */
+  private readonly changedThreads = new Set<string>();
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private readonly onDidChangeNotificationsEmitter =
+    new vscode.EventEmitter<void>();
+  private readonly syncListener = (event: SyncEvent) => {
+    if (event.type === "commentAdded" && event.data) {
+      this.changedThreads.add(
+        `${event.data.repositoryId}:${event.data.pullRequestId}`
+      );
+    }
+    if (
+      event.type === "pullRequestUpdated" ||
+      event.type === "commentAdded" ||
+      event.type === "conflictDetected"
+    ) {
+      this.check();
+    }
+  };
+
+  /** Fires when notifications are added or read */
+  readonly onDidChangeNotifications = this.onDidChangeNotificationsEmitter.event;
+
+  constructor(
+    private readonly pullRequestService: PullRequestService,
+    private readonly commentService: CommentService,
+    private readonly policyService: PolicyService,
+    private readonly configurationService: ConfigurationService,
+    private readonly backgroundSyncService: BackgroundSyncService,
+    private readonly context: vscode.ExtensionContext
+  ) {
+    this.notifications = context.globalState.get<PullRequestNotification[]>(
+      NotificationService.STORAGE_KEY,
+      []
+    );
+    this.snapshots = context.globalState.get<
+      Record<string, PullRequestSnapshot>
+    >(NotificationService.SNAPSHOT_KEY);
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left
+    );
+    this.statusBarItem.command = `${NotificationService.VIEW_ID}.focus`;
+    this.updateStatusBar();
+
+    backgroundSyncService.addSyncListener(this.syncListener);
+  }
+
+  /**
+   * Get the unread notifications, newest first
+   */
+  getNotifications(): readonly PullRequestNotification[] {
+    return this.notifications;
+  }
+
+  /**
+   * Look for new events on the pull requests the current user is involved in
+   *
+   * The first check only records the current state. Checks requested while
+   * one is running share its result.
+   */
+  check(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.runCheck().finally(() => {
+        this.checking = undefined;
+      });
+    }
+    return this.checking;
+  }
+
+  /**
+   * Mark a notification as read, removing it from the unread list
+   *
+   * @param notificationId Notification ID
+   */
+  async markRead(notificationId: string): Promise<void> {
+    await this.setNotifications(
+      this.notifications.filter(
+        (notification) => notification.id !== notificationId
+      )
+    );
+  }
+
+  /**
+   * Mark every notification as read
+   */
+  async markAllRead(): Promise<void> {
+    await this.setNotifications([]);
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    this.backgroundSyncService.removeSyncListener(this.syncListener);
+    this.onDidChangeNotificationsEmitter.dispose();
+    this.statusBarItem.dispose();
+  }
+
+  /**
+   * Compare the involved pull requests with their snapshots and notify about
+   * the differences
+   */
+  private async runCheck(): Promise<void> {
+    const settings = this.configurationService.getNotificationSettings();
+    const previous = this.snapshots;
+    const snapshots: Record<string, PullRequestSnapshot> = {};
+    const found: PullRequestNotification[] = [];
+
+    let pullRequests: PullRequest[];
+    try {
+      pullRequests = await this.pullRequestService.getPullRequests({
+        status: "active",
+      });
+    } catch (error) {
+      console.error("Failed to check for notifications:", error);
+      return;
+    }
+
+    for (const pullRequest of pullRequests) {
+      const repositoryId = pullRequest.repository.id;
+      const key = `${repositoryId}:${pullRequest.pullRequestId}`;
+      const userId = await this.commentService.getCurrentUserId(repositoryId);
+      if (!userId) {
+        // Keep the last known state until the user can be resolved again
+        if (previous?.[key]) {
+          snapshots[key] = previous[key];
+        }
+        continue;
+      }
+
+      const isAuthor = pullRequest.createdBy.id === userId;
+      const review = pullRequest.reviewers.find(
+        (reviewer) => reviewer.id === userId
+      );
+      if (!isAuthor && !review) {
+        continue;
+      }
+
+      const before = previous?.[key];
+      const known = this.pullRequests.get(key);
+      const changed =
+        !before || !known || diffPullRequest(known, pullRequest).length > 0;
+      const threadsChanged = this.changedThreads.delete(key);
+      const snapshot = await this.createSnapshot(
+        pullRequest,
+        userId,
+        isAuthor,
+        before,
+        {
+          threads: changed || threadsChanged,
+          policies: isAuthor && (changed || !!before?.pendingPolicies),
+        }
+      );
+      snapshots[key] = snapshot;
+      this.pullRequests.set(key, pullRequest);
+
+      // Without a previous check there is nothing to compare with
+      if (previous) {
+        found.push(
+          ...this.compare(
+            pullRequest,
+            before,
+            snapshot,
+            isAuthor,
+            settings
+          )
+        );
+      }
+    }
+
+    for (const key of this.pullRequests.keys()) {
+      if (!snapshots[key]) {
+        this.pullRequests.delete(key);
+      }
+    }
+
+    this.snapshots = snapshots;
+    await this.context.globalState.update(
+      NotificationService.SNAPSHOT_KEY,
+      snapshots
+    );
+
+    if (found.length > 0) {
+      await this.setNotifications(
+        [...found.reverse(), ...this.notifications].slice(
+          0,
+          NotificationService.MAX_NOTIFICATIONS
+        )
+      );
+      this.showToast(found, settings);
+    }
+  }
+
+  /**
+   * Record the state of a pull request the current user is involved in
+   *
+   * Threads and policies not asked to be fetched, or that fail to load, are
+   * taken over from the previous snapshot so a failed request does not reset
+   * what later checks compare with.
+   */
+  private async createSnapshot(
+    pullRequest: PullRequest,
+    userId: string,
+    isAuthor: boolean,
+    before: PullRequestSnapshot | undefined,
+    fetch: { readonly threads: boolean; readonly policies: boolean }
+  ): Promise<PullRequestSnapshot> {
+    const review = pullRequest.reviewers.find(
+      (reviewer) => reviewer.id === userId
+    );
+    const threads =
+      fetch.threads || !before
+        ? await this.getThreadSnapshot(pullRequest, userId, before)
+        : before.threads;
+    const policies =
+      fetch.policies || !before
+        ? await this.getPolicySnapshot(pullRequest, isAuthor, before)
+        : before;
+
+    return {
+      isReviewer: !!review,
+      vote: review?.vote ?? 0,
+      sourceCommitId: pullRequest.lastMergeSourceCommit?.commitId,
+      threads,
+      failedPolicies: policies.failedPolicies,
+      pendingPolicies: policies.pendingPolicies,
+    };
+  }
+
+  /**
+   * Get the last comment by someone else in each thread the current user
+   * started
+   */
+  private async getThreadSnapshot(
+    pullRequest: PullRequest,
+    userId: string,
+    before: PullRequestSnapshot | undefined
+  ): Promise<Record<string, number>> {
+    const commentThreads = await this.commentService.getCommentThreads(
+      pullRequest.repository.id,
+      pullRequest.pullRequestId
+    );
+
+    // Deleted threads stay listed, so no threads after some means the
+    // request failed
+    if (commentThreads.length === 0 && before) {
+      return before.threads;
+    }
+
+    const threads: Record<string, number> = {};
+    for (const thread of commentThreads) {
+      if (!thread.isDeleted && thread.comments[0]?.author.id === userId) {
+        threads[thread.id] = Math.max(
+          0,
+          ...thread.comments
+            .filter(
+              (comment) =>
+                comment.author.id !== userId &&
+                !comment.isDeleted &&
+                comment.commentType !== "system"
+            )
+            .map((comment) => comment.id)
+        );
+      }
+    }
+    return threads;
+  }
+
+  /**
+   * Get the failed policies of a pull request the current user created
+   */
+  private async getPolicySnapshot(
+    pullRequest: PullRequest,
+    isAuthor: boolean,
+    before: PullRequestSnapshot | undefined
+  ): Promise<Pick<PullRequestSnapshot, "failedPolicies" | "pendingPolicies">> {
+    if (!isAuthor) {
+      return { failedPolicies: [], pendingPolicies: false };
+    }
+
+    try {
+      const checks = await this.policyService.getPolicyChecks(
+        pullRequest.repository.id,
+        pullRequest.pullRequestId
+      );
+
+      // Evaluations are not removed, so none after some means the request
+      // failed
+      if (checks.length === 0 && before?.failedPolicies.length) {
+        return before;
+      }
+
+      return {
+        failedPolicies: checks
+          .filter(
+            (check) => check.status === "rejected" || check.status === "broken"
+          )
+          .map((check) => check.evaluationId),
+        pendingPolicies:
+          checks.length === 0 ||
+          checks.some(
+            (check) => check.status === "queued" || check.status === "running"
+          ),
+      };
+    } catch (error) {
+      console.error(
+        `Failed to get policies of pull request ${pullRequest.pullRequestId}:`,
+        error
+      );
+      return {
+        failedPolicies: before?.failedPolicies ?? [],
+        pendingPolicies: true,
+      };
+    }
+  }
+
+  /**
+   * Get the notifications for the changes between two snapshots
+   */
+  private compare(
+    pullRequest: PullRequest,
+    before: PullRequestSnapshot | undefined,
+    after: PullRequestSnapshot,
+    isAuthor: boolean,
+    settings: NotificationSettings
+  ): PullRequestNotification[] {
+    const notifications: PullRequestNotification[] = [];
+    const add = (type: NotificationType, message: string, threadId?: number) => {
+      if (settings.types[type]) {
+        notifications.push(
+          this.createNotification(pullRequest, type, message, threadId)
+        );
+      }
+    };
+    const id = pullRequest.pullRequestId;
+
+    if (after.isReviewer && !before?.isReviewer && !isAuthor) {
+      add(
+        "reviewRequested",
+        `${pullRequest.createdBy.displayName} requested your review on PR #${id}`
+      );
+    }
+    if (!before) {
+      return notifications;
+    }
+
+    if (
+      before.vote !== 0 &&
+      before.sourceCommitId &&
+      after.sourceCommitId !== before.sourceCommitId
+    ) {
+      add("newIteration", `New changes were pushed to PR #${id}`);
+    }
+
+    for (const [threadId, lastCommentId] of Object.entries(after.threads)) {
+      const previousCommentId = before.threads[threadId];
+      if (previousCommentId !== undefined && lastCommentId > previousCommentId) {
+        add("threadReply", `New reply to your comment on PR #${id}`, Number(threadId));
+      }
+    }
+
+    const newFailures = after.failedPolicies.filter(
+      (evaluationId) => !before.failedPolicies.includes(evaluationId)
+    );
+    if (newFailures.length > 0) {
+      add(
+        "policyFailed",
+        newFailures.length === 1
+          ? `A policy failed on PR #${id}`
+          : `${newFailures.length} policies failed on PR #${id}`
+      );
+    }
+
+    return notifications;
+  }
+
+  private createNotification(
+    pullRequest: PullRequest,
+    type: NotificationType,
+    message: string,
+    threadId?: number
+  ): PullRequestNotification {
+    return {
+      id: `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      repositoryId: pullRequest.repository.id,
+      pullRequestId: pullRequest.pullRequestId,
+      pullRequestTitle: pullRequest.title,
+      message,
+      threadId,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Show a toast for new notifications unless it is quiet hours
+   */
+  private async showToast(
+    notifications: PullRequestNotification[],
+    settings: NotificationSettings
+  ): Promise<void> {
+    if (
+      isWithinQuietHours(settings.quietHoursStart, settings.quietHoursEnd)
+    ) {
+      return;
+    }
+
+    if (notifications.length === 1) {
+      const [notification] = notifications;
+      const choice = await vscode.window.showInformationMessage(
+        `${notification.message}: ${notification.pullRequestTitle}`,
+        "Open"
+      );
+      if (choice === "Open") {
+        await vscode.commands.executeCommand(
+          NotificationService.OPEN_COMMAND,
+          notification
+        );
+      }
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `${notifications.length} new Azure DevOps notifications`,
+      "Show"
+    );
+    if (choice === "Show") {
+      await vscode.commands.executeCommand(
+        `${NotificationService.VIEW_ID}.focus`
+      );
+    }
+  }
+
+  /**
+   * Store the unread notifications and reflect them in the status bar
+   */
+  private async setNotifications(
+    notifications: PullRequestNotification[]
+  ): Promise<void> {
+    this.notifications = notifications;
+    this.updateStatusBar();
+    this.onDidChangeNotificationsEmitter.fire();
+    await this.context.globalState.update(
+      NotificationService.STORAGE_KEY,
+      notifications
+    );
+  }
+
+  /**
+   * Show the number of unread notifications, hiding the item when there are none
+   */
+  private updateStatusBar(): void {
+    const count = this.notifications.length;
+    if (count === 0) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    this.statusBarItem.text = `$(bell-dot) ${count}`;
+    this.statusBarItem.tooltip = `${count} unread Azure DevOps notification${
+      count === 1 ? "" : "s"
+    }`;
+    this.statusBarItem.show();
+  }
+}
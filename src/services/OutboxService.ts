@@ -0,0 +1,590 @@
+import * as vscode from "vscode";
+import { AzureDevOpsApiClient } from "../api/AzureDevOpsApiClient";
+import { CommentService } from "./CommentService";
+import { PullRequestService } from "./PullRequestService";
+import { BackgroundSyncService, SyncEvent } from "./BackgroundSyncService";
+import {
+  Comment,
+  CommentThread,
+  CommentThreadSide,
+  CommentThreadStatus,
+  PullRequestVote,
+} from "../api/models";
+
+/**
+ * Write operations the outbox can hold while offline
+ */
+export type OutboxActionType = "comment" | "reply" | "threadStatus" | "vote";
+
+/**
+ * Thread state the user acted on, compared with the server thread on replay
+ */
+export interface OutboxThreadBaseline {
+  readonly status: CommentThreadStatus;
+  /** Number of visible (non-deleted, non-system) comments */
+  readonly commentCount: number;
+}
+
+/**
+ * Lines of a file a new comment thread is anchored to
+ */
+export interface OutboxThreadPosition {
+  readonly filePath: string;
+  /** First line, 1-based */
+  readonly line: number;
+  readonly endLine?: number;
+  readonly side: CommentThreadSide;
+  /** Iteration the lines were read at */
+  readonly iterationId?: number;
+}
+
+/**
+ * Write operation submitted to the outbox
+ */
+export interface OutboxActionInput {
+  readonly type: OutboxActionType;
+  readonly repositoryId: string;
+  readonly pullRequestId: number;
+  /** Thread of a reply or status change */
+  readonly threadId?: number;
+  /** Text of a comment or reply */
+  readonly content?: string;
+  /** New status of a status change */
+  readonly status?: CommentThreadStatus;
+  /** File lines a comment starts a thread on; pull request wide without */
+  readonly position?: OutboxThreadPosition;
+  readonly vote?: PullRequestVote;
+  readonly baseline?: OutboxThreadBaseline;
+}
+
+/**
+ * Write operation waiting in the outbox
+ */
+export interface OutboxAction extends OutboxActionInput {
+  readonly id: string;
+  /** ISO timestamp of when the action was queued */
+  readonly queuedAt: string;
+}
+
+/**
+ * Why an action was queued instead of sent: Azure DevOps is unreachable, or
+ * earlier actions on the same pull request are still pending
+ */
+export type OutboxQueueReason = "unreachable" | "pendingActions";
+
+/**
+ * Outcome of submitting a write operation
+ */
+export interface OutboxSubmitResult {
+  /** True if the action was stored for replay instead of being sent */
+  readonly queued: boolean;
+  /** Why the action was queued */
+  readonly queueReason?: OutboxQueueReason;
+  /** Comment created by a sent comment or reply */
+  readonly comment?: Comment;
+  /** Thread started by a sent comment on file lines */
+  readonly thread?: CommentThread;
+}
+
+/**
+ * Outcome of replaying an action: done with it, or stopped at a conflict the
+ * user left unanswered, or at a network failure
+ */
+type ReplayOutcome = "done" | "blocked" | "offline";
+
+/**
+ * Result of comparing a queued action with the server state
+ */
+type ReplayCheck =
+  | { readonly kind: "ok" }
+  | { readonly kind: "applied" }
+  | { readonly kind: "conflict"; readonly reason: string };
+
+/**
+ * Outbox for comments, replies, thread status changes and votes made while
+ * Azure DevOps is unreachable
+ *
+ * Actions that fail with a network error are persisted in global state and
+ * replayed in submission order: right away when more are queued while
+ * online, after a delay when sending fails, and when the background sync
+ * service reports the network as online again. Before replaying a reply or
+ * status change the server thread is checked for changes made in the
+ * meantime, and the user decides whether a conflicting action is sent or
+ * discarded. Until they do, only later actions on the same pull request
+ * wait behind it.
+ */
+export class OutboxService implements vscode.Disposable {
+  private static readonly STORAGE_KEY = "azureDevOps.outbox";
+  private static readonly SHOW_COMMAND = "azureDevOps.showPendingActions";
+  private static readonly RETRY_DELAY = 30000; // 30 seconds
+
+  private actions: OutboxAction[];
+  private isReplaying = false;
+  private replayTimer?: ReturnType<typeof setTimeout>;
+  private readonly statusBarItem: vscode.StatusBarItem;
+  private readonly onDidSendActionEmitter =
+    new vscode.EventEmitter<OutboxAction>();
+  private readonly syncListener = (event: SyncEvent) => {
+    if (
+      (event.type === "networkStatusChanged" && event.data?.online) ||
+      event.type === "offlineModeDeactivated"
+    ) {
+      this.replay();
+    }
+  };
+
+  /** Fires after a queued action was sent */
+  readonly onDidSendAction = this.onDidSendActionEmitter.event;
+
+  constructor(
+    private readonly apiClient: AzureDevOpsApiClient,
+    private readonly commentService: CommentService,
+    private readonly pullRequestService: PullRequestService,
+    private readonly backgroundSyncService: BackgroundSyncService,
+    private readonly context: vscode.ExtensionContext
+  ) {
+    this.actions = context.globalState.get<OutboxAction[]>(
+      OutboxService.STORAGE_KEY,
+      []
+    );
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left
+    );
+    this.statusBarItem.command = OutboxService.SHOW_COMMAND;
+    this.updateStatusBar();
+
+    backgroundSyncService.addSyncListener(this.syncListener);
+  }
+
+  /**
+   * Get the actions waiting to be sent, oldest first
+   */
+  getPendingActions(): readonly OutboxAction[] {
+    return this.actions;
+  }
+
+  /**
+   * Send a write operation, or queue it when Azure DevOps is unreachable
+   *
+   * Actions are queued without being attempted while the network is offline
+   * or earlier actions on the same pull request are still pending, so the
+   * server receives them in the order they were made. While online, the
+   * queue is replayed right after.
+   *
+   * @param input Write operation
+   * @returns Promise resolving to whether the action was sent or queued
+   * @throws Error if sending failed for a reason other than the network
+   */
+  async submit(input: OutboxActionInput): Promise<OutboxSubmitResult> {
+    const action: OutboxAction = {
+      ...input,
+      id: `${input.type}_${Date.now()}_${Math.random()
+        .toString(36)
+        .substr(2, 9)}`,
+      queuedAt: new Date().toISOString(),
+    };
+
+    const isOffline =
+      this.backgroundSyncService.getSyncStatus().networkStatus === "offline";
+    if (isOffline) {
+      await this.enqueue(action);
+      return { queued: true, queueReason: "unreachable" };
+    }
+    const key = this.getPullRequestKey(action);
+    if (this.actions.some((pending) => this.getPullRequestKey(pending) === key)) {
+      await this.enqueue(action);
+      this.scheduleReplay(0);
+      return { queued: true, queueReason: "pendingActions" };
+    }
+
+    try {
+      return { queued: false, ...(await this.execute(action)) };
+    } catch (error) {
+      if (!this.backgroundSyncService.reportNetworkError(error)) {
+        throw error;
+      }
+      await this.enqueue(action);
+      this.scheduleReplay(OutboxService.RETRY_DELAY);
+      return { queued: true, queueReason: "unreachable" };
+    }
+  }
+
+  /**
+   * Send the pending actions in order
+   *
+   * Replay stops at the first network failure, retrying after a delay,
+   * keeping the remaining actions queued. A conflict the user neither sends
+   * nor discards holds back the later actions on its pull request only.
+   */
+  async replay(): Promise<void> {
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = undefined;
+    }
+    if (this.isReplaying) {
+      return;
+    }
+
+    this.isReplaying = true;
+    this.updateStatusBar();
+    try {
+      const blocked = new Set<string>();
+      let action: OutboxAction | undefined;
+      while (
+        (action = this.actions.find(
+          (candidate) => !blocked.has(this.getPullRequestKey(candidate))
+        ))
+      ) {
+        const outcome = await this.replayAction(action);
+        if (outcome === "offline") {
+          break;
+        }
+        if (outcome === "blocked") {
+          blocked.add(this.getPullRequestKey(action));
+        }
+      }
+    } finally {
+      this.isReplaying = false;
+      this.updateStatusBar();
+    }
+  }
+
+  /**
+   * Remove an action without sending it
+   *
+   * @param actionId Outbox action ID
+   */
+  async discard(actionId: string): Promise<void> {
+    this.actions = this.actions.filter((action) => action.id !== actionId);
+    await this.persist();
+  }
+
+  /**
+   * Let the user send the pending actions now or discard one of them
+   */
+  async showPendingActions(): Promise<void> {
+    if (this.actions.length === 0) {
+      vscode.window.showInformationMessage("No pending actions");
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      [
+        {
+          label: "$(sync) Send Now",
+          description: `${this.actions.length} pending`,
+          action: undefined,
+        },
+        ...this.actions.map((action) => ({
+          label: this.describe(action),
+          description: `Queued ${new Date(action.queuedAt).toLocaleString()}`,
+          detail: action.content,
+          action,
+        })),
+      ],
+      { placeHolder: "Send pending actions or select one to discard" }
+    );
+    if (!selected) {
+      return;
+    }
+    if (!selected.action) {
+      await this.replay();
+      return;
+    }
+
+    const confirmed = await vscode.window.showWarningMessage(
+      `Discard the ${this.describe(selected.action)}?`,
+      { modal: true },
+      "Discard"
+    );
+    if (confirmed === "Discard") {
+      await this.discard(selected.action.id);
+    }
+  }
+
+  /**
+   * Get the baseline to record for an action on a thread
+   *
+   * @param thread Thread as currently shown to the user
+   * @returns Thread state compared with the server thread on replay
+   */
+  static getThreadBaseline(thread: CommentThread): OutboxThreadBaseline {
+    return {
+      status: thread.status,
+      commentCount: OutboxService.countComments(thread),
+    };
+  }
+
+  /**
+   * Tell the user why an action was queued
+   *
+   * @param reason Why the action was queued
+   * @param subject What was queued, e.g. "The comment"
+   * @returns Message for a notification
+   */
+  static getQueuedMessage(
+    reason: OutboxQueueReason | undefined,
+    subject: string
+  ): string {
+    return reason === "pendingActions"
+      ? `${subject} will be sent after the pending changes to this pull request.`
+      : `Azure DevOps is unreachable. ${subject} will be sent when the connection returns.`;
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    if (this.replayTimer) {
+      clearTimeout(this.replayTimer);
+      this.replayTimer = undefined;
+    }
+    this.backgroundSyncService.removeSyncListener(this.syncListener);
+    this.onDidSendActionEmitter.dispose();
+    this.statusBarItem.dispose();
+  }
+
+  /**
+   * Replay a single action
+   *
+   * @returns Whether the action is done with, or what stopped it
+   */
+  private async replayAction(action: OutboxAction): Promise<ReplayOutcome> {
+    try {
+      const check = await this.checkServerState(action);
+      if (check.kind === "conflict") {
+        const choice = await vscode.window.showWarningMessage(
+          `The pending ${this.describe(action)} conflicts with changes on the server: ${check.reason}.`,
+          "Send Anyway",
+          "Discard"
+        );
+        if (choice === "Discard") {
+          await this.discard(action.id);
+          return "done";
+        }
+        if (choice !== "Send Anyway") {
+          return "blocked";
+        }
+      }
+
+      if (check.kind !== "applied") {
+        await this.execute(action);
+      }
+      await this.discard(action.id);
+      this.onDidSendActionEmitter.fire(action);
+      return "done";
+    } catch (error) {
+      if (this.backgroundSyncService.reportNetworkError(error)) {
+        this.scheduleReplay(OutboxService.RETRY_DELAY);
+        return "offline";
+      }
+
+      await this.discard(action.id);
+      vscode.window.showErrorMessage(
+        `Failed to send the pending ${this.describe(action)}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return "done";
+    }
+  }
+
+  /**
+   * Compare a queued action with the current server state
+   */
+  private async checkServerState(action: OutboxAction): Promise<ReplayCheck> {
+    if (action.type === "comment" || action.type === "vote") {
+      const pullRequest = await this.apiClient.getPullRequest(
+        action.repositoryId,
+        action.pullRequestId,
+        { useCache: false }
+      );
+      return pullRequest.status === "active"
+        ? { kind: "ok" }
+        : {
+            kind: "conflict",
+            reason: `the pull request was ${pullRequest.status}`,
+          };
+    }
+
+    const threads = await this.apiClient.getCommentThreads(
+      action.repositoryId,
+      action.pullRequestId,
+      { useCache: false }
+    );
+    const thread = threads.find((candidate) => candidate.id === action.threadId);
+    if (!thread || thread.isDeleted) {
+      return { kind: "conflict", reason: "the thread was deleted" };
+    }
+    if (action.type === "threadStatus" && thread.status === action.status) {
+      return { kind: "applied" };
+    }
+    if (action.baseline && thread.status !== action.baseline.status) {
+      return {
+        kind: "conflict",
+        reason: `the thread status was changed to "${thread.status}"`,
+      };
+    }
+    if (
+      action.type === "reply" &&
+      action.baseline &&
+      OutboxService.countComments(thread) > action.baseline.commentCount
+    ) {
+      return { kind: "conflict", reason: "the thread has new comments" };
+    }
+    return { kind: "ok" };
+  }
+
+  /**
+   * Send an action to Azure DevOps
+   *
+   * @returns Comment or thread created by a comment or reply
+   */
+  private async execute(
+    action: OutboxAction
+  ): Promise<Omit<OutboxSubmitResult, "queued">> {
+    const { repositoryId, pullRequestId } = action;
+
+    switch (action.type) {
+      case "comment":
+      case "reply": {
+        if (action.type === "comment" && action.position) {
+          const thread = await this.commentService.postCommentThread(
+            repositoryId,
+            pullRequestId,
+            { content: action.content || "", ...action.position }
+          );
+          await this.commentService.invalidateCommentCache(
+            repositoryId,
+            pullRequestId
+          );
+          return { thread };
+        }
+
+        const comment = await this.apiClient.addComment(
+          repositoryId,
+          pullRequestId,
+          action.content || "",
+          action.type === "reply" ? action.threadId : undefined
+        );
+        await this.commentService.invalidateCommentCache(
+          repositoryId,
+          pullRequestId
+        );
+        return { comment };
+      }
+      case "threadStatus":
+        if (action.threadId === undefined || !action.status) {
+          throw new Error("Thread status change is missing its thread or status");
+        }
+        await this.apiClient.updateThreadStatus(
+          repositoryId,
+          pullRequestId,
+          action.threadId,
+          action.status
+        );
+        await this.commentService.invalidateCommentCache(
+          repositoryId,
+          pullRequestId
+        );
+        return {};
+      case "vote": {
+        const result = await this.pullRequestService.votePullRequest(
+          repositoryId,
+          pullRequestId,
+          action.vote ?? 0
+        );
+        if (!result.success) {
+          throw new Error(result.error || "Failed to vote on pull request");
+        }
+        return {};
+      }
+    }
+  }
+
+  /**
+   * Replay the queue after a delay, unless a replay is already scheduled
+   */
+  private scheduleReplay(delay: number): void {
+    if (this.replayTimer) {
+      return;
+    }
+    this.replayTimer = setTimeout(() => {
+      this.replayTimer = undefined;
+      this.replay();
+    }, delay);
+  }
+
+  /**
+   * Add an action to the end of the queue
+   */
+  private async enqueue(action: OutboxAction): Promise<void> {
+    this.actions = [...this.actions, action];
+    await this.persist();
+  }
+
+  /**
+   * Store the queue and reflect it in the status bar
+   */
+  private async persist(): Promise<void> {
+    this.updateStatusBar();
+    await this.context.globalState.update(
+      OutboxService.STORAGE_KEY,
+      this.actions
+    );
+  }
+
+  /**
+   * Show the number of pending actions, hiding the item when there are none
+   */
+  private updateStatusBar(): void {
+    const count = this.actions.length;
+    if (count === 0) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    this.statusBarItem.text = `$(${
+      this.isReplaying ? "sync~spin" : "cloud-upload"
+    }) ${count} pending action${count === 1 ? "" : "s"}`;
+    this.statusBarItem.tooltip = this.isReplaying
+      ? "Sending Azure DevOps changes made while offline"
+      : "Azure DevOps changes waiting for the connection to return. Click to send or discard them.";
+    this.statusBarItem.show();
+  }
+
+  /**
+   * Describe an action for messages
+   */
+  private describe(action: OutboxAction): string {
+    const pullRequest = `PR #${action.pullRequestId}`;
+    switch (action.type) {
+      case "comment":
+        return action.position
+          ? `comment on ${action.position.filePath} of ${pullRequest}`
+          : `comment on ${pullRequest}`;
+      case "reply":
+        return `reply to thread ${action.threadId} of ${pullRequest}`;
+      case "threadStatus":
+        return `status change of thread ${action.threadId} of ${pullRequest}`;
+      case "vote":
+        return `vote on ${pullRequest}`;
+    }
+  }
+
+  /**
+   * Key of the pull request an action belongs to
+   */
+  private getPullRequestKey(action: OutboxActionInput): string {
+    return `${action.repositoryId}_${action.pullRequestId}`;
+  }
+
+  /**
+   * Count the comments a user sees in a thread
+   */
+  private static countComments(thread: CommentThread): number {
+    return thread.comments.filter(
+      (comment) => !comment.isDeleted && comment.commentType !== "system"
+    ).length;
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  AzureDevOpsApiClient,
+  RequestContext,
+} from "../api/AzureDevOpsApiClient";
+import {
+  PullRequestService,
+  PullRequestOperationResult,
+} from "./PullRequestService";
+import { PolicyEvaluationRecord, PolicyEvaluationStatus } from "../api/models";
+
+/**
+ * Kind of branch policy a check belongs to
+ */
+export type PolicyCheckKind =
+  | "reviewers"
+  | "build"
+  | "comments"
+  | "workItems"
+  | "other";
+
+/**
+ * Overall policy state of a pull request
+ */
+export type PolicySummaryStatus = "approved" | "rejected" | "running" | "none";
+
+/**
+ * One entry of a pull request's policy checklist
+ */
+export interface PolicyCheck {
+  readonly evaluationId: string;
+  readonly kind: PolicyCheckKind;
+  readonly name: string;
+  readonly status: PolicyEvaluationStatus;
+  readonly isBlocking: boolean;
+  readonly isExpired: boolean;
+  readonly canRequeue: boolean;
+  readonly buildId?: number;
+  readonly buildUrl?: string;
+}
+
+/**
+ * Policy service turning raw policy evaluations into a checklist of required
+ * reviewers, build validation, comment resolution and work item linking
+ */
+export class PolicyService {
+  /** Well-known Azure DevOps policy type IDs */
+  private static readonly POLICY_TYPES: Record<string, PolicyCheckKind> = {
+    "fa4e907d-c16b-4a4c-9dfa-4906e5d171dd": "reviewers", // Minimum number of reviewers
+    "fd2167ab-b0be-447a-8ec8-39368250530e": "reviewers", // Required reviewers
+    "0609b952-1397-4640-95ec-e00a01b2c241": "build",
+    "c6a1889d-b943-4856-b76f-9e46bb6b0df2": "comments",
+    "40e92b44-2fe1-4dd6-b3d8-74a9c21d0c6e": "workItems",
+  };
+
+  constructor(
+    private readonly apiClient: AzureDevOpsApiClient,
+    private readonly pullRequestService: PullRequestService
+  ) {}
+
+  /**
+   * Get the policy checklist of a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param forceRefresh Bypass cached evaluations
+   * @param request Priority and cancellation of the requests
+   * @returns Promise resolving to checks, blocking policies first
+   */
+  async getPolicyChecks(
+    repositoryId: string,
+    pullRequestId: number,
+    forceRefresh = false,
+    request: RequestContext = {}
+  ): Promise<PolicyCheck[]> {
+    const evaluations = await this.pullRequestService.getPolicyEvaluations(
+      repositoryId,
+      pullRequestId,
+      forceRefresh,
+      request
+    );
+
+    return evaluations
+      .filter(
+        (evaluation) =>
+          evaluation.configuration.isEnabled &&
+          !evaluation.configuration.isDeleted &&
+          evaluation.status !== "notApplicable"
+      )
+      .map((evaluation) => this.toPolicyCheck(repositoryId, evaluation))
+      .sort(
+        (a, b) =>
+          Number(b.isBlocking) - Number(a.isBlocking) ||
+          a.name.localeCompare(b.name)
+      );
+  }
+
+  /**
+   * Summarize the blocking checks of a pull request
+   *
+   * @param checks Policy checks
+   * @returns "rejected" if any blocking check failed, "running" if any is still pending,
+   *          "approved" if all passed, "none" if there are no blocking checks
+   */
+  getSummaryStatus(checks: PolicyCheck[]): PolicySummaryStatus {
+    const blocking = checks.filter((check) => check.isBlocking);
+    if (blocking.length === 0) {
+      return "none";
+    }
+    if (
+      blocking.some(
+        (check) => check.status === "rejected" || check.status === "broken"
+      )
+    ) {
+      return "rejected";
+    }
+    if (blocking.some((check) => check.status !== "approved")) {
+      return "running";
+    }
+    return "approved";
+  }
+
+  /**
+   * Re-queue a build policy evaluation
+   *
+   * @param repositoryId Repository of the pull request
+   * @param evaluationId Policy evaluation ID
+   * @returns Promise resolving to operation result
+   */
+  async requeuePolicyEvaluation(
+    repositoryId: string,
+    evaluationId: string
+  ): Promise<PullRequestOperationResult> {
+    try {
+      await this.apiClient.requeuePolicyEvaluation(repositoryId, evaluationId);
+      return {
+        success: true,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to re-queue build",
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Map an evaluation record to a checklist entry
+   */
+  private toPolicyCheck(
+    repositoryId: string,
+    evaluation: PolicyEvaluationRecord
+  ): PolicyCheck {
+    const configuration = evaluation.configuration;
+    const kind = PolicyService.POLICY_TYPES[configuration.type.id] || "other";
+    const buildId: number | undefined =
+      kind === "build" ? evaluation.context?.buildId : undefined;
+    const isExpired = !!evaluation.context?.isExpired;
+
+    return {
+      evaluationId: evaluation.evaluationId,
+      kind,
+      name:
+        configuration.settings?.displayName ||
+        configuration.displayName ||
+        configuration.type.displayName,
+      status: evaluation.status,
+      isBlocking: configuration.isBlocking,
+      isExpired,
+      canRequeue:
+        kind === "build" &&
+        (isExpired ||
+          evaluation.status === "rejected" ||
+          evaluation.status === "broken"),
+      buildId,
+      buildUrl: buildId ? this.getBuildLogsUrl(repositoryId, buildId) : undefined,
+    };
+  }
+
+  /**
+   * Get the web URL of a build's logs
+   */
+  private getBuildLogsUrl(
+    repositoryId: string,
+    buildId: number
+  ): string | undefined {
+    const profile = this.apiClient.getRepositoryProfile(repositoryId);
+    if (!profile) {
+      return undefined;
+    }
+    return `${profile.organizationUrl}/${encodeURIComponent(
+      profile.project
+    )}/_build/results?buildId=${buildId}&view=logs`;
+  }
+}
@@ -1,6 +1,21 @@
 import * as vscode from "vscode";
-import { AzureDevOpsApiClient } from "../api/AzureDevOpsApiClient";
-import { ConfigurationService } from "./ConfigurationService";
+import {
+  ApiRequestOptions,
+  AzureDevOpsApiClient,
+  PullRequestPage,
+  PullRequestPageRequest,
+  PullRequestSearchCriteria,
+  RequestContext,
+} from "../api/AzureDevOpsApiClient";
+import {
+  ConfigurationService,
+  ConnectionProfile,
+} from "./ConfigurationService";
+import {
+  CacheManager,
+  pullRequestCacheTag,
+  pullRequestListCacheTag,
+} from "./CacheManager";
 import {
   PullRequest,
   PullRequestStatus,
@@ -11,7 +26,11 @@ import {
   Identity,
   GitPullRequestIteration,
   GitPullRequestChange,
+  GitPullRequestIterationChanges,
   PolicyEvaluationRecord,
+  PullRequestReviewer,
+  IdentitySearchResult,
+  GitPullRequestCompletionOptions,
 } from "../api/models";
 
 /**
@@ -22,6 +41,8 @@ export interface PullRequestFilter {
   readonly createdBy?: string;
   readonly reviewerId?: string;
   readonly repositoryId?: string;
+  readonly targetRefName?: string;
+  readonly closedWithinDays?: number;
   readonly searchQuery?: string;
   readonly maxResults?: number;
   readonly skip?: number;
@@ -56,6 +77,7 @@ export interface CreatePullRequestOptions {
   readonly repositoryId: string;
   readonly workItemRefs?: string[];
   readonly reviewers?: string[];
+  readonly labels?: string[];
   readonly isDraft?: boolean;
 }
 
@@ -70,6 +92,24 @@ export interface UpdatePullRequestOptions {
   readonly workItemRefs?: string[];
 }
 
+/**
+ * Iteration the current user last reviewed (voted on) for a pull request
+ */
+export interface ReviewedIteration {
+  readonly iterationId: number;
+  readonly sourceCommitId?: string;
+  readonly reviewedAt: string;
+}
+
+/**
+ * Vote read from a vote update system thread
+ */
+interface VoteUpdate {
+  readonly voterId?: string;
+  readonly vote: number;
+  readonly votedAt: Date;
+}
+
 /**
  * Pull request bulk operations result
  */
@@ -98,6 +138,11 @@ export interface BulkOperationResult {
  * - Error handling with detailed diagnostics
  */
 export class PullRequestService {
+  private static readonly PAGE_SIZE = 100;
+  private static readonly CHANGES_PAGE_SIZE = 100;
+  private static readonly REQUIRED_REVIEWERS_POLICY =
+    "fd2167ab-b0be-447a-8ec8-39368250530e";
+
   private readonly cacheKeyPrefix = "pr_service_";
   private readonly refreshIntervals = new Map<string, NodeJS.Timeout>();
   private readonly bulkOperationQueue = new Map<
@@ -108,7 +153,8 @@ export class PullRequestService {
   constructor(
     private readonly apiClient: AzureDevOpsApiClient,
     private readonly configService: ConfigurationService,
-    private readonly context: vscode.ExtensionContext
+    private readonly context: vscode.ExtensionContext,
+    private readonly cacheManager: CacheManager
   ) {}
 
   /**
@@ -116,19 +162,20 @@ export class PullRequestService {
    *
    * @param filter Filter criteria for pull requests
    * @param sortOptions Sorting options
+   * @param request Priority and cancellation of the requests
    * @returns Promise resolving to array of pull requests
    */
   async getPullRequests(
     filter: PullRequestFilter = {},
-    sortOptions: PullRequestSortOptions = {}
+    sortOptions: PullRequestSortOptions = {},
+    request: RequestContext = {}
   ): Promise<PullRequest[]> {
     const cacheKey = this.getCacheKey("list", filter, sortOptions);
 
     // Use cached data if available and fresh
-    const cached = this.getCachedData<PullRequest[]>(cacheKey);
-    if (cached && this.isCacheValid(cached.timestamp, 30000)) {
-      // 30 second cache
-      return cached.data;
+    const cached = await this.cacheManager.get<PullRequest[]>(cacheKey);
+    if (cached) {
+      return cached;
     }
 
     // Get repositories first if no specific repository filter
@@ -140,19 +187,29 @@ export class PullRequestService {
     }
 
     const allPullRequests: PullRequest[] = [];
+    // No repository needs to contribute more than the requested window
+    const limit = filter.maxResults
+      ? (filter.skip || 0) + filter.maxResults
+      : undefined;
 
-    // Fetch PRs from each repository
+    // Fetch PRs from each repository, page by page
     for (const repo of repositories) {
       try {
-        const repoPrs = await this.apiClient.getPullRequests(
-          repo.id,
-          filter.status,
-          { useCache: true, cacheTtl: 15000 } // 15 second cache for API calls
-        );
-
-        // Apply additional filters
-        const filteredPrs = this.applyFilters(repoPrs, filter);
-        allPullRequests.push(...filteredPrs);
+        let page: PullRequestPageRequest | undefined = {
+          top: PullRequestService.PAGE_SIZE,
+        };
+        let repoPrs: PullRequest[] = [];
+        while (page && (limit === undefined || repoPrs.length < limit)) {
+          const result: PullRequestPage = await this.fetchPullRequestPage(
+            repo.id,
+            filter,
+            page,
+            request
+          );
+          repoPrs = repoPrs.concat(result.pullRequests);
+          page = result.next;
+        }
+        allPullRequests.push(...repoPrs);
       } catch (error) {
         console.error(`Failed to fetch PRs for repository ${repo.id}:`, error);
         // Continue with other repositories
@@ -169,41 +226,83 @@ export class PullRequestService {
       filter.maxResults
     );
 
-    // Cache the result
-    this.setCacheData(cacheKey, paginatedPrs);
+    // Cache the result until a write to one of the repositories' pull requests
+    await this.cacheManager.set(
+      cacheKey,
+      paginatedPrs,
+      30000, // 30 seconds
+      undefined,
+      repositories.map((repo) => pullRequestListCacheTag(repo.id))
+    );
 
     return paginatedPrs;
   }
 
+  /**
+   * Get one page of a repository's pull requests matching the filter, for
+   * callers that load more on demand. `skip`, `maxResults` and `repositoryId`
+   * of the filter are ignored in favour of the page and repository.
+   *
+   * @param repositoryId Repository ID
+   * @param filter Filter criteria for pull requests
+   * @param page Page to get, usually the `next` of the previous page
+   * @returns Promise resolving to the page, empty if it failed to load
+   */
+  async getPullRequestPage(
+    repositoryId: string,
+    filter: PullRequestFilter = {},
+    page: PullRequestPageRequest = { top: PullRequestService.PAGE_SIZE }
+  ): Promise<PullRequestPage> {
+    try {
+      // Pages render at once from the cache, even from the last session
+      return await this.fetchPullRequestPage(repositoryId, filter, page, {
+        staleWhileRevalidate: true,
+      });
+    } catch (error) {
+      console.error(
+        `Failed to fetch PRs for repository ${repositoryId}:`,
+        error
+      );
+      return { pullRequests: [] };
+    }
+  }
+
   /**
    * Get specific pull request by ID
    *
    * @param repositoryId Repository ID
    * @param pullRequestId Pull request ID
+   * @param request Priority and cancellation of the request
    * @returns Promise resolving to pull request details
    */
   async getPullRequest(
     repositoryId: string,
-    pullRequestId: number
+    pullRequestId: number,
+    request: RequestContext = {}
   ): Promise<PullRequest | null> {
     const cacheKey = this.getCacheKey("single", repositoryId, pullRequestId);
 
     // Check cache first
-    const cached = this.getCachedData<PullRequest>(cacheKey);
-    if (cached && this.isCacheValid(cached.timestamp, 60000)) {
-      // 1 minute cache
-      return cached.data;
+    const cached = await this.cacheManager.get<PullRequest>(cacheKey);
+    if (cached) {
+      return cached;
     }
 
     try {
       const pullRequest = await this.apiClient.getPullRequest(
         repositoryId,
         pullRequestId,
-        { useCache: true, cacheTtl: 30000 }
+        { useCache: true, cacheTtl: 30000, ...request }
       );
 
       // Cache the result
-      this.setCacheData(cacheKey, pullRequest);
+      await this.cacheManager.set(
+        cacheKey,
+        pullRequest,
+        60000, // 1 minute
+        undefined,
+        [pullRequestCacheTag(repositoryId, pullRequestId)]
+      );
 
       return pullRequest;
     } catch (error) {
@@ -212,6 +311,29 @@ export class PullRequestService {
     }
   }
 
+  /**
+   * Find a pull request in the project of a repository, e.g. from a `!123`
+   * reference that may point at another repository
+   *
+   * @param repositoryId Repository whose project to look in
+   * @param pullRequestId Pull request ID
+   * @returns Promise resolving to pull request details, or null if not found
+   */
+  async findPullRequest(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<PullRequest | null> {
+    try {
+      return await this.apiClient.getPullRequestById(
+        pullRequestId,
+        repositoryId
+      );
+    } catch (error) {
+      console.error(`Failed to find pull request ${pullRequestId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Create a new pull request
    *
@@ -222,8 +344,7 @@ export class PullRequestService {
     options: CreatePullRequestOptions
   ): Promise<PullRequestOperationResult> {
     try {
-      const config = this.configService.getConfiguration();
-      const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${options.repositoryId}/pullrequests`;
+      const url = `${this.apiClient.getProjectUrl(options.repositoryId)}/_apis/git/repositories/${options.repositoryId}/pullrequests`;
 
       const payload = {
         title: options.title,
@@ -236,14 +357,12 @@ export class PullRequestService {
           : `refs/heads/${options.targetRefName}`,
         reviewers: options.reviewers?.map((id) => ({ id })) || [],
         workItemRefs: options.workItemRefs?.map((id) => ({ id })) || [],
+        labels: options.labels?.map((name) => ({ name })) || [],
         isDraft: options.isDraft || false,
       };
 
       const pullRequest = await this.apiClient.post<PullRequest>(url, payload);
 
-      // Invalidate relevant cache
-      this.invalidateRepositoryPrsCache(options.repositoryId);
-
       return {
         success: true,
         pullRequest,
@@ -275,8 +394,8 @@ export class PullRequestService {
     options: UpdatePullRequestOptions
   ): Promise<PullRequestOperationResult> {
     try {
-      const config = this.configService.getConfiguration();
-      const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}`;
+      const projectUrl = this.apiClient.getProjectUrl(repositoryId);
+      const url = `${projectUrl}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}`;
 
       const payload: any = {};
       if (options.title !== undefined) payload.title = options.title;
@@ -294,10 +413,6 @@ export class PullRequestService {
 
       const pullRequest = await this.apiClient.patch<PullRequest>(url, payload);
 
-      // Invalidate cache
-      this.invalidatePrCache(repositoryId, pullRequestId);
-      this.invalidateRepositoryPrsCache(repositoryId);
-
       return {
         success: true,
         pullRequest,
@@ -345,15 +460,13 @@ export class PullRequestService {
     try {
       // Vote with -10 (reject)
       await this.apiClient.votePullRequest(repositoryId, pullRequestId, -10);
+      await this.recordReviewedIteration(repositoryId, pullRequestId);
 
       // Add rejection comment if provided
       if (comment) {
         await this.apiClient.addComment(repositoryId, pullRequestId, comment);
       }
 
-      // Invalidate cache
-      this.invalidatePrCache(repositoryId, pullRequestId);
-
       return {
         success: true,
         timestamp: new Date(),
@@ -384,10 +497,6 @@ export class PullRequestService {
     try {
       await this.apiClient.abandonPullRequest(repositoryId, pullRequestId);
 
-      // Invalidate cache
-      this.invalidatePrCache(repositoryId, pullRequestId);
-      this.invalidateRepositoryPrsCache(repositoryId);
-
       return {
         success: true,
         timestamp: new Date(),
@@ -404,6 +513,110 @@ export class PullRequestService {
     }
   }
 
+  /**
+   * Complete (merge) a pull request
+   *
+   * Completion is pinned to the source commit the user confirmed, so it fails
+   * instead of merging commits pushed after the user last looked.
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param reviewedSourceCommitId Source commit of the pull request the user
+   *   confirmed, usually its `lastMergeSourceCommit`
+   * @param completionOptions Merge strategy and post-merge options
+   * @returns Promise resolving to operation result
+   */
+  async completePullRequest(
+    repositoryId: string,
+    pullRequestId: number,
+    reviewedSourceCommitId: string,
+    completionOptions: GitPullRequestCompletionOptions
+  ): Promise<PullRequestOperationResult> {
+    try {
+      if (completionOptions.bypassPolicy && !completionOptions.bypassReason) {
+        throw new Error("A reason is required to bypass branch policies");
+      }
+
+      const current = await this.apiClient.getPullRequest(
+        repositoryId,
+        pullRequestId,
+        { useCache: false }
+      );
+      if (current.status !== "active") {
+        throw new Error(`Pull request is ${current.status}`);
+      }
+      if (current.lastMergeSourceCommit.commitId !== reviewedSourceCommitId) {
+        throw new Error(
+          "The source branch has new commits since it was reviewed; refresh and review them first"
+        );
+      }
+
+      const pullRequest = await this.apiClient.completePullRequest(
+        repositoryId,
+        pullRequestId,
+        reviewedSourceCommitId,
+        completionOptions
+      );
+
+      return {
+        success: true,
+        pullRequest,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to complete pull request",
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Set auto-complete for the current user, or cancel it
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param completionOptions Options applied on completion, or undefined to cancel auto-complete
+   * @returns Promise resolving to operation result
+   */
+  async setAutoComplete(
+    repositoryId: string,
+    pullRequestId: number,
+    completionOptions?: GitPullRequestCompletionOptions
+  ): Promise<PullRequestOperationResult> {
+    try {
+      const setById = completionOptions
+        ? (await this.apiClient.getAuthenticatedUser(repositoryId)).id
+        : undefined;
+
+      const pullRequest = await this.apiClient.setPullRequestAutoComplete(
+        repositoryId,
+        pullRequestId,
+        setById,
+        completionOptions
+      );
+
+      return {
+        success: true,
+        pullRequest,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to update auto-complete",
+        timestamp: new Date(),
+      };
+    }
+  }
+
   /**
    * Set up auto-refresh for pull requests
    *
@@ -461,19 +674,21 @@ export class PullRequestService {
    *
    * @param repositoryId Repository ID
    * @param pullRequestId Pull request ID
+   * @param request Priority and cancellation of the request
    * @returns Promise resolving to array of iterations
    */
   async getPullRequestIterations(
     repositoryId: string,
-    pullRequestId: number
+    pullRequestId: number,
+    request: RequestContext = {}
   ): Promise<GitPullRequestIteration[]> {
-    const config = this.configService.getConfiguration();
-    const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/iterations`;
-
     try {
+      const projectUrl = this.apiClient.getProjectUrl(repositoryId);
+      const url = `${projectUrl}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/iterations`;
       const response = await this.apiClient.get<any>(url, {
         useCache: true,
         cacheTtl: 30000,
+        ...request,
       });
       return response.value.map((iteration: any) => ({
         ...iteration,
@@ -494,27 +709,54 @@ export class PullRequestService {
    *
    * @param repositoryId Repository ID
    * @param pullRequestId Pull request ID
-   * @param iterationId Optional iteration ID
+   * @param iterationId Optional iteration ID (latest iteration if not specified)
+   * @param compareTo Optional iteration to compare against (changes since that iteration)
    * @returns Promise resolving to array of file changes
    */
   async getPullRequestChanges(
     repositoryId: string,
     pullRequestId: number,
-    iterationId?: number
+    iterationId?: number,
+    compareTo?: number
   ): Promise<GitPullRequestChange[]> {
-    const config = this.configService.getConfiguration();
-    let url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/changes`;
+    try {
+      const projectUrl = this.apiClient.getProjectUrl(repositoryId);
+      let targetIteration = iterationId;
+      if (!targetIteration) {
+        const iterations = await this.getPullRequestIterations(
+          repositoryId,
+          pullRequestId
+        );
+        if (iterations.length === 0) {
+          return [];
+        }
+        targetIteration = Math.max(...iterations.map((it) => it.id));
+      }
 
-    if (iterationId) {
-      url += `?iterationId=${iterationId}`;
-    }
+      const url = `${projectUrl}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/iterations/${targetIteration}/changes`;
 
-    try {
-      const response = await this.apiClient.get<any>(url, {
-        useCache: true,
-        cacheTtl: 60000,
-      });
-      return response.value;
+      // The server pages the changes; follow nextSkip until the last page
+      const changes: GitPullRequestChange[] = [];
+      let page: { skip: number; top: number } | undefined = {
+        skip: 0,
+        top: PullRequestService.CHANGES_PAGE_SIZE,
+      };
+      while (page) {
+        const params = [`$top=${page.top}`, `$skip=${page.skip}`];
+        if (compareTo) {
+          params.push(`$compareTo=${compareTo}`);
+        }
+        const response: GitPullRequestIterationChanges =
+          await this.apiClient.get<GitPullRequestIterationChanges>(
+            `${url}?${params.join("&")}`,
+            { useCache: true, cacheTtl: 60000 }
+          );
+        changes.push(...(response.changeEntries || []));
+        page = response.nextSkip
+          ? { skip: response.nextSkip, top: response.nextTop || page.top }
+          : undefined;
+      }
+      return changes;
     } catch (error) {
       console.error(`Failed to fetch changes for PR ${pullRequestId}:`, error);
       return [];
@@ -526,19 +768,37 @@ export class PullRequestService {
    *
    * @param repositoryId Repository ID
    * @param pullRequestId Pull request ID
+   * @param forceRefresh Bypass the cache, e.g. right after re-queueing a policy
+   * @param request Priority and cancellation of the requests
    * @returns Promise resolving to policy evaluation records
    */
   async getPolicyEvaluations(
     repositoryId: string,
-    pullRequestId: number
+    pullRequestId: number,
+    forceRefresh = false,
+    request: RequestContext = {}
   ): Promise<PolicyEvaluationRecord[]> {
-    const config = this.configService.getConfiguration();
-    const url = `${config.organizationUrl}/${config.project}/_apis/git/repositories/${repositoryId}/pullrequests/${pullRequestId}/policyevaluations`;
-
     try {
+      const pullRequest = await this.getPullRequest(
+        repositoryId,
+        pullRequestId,
+        request
+      );
+      if (!pullRequest) {
+        return [];
+      }
+
+      // Policies are evaluated against the pull request's code review artifact
+      const projectUrl = this.apiClient.getProjectUrl(repositoryId);
+      const artifactId =
+        pullRequest.artifactId ||
+        `vstfs:///CodeReview/CodeReviewId/${pullRequest.repository.project.id}/${pullRequestId}`;
+      const url = `${projectUrl}/_apis/policy/evaluations?artifactId=${encodeURIComponent(artifactId)}`;
+
       const response = await this.apiClient.get<any>(url, {
-        useCache: true,
+        useCache: !forceRefresh,
         cacheTtl: 30000,
+        ...request,
       });
       return response.value.map((record: any) => ({
         ...record,
@@ -556,6 +816,274 @@ export class PullRequestService {
     }
   }
 
+  /**
+   * Get the configured connection profiles
+   *
+   * @returns Connection profiles in configuration order
+   */
+  getConnectionProfiles(): ConnectionProfile[] {
+    return this.configService.getProfiles();
+  }
+
+  /**
+   * Get the connection profile a repository was loaded from
+   *
+   * @param repositoryId Repository ID
+   * @returns Connection profile, or undefined if none is configured
+   */
+  getRepositoryProfile(repositoryId: string): ConnectionProfile | undefined {
+    return this.apiClient.getRepositoryProfile(repositoryId);
+  }
+
+  /**
+   * Forget cached repositories and pull request lists so the next load picks
+   * up added or removed connection profiles
+   */
+  async clearProfileCache(): Promise<void> {
+    await this.cacheManager.invalidate([
+      { strategy: "exact", pattern: `${this.cacheKeyPrefix}repositories` },
+      { strategy: "prefix", pattern: `${this.cacheKeyPrefix}list_` },
+    ]);
+  }
+
+  /**
+   * Get the reviewers of a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param request Priority and cancellation of the request
+   * @returns Promise resolving to reviewers; group reviewers list their members' votes in `votedFor`
+   */
+  async getReviewers(
+    repositoryId: string,
+    pullRequestId: number,
+    request: RequestContext = {}
+  ): Promise<PullRequestReviewer[]> {
+    try {
+      return await this.apiClient.getPullRequestReviewers(
+        repositoryId,
+        pullRequestId,
+        request
+      );
+    } catch (error) {
+      console.error(
+        `Failed to fetch reviewers for PR ${pullRequestId}:`,
+        error
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Search users and groups that can be added as reviewers
+   *
+   * @param query Name, email or alias to search for
+   * @param repositoryId Repository whose organization to search
+   * @returns Promise resolving to matching identities
+   */
+  async searchIdentities(
+    query: string,
+    repositoryId?: string
+  ): Promise<IdentitySearchResult[]> {
+    if (!query.trim()) {
+      return [];
+    }
+
+    try {
+      return await this.apiClient.searchIdentities(
+        query.trim(),
+        repositoryId
+      );
+    } catch (error) {
+      console.error(`Failed to search identities for "${query}":`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Add a reviewer to a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param reviewerId Identity ID of the user or group
+   * @param isRequired Whether the reviewer is required
+   * @returns Promise resolving to operation result
+   */
+  async addReviewer(
+    repositoryId: string,
+    pullRequestId: number,
+    reviewerId: string,
+    isRequired = false
+  ): Promise<PullRequestOperationResult> {
+    return this.runReviewerOperation(
+      repositoryId,
+      pullRequestId,
+      "Failed to add reviewer",
+      () =>
+        this.apiClient.addPullRequestReviewer(
+          repositoryId,
+          pullRequestId,
+          reviewerId,
+          isRequired
+        )
+    );
+  }
+
+  /**
+   * Remove a reviewer from a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param reviewerId Identity ID of the user or group
+   * @returns Promise resolving to operation result
+   */
+  async removeReviewer(
+    repositoryId: string,
+    pullRequestId: number,
+    reviewerId: string
+  ): Promise<PullRequestOperationResult> {
+    return this.runReviewerOperation(
+      repositoryId,
+      pullRequestId,
+      "Failed to remove reviewer",
+      () =>
+        this.apiClient.removePullRequestReviewer(
+          repositoryId,
+          pullRequestId,
+          reviewerId
+        )
+    );
+  }
+
+  /**
+   * Mark a reviewer as required or optional
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param reviewerId Identity ID of the user or group
+   * @param isRequired Whether the reviewer is required
+   * @returns Promise resolving to operation result
+   */
+  async setReviewerRequired(
+    repositoryId: string,
+    pullRequestId: number,
+    reviewerId: string,
+    isRequired: boolean
+  ): Promise<PullRequestOperationResult> {
+    return this.runReviewerOperation(
+      repositoryId,
+      pullRequestId,
+      "Failed to update reviewer",
+      () =>
+        this.apiClient.addPullRequestReviewer(
+          repositoryId,
+          pullRequestId,
+          reviewerId,
+          isRequired
+        )
+    );
+  }
+
+  /**
+   * Reset a reviewer's vote to "no vote"
+   *
+   * Azure DevOps only lets users change their own vote, so other reviewers
+   * are removed and re-added with the same required flag, which clears
+   * their vote. Reviewers a required reviewers policy added are refused, and
+   * a failed re-add is retried once before reporting the removal.
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param reviewer Reviewer whose vote to reset
+   * @returns Promise resolving to operation result
+   */
+  async resetReviewerVote(
+    repositoryId: string,
+    pullRequestId: number,
+    reviewer: PullRequestReviewer
+  ): Promise<PullRequestOperationResult> {
+    return this.runReviewerOperation(
+      repositoryId,
+      pullRequestId,
+      "Failed to reset vote",
+      async () => {
+        const currentUser = await this.apiClient.getAuthenticatedUser(
+          repositoryId
+        );
+        if (currentUser.id === reviewer.id) {
+          await this.apiClient.votePullRequest(repositoryId, pullRequestId, 0);
+          return;
+        }
+
+        const evaluations = await this.getPolicyEvaluations(
+          repositoryId,
+          pullRequestId
+        );
+        if (
+          evaluations.some(
+            (evaluation) =>
+              evaluation.configuration.type.id ===
+                PullRequestService.REQUIRED_REVIEWERS_POLICY &&
+              (evaluation.configuration.settings?.requiredReviewerIds || []).includes(
+                reviewer.id
+              )
+          )
+        ) {
+          throw new Error(
+            `${reviewer.displayName} was added by a required reviewers policy, so their vote cannot be reset`
+          );
+        }
+
+        await this.apiClient.removePullRequestReviewer(
+          repositoryId,
+          pullRequestId,
+          reviewer.id
+        );
+        const addBack = () =>
+          this.apiClient.addPullRequestReviewer(
+            repositoryId,
+            pullRequestId,
+            reviewer.id,
+            reviewer.isRequired
+          );
+        await addBack()
+          .catch(() => addBack())
+          .catch((error) => {
+            throw new Error(
+              `${reviewer.displayName} was removed from the pull request but could not be added back: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            );
+          });
+      }
+    );
+  }
+
+  /**
+   * Run a reviewer change and wrap it in an operation result
+   */
+  private async runReviewerOperation(
+    repositoryId: string,
+    pullRequestId: number,
+    failureMessage: string,
+    operation: () => Promise<unknown>
+  ): Promise<PullRequestOperationResult> {
+    try {
+      await operation();
+
+      return {
+        success: true,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : failureMessage,
+        timestamp: new Date(),
+      };
+    }
+  }
+
   /**
    * Clean up resources and intervals
    */
@@ -571,34 +1099,73 @@ export class PullRequestService {
   }
 
   /**
-   * Apply filters to pull requests
+   * Fetch a page of pull requests with the filter applied by the server,
+   * except for the text search it cannot do
    */
-  private applyFilters(
-    pullRequests: PullRequest[],
-    filter: PullRequestFilter
-  ): PullRequest[] {
-    let filtered = [...pullRequests];
+  private async fetchPullRequestPage(
+    repositoryId: string,
+    filter: PullRequestFilter,
+    page: PullRequestPageRequest,
+    options: ApiRequestOptions = {}
+  ): Promise<PullRequestPage> {
+    const result = await this.apiClient.getPullRequestPage(
+      repositoryId,
+      this.toSearchCriteria(filter),
+      page,
+      { useCache: true, cacheTtl: 15000, ...options } // 15 second cache for API calls
+    );
 
-    if (filter.createdBy) {
-      filtered = filtered.filter((pr) => pr.createdBy.id === filter.createdBy);
-    }
+    return {
+      pullRequests: this.applyFilters(result.pullRequests, filter),
+      next: result.next,
+    };
+  }
 
-    if (filter.reviewerId) {
-      filtered = filtered.filter((pr) =>
-        pr.reviewers.some((reviewer) => reviewer.id === filter.reviewerId)
-      );
+  /**
+   * Map filter criteria to the search criteria of the pull requests API
+   */
+  private toSearchCriteria(
+    filter: PullRequestFilter
+  ): PullRequestSearchCriteria {
+    if (filter.closedWithinDays === undefined) {
+      return {
+        status: filter.status,
+        creatorId: filter.createdBy,
+        reviewerId: filter.reviewerId,
+        targetRefName: filter.targetRefName,
+      };
     }
 
-    if (filter.searchQuery) {
-      const query = filter.searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (pr) =>
-          pr.title.toLowerCase().includes(query) ||
-          pr.description.toLowerCase().includes(query)
-      );
+    // Whole hours keep the request URL, and so its cache entry, stable
+    const hour = 60 * 60 * 1000;
+    const minTime = Date.now() - filter.closedWithinDays * 24 * hour;
+    return {
+      status: filter.status,
+      creatorId: filter.createdBy,
+      reviewerId: filter.reviewerId,
+      targetRefName: filter.targetRefName,
+      minTime: new Date(Math.floor(minTime / hour) * hour),
+      queryTimeRangeType: "closed",
+    };
+  }
+
+  /**
+   * Apply the filters the server cannot, i.e. text search
+   */
+  private applyFilters(
+    pullRequests: PullRequest[],
+    filter: PullRequestFilter
+  ): PullRequest[] {
+    if (!filter.searchQuery) {
+      return pullRequests;
     }
 
-    return filtered;
+    const query = filter.searchQuery.toLowerCase();
+    return pullRequests.filter(
+      (pr) =>
+        pr.title.toLowerCase().includes(query) ||
+        (pr.description || "").toLowerCase().includes(query)
+    );
   }
 
   /**
@@ -655,28 +1222,61 @@ export class PullRequestService {
   }
 
   /**
-   * Get repositories with caching
+   * Get repositories of all connection profiles with caching
+   *
+   * @returns Promise resolving to repositories; profiles that fail to load are skipped
    */
-  private async getRepositories(): Promise<GitRepository[]> {
+  async getRepositories(): Promise<GitRepository[]> {
     const cacheKey = `${this.cacheKeyPrefix}repositories`;
-    const cached = this.getCachedData<GitRepository[]>(cacheKey);
 
-    if (cached && this.isCacheValid(cached.timestamp, 300000)) {
-      // 5 minute cache
-      return cached.data;
-    }
+    // Answer from the cache, even when expired, while refreshing it
+    return this.cacheManager.getStaleWhileRevalidate(cacheKey, () =>
+      this.fetchRepositories(cacheKey)
+    );
+  }
 
-    try {
-      const repositories = await this.apiClient.getRepositories({
-        useCache: true,
-        cacheTtl: 300000,
-      });
-      this.setCacheData(cacheKey, repositories);
-      return repositories;
-    } catch (error) {
-      console.error("Failed to fetch repositories:", error);
-      return [];
+  /**
+   * Get a repository with its remote URLs and default branch
+   *
+   * The repository embedded in a pull request only carries its ID, name and
+   * project, so it is looked up among the repositories of all profiles.
+   *
+   * @param repositoryId Repository ID
+   * @returns Promise resolving to the repository, or undefined if no profile lists it
+   */
+  async getRepository(repositoryId: string): Promise<GitRepository | undefined> {
+    const repositories = await this.getRepositories();
+    return repositories.find(
+      (repository) => repository.id.toLowerCase() === repositoryId.toLowerCase()
+    );
+  }
+
+  /**
+   * Fetch the repositories of all connection profiles and cache them
+   */
+  private async fetchRepositories(cacheKey: string): Promise<GitRepository[]> {
+    const repositories: GitRepository[] = [];
+    for (const profile of this.configService.getProfiles()) {
+      try {
+        repositories.push(
+          ...(await this.apiClient.getRepositories(
+            {
+              useCache: true,
+              cacheTtl: 300000,
+            },
+            profile.id
+          ))
+        );
+      } catch (error) {
+        console.error(
+          `Failed to fetch repositories of profile ${profile.name}:`,
+          error
+        );
+      }
     }
+
+    await this.cacheManager.set(cacheKey, repositories, 300000); // 5 minutes
+    return repositories;
   }
 
   /**
@@ -690,8 +1290,10 @@ export class PullRequestService {
     try {
       await this.apiClient.votePullRequest(repositoryId, pullRequestId, vote);
 
-      // Invalidate cache
-      this.invalidatePrCache(repositoryId, pullRequestId);
+      // Resetting a vote does not count as a review
+      if (vote !== 0) {
+        await this.recordReviewedIteration(repositoryId, pullRequestId);
+      }
 
       return {
         success: true,
@@ -710,60 +1312,141 @@ export class PullRequestService {
   }
 
   /**
-   * Get cache key for data
+   * Get the iteration the current user last voted on
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @returns Last reviewed iteration, or undefined if the user has not voted yet
    */
-  private getCacheKey(...parts: any[]): string {
-    return `${this.cacheKeyPrefix}${parts.join("_")}`;
+  getLastReviewedIteration(
+    repositoryId: string,
+    pullRequestId: number
+  ): ReviewedIteration | undefined {
+    return this.context.globalState.get<ReviewedIteration>(
+      this.getCacheKey("reviewed", repositoryId, pullRequestId)
+    );
   }
 
   /**
-   * Get cached data with metadata
+   * Get the iteration the current user last voted on, from the pull
+   * request's vote update threads
+   *
+   * Unlike the iteration recorded when voting from this extension, this
+   * covers votes cast in the web UI or on another machine: the voted
+   * iteration is the latest one pushed before the vote. The recorded
+   * iteration is used only when the threads hold no vote of the user.
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @returns Promise resolving to the voted iteration, or undefined if the
+   *   user has not voted or reset their vote
    */
-  private getCachedData<T>(key: string): { data: T; timestamp: number } | null {
-    const cached = this.context.workspaceState.get<{
-      data: T;
-      timestamp: number;
-    }>(key);
-    return cached || null;
-  }
+  async getLastVotedIteration(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<ReviewedIteration | undefined> {
+    try {
+      const [user, threads, iterations] = await Promise.all([
+        this.apiClient.getAuthenticatedUser(repositoryId),
+        this.apiClient.getCommentThreads(repositoryId, pullRequestId),
+        this.getPullRequestIterations(repositoryId, pullRequestId),
+      ]);
+      const vote = threads
+        .map((thread) => this.getVoteUpdate(thread))
+        .filter((update) => update?.voterId === user.id)
+        .reduce<VoteUpdate | undefined>(
+          (a, b) => (!a || (b && b.votedAt > a.votedAt) ? b : a),
+          undefined
+        );
+      if (!vote) {
+        return this.getLastReviewedIteration(repositoryId, pullRequestId);
+      }
+      if (vote.vote === 0) {
+        return undefined;
+      }
 
-  /**
-   * Set cached data with timestamp
-   */
-  private setCacheData<T>(key: string, data: T): void {
-    this.context.workspaceState.update(key, {
-      data,
-      timestamp: Date.now(),
-    });
+      const voted = iterations
+        .filter((iteration) => iteration.createdDate <= vote.votedAt)
+        .reduce<GitPullRequestIteration | undefined>(
+          (a, b) => (!a || b.id > a.id ? b : a),
+          undefined
+        );
+      return voted
+        ? {
+            iterationId: voted.id,
+            sourceCommitId: voted.sourceRefCommit?.commitId,
+            reviewedAt: vote.votedAt.toISOString(),
+          }
+        : undefined;
+    } catch (error) {
+      console.error(
+        `Failed to find the last vote on PR ${pullRequestId}:`,
+        error
+      );
+      return this.getLastReviewedIteration(repositoryId, pullRequestId);
+    }
   }
 
   /**
-   * Check if cache is still valid
+   * Read the vote of a vote update system thread
+   *
+   * Azure DevOps posts one for every vote, with the voter in the thread's
+   * identities and the vote in its properties.
    */
-  private isCacheValid(timestamp: number, maxAgeMs: number): boolean {
-    return Date.now() - timestamp < maxAgeMs;
+  private getVoteUpdate(thread: CommentThread): VoteUpdate | undefined {
+    const properties = thread.properties || {};
+    if (properties.CodeReviewThreadType?.$value !== "VoteUpdate") {
+      return undefined;
+    }
+
+    const voter =
+      thread.identities?.[properties.CodeReviewVotedByIdentity?.$value];
+    const votedAt = thread.publishedDate || thread.comments[0]?.publishedDate;
+    if (!votedAt) {
+      return undefined;
+    }
+    return {
+      voterId: voter?.id || thread.comments[0]?.author.id,
+      vote: Number(properties.CodeReviewVoteResult?.$value) || 0,
+      votedAt: new Date(votedAt),
+    };
   }
 
   /**
-   * Invalidate specific PR cache
+   * Remember the latest iteration as reviewed after the user votes
    */
-  private invalidatePrCache(repositoryId: string, pullRequestId: number): void {
-    const keys = this.context.workspaceState
-      .keys()
-      .filter((key) => key.includes(`single_${repositoryId}_${pullRequestId}`));
-    keys.forEach((key) => this.context.workspaceState.update(key, undefined));
+  private async recordReviewedIteration(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<void> {
+    const iterations = await this.getPullRequestIterations(
+      repositoryId,
+      pullRequestId
+    );
+    if (iterations.length === 0) {
+      return;
+    }
+
+    const latest = iterations.reduce((a, b) => (b.id > a.id ? b : a));
+    const reviewed: ReviewedIteration = {
+      iterationId: latest.id,
+      sourceCommitId: latest.sourceRefCommit?.commitId,
+      reviewedAt: new Date().toISOString(),
+    };
+
+    await this.context.globalState.update(
+      this.getCacheKey("reviewed", repositoryId, pullRequestId),
+      reviewed
+    );
   }
 
   /**
-   * Invalidate repository PRs cache
+   * Get cache key for data
    */
-  private invalidateRepositoryPrsCache(repositoryId: string): void {
-    const keys = this.context.workspaceState
-      .keys()
-      .filter(
-        (key) =>
-          key.includes(`list_${repositoryId}`) || key.includes("list_all")
-      );
-    keys.forEach((key) => this.context.workspaceState.update(key, undefined));
+  private getCacheKey(...parts: any[]): string {
+    // Serialize filter objects so different filters get different keys
+    return `${this.cacheKeyPrefix}${parts
+      .map((part) => (typeof part === "object" ? JSON.stringify(part) : part))
+      .join("_")}`;
   }
 }
@@ -0,0 +1,263 @@
+import {
+  AzureDevOpsApiClient,
+  PullRequestPage,
+  PullRequestPageRequest,
+} from "../api/AzureDevOpsApiClient";
+import {
+  ConfigurationService,
+  SavedPullRequestQuery,
+} from "./ConfigurationService";
+import { PullRequestFilter, PullRequestService } from "./PullRequestService";
+import { PullRequest } from "../api/models";
+
+/**
+ * Pull request query with its origin
+ */
+export interface PullRequestQuery extends SavedPullRequestQuery {
+  readonly isBuiltIn: boolean;
+}
+
+/**
+ * Query service resolving built-in and saved pull request queries
+ */
+export class QueryService {
+  /** Placeholder for the signed-in user in identity fields */
+  static readonly CURRENT_USER = "@me";
+
+  private static readonly BUILT_IN_QUERIES: SavedPullRequestQuery[] = [
+    {
+      id: "created-by-me",
+      name: "Created by me",
+      createdBy: QueryService.CURRENT_USER,
+    },
+    {
+      id: "waiting-for-my-vote",
+      name: "Waiting for my vote",
+      reviewer: QueryService.CURRENT_USER,
+      myVote: "pending",
+      includeDrafts: false,
+    },
+    {
+      id: "voted-new-changes",
+      name: "I've voted, new changes since",
+      reviewer: QueryService.CURRENT_USER,
+      myVote: "voted",
+      changedSinceMyVote: true,
+    },
+    {
+      id: "completed-recently",
+      name: "Completed recently",
+      status: "completed",
+      closedWithinDays: 7,
+    },
+  ];
+
+  constructor(
+    private readonly apiClient: AzureDevOpsApiClient,
+    private readonly configService: ConfigurationService,
+    private readonly pullRequestService: PullRequestService
+  ) {}
+
+  /**
+   * Get the queries shown in the Pull Requests view
+   *
+   * @returns Built-in queries followed by the user's saved queries
+   */
+  getQueries(): PullRequestQuery[] {
+    return [
+      ...QueryService.BUILT_IN_QUERIES.map((query) => ({
+        ...query,
+        isBuiltIn: true,
+      })),
+      ...this.configService.getSavedQueries().map((query) => ({
+        ...query,
+        isBuiltIn: false,
+      })),
+    ];
+  }
+
+  /**
+   * Get the pull requests matching a query
+   *
+   * @param query Query to run
+   * @returns Promise resolving to matching pull requests, newest first
+   */
+  async getPullRequests(query: SavedPullRequestQuery): Promise<PullRequest[]> {
+    const pullRequests = await this.pullRequestService.getPullRequests(
+      this.toFilter(query),
+      { sortBy: "createdDate", sortOrder: "desc" }
+    );
+
+    return this.filterMatches(query, pullRequests);
+  }
+
+  /**
+   * Get one page of a repository's pull requests matching a query
+   *
+   * @param query Query to run
+   * @param repositoryId Repository ID
+   * @param page Page to get, usually the `next` of the previous page
+   * @returns Promise resolving to the matches on the page and the request for
+   * the next page. A page can have fewer matches than requested, or none, as
+   * some criteria are only checked on the client.
+   */
+  async getPullRequestPage(
+    query: SavedPullRequestQuery,
+    repositoryId: string,
+    page: PullRequestPageRequest
+  ): Promise<PullRequestPage> {
+    const needsCurrentUser = [query.createdBy, query.reviewer].includes(
+      QueryService.CURRENT_USER
+    );
+    const currentUserId = needsCurrentUser
+      ? await this.getCurrentUserId(repositoryId)
+      : undefined;
+
+    const result = await this.pullRequestService.getPullRequestPage(
+      repositoryId,
+      this.toFilter(query, currentUserId),
+      page
+    );
+
+    return {
+      pullRequests: await this.filterMatches(query, result.pullRequests),
+      next: result.next,
+    };
+  }
+
+  /**
+   * Map a query to the filter criteria the server applies. `@me` can only be
+   * sent once resolved for the repository; `matches` checks the rest.
+   */
+  private toFilter(
+    query: SavedPullRequestQuery,
+    currentUserId?: string
+  ): PullRequestFilter {
+    const resolve = (identity?: string) =>
+      identity === QueryService.CURRENT_USER ? currentUserId : identity;
+
+    return {
+      status: query.status || "active",
+      createdBy: resolve(query.createdBy),
+      reviewerId: resolve(query.reviewer),
+      targetRefName: query.targetBranch
+        ? `refs/heads/${query.targetBranch.replace(/^refs\/heads\//, "")}`
+        : undefined,
+      closedWithinDays: query.closedWithinDays,
+      searchQuery: query.searchQuery,
+    };
+  }
+
+  /**
+   * Keep the pull requests matching a query, in order
+   */
+  private async filterMatches(
+    query: SavedPullRequestQuery,
+    pullRequests: PullRequest[]
+  ): Promise<PullRequest[]> {
+    const matches: PullRequest[] = [];
+    for (const pullRequest of pullRequests) {
+      if (await this.matches(query, pullRequest)) {
+        matches.push(pullRequest);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Check a pull request against the criteria of a query
+   */
+  private async matches(
+    query: SavedPullRequestQuery,
+    pullRequest: PullRequest
+  ): Promise<boolean> {
+    if (query.includeDrafts === false && pullRequest.isDraft) {
+      return false;
+    }
+
+    if (
+      query.targetBranch &&
+      pullRequest.targetRefName.replace(/^refs\/heads\//, "") !==
+        query.targetBranch.replace(/^refs\/heads\//, "")
+    ) {
+      return false;
+    }
+
+    if (query.closedWithinDays !== undefined) {
+      const closedDate = pullRequest.closedDate
+        ? new Date(pullRequest.closedDate).getTime()
+        : 0;
+      if (Date.now() - closedDate > query.closedWithinDays * 86400000) {
+        return false;
+      }
+    }
+
+    const needsCurrentUser = [query.createdBy, query.reviewer].includes(
+      QueryService.CURRENT_USER
+    );
+    const currentUserId =
+      needsCurrentUser || query.myVote || query.changedSinceMyVote
+        ? await this.getCurrentUserId(pullRequest.repository.id)
+        : undefined;
+    const resolve = (identity?: string) =>
+      identity === QueryService.CURRENT_USER ? currentUserId : identity;
+
+    const createdBy = resolve(query.createdBy);
+    if (query.createdBy && pullRequest.createdBy.id !== createdBy) {
+      return false;
+    }
+
+    const reviewerId = resolve(query.reviewer);
+    if (
+      query.reviewer &&
+      !pullRequest.reviewers.some((reviewer) => reviewer.id === reviewerId)
+    ) {
+      return false;
+    }
+
+    const myReview = pullRequest.reviewers.find(
+      (reviewer) => reviewer.id === currentUserId
+    );
+    if (
+      query.myVote === "pending" &&
+      (!myReview || myReview.vote !== 0 || myReview.hasDeclined)
+    ) {
+      return false;
+    }
+    if (query.myVote === "voted" && (!myReview || myReview.vote === 0)) {
+      return false;
+    }
+
+    if (query.changedSinceMyVote) {
+      const reviewed = await this.pullRequestService.getLastVotedIteration(
+        pullRequest.repository.id,
+        pullRequest.pullRequestId
+      );
+      if (
+        !reviewed?.sourceCommitId ||
+        reviewed.sourceCommitId === pullRequest.lastMergeSourceCommit?.commitId
+      ) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the signed-in user of a repository's connection profile
+   */
+  private async getCurrentUserId(
+    repositoryId: string
+  ): Promise<string | undefined> {
+    try {
+      const user = await this.apiClient.getAuthenticatedUser(repositoryId, {
+        staleWhileRevalidate: true,
+      });
+      return user.id;
+    } catch (error) {
+      console.error("Failed to resolve the current user:", error);
+      return undefined;
+    }
+  }
+}
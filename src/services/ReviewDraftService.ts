@@ -0,0 +1,204 @@
+import * as vscode from "vscode";
+import { CommentThreadSide } from "../api/models";
+
+/**
+ * Comment held back until a pending review is submitted
+ */
+export interface ReviewDraft {
+  readonly id: string;
+  readonly content: string;
+  /** Thread the draft replies to; the draft starts a new thread when omitted */
+  readonly threadId?: number;
+  readonly filePath?: string;
+  readonly line?: number;
+  readonly endLine?: number;
+  readonly side?: CommentThreadSide;
+  readonly iterationId?: number;
+  /** ISO timestamp of when the draft was written */
+  readonly createdAt: string;
+}
+
+/**
+ * Pending review of a pull request
+ */
+export interface PendingReview {
+  /** ISO timestamp of when the review was started */
+  readonly startedAt: string;
+  readonly drafts: ReviewDraft[];
+}
+
+/**
+ * Pull request whose pending review changed
+ */
+export interface PendingReviewChangeEvent {
+  readonly repositoryId: string;
+  readonly pullRequestId: number;
+}
+
+/**
+ * Review draft service holding new threads and replies back while the user
+ * reviews a pull request, so they can be submitted together with the vote
+ *
+ * Pending reviews are stored per pull request in global state and survive
+ * restarts until they are submitted or discarded.
+ */
+export class ReviewDraftService implements vscode.Disposable {
+  private static readonly KEY_PREFIX = "review_drafts_";
+
+  private readonly onDidChangeReviewEmitter =
+    new vscode.EventEmitter<PendingReviewChangeEvent>();
+
+  /** Fires when a review is started, changed, submitted or discarded */
+  readonly onDidChangeReview = this.onDidChangeReviewEmitter.event;
+
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  /**
+   * Check whether a review of a pull request is in progress
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @returns True if new comments on the pull request are held as drafts
+   */
+  isReviewing(repositoryId: string, pullRequestId: number): boolean {
+    return !!this.getReview(repositoryId, pullRequestId);
+  }
+
+  /**
+   * Get the pending review of a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @returns Pending review, or undefined if no review is in progress
+   */
+  getReview(
+    repositoryId: string,
+    pullRequestId: number
+  ): PendingReview | undefined {
+    return this.context.globalState.get<PendingReview>(
+      this.getKey(repositoryId, pullRequestId)
+    );
+  }
+
+  /**
+   * Get the drafts of a pull request, oldest first
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @returns Drafts, or an empty array if no review is in progress
+   */
+  getDrafts(repositoryId: string, pullRequestId: number): ReviewDraft[] {
+    return this.getReview(repositoryId, pullRequestId)?.drafts || [];
+  }
+
+  /**
+   * Start holding new comments on a pull request as drafts
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   */
+  async startReview(repositoryId: string, pullRequestId: number): Promise<void> {
+    if (this.isReviewing(repositoryId, pullRequestId)) {
+      return;
+    }
+
+    await this.saveReview(repositoryId, pullRequestId, {
+      startedAt: new Date().toISOString(),
+      drafts: [],
+    });
+  }
+
+  /**
+   * Add a draft to the pending review of a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param draft Draft content and position
+   * @returns Promise resolving to the stored draft
+   * @throws Error if no review of the pull request is in progress
+   */
+  async addDraft(
+    repositoryId: string,
+    pullRequestId: number,
+    draft: Omit<ReviewDraft, "id" | "createdAt">
+  ): Promise<ReviewDraft> {
+    const review = this.getReview(repositoryId, pullRequestId);
+    if (!review) {
+      throw new Error(`No review of PR #${pullRequestId} is in progress`);
+    }
+
+    const stored: ReviewDraft = {
+      ...draft,
+      id: `draft_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString(),
+    };
+    await this.saveReview(repositoryId, pullRequestId, {
+      ...review,
+      drafts: [...review.drafts, stored],
+    });
+    return stored;
+  }
+
+  /**
+   * Remove drafts from the pending review of a pull request, e.g. after they
+   * were posted
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param draftIds IDs of the drafts to remove
+   */
+  async removeDrafts(
+    repositoryId: string,
+    pullRequestId: number,
+    draftIds: readonly string[]
+  ): Promise<void> {
+    const review = this.getReview(repositoryId, pullRequestId);
+    if (!review) {
+      return;
+    }
+
+    await this.saveReview(repositoryId, pullRequestId, {
+      ...review,
+      drafts: review.drafts.filter((draft) => !draftIds.includes(draft.id)),
+    });
+  }
+
+  /**
+   * End the review of a pull request, discarding any remaining drafts
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   */
+  async endReview(repositoryId: string, pullRequestId: number): Promise<void> {
+    await this.saveReview(repositoryId, pullRequestId, undefined);
+  }
+
+  /**
+   * Clean up resources
+   */
+  dispose(): void {
+    this.onDidChangeReviewEmitter.dispose();
+  }
+
+  /**
+   * Store a pending review and notify listeners
+   */
+  private async saveReview(
+    repositoryId: string,
+    pullRequestId: number,
+    review: PendingReview | undefined
+  ): Promise<void> {
+    await this.context.globalState.update(
+      this.getKey(repositoryId, pullRequestId),
+      review
+    );
+    this.onDidChangeReviewEmitter.fire({ repositoryId, pullRequestId });
+  }
+
+  /**
+   * Get the storage key of a pull request's pending review
+   */
+  private getKey(repositoryId: string, pullRequestId: number): string {
+    return `${ReviewDraftService.KEY_PREFIX}${repositoryId}_${pullRequestId}`;
+  }
+}
@@ -5,6 +5,12 @@ import {
   CommentThread,
   Identity,
 } from "../api/models";
+import {
+  diffCommentThreads,
+  diffPullRequest,
+  hasThreadChanges,
+} from "../utils/ChangeDetection";
+import { decodeDates, encodeDates } from "./DiskCache";
 
 /**
  * State update event type
@@ -147,6 +153,9 @@ export class StateManager {
 
   /**
    * Update a single pull request
+   *
+   * Listeners are only notified if something changed; the event lists the
+   * changed parts of the pull request.
    */
   updatePullRequest(
     repositoryId: string,
@@ -162,6 +171,11 @@ export class StateManager {
     }
 
     const updatedPr = { ...existingPr, ...updates };
+    const changes = diffPullRequest(existingPr, updatedPr);
+    if (changes.length === 0) {
+      return;
+    }
+
     const newMap = new Map(this.state.pullRequests);
     newMap.set(key, updatedPr);
 
@@ -169,7 +183,7 @@ export class StateManager {
 
     this.notifyStateUpdate({
       type: "pullRequestUpdated",
-      data: { repositoryId, pullRequestId },
+      data: { repositoryId, pullRequestId, changes },
       timestamp: new Date(),
     });
   }
@@ -239,6 +253,10 @@ export class StateManager {
 
   /**
    * Update comment threads for a pull request
+   *
+   * The first load notifies "commentsLoaded". Later updates notify
+   * "commentAdded" for new threads and replies and "commentUpdated" for other
+   * thread changes, and nothing if the threads are unchanged.
    */
   updateCommentThreads(
     repositoryId: string,
@@ -247,16 +265,49 @@ export class StateManager {
     options: StateMutationOptions = { persist: false, notify: true }
   ): void {
     const key = `${repositoryId}_${pullRequestId}`;
+    const existing = this.state.commentThreads.get(key);
+    const changes = existing && diffCommentThreads(existing, threads);
+    if (changes && !hasThreadChanges(changes)) {
+      return;
+    }
+
     const newMap = new Map(this.state.commentThreads);
     newMap.set(key, threads);
 
     this.mutateState("commentThreads", newMap, options);
 
-    this.notifyStateUpdate({
-      type: "commentsLoaded",
-      data: { repositoryId, pullRequestId, count: threads.length },
-      timestamp: new Date(),
-    });
+    if (!changes) {
+      this.notifyStateUpdate({
+        type: "commentsLoaded",
+        data: { repositoryId, pullRequestId, count: threads.length },
+        timestamp: new Date(),
+      });
+      return;
+    }
+
+    if (changes.added.length + changes.replied.length > 0) {
+      this.notifyStateUpdate({
+        type: "commentAdded",
+        data: {
+          repositoryId,
+          pullRequestId,
+          threadIds: [...changes.added, ...changes.replied],
+        },
+        timestamp: new Date(),
+      });
+    }
+    if (changes.updated.length + changes.removed.length > 0) {
+      this.notifyStateUpdate({
+        type: "commentUpdated",
+        data: {
+          repositoryId,
+          pullRequestId,
+          threadIds: changes.updated,
+          removedThreadIds: changes.removed,
+        },
+        timestamp: new Date(),
+      });
+    }
   }
 
   /**
@@ -657,19 +708,10 @@ export class StateManager {
    */
   private persistState(): void {
     try {
-      // Persist pull requests (minimal data)
-      const pullRequestsData = Array.from(
-        this.state.pullRequests.entries()
-      ).map(([key, pr]) => [
-        key,
-        {
-          pullRequestId: pr.pullRequestId,
-          repositoryId: pr.repository.id,
-          title: pr.title,
-          status: pr.status,
-          creationDate: pr.creationDate.toISOString(),
-        },
-      ]);
+      // Persist pull requests whole, so they can be shown on the next start
+      const pullRequestsData = encodeDates(
+        Array.from(this.state.pullRequests.entries())
+      );
 
       this.context.workspaceState.update(
         this.persistKeys.pullRequests,
@@ -707,6 +749,19 @@ export class StateManager {
    */
   private loadPersistedState(): void {
     try {
+      // Load pull requests
+      const pullRequestsData = this.context.workspaceState.get(
+        this.persistKeys.pullRequests
+      );
+      if (Array.isArray(pullRequestsData)) {
+        this.state.pullRequests = new Map(
+          decodeDates<[string, PullRequest][]>(pullRequestsData).filter(
+            // Summaries stored by earlier versions lack the repository
+            ([, pr]) => !!pr.repository
+          )
+        );
+      }
+
       // Load repositories
       const repositoriesData = this.context.workspaceState.get<
         [string, GitRepository][]
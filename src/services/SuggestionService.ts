@@ -0,0 +1,335 @@
+import * as vscode from "vscode";
+import { AzureDevOpsApiClient } from "../api/AzureDevOpsApiClient";
+import { PullRequest } from "../api/models";
+import { CommentService } from "./CommentService";
+import { GitCheckoutService, LocalRepositoryMatch } from "./GitCheckoutService";
+import {
+  PullRequestOperationResult,
+  PullRequestService,
+} from "./PullRequestService";
+
+/**
+ * Lines of a pull request source file a suggestion replaces
+ */
+export interface SuggestionLocation {
+  readonly threadId: number;
+  readonly filePath: string;
+  /** First replaced line (1-based) */
+  readonly startLine: number;
+  /** Last replaced line (1-based, inclusive) */
+  readonly endLine: number;
+  /** Lines the thread is anchored to, i.e. the text the suggestion replaces */
+  readonly originalLines: readonly string[];
+}
+
+/**
+ * Result of applying a suggestion
+ */
+export interface SuggestionApplyResult extends PullRequestOperationResult {
+  /** Whether the suggestion's thread was resolved after applying it */
+  readonly threadResolved: boolean;
+}
+
+const SUGGESTION_BLOCK = /^```suggestion[ \t]*\r?\n([\s\S]*?)^```[ \t]*$/gm;
+
+/**
+ * Get the suggested lines of each ```` ```suggestion ```` block in a comment
+ *
+ * @param content Comment content
+ * @returns Suggested lines per block; an empty block suggests deleting the lines
+ */
+export function parseSuggestions(content: string): string[][] {
+  return Array.from(content.matchAll(SUGGESTION_BLOCK), (match) =>
+    toLines(match[1])
+  );
+}
+
+/**
+ * Create a suggestion block that replaces lines with the given text
+ *
+ * @param lines Suggested lines
+ * @returns Markdown suggestion block
+ */
+export function createSuggestionBlock(lines: readonly string[]): string {
+  return ["```suggestion", ...lines, "```"].join("\n");
+}
+
+/**
+ * Render the suggestion blocks of a comment as diffs against the lines they
+ * replace
+ *
+ * @param content Comment content
+ * @param originalLines Lines the comment's thread is anchored to
+ * @returns Markdown with each suggestion block shown as a ```` ```diff ```` block
+ */
+export function renderSuggestionDiff(
+  content: string,
+  originalLines: readonly string[]
+): string {
+  return content.replace(SUGGESTION_BLOCK, (_block, body: string) =>
+    [
+      "**Suggested change**",
+      "```diff",
+      ...originalLines.map((line) => `-${line}`),
+      ...toLines(body).map((line) => `+${line}`),
+      "```",
+    ].join("\n")
+  );
+}
+
+/**
+ * Replace a range of lines in file content, keeping its line endings
+ *
+ * @param content File content
+ * @param startLine First replaced line (1-based)
+ * @param endLine Last replaced line (1-based, inclusive)
+ * @param lines Replacement lines
+ * @returns Updated file content
+ * @throws Error if the range is outside the file
+ */
+export function replaceLines(
+  content: string,
+  startLine: number,
+  endLine: number,
+  lines: readonly string[]
+): string {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const fileLines = content.split(/\r?\n/);
+  if (startLine < 1 || endLine < startLine || endLine > fileLines.length) {
+    throw new Error(
+      `Lines ${startLine}-${endLine} are outside the file (${fileLines.length} lines)`
+    );
+  }
+
+  fileLines.splice(startLine - 1, endLine - startLine + 1, ...lines);
+  return fileLines.join(eol);
+}
+
+/**
+ * Split a suggestion block body into lines
+ */
+function toLines(body: string): string[] {
+  const trimmed = body.replace(/\r?\n$/, "");
+  return trimmed ? trimmed.split(/\r?\n/) : [];
+}
+
+/**
+ * Suggestion service applying ```` ```suggestion ```` blocks from review
+ * comments to the pull request source branch
+ *
+ * Suggestions are applied either to the author's local checkout of the
+ * source branch, leaving the commit to them, or committed directly through
+ * the Pushes API. Either way the suggestion's thread is resolved afterwards.
+ */
+export class SuggestionService {
+  constructor(
+    private readonly apiClient: AzureDevOpsApiClient,
+    private readonly pullRequestService: PullRequestService,
+    private readonly commentService: CommentService,
+    private readonly gitCheckoutService: GitCheckoutService
+  ) {}
+
+  /**
+   * Check whether the current user may apply suggestions to a pull request,
+   * i.e. whether they created it
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @returns Promise resolving to true for the pull request author
+   */
+  async canApply(repositoryId: string, pullRequestId: number): Promise<boolean> {
+    try {
+      const [pullRequest, user] = await Promise.all([
+        this.pullRequestService.getPullRequest(repositoryId, pullRequestId),
+        this.apiClient.getAuthenticatedUser(repositoryId),
+      ]);
+      return (
+        !!pullRequest &&
+        pullRequest.status === "active" &&
+        pullRequest.createdBy.id === user.id
+      );
+    } catch (error) {
+      console.error("Failed to check suggestion permissions:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Find a local repository with the pull request's source branch checked out
+   *
+   * @param pullRequest Pull request
+   * @returns Matching local repository, or undefined if the branch is not checked out
+   */
+  async findLocalCheckout(
+    pullRequest: PullRequest
+  ): Promise<LocalRepositoryMatch | undefined> {
+    // The repository embedded in the pull request has no remote URLs
+    const repository = await this.pullRequestService.getRepository(
+      pullRequest.repository.id
+    );
+    const match =
+      repository &&
+      (await this.gitCheckoutService.findLocalRepository(repository));
+    const sourceBranch = pullRequest.sourceRefName.replace(/^refs\/heads\//, "");
+
+    return match &&
+      this.gitCheckoutService.getCurrentBranch(match.repository) === sourceBranch
+      ? match
+      : undefined;
+  }
+
+  /**
+   * Apply a suggestion to the local checkout of the source branch
+   *
+   * The edit is made in the workspace and saved, but not committed. It is
+   * refused if the replaced lines differ from the lines the thread is
+   * anchored to, e.g. after local edits or a later iteration moved them.
+   *
+   * @param match Local repository with the source branch checked out
+   * @param pullRequest Pull request
+   * @param location Lines the suggestion replaces
+   * @param lines Suggested lines
+   * @returns Promise resolving to apply result
+   */
+  async applyToLocalFile(
+    match: LocalRepositoryMatch,
+    pullRequest: PullRequest,
+    location: SuggestionLocation,
+    lines: readonly string[]
+  ): Promise<SuggestionApplyResult> {
+    try {
+      const uri = vscode.Uri.joinPath(
+        match.repository.rootUri,
+        location.filePath.replace(/^\//, "")
+      );
+      const document = await vscode.workspace.openTextDocument(uri);
+      const localContent = document.getText();
+      this.checkOriginalLines(localContent, location);
+
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(
+        uri,
+        new vscode.Range(
+          document.positionAt(0),
+          document.positionAt(localContent.length)
+        ),
+        replaceLines(localContent, location.startLine, location.endLine, lines)
+      );
+      if (!(await vscode.workspace.applyEdit(edit))) {
+        throw new Error(`Failed to edit ${location.filePath}`);
+      }
+      await document.save();
+    } catch (error) {
+      return this.failure(error);
+    }
+
+    return this.resolveThread(pullRequest, location);
+  }
+
+  /**
+   * Commit a suggestion to the source branch through the Pushes API
+   *
+   * The push is based on the pull request's last source commit, so it fails
+   * if the branch was updated since the pull request was loaded. It is
+   * refused if the replaced lines at that commit differ from the lines the
+   * thread is anchored to.
+   *
+   * @param pullRequest Pull request
+   * @param location Lines the suggestion replaces
+   * @param lines Suggested lines
+   * @returns Promise resolving to apply result
+   */
+  async commitSuggestion(
+    pullRequest: PullRequest,
+    location: SuggestionLocation,
+    lines: readonly string[]
+  ): Promise<SuggestionApplyResult> {
+    const repositoryId = pullRequest.repository.id;
+    const sourceCommit = pullRequest.lastMergeSourceCommit.commitId;
+
+    try {
+      const content = await this.apiClient.getFileContent(
+        repositoryId,
+        location.filePath,
+        sourceCommit
+      );
+      this.checkOriginalLines(content, location);
+      await this.apiClient.createPush(
+        repositoryId,
+        pullRequest.sourceRefName,
+        sourceCommit,
+        `Apply suggestion from pull request ${pullRequest.pullRequestId}`,
+        [
+          {
+            changeType: "edit",
+            item: { path: location.filePath },
+            newContent: {
+              content: replaceLines(
+                content,
+                location.startLine,
+                location.endLine,
+                lines
+              ),
+              contentType: "rawtext",
+            },
+          },
+        ]
+      );
+    } catch (error) {
+      return this.failure(error);
+    }
+
+    return this.resolveThread(pullRequest, location);
+  }
+
+  /**
+   * Resolve the thread of an applied suggestion
+   */
+  private async resolveThread(
+    pullRequest: PullRequest,
+    location: SuggestionLocation
+  ): Promise<SuggestionApplyResult> {
+    const thread = await this.commentService.updateCommentThread(
+      pullRequest.repository.id,
+      pullRequest.pullRequestId,
+      location.threadId,
+      { status: "fixed" }
+    );
+
+    return {
+      success: true,
+      threadResolved: !!thread,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Check that the lines a suggestion replaces still read as the lines its
+   * thread is anchored to, so moved code is never overwritten
+   *
+   * @throws Error if the lines differ
+   */
+  private checkOriginalLines(
+    content: string,
+    location: SuggestionLocation
+  ): void {
+    const lines = content
+      .split(/\r?\n/)
+      .slice(location.startLine - 1, location.endLine);
+    if (lines.join("\n") !== location.originalLines.join("\n")) {
+      throw new Error(
+        `Lines ${location.startLine}-${location.endLine} of ${location.filePath} no longer match the lines the suggestion was made on. Apply the suggestion by hand.`
+      );
+    }
+  }
+
+  private failure(error: unknown): SuggestionApplyResult {
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to apply suggestion",
+      threadResolved: false,
+      timestamp: new Date(),
+    };
+  }
+}
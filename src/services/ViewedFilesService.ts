@@ -0,0 +1,212 @@
+import { AzureDevOpsApiClient } from "../api/AzureDevOpsApiClient";
+import { GitPullRequestChange } from "../api/models";
+
+/**
+ * File review progress of a pull request
+ */
+export interface ReviewProgress {
+  readonly viewed: number;
+  readonly total: number;
+}
+
+/**
+ * Viewed files service for tracking which pull request files the current
+ * user has reviewed
+ *
+ * Viewed state is stored as a per-reviewer pull request property, so it
+ * follows the user across machines. Each entry remembers the blob object ID
+ * the file had when it was marked, which makes the mark lapse automatically
+ * once a new iteration changes the file.
+ *
+ * The property lives in this extension's own namespace and does not sync
+ * with the Azure DevOps web UI: the browser keeps its "viewed" checkboxes in
+ * storage the public REST API does not expose, so files marked here are not
+ * shown as viewed there, nor the other way round. Like all pull request
+ * properties it is readable by everyone with access to the pull request; it
+ * only holds file paths and blob object IDs.
+ */
+export class ViewedFilesService {
+  private static readonly PROPERTY_PREFIX = "AdoPrReviewer.ViewedFiles.";
+
+  private readonly viewedFiles = new Map<string, Map<string, string>>();
+  private readonly pendingWrites = new Map<string, Promise<void>>();
+  private readonly userIds = new Map<string, string>();
+
+  constructor(private readonly apiClient: AzureDevOpsApiClient) {}
+
+  /**
+   * Get the files the current user marked as viewed
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param forceRefresh Reload from Azure DevOps instead of using the loaded state
+   * @returns Promise resolving to viewed object IDs keyed by file path
+   */
+  async getViewedFiles(
+    repositoryId: string,
+    pullRequestId: number,
+    forceRefresh = false
+  ): Promise<Map<string, string>> {
+    const key = this.getKey(repositoryId, pullRequestId);
+    const loaded = this.viewedFiles.get(key);
+    if (loaded && !forceRefresh) {
+      return loaded;
+    }
+
+    try {
+      const propertyName = await this.getPropertyName(repositoryId);
+      const properties = await this.apiClient.getPullRequestProperties(
+        repositoryId,
+        pullRequestId
+      );
+      const viewed = this.parse(properties[propertyName]);
+      this.viewedFiles.set(key, viewed);
+      return viewed;
+    } catch (error) {
+      console.error(
+        `Failed to load viewed files for PR ${pullRequestId}:`,
+        error
+      );
+      return loaded || new Map();
+    }
+  }
+
+  /**
+   * Check whether a change is viewed at its current version
+   *
+   * @param change File change
+   * @param viewed Viewed object IDs keyed by file path
+   * @returns True if the file was viewed and has not changed since
+   */
+  isViewed(change: GitPullRequestChange, viewed: Map<string, string>): boolean {
+    const objectId = viewed.get(change.item.path);
+    return objectId !== undefined && objectId === change.item.objectId;
+  }
+
+  /**
+   * Mark a file as viewed or unviewed
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @param change File change to mark
+   * @param isViewed New viewed state
+   * @returns Promise resolving when the state is saved
+   */
+  async setViewed(
+    repositoryId: string,
+    pullRequestId: number,
+    change: GitPullRequestChange,
+    isViewed: boolean
+  ): Promise<void> {
+    const key = this.getKey(repositoryId, pullRequestId);
+    const viewed = await this.getViewedFiles(repositoryId, pullRequestId);
+    const path = change.item.path;
+    const previousObjectId = viewed.get(path);
+    const objectId = isViewed ? change.item.objectId : undefined;
+
+    setOrDelete(viewed, path, objectId);
+
+    // Serialize writes so quick successive checks don't overwrite each other
+    const previous = this.pendingWrites.get(key) || Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => this.save(repositoryId, pullRequestId, viewed));
+    this.pendingWrites.set(key, write);
+
+    try {
+      await write;
+    } catch (error) {
+      // Roll back unless a later change to the file replaced this one
+      if (viewed.get(path) === objectId) {
+        setOrDelete(viewed, path, previousObjectId);
+      }
+      throw error;
+    } finally {
+      if (this.pendingWrites.get(key) === write) {
+        this.pendingWrites.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Count how many of the changed files are viewed at their current version
+   *
+   * @param changes File changes of the pull request
+   * @param viewed Viewed object IDs keyed by file path
+   * @returns Review progress
+   */
+  getReviewProgress(
+    changes: GitPullRequestChange[],
+    viewed: Map<string, string>
+  ): ReviewProgress {
+    const files = changes.filter((change) => !change.item.isFolder);
+    return {
+      viewed: files.filter((change) => this.isViewed(change, viewed)).length,
+      total: files.length,
+    };
+  }
+
+  /**
+   * Persist the viewed state of a pull request
+   */
+  private async save(
+    repositoryId: string,
+    pullRequestId: number,
+    viewed: Map<string, string>
+  ): Promise<void> {
+    const propertyName = await this.getPropertyName(repositoryId);
+    await this.apiClient.updatePullRequestProperties(
+      repositoryId,
+      pullRequestId,
+      { [propertyName]: JSON.stringify(Object.fromEntries(viewed)) }
+    );
+  }
+
+  /**
+   * Get the property name holding the current user's viewed files. The user
+   * is looked up per repository since each profile may sign in as someone else.
+   */
+  private async getPropertyName(repositoryId: string): Promise<string> {
+    let userId = this.userIds.get(repositoryId);
+    if (!userId) {
+      userId = (await this.apiClient.getAuthenticatedUser(repositoryId)).id;
+      this.userIds.set(repositoryId, userId);
+    }
+    return `${ViewedFilesService.PROPERTY_PREFIX}${userId}`;
+  }
+
+  /**
+   * Parse a stored viewed files property value
+   */
+  private parse(value: string | undefined): Map<string, string> {
+    if (!value) {
+      return new Map();
+    }
+
+    try {
+      const parsed = JSON.parse(value) as Record<string, string>;
+      return new Map(Object.entries(parsed));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private getKey(repositoryId: string, pullRequestId: number): string {
+    return `${repositoryId}_${pullRequestId}`;
+  }
+}
+
+/**
+ * Set a file's viewed object ID, or delete it when there is none
+ */
+function setOrDelete(
+  viewed: Map<string, string>,
+  path: string,
+  objectId: string | undefined
+): void {
+  if (objectId === undefined) {
+    viewed.delete(path);
+  } else {
+    viewed.set(path, objectId);
+  }
+}
@@ -0,0 +1,203 @@
+import { AzureDevOpsApiClient } from "../api/AzureDevOpsApiClient";
+import { PullRequestOperationResult } from "./PullRequestService";
+import { PullRequest, WorkItem } from "../api/models";
+
+/**
+ * Flattened view of a work item for display
+ */
+export interface WorkItemSummary {
+  readonly id: number;
+  readonly type: string;
+  readonly title: string;
+  readonly state: string;
+  readonly assignedTo?: string;
+  readonly areaPath?: string;
+  readonly iterationPath?: string;
+  /** HTML description as stored by Azure Boards */
+  readonly description?: string;
+  readonly changedDate?: string;
+  readonly webUrl: string;
+}
+
+/**
+ * Work item service for listing, searching and linking the work items of a
+ * pull request through the Work Item Tracking API
+ */
+export class WorkItemService {
+  constructor(private readonly apiClient: AzureDevOpsApiClient) {}
+
+  /**
+   * Get the work items linked to a pull request
+   *
+   * @param repositoryId Repository ID
+   * @param pullRequestId Pull request ID
+   * @returns Promise resolving to linked work items, or an empty array on failure
+   */
+  async getLinkedWorkItems(
+    repositoryId: string,
+    pullRequestId: number
+  ): Promise<WorkItemSummary[]> {
+    try {
+      const refs = await this.apiClient.getPullRequestWorkItemRefs(
+        repositoryId,
+        pullRequestId
+      );
+      const workItems = await this.apiClient.getWorkItems(
+        repositoryId,
+        refs.map((ref) => Number(ref.id))
+      );
+      return workItems.map((workItem) => this.toSummary(repositoryId, workItem));
+    } catch (error) {
+      console.error("Failed to get linked work items:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Get a single work item
+   *
+   * @param repositoryId Repository whose project the work item belongs to
+   * @param workItemId Work item ID
+   * @returns Promise resolving to the work item, or null if it does not exist
+   */
+  async getWorkItem(
+    repositoryId: string,
+    workItemId: number
+  ): Promise<WorkItemSummary | null> {
+    try {
+      const [workItem] = await this.apiClient.getWorkItems(repositoryId, [
+        workItemId,
+      ]);
+      return workItem ? this.toSummary(repositoryId, workItem) : null;
+    } catch (error) {
+      console.error(`Failed to get work item ${workItemId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Search work items by ID or title
+   *
+   * @param repositoryId Repository whose project to search
+   * @param text Work item ID (optionally prefixed with "#") or title text
+   * @returns Promise resolving to matching work items, or an empty array on failure
+   */
+  async searchWorkItems(
+    repositoryId: string,
+    text: string
+  ): Promise<WorkItemSummary[]> {
+    const query = text.trim();
+    if (!query) {
+      return [];
+    }
+
+    const id = query.match(/^#?(\d+)$/);
+    if (id) {
+      const workItem = await this.getWorkItem(repositoryId, Number(id[1]));
+      return workItem ? [workItem] : [];
+    }
+
+    try {
+      const workItems = await this.apiClient.searchWorkItems(
+        repositoryId,
+        query
+      );
+      return workItems.map((workItem) => this.toSummary(repositoryId, workItem));
+    } catch (error) {
+      console.error("Failed to search work items:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Link a work item to a pull request
+   *
+   * @param pullRequest Pull request to link
+   * @param workItemId Work item ID
+   * @returns Promise resolving to operation result
+   */
+  async linkWorkItem(
+    pullRequest: PullRequest,
+    workItemId: number
+  ): Promise<PullRequestOperationResult> {
+    return this.runLinkOperation("Failed to link work item", () =>
+      this.apiClient.linkWorkItem(
+        pullRequest.repository.id,
+        pullRequest.pullRequestId,
+        pullRequest.repository.project.id,
+        workItemId
+      )
+    );
+  }
+
+  /**
+   * Remove the link between a work item and a pull request
+   *
+   * @param pullRequest Pull request to unlink
+   * @param workItemId Work item ID
+   * @returns Promise resolving to operation result
+   */
+  async unlinkWorkItem(
+    pullRequest: PullRequest,
+    workItemId: number
+  ): Promise<PullRequestOperationResult> {
+    return this.runLinkOperation("Failed to unlink work item", () =>
+      this.apiClient.unlinkWorkItem(
+        pullRequest.repository.id,
+        pullRequest.pullRequestId,
+        pullRequest.repository.project.id,
+        workItemId
+      )
+    );
+  }
+
+  /**
+   * Run a link operation and report its outcome
+   */
+  private async runLinkOperation(
+    failureMessage: string,
+    operation: () => Promise<unknown>
+  ): Promise<PullRequestOperationResult> {
+    try {
+      await operation();
+      return {
+        success: true,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : failureMessage,
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Flatten the fields of a work item
+   */
+  private toSummary(repositoryId: string, workItem: WorkItem): WorkItemSummary {
+    const field = (name: string) => {
+      const value = workItem.fields[name];
+      return typeof value === "string" ? value : undefined;
+    };
+    // Identity fields are objects, or display strings in older API versions
+    const assignedTo = workItem.fields["System.AssignedTo"] as
+      | string
+      | { displayName?: string }
+      | undefined;
+    return {
+      id: workItem.id,
+      type: field("System.WorkItemType") || "Work Item",
+      title: field("System.Title") || "",
+      state: field("System.State") || "",
+      assignedTo:
+        typeof assignedTo === "string" ? assignedTo : assignedTo?.displayName,
+      areaPath: field("System.AreaPath"),
+      iterationPath: field("System.IterationPath"),
+      description: field("System.Description"),
+      changedDate: field("System.ChangedDate"),
+      webUrl: `${this.apiClient.getProjectUrl(repositoryId)}/_workitems/edit/${workItem.id}`,
+    };
+  }
+}
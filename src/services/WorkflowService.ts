@@ -8,7 +8,14 @@ import {
 import { TelemetryService } from "./TelemetryService";
 import { MonitoringService } from "./MonitoringService";
 import { StateManager } from "./StateManager";
-import { PullRequest, CommentThread, GitRepository } from "../api/models";
+import { CreatePullRequestOptions } from "./PullRequestService";
+import { ReviewDraft } from "./ReviewDraftService";
+import {
+  PullRequest,
+  CommentThread,
+  GitRepository,
+  PullRequestVote,
+} from "../api/models";
 
 /**
  * Workflow step interface for tracking progress
@@ -64,6 +71,7 @@ export interface WorkflowResult {
 export type WorkflowType =
   | "pull_request_review"
   | "pull_request_creation"
+  | "review_submission"
   | "comment_management"
   | "repository_sync"
   | "authentication_setup"
@@ -209,13 +217,11 @@ export class WorkflowService implements vscode.Disposable {
    * Execute a pull request creation workflow
    */
   async executePullRequestCreationWorkflow(
-    sourceBranch: string,
-    targetBranch: string,
-    title: string,
-    description: string,
-    repositoryId?: string
+    options: CreatePullRequestOptions
   ): Promise<WorkflowResult> {
     return this.executeWorkflow("pull_request_creation", async (context) => {
+      const sourceBranch = options.sourceRefName.replace(/^refs\/heads\//, "");
+      const targetBranch = options.targetRefName.replace(/^refs\/heads\//, "");
       const steps = [
         {
           id: "validate_input",
@@ -233,7 +239,7 @@ export class WorkflowService implements vscode.Disposable {
               validation.errors.push("Source and target branches are required");
             }
 
-            if (!title?.trim()) {
+            if (!options.title?.trim()) {
               validation.isValid = false;
               validation.errors.push("Title is required");
             }
@@ -255,57 +261,126 @@ export class WorkflowService implements vscode.Disposable {
             return validation;
           },
         },
-        {
-          id: "check_conflicts",
-          name: "Check for Conflicts",
-          description: "Analyzing potential merge conflicts",
-          required: true,
-          execute: async () => {
-            // Placeholder for conflict detection
-            const conflictCheck = {
-              hasConflicts: false,
-              conflictFiles: [],
-            };
-            context.data.conflictCheck = conflictCheck;
-            return conflictCheck;
-          },
-        },
         {
           id: "create_pr",
           name: "Create Pull Request",
           description: "Creating the pull request in Azure DevOps",
           required: true,
           execute: async () => {
-            // This would call the actual PR creation API
-            const prData = {
-              sourceBranch,
-              targetBranch,
-              title,
-              description,
-              repositoryId,
-              createdDate: new Date(),
-            };
-            context.data.createdPR = prData;
-            return prData;
+            const result = await this.integrationService.createPullRequest(
+              options
+            );
+            if (!result.success || !result.pullRequest) {
+              throw new Error(result.error || "Failed to create pull request");
+            }
+            context.data.createdPR = result.pullRequest;
+            return result.pullRequest;
           },
         },
-        {
-          id: "setup_reviewers",
-          name: "Set Up Reviewers",
-          description: "Configuring reviewers and approval requirements",
+      ];
+
+      return this.executeSteps(context, steps);
+    });
+  }
+
+  /**
+   * Execute a review submission workflow that posts the drafts of a pending
+   * review in order and then casts the vote
+   *
+   * Each draft is a separate optional step, so one failing comment does not
+   * stop the others. The IDs of the posted drafts are returned in
+   * `data.postedDraftIds` and the failures in `data.failedDrafts`.
+   */
+  async executeReviewSubmissionWorkflow(
+    repositoryId: string,
+    pullRequestId: number,
+    drafts: readonly ReviewDraft[],
+    vote?: PullRequestVote
+  ): Promise<WorkflowResult> {
+    return this.executeWorkflow("review_submission", async (context) => {
+      context.data.postedDraftIds = [] as string[];
+      context.data.failedDrafts = [] as Array<{
+        draftId: string;
+        error: string;
+      }>;
+
+      const steps = drafts.map((draft, index) => {
+        const name = draft.threadId
+          ? `Reply to thread ${draft.threadId}`
+          : draft.filePath
+          ? `Comment on ${draft.filePath}${draft.line ? `:${draft.line}` : ""}`
+          : `Comment ${index + 1}`;
+        return {
+          id: `post_draft_${index}`,
+          name,
+          description: `Posting comment ${index + 1} of ${drafts.length}`,
           required: false,
           execute: async () => {
-            // Placeholder for reviewer configuration
-            const reviewerSetup = {
-              reviewers: [],
-              requiredReviewers: 1,
-              autoComplete: false,
-            };
-            context.data.reviewerSetup = reviewerSetup;
-            return reviewerSetup;
+            try {
+              if (draft.threadId) {
+                const result = await this.integrationService.addComment(
+                  repositoryId,
+                  pullRequestId,
+                  draft.content,
+                  draft.threadId
+                );
+                if (!result.success) {
+                  throw new Error(result.error || "Failed to post reply");
+                }
+              } else {
+                const thread =
+                  await this.integrationService.createCommentThread(
+                    repositoryId,
+                    pullRequestId,
+                    {
+                      content: draft.content,
+                      filePath: draft.filePath,
+                      line: draft.line,
+                      endLine: draft.endLine,
+                      side: draft.side,
+                      iterationId: draft.iterationId,
+                    }
+                  );
+                if (!thread) {
+                  throw new Error("Failed to create comment thread");
+                }
+              }
+            } catch (error) {
+              const message =
+                error instanceof Error ? error.message : String(error);
+              context.data.failedDrafts.push({
+                draftId: draft.id,
+                error: message,
+              });
+              throw new Error(`${name}: ${message}`);
+            }
+
+            context.data.postedDraftIds.push(draft.id);
           },
-        },
-      ];
+        };
+      });
+
+      if (vote !== undefined) {
+        steps.push({
+          id: "submit_vote",
+          name: "Submit Vote",
+          description: "Casting the review vote",
+          required: false,
+          execute: async () => {
+            const result = await this.integrationService.votePullRequest(
+              repositoryId,
+              pullRequestId,
+              vote
+            );
+            if (!result.success) {
+              throw new Error(
+                `Vote: ${result.error || "Failed to vote on pull request"}`
+              );
+            }
+            context.data.voteSubmitted = true;
+          },
+        });
+      }
 
       return this.executeSteps(context, steps);
     });
@@ -995,7 +1070,16 @@ export class WorkflowService implements vscode.Disposable {
       retryDelay: 2000,
       parallelSteps: false,
       enableProgress: true,
-      requireConfirmation: true,
+      requireConfirmation: false, // Confirmed by submitting the create form
+    });
+
+    this.workflowConfigs.set("review_submission", {
+      timeout: 120000, // 2 minutes
+      maxRetries: 0, // A retried comment may already have been posted
+      retryDelay: 1000,
+      parallelSteps: false,
+      enableProgress: true,
+      requireConfirmation: false,
     });
 
     this.workflowConfigs.set("comment_management", {
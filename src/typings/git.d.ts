@@ -0,0 +1,125 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Subset of the API exported by the built-in `vscode.git` extension
+ * (extensions/git/src/api/git.d.ts in microsoft/vscode), limited to what
+ * this extension uses.
+ */
+
+import { Uri, Event } from "vscode";
+
+export const enum RefType {
+  Head,
+  RemoteHead,
+  Tag,
+}
+
+export interface Ref {
+  readonly type: RefType;
+  readonly name?: string;
+  readonly commit?: string;
+  readonly remote?: string;
+}
+
+export interface UpstreamRef {
+  readonly remote: string;
+  readonly name: string;
+}
+
+export interface Branch extends Ref {
+  readonly upstream?: UpstreamRef;
+  readonly ahead?: number;
+  readonly behind?: number;
+}
+
+export interface Commit {
+  readonly hash: string;
+  readonly message: string;
+  readonly parents: string[];
+  readonly authorDate?: Date;
+  readonly authorName?: string;
+  readonly authorEmail?: string;
+}
+
+export interface Remote {
+  readonly name: string;
+  readonly fetchUrl?: string;
+  readonly pushUrl?: string;
+  readonly isReadOnly: boolean;
+}
+
+export interface Change {
+  readonly uri: Uri;
+  readonly originalUri: Uri;
+  readonly renameUri: Uri | undefined;
+}
+
+export interface RepositoryState {
+  readonly HEAD: Branch | undefined;
+  readonly refs: Ref[];
+  readonly remotes: Remote[];
+  readonly mergeChanges: Change[];
+  readonly indexChanges: Change[];
+  readonly workingTreeChanges: Change[];
+  readonly onDidChange: Event<void>;
+}
+
+export interface LogOptions {
+  readonly maxEntries?: number;
+  readonly path?: string;
+  readonly range?: string;
+}
+
+export interface FetchOptions {
+  remote?: string;
+  ref?: string;
+  all?: boolean;
+  prune?: boolean;
+  depth?: number;
+}
+
+export interface BranchQuery {
+  readonly remote?: boolean;
+  readonly pattern?: string;
+  readonly count?: number;
+  readonly contains?: string;
+}
+
+export interface Repository {
+  readonly rootUri: Uri;
+  readonly state: RepositoryState;
+
+  getBranch(name: string): Promise<Branch>;
+  getBranches(query: BranchQuery): Promise<Ref[]>;
+  createBranch(name: string, checkout: boolean, ref?: string): Promise<void>;
+  setBranchUpstream(name: string, upstream: string): Promise<void>;
+  checkout(treeish: string): Promise<void>;
+  fetch(options?: FetchOptions): Promise<void>;
+  fetch(remote?: string, ref?: string, depth?: number): Promise<void>;
+  pull(unshallow?: boolean): Promise<void>;
+  push(remoteName?: string, branchName?: string, setUpstream?: boolean): Promise<void>;
+  log(options?: LogOptions): Promise<Commit[]>;
+  status(): Promise<void>;
+}
+
+export type APIState = "uninitialized" | "initialized";
+
+export interface Git {
+  readonly path: string;
+}
+
+export interface API {
+  readonly state: APIState;
+  readonly git: Git;
+  readonly onDidChangeState: Event<APIState>;
+  readonly repositories: Repository[];
+  getRepository(uri: Uri): Repository | null;
+}
+
+export interface GitExtension {
+  readonly enabled: boolean;
+  getAPI(version: 1): API;
+}
@@ -0,0 +1,173 @@
+import { CommentThread, PullRequest } from "../api/models";
+
+/**
+ * Part of a pull request that changed between two versions
+ */
+export type PullRequestChange =
+  | "status"
+  | "title"
+  | "description"
+  | "draft"
+  | "mergeStatus"
+  | "reviewers"
+  | "votes"
+  | "sourceCommit"
+  | "targetCommit";
+
+/**
+ * Threads that changed between two versions of a pull request's threads
+ */
+export interface CommentThreadChanges {
+  /** Threads that are new */
+  readonly added: number[];
+  /** Existing threads with new comments */
+  readonly replied: number[];
+  /** Existing threads updated otherwise, e.g. status changes and edits */
+  readonly updated: number[];
+  /** Threads that are gone or were deleted */
+  readonly removed: number[];
+}
+
+/**
+ * Compare two versions of a pull request
+ *
+ * @param before Known version
+ * @param after Latest version
+ * @returns Changed parts, empty if nothing relevant changed
+ */
+export function diffPullRequest(
+  before: PullRequest,
+  after: PullRequest
+): PullRequestChange[] {
+  const changes: PullRequestChange[] = [];
+
+  if (before.status !== after.status) {
+    changes.push("status");
+  }
+  if (before.title !== after.title) {
+    changes.push("title");
+  }
+  if ((before.description || "") !== (after.description || "")) {
+    changes.push("description");
+  }
+  if (!!before.isDraft !== !!after.isDraft) {
+    changes.push("draft");
+  }
+  if (before.mergeStatus !== after.mergeStatus) {
+    changes.push("mergeStatus");
+  }
+
+  const beforeReviewers = new Map(
+    (before.reviewers || []).map((reviewer) => [reviewer.id, reviewer])
+  );
+  const afterReviewers = after.reviewers || [];
+  if (
+    beforeReviewers.size !== afterReviewers.length ||
+    afterReviewers.some((reviewer) => !beforeReviewers.has(reviewer.id))
+  ) {
+    changes.push("reviewers");
+  }
+  if (
+    afterReviewers.some((reviewer) => {
+      const previous = beforeReviewers.get(reviewer.id);
+      return (
+        !!previous &&
+        (previous.vote !== reviewer.vote ||
+          !!previous.isRequired !== !!reviewer.isRequired)
+      );
+    })
+  ) {
+    changes.push("votes");
+  }
+
+  if (
+    before.lastMergeSourceCommit?.commitId !==
+    after.lastMergeSourceCommit?.commitId
+  ) {
+    changes.push("sourceCommit");
+  }
+  if (
+    before.lastMergeTargetCommit?.commitId !==
+    after.lastMergeTargetCommit?.commitId
+  ) {
+    changes.push("targetCommit");
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two versions of a pull request's comment threads by their
+ * `lastUpdatedDate` and comment count
+ *
+ * @param before Known threads
+ * @param after Latest threads
+ * @returns Changed threads by kind of change
+ */
+export function diffCommentThreads(
+  before: readonly CommentThread[],
+  after: readonly CommentThread[]
+): CommentThreadChanges {
+  const known = new Map(before.map((thread) => [thread.id, thread]));
+  const changes: CommentThreadChanges = {
+    added: [],
+    replied: [],
+    updated: [],
+    removed: [],
+  };
+
+  for (const thread of after) {
+    const previous = known.get(thread.id);
+    known.delete(thread.id);
+
+    if (thread.isDeleted) {
+      if (previous && !previous.isDeleted) {
+        changes.removed.push(thread.id);
+      }
+    } else if (!previous || previous.isDeleted) {
+      changes.added.push(thread.id);
+    } else if (countComments(thread) > countComments(previous)) {
+      changes.replied.push(thread.id);
+    } else if (
+      getTime(thread.lastUpdatedDate) !== getTime(previous.lastUpdatedDate) ||
+      thread.status !== previous.status
+    ) {
+      changes.updated.push(thread.id);
+    }
+  }
+
+  for (const [threadId, previous] of known) {
+    if (!previous.isDeleted) {
+      changes.removed.push(threadId);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Check whether a thread comparison found any change
+ */
+export function hasThreadChanges(changes: CommentThreadChanges): boolean {
+  return (
+    changes.added.length +
+      changes.replied.length +
+      changes.updated.length +
+      changes.removed.length >
+    0
+  );
+}
+
+/**
+ * Count the comments that were not deleted
+ */
+function countComments(thread: CommentThread): number {
+  return thread.comments.filter((comment) => !comment.isDeleted).length;
+}
+
+/**
+ * Get the time of a date that may have been serialized to a string
+ */
+function getTime(date: Date | string | undefined): number | undefined {
+  return date ? new Date(date).getTime() : undefined;
+}
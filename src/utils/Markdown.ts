@@ -0,0 +1,424 @@
+/**
+ * Options for rendering Azure DevOps markdown
+ */
+export interface MarkdownRenderOptions {
+  /** Display names of mentioned identities, keyed by lowercase identity ID */
+  readonly mentions?: ReadonlyMap<string, string>;
+}
+
+const MENTION =
+  /@<([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})>/gi;
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const PLACEHOLDER = /\uE000(\d+)\uE000/g;
+
+/**
+ * Escape text for use in HTML content and attribute values
+ *
+ * @param text Text to escape
+ * @returns Escaped text
+ */
+export function escapeHtml(text: string): string {
+  const entities: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#039;",
+  };
+  return text.replace(/[&<>"']/g, (char) => entities[char]);
+}
+
+/**
+ * Find the identities mentioned with `@<GUID>` in markdown
+ *
+ * @param markdown Markdown text
+ * @returns Unique lowercase identity IDs
+ */
+export function findMentions(markdown: string): string[] {
+  return [
+    ...new Set(
+      Array.from(markdown.matchAll(MENTION), (match) => match[1].toLowerCase())
+    ),
+  ];
+}
+
+/**
+ * Replace `@<GUID>` mentions with `@Display Name` for places that render
+ * markdown themselves
+ *
+ * @param markdown Markdown text
+ * @param mentions Display names keyed by lowercase identity ID
+ * @returns Markdown with resolved mentions; unknown identities are left as is
+ */
+export function replaceMentions(
+  markdown: string,
+  mentions: ReadonlyMap<string, string>
+): string {
+  return markdown.replace(MENTION, (mention, id: string) => {
+    const name = mentions.get(id.toLowerCase());
+    return name ? `@${name}` : mention;
+  });
+}
+
+/**
+ * Render Azure DevOps flavoured markdown to HTML for a webview
+ *
+ * Raw HTML in the markdown is escaped, so the output only contains the tags
+ * produced here. Links are limited to http(s) and mailto URLs, images to
+ * https and inline data URLs. `#123` work item and `!456` pull request
+ * references become links carrying `data-type` attributes for the webview to
+ * handle, and ```` ```suggestion ```` blocks are shown as suggested changes.
+ *
+ * @param markdown Markdown text
+ * @param options Render options
+ * @returns Sanitized HTML
+ */
+export function renderMarkdown(
+  markdown: string,
+  options: MarkdownRenderOptions = {}
+): string {
+  return renderBlocks(
+    markdown.replace(/\uE000/g, "").replace(/\r\n?/g, "\n").split("\n"),
+    options
+  );
+}
+
+/**
+ * Render block-level markdown
+ */
+function renderBlocks(lines: string[], options: MarkdownRenderOptions): string {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      html.push(renderCodeBlock(body, fence[2].toLowerCase()));
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2], options)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      html.push("<hr>");
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(/^\s*> ?/, ""));
+        i++;
+      }
+      html.push(`<blockquote>${renderBlocks(quoted, options)}</blockquote>`);
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const end = findEnd(lines, i + 2, (row) => row.includes("|"));
+      html.push(renderTable(lines.slice(i, end), options));
+      i = end;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = renderList(lines, i, options);
+      html.push(list.html);
+      i = list.end;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    html.push(
+      `<p>${paragraph.map((text) => renderInline(text, options)).join("<br>")}</p>`
+    );
+  }
+
+  return html.join("\n");
+}
+
+/**
+ * Check whether a line starts a block other than a paragraph
+ */
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    isTableStart(lines, index)
+  );
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return (
+    lines[index].includes("|") &&
+    index + 1 < lines.length &&
+    lines[index + 1].includes("-") &&
+    TABLE_SEPARATOR.test(lines[index + 1])
+  );
+}
+
+/**
+ * Find the index after the last consecutive line matching a predicate
+ */
+function findEnd(
+  lines: string[],
+  start: number,
+  predicate: (line: string) => boolean
+): number {
+  let end = start;
+  while (end < lines.length && lines[end].trim() && predicate(lines[end])) {
+    end++;
+  }
+  return end;
+}
+
+/**
+ * Render a fenced code block, or a suggested change for `suggestion` blocks
+ */
+function renderCodeBlock(body: string[], language: string): string {
+  if (language === "suggestion") {
+    const lines = body.length
+      ? body
+          .map(
+            (line) => `<div class="suggestion-line">+${escapeHtml(line)}</div>`
+          )
+          .join("")
+      : '<div class="suggestion-line removed">Remove the commented lines</div>';
+    return `<div class="suggestion"><div class="suggestion-header">Suggested change</div>${lines}</div>`;
+  }
+
+  const languageClass = language ? ` class="language-${language}"` : "";
+  return `<pre><code${languageClass}>${escapeHtml(body.join("\n"))}</code></pre>`;
+}
+
+/**
+ * Render a pipe table; the second line holds the column alignments
+ */
+function renderTable(rows: string[], options: MarkdownRenderOptions): string {
+  const alignments = splitRow(rows[1]).map((cell) => {
+    if (/^:-+:$/.test(cell)) {
+      return "center";
+    }
+    if (/-+:$/.test(cell)) {
+      return "right";
+    }
+    return /^:/.test(cell) ? "left" : undefined;
+  });
+  const renderRow = (row: string, tag: "th" | "td") =>
+    `<tr>${splitRow(row)
+      .map((cell, column) => {
+        const align = alignments[column];
+        const style = align ? ` style="text-align: ${align}"` : "";
+        return `<${tag}${style}>${renderInline(cell, options)}</${tag}>`;
+      })
+      .join("")}</tr>`;
+
+  return `<table><thead>${renderRow(rows[0], "th")}</thead><tbody>${rows
+    .slice(2)
+    .map((row) => renderRow(row, "td"))
+    .join("")}</tbody></table>`;
+}
+
+function splitRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/(?<!\\)\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/**
+ * Render a list starting at a line, including nested lists and indented
+ * continuation lines
+ */
+function renderList(
+  lines: string[],
+  start: number,
+  options: MarkdownRenderOptions
+): { html: string; end: number } {
+  const first = lines[start].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let contentColumn = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = line.match(LIST_ITEM);
+    if (item && item[1].length === indent && /\d/.test(item[2]) === ordered) {
+      items.push([item[3]]);
+      contentColumn = item[1].length + item[2].length + 1;
+      i++;
+      continue;
+    }
+
+    const lineIndent = line.length - line.trimStart().length;
+    if (line.trim() && lineIndent > indent) {
+      items[items.length - 1].push(line.slice(Math.min(lineIndent, contentColumn)));
+      i++;
+      continue;
+    }
+
+    // A blank line only ends the list if nothing belonging to it follows
+    const next = lines[i + 1];
+    const nextItem = next?.match(LIST_ITEM);
+    const continues =
+      !line.trim() &&
+      next !== undefined &&
+      ((nextItem && nextItem[1].length === indent) ||
+        (next.trim() && next.length - next.trimStart().length > indent));
+    if (!continues) {
+      break;
+    }
+    items[items.length - 1].push("");
+    i++;
+  }
+
+  const tag = ordered ? "ol" : "ul";
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const startAttribute = startNumber !== 1 ? ` start="${startNumber}"` : "";
+  const html = items
+    .map(([text, ...rest]) => {
+      const task = text.match(/^\[([ xX])\]\s+(.*)$/);
+      const label = task
+        ? `<input type="checkbox" disabled${task[1] === " " ? "" : " checked"}> ${renderInline(task[2], options)}`
+        : renderInline(text, options);
+      const nested = rest.some((line) => line.trim())
+        ? renderBlocks(rest, options)
+        : "";
+      return `<li>${label}${nested}</li>`;
+    })
+    .join("");
+
+  return { html: `<${tag}${startAttribute}>${html}</${tag}>`, end: i };
+}
+
+/**
+ * Render inline markdown
+ *
+ * Elements whose content must not be processed further are replaced by
+ * placeholders, the remaining text is escaped and emphasis is applied, then
+ * the placeholders are restored.
+ */
+function renderInline(text: string, options: MarkdownRenderOptions): string {
+  const tokens: string[] = [];
+  const stash = (html: string) => `\uE000${tokens.push(html) - 1}\uE000`;
+
+  const html = text
+    .replace(/(`+)(.*?[^`])\1(?!`)/g, (_match, _ticks, code: string) =>
+      stash(`<code>${escapeHtml(code.trim())}</code>`)
+    )
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~>@])/g, (_match, char: string) =>
+      stash(escapeHtml(char))
+    )
+    .replace(
+      /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"([^"]*)")?\s*\)/g,
+      (_match, alt: string, url: string, title?: string) =>
+        stash(
+          isSafeImageUrl(url)
+            ? `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}"${renderTitle(title)}>`
+            : escapeHtml(alt)
+        )
+    )
+    .replace(
+      /\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"([^"]*)")?\s*\)/g,
+      (_match, label: string, url: string, title?: string) => {
+        const content = renderEmphasis(escapeHtml(label));
+        return stash(
+          isSafeLinkUrl(url)
+            ? `<a href="${escapeHtml(url)}"${renderTitle(title)}>${content}</a>`
+            : content
+        );
+      }
+    )
+    .replace(/\bhttps?:\/\/[^\s<>"'`\uE000]*[^\s<>"'`\uE000.,;:!?)\]]/g, (url) =>
+      stash(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`)
+    )
+    .replace(MENTION, (mention, id: string) => {
+      const name = options.mentions?.get(id.toLowerCase());
+      return stash(
+        `<span class="mention" title="${escapeHtml(id)}">${escapeHtml(
+          name ? `@${name}` : mention
+        )}</span>`
+      );
+    })
+    .replace(
+      /(^|[^\w&#!/])([#!])(\d+)\b/g,
+      (_match, prefix: string, sigil: string, id: string) =>
+        prefix +
+        stash(
+          sigil === "#"
+            ? `<a class="work-item-link" data-type="openWorkItem" data-work-item-id="${id}">#${id}</a>`
+            : `<a class="pull-request-link" data-type="openPullRequest" data-pull-request-id="${id}">!${id}</a>`
+        )
+    );
+
+  let rendered = renderEmphasis(escapeHtml(html));
+  // Link labels may contain placeholders of their own
+  while (rendered.includes("\uE000")) {
+    rendered = rendered.replace(PLACEHOLDER, (_match, index: string) =>
+      tokens[Number(index)]
+    );
+  }
+  return rendered;
+}
+
+function renderEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(?=\S)(.*?\S)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|\W)__(?=\S)(.*?\S)__(?!\w)/g, "$1<strong>$2</strong>")
+    .replace(/\*(?=\S)(.*?\S)\*/g, "<em>$1</em>")
+    .replace(/(^|\W)_(?=\S)(.*?\S)_(?!\w)/g, "$1<em>$2</em>")
+    .replace(/~~(?=\S)(.*?\S)~~/g, "<del>$1</del>");
+}
+
+function renderTitle(title?: string): string {
+  return title ? ` title="${escapeHtml(title)}"` : "";
+}
+
+function isSafeLinkUrl(url: string): boolean {
+  return /^(https?:|mailto:)/i.test(url);
+}
+
+function isSafeImageUrl(url: string): boolean {
+  return (
+    /^https:/i.test(url) ||
+    /^data:image\/(png|gif|jpe?g|webp);base64,[a-z0-9+/=]+$/i.test(url)
+  );
+}
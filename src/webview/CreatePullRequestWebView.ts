@@ -0,0 +1,807 @@
+import { randomBytes } from "crypto";
+import * as vscode from "vscode";
+import {
+  GitCheckoutService,
+  LocalRepositoryMatch,
+} from "../services/GitCheckoutService";
+import { PullRequestService } from "../services/PullRequestService";
+import {
+  WorkItemService,
+  WorkItemSummary,
+} from "../services/WorkItemService";
+import { WorkflowService } from "../services/WorkflowService";
+import { TelemetryService } from "../services/TelemetryService";
+import { IdentityQuickPick } from "../providers/IdentityQuickPick";
+import { WorkItemQuickPick } from "../providers/WorkItemQuickPick";
+import { GitRepository, IdentitySearchResult } from "../api/models";
+import { Commit } from "../typings/git";
+import { ErrorHandler, ErrorCategory } from "../utils/ErrorHandler";
+
+/**
+ * Values of the create pull request form
+ */
+interface CreatePullRequestForm {
+  readonly sourceBranch: string;
+  readonly targetBranch: string;
+  readonly title: string;
+  readonly description: string;
+  readonly labels: string;
+  readonly isDraft: boolean;
+}
+
+/**
+ * Message posted by the create pull request form
+ */
+interface CreatePullRequestMessage {
+  readonly type: string;
+  readonly sourceBranch?: string;
+  readonly targetBranch?: string;
+  readonly id?: string | number;
+  readonly form?: CreatePullRequestForm;
+}
+
+/**
+ * WebView form creating a pull request from the state of a local clone
+ */
+export class CreatePullRequestWebView implements vscode.Disposable {
+  private readonly panel: vscode.WebviewPanel;
+  private readonly errorHandler: ErrorHandler;
+  private reviewers: IdentitySearchResult[] = [];
+  private workItems: WorkItemSummary[] = [];
+  private commits: Commit[] = [];
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly repository: GitRepository,
+    private readonly match: LocalRepositoryMatch,
+    private readonly gitCheckoutService: GitCheckoutService,
+    private readonly pullRequestService: PullRequestService,
+    private readonly workItemService: WorkItemService,
+    private readonly workflowService: WorkflowService,
+    private readonly telemetryService: TelemetryService
+  ) {
+    this.errorHandler = ErrorHandler.getInstance(telemetryService);
+
+    this.panel = vscode.window.createWebviewPanel(
+      "createPullRequest",
+      `Create Pull Request: ${repository.name}`,
+      vscode.ViewColumn.Active,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+
+    this.panel.webview.html = this.getHtmlContent();
+    this.setupEventListeners();
+    this.loadFormData();
+  }
+
+  /**
+   * Setup webview event listeners
+   */
+  private setupEventListeners(): void {
+    this.disposables.push(
+      this.panel.onDidDispose(() => this.dispose()),
+      this.panel.webview.onDidReceiveMessage(async (message) => {
+        try {
+          await this.handleWebviewMessage(message);
+        } catch (error) {
+          this.errorHandler.handleError(
+            error instanceof Error ? error : String(error),
+            ErrorCategory.UI
+          );
+        }
+      })
+    );
+  }
+
+  /**
+   * Handle messages from webview
+   */
+  private async handleWebviewMessage(
+    message: CreatePullRequestMessage
+  ): Promise<void> {
+    switch (message.type) {
+      case "branchesChanged":
+        await this.loadBranchState(
+          message.sourceBranch!,
+          message.targetBranch!
+        );
+        break;
+      case "push":
+        await this.pushBranch(message.sourceBranch!, message.targetBranch!);
+        break;
+      case "addReviewer":
+        await this.addReviewer();
+        break;
+      case "removeReviewer":
+        this.reviewers = this.reviewers.filter(
+          (reviewer) => reviewer.id !== message.id
+        );
+        this.postSelections();
+        break;
+      case "addWorkItem":
+        await this.addWorkItem();
+        break;
+      case "removeWorkItem":
+        this.workItems = this.workItems.filter(
+          (workItem) => workItem.id !== message.id
+        );
+        this.postSelections();
+        break;
+      case "create":
+        await this.createPullRequest(message.form!);
+        break;
+      case "cancel":
+        this.panel.dispose();
+        break;
+      default:
+        console.warn("Unknown message type:", message.type);
+    }
+  }
+
+  /**
+   * Pre-fill the form from the local branch, remote branches and template
+   */
+  private async loadFormData(): Promise<void> {
+    try {
+      const localRepository = this.match.repository;
+      const [localBranches, remoteBranches] = await Promise.all([
+        this.gitCheckoutService.getLocalBranches(localRepository),
+        this.gitCheckoutService.getRemoteBranches(this.match),
+      ]);
+
+      const currentBranch =
+        this.gitCheckoutService.getCurrentBranch(localRepository) || "";
+      // Empty repositories have no default branch
+      const defaultBranch = (this.repository.defaultBranch || "").replace(
+        /^refs\/heads\//,
+        ""
+      );
+      const targetBranch = remoteBranches.includes(defaultBranch)
+        ? defaultBranch
+        : remoteBranches[0] || defaultBranch;
+
+      this.commits = await this.gitCheckoutService.getCommits(
+        this.match,
+        currentBranch,
+        targetBranch
+      );
+      const template = await this.gitCheckoutService.readPullRequestTemplate(
+        localRepository,
+        targetBranch
+      );
+
+      this.panel.webview.postMessage({
+        type: "formLoaded",
+        data: {
+          localBranches,
+          remoteBranches,
+          sourceBranch: currentBranch,
+          targetBranch,
+          title: this.getDefaultTitle(currentBranch),
+          description: template ?? this.getCommitSummary(),
+          commitSummary: this.getCommitSummary(),
+          commitCount: this.commits.length,
+          pushState: currentBranch
+            ? await this.gitCheckoutService.getPushState(
+                this.match,
+                currentBranch
+              )
+            : undefined,
+        },
+      });
+    } catch (error) {
+      this.errorHandler.handleError(
+        error instanceof Error ? error : String(error),
+        ErrorCategory.UI
+      );
+      this.panel.webview.postMessage({
+        type: "error",
+        error:
+          error instanceof Error ? error.message : "Failed to read git state",
+      });
+    }
+  }
+
+  /**
+   * Refresh the commits and push state after a branch selection changed
+   */
+  private async loadBranchState(
+    sourceBranch: string,
+    targetBranch: string
+  ): Promise<void> {
+    this.commits = await this.gitCheckoutService.getCommits(
+      this.match,
+      sourceBranch,
+      targetBranch
+    );
+    this.panel.webview.postMessage({
+      type: "branchState",
+      data: {
+        commitSummary: this.getCommitSummary(),
+        commitCount: this.commits.length,
+        pushState: await this.gitCheckoutService.getPushState(
+          this.match,
+          sourceBranch
+        ),
+      },
+    });
+  }
+
+  /**
+   * Push the source branch to the matching remote
+   */
+  private async pushBranch(
+    sourceBranch: string,
+    targetBranch: string
+  ): Promise<void> {
+    try {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Pushing ${sourceBranch} to ${this.match.remote.name}...`,
+        },
+        () => this.gitCheckoutService.pushBranch(this.match, sourceBranch)
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to push ${sourceBranch}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    await this.loadBranchState(sourceBranch, targetBranch);
+  }
+
+  /**
+   * Let the user pick a reviewer to add
+   */
+  private async addReviewer(): Promise<void> {
+    const identity = await new IdentityQuickPick(
+      this.pullRequestService,
+      this.repository.id
+    ).pick(
+      "Add Reviewer",
+      new Set(this.reviewers.map((reviewer) => reviewer.id))
+    );
+    if (identity) {
+      this.reviewers.push(identity);
+      this.postSelections();
+    }
+  }
+
+  /**
+   * Let the user pick a work item to link
+   */
+  private async addWorkItem(): Promise<void> {
+    const workItem = await new WorkItemQuickPick(
+      this.workItemService,
+      this.repository.id
+    ).pick(
+      "Link Work Item",
+      new Set(this.workItems.map((linked) => linked.id))
+    );
+    if (workItem) {
+      this.workItems.push(workItem);
+      this.postSelections();
+    }
+  }
+
+  /**
+   * Send the selected reviewers and work items to the webview
+   */
+  private postSelections(): void {
+    this.panel.webview.postMessage({
+      type: "selectionsChanged",
+      data: {
+        reviewers: this.reviewers.map((reviewer) => ({
+          id: reviewer.id,
+          label: reviewer.displayName,
+        })),
+        workItems: this.workItems.map((workItem) => ({
+          id: workItem.id,
+          label: `${workItem.type} ${workItem.id}: ${workItem.title}`,
+        })),
+      },
+    });
+  }
+
+  /**
+   * Validate the branch state and create the pull request
+   */
+  private async createPullRequest(
+    form: CreatePullRequestForm
+  ): Promise<void> {
+    const pushState = await this.gitCheckoutService.getPushState(
+      this.match,
+      form.sourceBranch
+    );
+    if (!pushState.isPublished) {
+      this.panel.webview.postMessage({
+        type: "error",
+        error: `Push ${form.sourceBranch} before creating the pull request.`,
+      });
+      return;
+    }
+    if (pushState.ahead > 0) {
+      const choice = await vscode.window.showWarningMessage(
+        `${pushState.ahead} local commit(s) on ${form.sourceBranch} are not pushed and will not be part of the pull request.`,
+        { modal: true },
+        "Create Anyway"
+      );
+      if (choice !== "Create Anyway") {
+        return;
+      }
+    }
+
+    const result = await this.workflowService.executePullRequestCreationWorkflow(
+      {
+        repositoryId: this.repository.id,
+        sourceRefName: form.sourceBranch,
+        targetRefName: form.targetBranch,
+        title: form.title.trim(),
+        description: form.description,
+        reviewers: this.reviewers.map((reviewer) => reviewer.id),
+        workItemRefs: this.workItems.map((workItem) => String(workItem.id)),
+        labels: form.labels
+          .split(",")
+          .map((label) => label.trim())
+          .filter((label) => label.length > 0),
+        isDraft: form.isDraft,
+      }
+    );
+
+    const pullRequest = result.data.createdPR;
+    if (result.status !== "success" || !pullRequest) {
+      this.panel.webview.postMessage({
+        type: "error",
+        error: result.errors.join("\n") || "Failed to create pull request",
+      });
+      return;
+    }
+
+    this.telemetryService.trackEvent("pullRequestCreatedFromForm", {
+      reviewers: this.reviewers.length.toString(),
+      workItems: this.workItems.length.toString(),
+    });
+
+    this.panel.dispose();
+    await vscode.commands.executeCommand("azureDevOps.refreshPullRequests");
+    const choice = await vscode.window.showInformationMessage(
+      `Created pull request #${pullRequest.pullRequestId}: ${pullRequest.title}`,
+      "Open"
+    );
+    if (choice === "Open") {
+      await vscode.commands.executeCommand("azureDevOps.openPullRequest", {
+        repository: this.repository,
+        pullRequest,
+      });
+    }
+  }
+
+  /**
+   * Use the only commit's subject as title, otherwise the branch name
+   */
+  private getDefaultTitle(sourceBranch: string): string {
+    if (this.commits.length === 1) {
+      return this.commits[0].message.split("\n")[0];
+    }
+    const name = sourceBranch.split("/").pop() || sourceBranch;
+    const words = name.replace(/[-_]+/g, " ").trim();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  /**
+   * List the commit subjects of the source branch, oldest first
+   */
+  private getCommitSummary(): string {
+    return [...this.commits]
+      .reverse()
+      .map((commit) => `- ${commit.message.split("\n")[0]}`)
+      .join("\n");
+  }
+
+  /**
+   * Get HTML content for the webview
+   */
+  private getHtmlContent(): string {
+    const cspSource = this.panel.webview.cspSource;
+    const nonce = randomBytes(16).toString("base64");
+
+    return `
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Create Pull Request</title>
+                <style>
+                    ${this.getCss()}
+                </style>
+            </head>
+            <body>
+                <h1>Create Pull Request</h1>
+                <div id="error" class="banner banner-error hidden"></div>
+                <div id="pushWarning" class="banner banner-warning hidden">
+                    <span id="pushWarningText"></span>
+                    <button class="btn btn-secondary" data-action="push">Push Branch</button>
+                </div>
+
+                <div class="branches">
+                    <label>Source
+                        <select id="sourceBranch"></select>
+                    </label>
+                    <span class="arrow">→</span>
+                    <label>Target
+                        <select id="targetBranch"></select>
+                    </label>
+                    <span id="commitCount" class="hint"></span>
+                </div>
+
+                <label>Title
+                    <input id="title" type="text" placeholder="Pull request title">
+                </label>
+
+                <label>Description
+                    <textarea id="description" rows="12" placeholder="Describe the changes"></textarea>
+                </label>
+                <button class="btn btn-secondary" data-action="appendCommits">Append Commit Messages</button>
+
+                <div class="section">
+                    <div class="section-header">
+                        <h2>Reviewers</h2>
+                        <button class="btn btn-secondary" data-type="addReviewer">Add Reviewer</button>
+                    </div>
+                    <div id="reviewers" class="chips"></div>
+                </div>
+
+                <div class="section">
+                    <div class="section-header">
+                        <h2>Work Items</h2>
+                        <button class="btn btn-secondary" data-type="addWorkItem">Link Work Item</button>
+                    </div>
+                    <div id="workItems" class="chips"></div>
+                </div>
+
+                <label>Tags
+                    <input id="labels" type="text" placeholder="Comma-separated tags">
+                </label>
+
+                <label class="checkbox">
+                    <input id="isDraft" type="checkbox"> Create as draft
+                </label>
+
+                <div class="actions">
+                    <button id="createButton" class="btn" data-action="create" disabled>Create</button>
+                    <button class="btn btn-secondary" data-type="cancel">Cancel</button>
+                </div>
+
+                <script nonce="${nonce}">
+                    ${this.getJavaScript()}
+                </script>
+            </body>
+            </html>
+        `;
+  }
+
+  /**
+   * Get CSS content
+   */
+  private getCss(): string {
+    return `
+            body {
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+                background-color: var(--vscode-editor-background);
+                color: var(--vscode-editor-foreground);
+                line-height: 1.6;
+                padding: 20px;
+                max-width: 900px;
+            }
+
+            h1 {
+                font-size: 22px;
+                margin-bottom: 16px;
+            }
+
+            h2 {
+                font-size: 15px;
+                margin: 0;
+            }
+
+            label {
+                display: block;
+                margin: 12px 0;
+                color: var(--vscode-descriptionForeground);
+            }
+
+            input[type="text"], textarea, select {
+                display: block;
+                width: 100%;
+                box-sizing: border-box;
+                margin-top: 4px;
+                padding: 6px;
+                background-color: var(--vscode-input-background);
+                color: var(--vscode-input-foreground);
+                border: 1px solid var(--vscode-input-border, transparent);
+                font-family: inherit;
+            }
+
+            .checkbox input {
+                margin-right: 6px;
+            }
+
+            .branches {
+                display: flex;
+                align-items: flex-end;
+                gap: 12px;
+            }
+
+            .branches label {
+                flex: 1;
+            }
+
+            .arrow {
+                padding-bottom: 18px;
+            }
+
+            .hint {
+                padding-bottom: 18px;
+                font-size: 12px;
+                color: var(--vscode-descriptionForeground);
+            }
+
+            .section {
+                margin: 16px 0;
+            }
+
+            .section-header {
+                display: flex;
+                align-items: center;
+                justify-content: space-between;
+                margin-bottom: 6px;
+            }
+
+            .chips {
+                display: flex;
+                flex-wrap: wrap;
+                gap: 6px;
+            }
+
+            .chip {
+                background-color: var(--vscode-badge-background);
+                color: var(--vscode-badge-foreground);
+                padding: 2px 8px;
+                border-radius: 10px;
+                font-size: 12px;
+            }
+
+            .chip button {
+                background: none;
+                border: none;
+                color: inherit;
+                cursor: pointer;
+                margin-left: 4px;
+            }
+
+            .btn {
+                padding: 6px 14px;
+                border: none;
+                border-radius: 4px;
+                cursor: pointer;
+                background-color: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+            }
+
+            .btn:disabled {
+                opacity: 0.5;
+                cursor: default;
+            }
+
+            .btn-secondary {
+                background-color: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+            }
+
+            .actions {
+                display: flex;
+                gap: 10px;
+                margin-top: 20px;
+            }
+
+            .banner {
+                display: flex;
+                align-items: center;
+                justify-content: space-between;
+                padding: 8px 12px;
+                margin-bottom: 12px;
+                border-radius: 4px;
+                white-space: pre-wrap;
+            }
+
+            .banner-error {
+                background-color: var(--vscode-inputValidation-errorBackground);
+                border: 1px solid var(--vscode-inputValidation-errorBorder);
+            }
+
+            .banner-warning {
+                background-color: var(--vscode-inputValidation-warningBackground);
+                border: 1px solid var(--vscode-inputValidation-warningBorder);
+            }
+
+            .hidden {
+                display: none;
+            }
+        `;
+  }
+
+  /**
+   * Get JavaScript content
+   */
+  private getJavaScript(): string {
+    return `
+            const vscode = acquireVsCodeApi();
+            let commitSummary = '';
+
+            function postMessage(message) {
+                vscode.postMessage(message);
+            }
+
+            const actions = {
+                push,
+                appendCommits,
+                create
+            };
+
+            // The content security policy blocks inline event handlers, so
+            // clicks are dispatched from data attributes: data-action runs a
+            // local function, data-type posts a message of that type
+            document.addEventListener('click', event => {
+                const target = event.target.closest('[data-action], [data-type]');
+                if (!target) {
+                    return;
+                }
+
+                const { action, type } = target.dataset;
+                if (action) {
+                    actions[action]();
+                } else {
+                    postMessage({ type: type });
+                }
+            });
+
+            function getBranches() {
+                return {
+                    sourceBranch: document.getElementById('sourceBranch').value,
+                    targetBranch: document.getElementById('targetBranch').value
+                };
+            }
+
+            function branchesChanged() {
+                postMessage({ type: 'branchesChanged', ...getBranches() });
+            }
+
+            function push() {
+                postMessage({ type: 'push', ...getBranches() });
+            }
+
+            function appendCommits() {
+                const description = document.getElementById('description');
+                description.value = description.value
+                    ? description.value.replace(/\\s*$/, '\\n\\n') + commitSummary
+                    : commitSummary;
+            }
+
+            function create() {
+                document.getElementById('error').classList.add('hidden');
+                postMessage({
+                    type: 'create',
+                    form: {
+                        ...getBranches(),
+                        title: document.getElementById('title').value,
+                        description: document.getElementById('description').value,
+                        labels: document.getElementById('labels').value,
+                        isDraft: document.getElementById('isDraft').checked
+                    }
+                });
+            }
+
+            function setOptions(select, values, selected) {
+                select.innerHTML = '';
+                values.forEach(value => {
+                    const option = document.createElement('option');
+                    option.value = value;
+                    option.textContent = value;
+                    option.selected = value === selected;
+                    select.appendChild(option);
+                });
+            }
+
+            function renderChips(containerId, items, removeType) {
+                const container = document.getElementById(containerId);
+                container.innerHTML = '';
+                items.forEach(item => {
+                    const chip = document.createElement('span');
+                    chip.className = 'chip';
+                    chip.textContent = item.label;
+                    const remove = document.createElement('button');
+                    remove.textContent = '×';
+                    remove.title = 'Remove';
+                    remove.onclick = () => postMessage({ type: removeType, id: item.id });
+                    chip.appendChild(remove);
+                    container.appendChild(chip);
+                });
+            }
+
+            function updateBranchState(data) {
+                commitSummary = data.commitSummary;
+                document.getElementById('commitCount').textContent =
+                    data.commitCount + ' commit' + (data.commitCount === 1 ? '' : 's');
+
+                const warning = document.getElementById('pushWarning');
+                const state = data.pushState;
+                if (state && !state.isPublished) {
+                    document.getElementById('pushWarningText').textContent =
+                        'This branch has not been pushed to the remote yet.';
+                    warning.classList.remove('hidden');
+                } else if (state && state.ahead > 0) {
+                    document.getElementById('pushWarningText').textContent =
+                        state.ahead + ' local commit' + (state.ahead === 1 ? ' is' : 's are') + ' not pushed yet.';
+                    warning.classList.remove('hidden');
+                } else {
+                    warning.classList.add('hidden');
+                }
+            }
+
+            function updateCreateButton() {
+                const { sourceBranch, targetBranch } = getBranches();
+                document.getElementById('createButton').disabled =
+                    !document.getElementById('title').value.trim() ||
+                    !sourceBranch || !targetBranch || sourceBranch === targetBranch;
+            }
+
+            document.getElementById('title').addEventListener('input', updateCreateButton);
+            ['sourceBranch', 'targetBranch'].forEach(id => {
+                const select = document.getElementById(id);
+                select.addEventListener('change', branchesChanged);
+                select.addEventListener('change', updateCreateButton);
+            });
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                switch (message.type) {
+                    case 'formLoaded': {
+                        const data = message.data;
+                        setOptions(document.getElementById('sourceBranch'), data.localBranches, data.sourceBranch);
+                        setOptions(document.getElementById('targetBranch'), data.remoteBranches, data.targetBranch);
+                        document.getElementById('title').value = data.title;
+                        document.getElementById('description').value = data.description;
+                        updateBranchState(data);
+                        updateCreateButton();
+                        break;
+                    }
+                    case 'branchState':
+                        updateBranchState(message.data);
+                        break;
+                    case 'selectionsChanged':
+                        renderChips('reviewers', message.data.reviewers, 'removeReviewer');
+                        renderChips('workItems', message.data.workItems, 'removeWorkItem');
+                        break;
+                    case 'error': {
+                        const error = document.getElementById('error');
+                        error.textContent = message.error;
+                        error.classList.remove('hidden');
+                        break;
+                    }
+                }
+            });
+        `;
+  }
+
+  /**
+   * Dispose of resources
+   */
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -1,10 +1,16 @@
 import * as vscode from "vscode";
+import { randomBytes } from "crypto";
 import { PullRequestService } from "../services/PullRequestService";
-import {
-  CommentService,
-  CreateCommentOptions,
-} from "../services/CommentService";
+import { CommentService } from "../services/CommentService";
 import { TelemetryService } from "../services/TelemetryService";
+import { PolicyService, PolicyCheck } from "../services/PolicyService";
+import { WorkItemService } from "../services/WorkItemService";
+import { ReviewDraftService } from "../services/ReviewDraftService";
+import {
+  OutboxActionInput,
+  OutboxService,
+  OutboxSubmitResult,
+} from "../services/OutboxService";
 import {
   PullRequest,
   CommentThread,
@@ -13,6 +19,7 @@ import {
   PullRequestVote,
 } from "../api/models";
 import { ErrorHandler, ErrorCategory } from "../utils/ErrorHandler";
+import { renderMarkdown } from "../utils/Markdown";
 
 /**
  * WebView panel for pull request details
@@ -23,10 +30,18 @@ export class PRDetailWebView implements vscode.Disposable {
   private readonly commentService: CommentService;
   private readonly telemetryService: TelemetryService;
   private readonly errorHandler: ErrorHandler;
-  private readonly pullRequest: PullRequest;
+  private readonly policyService: PolicyService;
+  private readonly workItemService: WorkItemService;
+  private readonly outboxService: OutboxService;
+  private readonly reviewDraftService: ReviewDraftService;
+  private pullRequest: PullRequest;
   private readonly repositoryId: string;
 
+  private policyChecks: PolicyCheck[] = [];
+  private commentThreads: CommentThread[] = [];
   private disposables: vscode.Disposable[] = [];
+  /** Cancels loads still in flight when the panel closes */
+  private readonly abortController = new AbortController();
 
   constructor(
     pullRequest: PullRequest,
@@ -34,13 +49,21 @@ export class PRDetailWebView implements vscode.Disposable {
     pullRequestService: PullRequestService,
     commentService: CommentService,
     telemetryService: TelemetryService,
-    extensionUri: vscode.Uri
+    extensionUri: vscode.Uri,
+    policyService: PolicyService,
+    workItemService: WorkItemService,
+    outboxService: OutboxService,
+    reviewDraftService: ReviewDraftService
   ) {
     this.pullRequest = pullRequest;
     this.repositoryId = repositoryId;
     this.pullRequestService = pullRequestService;
     this.commentService = commentService;
     this.telemetryService = telemetryService;
+    this.policyService = policyService;
+    this.workItemService = workItemService;
+    this.outboxService = outboxService;
+    this.reviewDraftService = reviewDraftService;
     this.errorHandler = ErrorHandler.getInstance(telemetryService);
 
     this.panel = vscode.window.createWebviewPanel(
@@ -85,6 +108,26 @@ export class PRDetailWebView implements vscode.Disposable {
         );
       }
     });
+
+    // Show changes sent from the outbox once the connection returns
+    this.disposables.push(
+      this.outboxService.onDidSendAction((action) => {
+        if (
+          action.repositoryId === this.repositoryId &&
+          action.pullRequestId === this.pullRequest.pullRequestId
+        ) {
+          this.refreshData();
+        }
+      }),
+      this.reviewDraftService.onDidChangeReview((event) => {
+        if (
+          event.repositoryId === this.repositoryId &&
+          event.pullRequestId === this.pullRequest.pullRequestId
+        ) {
+          this.refreshData();
+        }
+      })
+    );
   }
 
   /**
@@ -113,6 +156,40 @@ export class PRDetailWebView implements vscode.Disposable {
       case "vote":
         await this.vote(message.vote as PullRequestVote);
         break;
+      case "requeuePolicy":
+        await this.requeuePolicy(message.evaluationId);
+        break;
+      case "openBuildLogs":
+        await this.openBuildLogs(message.evaluationId);
+        break;
+      case "completePullRequest":
+      case "setAutoComplete":
+        await this.runPullRequestCommand(message.type);
+        break;
+      case "addReviewer":
+      case "removeReviewer":
+      case "toggleReviewerRequired":
+      case "resetReviewerVote":
+        await this.runPullRequestCommand(message.type, message.reviewerId);
+        break;
+      case "startReview":
+      case "discardReview":
+        await this.runPullRequestCommand(message.type);
+        break;
+      case "submitReview":
+        await this.runPullRequestCommand(message.type, message.vote);
+        break;
+      case "linkWorkItem":
+      case "unlinkWorkItem":
+      case "openWorkItem":
+        await this.runPullRequestCommand(message.type, message.workItemId);
+        break;
+      case "openPullRequest":
+        await this.openLinkedPullRequest(message.pullRequestId);
+        break;
+      case "toggleLike":
+        await this.toggleLike(message.threadId, message.commentId);
+        break;
       default:
         console.warn("Unknown message type:", message.type);
     }
@@ -122,28 +199,114 @@ export class PRDetailWebView implements vscode.Disposable {
    * Load pull request data
    */
   private async loadPullRequestData(): Promise<void> {
+    const request = { signal: this.abortController.signal };
     try {
       // Load pull request details
-      const [comments, iterations] = await Promise.all([
+      const [
+        pullRequest,
+        comments,
+        iterations,
+        reviewers,
+        policyChecks,
+        workItems,
+      ] = await Promise.all([
+        this.pullRequestService.getPullRequest(
+          this.repositoryId,
+          this.pullRequest.pullRequestId,
+          request
+        ),
         this.commentService.getCommentThreads(
           this.repositoryId,
-          this.pullRequest.pullRequestId
+          this.pullRequest.pullRequestId,
+          {},
+          request
         ),
         this.pullRequestService.getPullRequestIterations(
+          this.repositoryId,
+          this.pullRequest.pullRequestId,
+          request
+        ),
+        this.pullRequestService.getReviewers(
+          this.repositoryId,
+          this.pullRequest.pullRequestId,
+          request
+        ),
+        this.policyService.getPolicyChecks(
+          this.repositoryId,
+          this.pullRequest.pullRequestId,
+          true,
+          request
+        ),
+        this.workItemService.getLinkedWorkItems(
           this.repositoryId,
           this.pullRequest.pullRequestId
         ),
       ]);
 
+      // The panel was closed while loading
+      if (this.abortController.signal.aborted) {
+        return;
+      }
+
+      if (pullRequest) {
+        this.pullRequest = pullRequest;
+      }
+      this.policyChecks = policyChecks;
+      this.commentThreads = comments;
+
+      const review = this.reviewDraftService.getReview(
+        this.repositoryId,
+        this.pullRequest.pullRequestId
+      );
+      const description = this.pullRequest.description || "";
+      const [mentions, currentUserId] = await Promise.all([
+        this.commentService.resolveMentions(this.repositoryId, [
+          description,
+          ...comments.flatMap((thread) =>
+            thread.comments.map((comment) => comment.content || "")
+          ),
+          ...(review?.drafts.map((draft) => draft.content) || []),
+        ]),
+        this.commentService.getCurrentUserId(this.repositoryId),
+      ]);
+
+      // Markdown is rendered and sanitized here; the webview inserts the HTML
       this.panel.webview.postMessage({
         type: "dataLoaded",
         data: {
           pullRequest: this.pullRequest,
-          comments,
+          descriptionHtml: renderMarkdown(description, { mentions }),
+          comments: comments.map((thread) => ({
+            ...thread,
+            comments: thread.comments.map((comment) => ({
+              ...comment,
+              contentHtml: renderMarkdown(comment.content || "", { mentions }),
+              likeCount: comment.usersLiked?.length || 0,
+              liked: !!comment.usersLiked?.some(
+                (user) => user.id === currentUserId
+              ),
+            })),
+          })),
           iterations,
+          reviewers,
+          policyChecks,
+          policyStatus: this.policyService.getSummaryStatus(policyChecks),
+          workItems,
+          review: review
+            ? {
+                ...review,
+                drafts: review.drafts.map((draft) => ({
+                  ...draft,
+                  contentHtml: renderMarkdown(draft.content, { mentions }),
+                })),
+              }
+            : null,
         },
       });
     } catch (error) {
+      if (this.abortController.signal.aborted) {
+        return;
+      }
       this.errorHandler.handleError(
         error instanceof Error ? error : String(error),
         ErrorCategory.UI
@@ -160,25 +323,16 @@ export class PRDetailWebView implements vscode.Disposable {
    */
   private async approvePullRequest(): Promise<void> {
     try {
-      const result = await this.pullRequestService.approvePullRequest(
-        this.repositoryId,
-        this.pullRequest.pullRequestId
-      );
-
-      if (result.success) {
-        this.panel.webview.postMessage({ type: "approved" });
-        this.refreshData();
-      } else {
-        this.panel.webview.postMessage({
-          type: "error",
-          error: result.error || "Failed to approve pull request",
-        });
-      }
+      const result = await this.submitAction({ type: "vote", vote: 10 });
+      this.notifySubmitted(result, "approved");
     } catch (error) {
-      this.errorHandler.handleError(
-        error instanceof Error ? error : String(error),
-        ErrorCategory.UI
-      );
+      this.panel.webview.postMessage({
+        type: "error",
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to approve pull request",
+      });
     }
   }
 
@@ -187,26 +341,21 @@ export class PRDetailWebView implements vscode.Disposable {
    */
   private async rejectPullRequest(comment: string): Promise<void> {
     try {
-      const result = await this.pullRequestService.rejectPullRequest(
-        this.repositoryId,
-        this.pullRequest.pullRequestId,
-        comment
-      );
-
-      if (result.success) {
-        this.panel.webview.postMessage({ type: "rejected" });
-        this.refreshData();
-      } else {
-        this.panel.webview.postMessage({
-          type: "error",
-          error: result.error || "Failed to reject pull request",
+      let result = await this.submitAction({ type: "vote", vote: -10 });
+      if (comment) {
+        const commented = await this.submitAction({
+          type: "comment",
+          content: comment,
         });
+        result = result.queued ? result : commented;
       }
+      this.notifySubmitted(result, "rejected");
     } catch (error) {
-      this.errorHandler.handleError(
-        error instanceof Error ? error : String(error),
-        ErrorCategory.UI
-      );
+      this.panel.webview.postMessage({
+        type: "error",
+        error:
+          error instanceof Error ? error.message : "Failed to reject pull request",
+      });
     }
   }
 
@@ -241,31 +390,42 @@ export class PRDetailWebView implements vscode.Disposable {
    * Add comment
    */
   private async addComment(content: string, threadId?: number): Promise<void> {
-    try {
-      const options: CreateCommentOptions = {
-        content,
-        threadId,
-      };
-      const result = await this.commentService.addComment(
+    // Hold the comment back while a review is pending; the change event
+    // reloads the view
+    if (
+      this.reviewDraftService.isReviewing(
+        this.repositoryId,
+        this.pullRequest.pullRequestId
+      )
+    ) {
+      await this.reviewDraftService.addDraft(
         this.repositoryId,
         this.pullRequest.pullRequestId,
-        options
+        { content, threadId }
       );
+      return;
+    }
 
-      if (result) {
-        this.panel.webview.postMessage({ type: "commentAdded" });
-        this.refreshData();
-      } else {
-        this.panel.webview.postMessage({
-          type: "error",
-          error: "Failed to add comment",
-        });
-      }
-    } catch (error) {
-      this.errorHandler.handleError(
-        error instanceof Error ? error : String(error),
-        ErrorCategory.UI
+    const thread = this.commentThreads.find(
+      (candidate) => candidate.id === threadId
+    );
+    try {
+      const result = await this.submitAction(
+        threadId
+          ? {
+              type: "reply",
+              threadId,
+              content,
+              baseline: thread && OutboxService.getThreadBaseline(thread),
+            }
+          : { type: "comment", content }
       );
+      this.notifySubmitted(result, "commentAdded");
+    } catch {
+      this.panel.webview.postMessage({
+        type: "error",
+        error: "Failed to add comment",
+      });
     }
   }
 
@@ -274,12 +434,8 @@ export class PRDetailWebView implements vscode.Disposable {
    */
   private async vote(vote: PullRequestVote): Promise<void> {
     try {
-      await this.pullRequestService.votePullRequest(
-        this.repositoryId,
-        this.pullRequest.pullRequestId,
-        vote
-      );
-      this.refreshData();
+      const result = await this.submitAction({ type: "vote", vote });
+      this.notifySubmitted(result);
     } catch (error) {
       this.errorHandler.handleError(
         error instanceof Error ? error : String(error),
@@ -288,6 +444,155 @@ export class PRDetailWebView implements vscode.Disposable {
     }
   }
 
+  /**
+   * Send a write operation on this pull request through the outbox, which
+   * queues it while Azure DevOps is unreachable
+   */
+  private submitAction(
+    action: Omit<OutboxActionInput, "repositoryId" | "pullRequestId">
+  ): Promise<OutboxSubmitResult> {
+    return this.outboxService.submit({
+      ...action,
+      repositoryId: this.repositoryId,
+      pullRequestId: this.pullRequest.pullRequestId,
+    });
+  }
+
+  /**
+   * Tell the webview whether a write operation was sent or queued
+   *
+   * @param result Outcome of submitting the operation to the outbox
+   * @param sentMessageType Message to post when the operation was sent
+   */
+  private notifySubmitted(
+    result: OutboxSubmitResult,
+    sentMessageType?: string
+  ): void {
+    if (result.queued) {
+      this.panel.webview.postMessage({
+        type: "queued",
+        message: OutboxService.getQueuedMessage(
+          result.queueReason,
+          "The change"
+        ),
+      });
+      return;
+    }
+
+    if (sentMessageType) {
+      this.panel.webview.postMessage({ type: sentMessageType });
+    }
+    this.refreshData();
+  }
+
+  /**
+   * Like a comment, or remove the like if the current user already liked it
+   */
+  private async toggleLike(threadId: number, commentId: number): Promise<void> {
+    const comment = this.commentThreads
+      .find((thread) => thread.id === threadId)
+      ?.comments.find((candidate) => candidate.id === commentId);
+    if (!comment) {
+      return;
+    }
+
+    const currentUserId = await this.commentService.getCurrentUserId(
+      this.repositoryId
+    );
+    const liked = !!comment.usersLiked?.some(
+      (user) => user.id === currentUserId
+    );
+    const success = await this.commentService.setCommentLiked(
+      this.repositoryId,
+      this.pullRequest.pullRequestId,
+      threadId,
+      commentId,
+      !liked
+    );
+
+    if (success) {
+      await this.refreshData();
+    } else {
+      this.panel.webview.postMessage({
+        type: "error",
+        error: liked ? "Failed to remove like" : "Failed to like comment",
+      });
+    }
+  }
+
+  /**
+   * Open the details of a pull request referenced with `!123`
+   */
+  private async openLinkedPullRequest(pullRequestId: number): Promise<void> {
+    const pullRequest = await this.pullRequestService.findPullRequest(
+      this.repositoryId,
+      pullRequestId
+    );
+    if (!pullRequest) {
+      this.panel.webview.postMessage({
+        type: "error",
+        error: `Pull request ${pullRequestId} was not found`,
+      });
+      return;
+    }
+
+    await vscode.commands.executeCommand("azureDevOps.openPullRequest", {
+      repository: pullRequest.repository,
+      pullRequest,
+    });
+  }
+
+  /**
+   * Re-queue an expired or failed build policy
+   */
+  private async requeuePolicy(evaluationId: string): Promise<void> {
+    const result = await this.policyService.requeuePolicyEvaluation(
+      this.repositoryId,
+      evaluationId
+    );
+
+    if (result.success) {
+      this.panel.webview.postMessage({ type: "policyRequeued" });
+      this.refreshData();
+    } else {
+      this.panel.webview.postMessage({
+        type: "error",
+        error: result.error || "Failed to re-queue build",
+      });
+    }
+  }
+
+  /**
+   * Open the logs of the build behind a build policy
+   */
+  private async openBuildLogs(evaluationId: string): Promise<void> {
+    const check = this.policyChecks.find(
+      (candidate) => candidate.evaluationId === evaluationId
+    );
+    if (check?.buildUrl) {
+      vscode.env.openExternal(vscode.Uri.parse(check.buildUrl));
+    }
+  }
+
+  /**
+   * Run an extension command for this pull request and reload the view
+   * afterwards
+   */
+  private async runPullRequestCommand(
+    command: string,
+    ...args: unknown[]
+  ): Promise<void> {
+    await vscode.commands.executeCommand(
+      `azureDevOps.${command}`,
+      {
+        repository: this.pullRequest.repository,
+        pullRequest: this.pullRequest,
+      },
+      ...args
+    );
+    await this.refreshData();
+  }
+
   /**
    * Refresh pull request data
    */
@@ -315,11 +620,15 @@ export class PRDetailWebView implements vscode.Disposable {
    * Get HTML content for webview
    */
   private getHtmlContent(): string {
+    const cspSource = this.panel.webview.cspSource;
+    const nonce = randomBytes(16).toString("base64");
+
     return `
             <!DOCTYPE html>
             <html lang="en">
             <head>
                 <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${cspSource} https: data:; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <title>PR #${this.pullRequest.pullRequestId}: ${this.escapeHtml(
       this.pullRequest.title
@@ -341,9 +650,10 @@ export class PRDetailWebView implements vscode.Disposable {
                             <span class="date">${new Date(
                               this.pullRequest.creationDate
                             ).toLocaleDateString()}</span>
-                            <span class="status status-${
+                            <span id="prStatus" class="status status-${
                               this.pullRequest.status
                             }">${this.pullRequest.status}</span>
+                            <span id="autoComplete" class="auto-complete"></span>
                             ${
                               this.pullRequest.isDraft
                                 ? '<span class="draft">Draft</span>'
@@ -353,33 +663,67 @@ export class PRDetailWebView implements vscode.Disposable {
                     </div>
 
                     <div class="actions">
-                        <button class="btn btn-approve" onclick="postMessage({type: 'approve'})">
+                        <button class="btn btn-approve" data-type="approve">
                             Approve
                         </button>
-                        <button class="btn btn-reject" onclick="showRejectDialog()">
+                        <button class="btn btn-reject" data-action="showRejectDialog">
                             Reject
                         </button>
-                        <button class="btn btn-abandon" onclick="showAbandonDialog()">
+                        <button class="btn btn-abandon" data-action="showAbandonDialog">
                             Abandon
                         </button>
-                        <button class="btn btn-refresh" onclick="postMessage({type: 'refresh'})">
+                        <button class="btn btn-complete" data-type="completePullRequest">
+                            Complete
+                        </button>
+                        <button class="btn btn-primary" data-type="setAutoComplete">
+                            Set Auto-Complete
+                        </button>
+                        <button class="btn btn-refresh" data-type="refresh">
                             Refresh
                         </button>
-                        <button class="btn btn-browser" onclick="postMessage({type: 'openInBrowser'})">
+                        <button class="btn btn-browser" data-type="openInBrowser">
                             Open in Browser
                         </button>
                     </div>
 
+                    <div id="review" class="review-bar"></div>
+
                     <div class="content">
                         <div class="description">
                             <h2>Description</h2>
-                            <div class="description-content">
-                                ${this.formatDescription(
-                                  this.pullRequest.description
-                                )}
+                            <div id="description" class="description-content markdown">
+                                ${renderMarkdown(this.pullRequest.description || "")}
                             </div>
                         </div>
 
+                        <div class="section">
+                            <div class="section-header">
+                                <h2>Policies</h2>
+                                <span id="policyStatus" class="policy-summary"></span>
+                            </div>
+                            <div id="policies" class="loading">Loading policies...</div>
+                        </div>
+
+                        <div class="section">
+                            <div class="section-header">
+                                <h2>Reviewers</h2>
+                                <button class="btn btn-primary" data-type="addReviewer">
+                                    Add Reviewer
+                                </button>
+                            </div>
+                            <div id="reviewers" class="loading">Loading reviewers...</div>
+                        </div>
+
+                        <div class="section">
+                            <div class="section-header">
+                                <h2>Work Items</h2>
+                                <button class="btn btn-primary" data-type="linkWorkItem">
+                                    Link Work Item
+                                </button>
+                            </div>
+                            <div id="workItems" class="loading">Loading work items...</div>
+                        </div>
+
                         <div class="section">
                             <h2>Comments</h2>
                             <div id="comments" class="loading">Loading comments...</div>
@@ -389,7 +733,7 @@ export class PRDetailWebView implements vscode.Disposable {
                             <h2>Add Comment</h2>
                             <div class="add-comment">
                                 <textarea id="commentText" placeholder="Add your comment..." rows="4"></textarea>
-                                <button class="btn btn-primary" onclick="addComment()">Add Comment</button>
+                                <button id="addCommentButton" class="btn btn-primary" data-action="addComment">Add Comment</button>
                             </div>
                         </div>
                     </div>
@@ -401,8 +745,8 @@ export class PRDetailWebView implements vscode.Disposable {
                         <p>Please provide a reason for rejection:</p>
                         <textarea id="rejectReason" placeholder="Enter rejection reason..." rows="4"></textarea>
                         <div class="dialog-actions">
-                            <button class="btn btn-cancel" onclick="closeRejectDialog()">Cancel</button>
-                            <button class="btn btn-reject" onclick="rejectPullRequest()">Reject</button>
+                            <button class="btn btn-cancel" data-action="closeRejectDialog">Cancel</button>
+                            <button class="btn btn-reject" data-action="rejectPullRequest">Reject</button>
                         </div>
                     </div>
                 </div>
@@ -412,13 +756,13 @@ export class PRDetailWebView implements vscode.Disposable {
                         <h3>Abandon Pull Request</h3>
                         <p>Are you sure you want to abandon this pull request?</p>
                         <div class="dialog-actions">
-                            <button class="btn btn-cancel" onclick="closeAbandonDialog()">Cancel</button>
-                            <button class="btn btn-abandon" onclick="abandonPullRequest()">Abandon</button>
+                            <button class="btn btn-cancel" data-action="closeAbandonDialog">Cancel</button>
+                            <button class="btn btn-abandon" data-action="abandonPullRequest">Abandon</button>
                         </div>
                     </div>
                 </div>
 
-                <script>
+                <script nonce="${nonce}">
                     ${this.getJavaScript()}
                 </script>
             </body>
@@ -502,6 +846,11 @@ export class PRDetailWebView implements vscode.Disposable {
                 font-weight: bold;
             }
 
+            .auto-complete {
+                font-size: 12px;
+                color: var(--vscode-descriptionForeground);
+            }
+
             .actions {
                 display: flex;
                 gap: 10px;
@@ -548,6 +897,11 @@ export class PRDetailWebView implements vscode.Disposable {
                 color: white;
             }
 
+            .btn-complete {
+                background-color: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+            }
+
             .btn-refresh {
                 background-color: var(--vscode-button-background);
                 color: var(--vscode-button-foreground);
@@ -576,11 +930,298 @@ export class PRDetailWebView implements vscode.Disposable {
                 color: var(--vscode-foreground);
             }
 
+            .section-header {
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+                margin-bottom: 15px;
+            }
+
+            .section-header h2 {
+                margin-bottom: 0;
+            }
+
+            .reviewer {
+                display: flex;
+                align-items: center;
+                gap: 10px;
+                padding: 6px 0;
+                border-bottom: 1px solid var(--vscode-panel-border);
+            }
+
+            .reviewer:last-child {
+                border-bottom: none;
+            }
+
+            .reviewer-name {
+                flex: 1;
+            }
+
+            .reviewer-vote {
+                font-size: 12px;
+                color: var(--vscode-descriptionForeground);
+            }
+
+            .vote-approved {
+                color: var(--vscode-debugIcon-startForeground);
+            }
+
+            .vote-waiting {
+                color: var(--vscode-warningForeground);
+            }
+
+            .vote-rejected {
+                color: var(--vscode-errorForeground);
+            }
+
+            .required {
+                background-color: var(--vscode-badge-background);
+                color: var(--vscode-badge-foreground);
+                padding: 0 6px;
+                border-radius: 8px;
+                font-size: 11px;
+            }
+
+            .reviewer-actions .btn {
+                padding: 2px 8px;
+                font-size: 12px;
+                background-color: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+            }
+
+            .review-bar {
+                display: flex;
+                align-items: center;
+                gap: 10px;
+                margin-bottom: 20px;
+                padding: 10px;
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 4px;
+            }
+
+            .review-summary {
+                flex: 1;
+            }
+
+            .review-bar select {
+                background-color: var(--vscode-dropdown-background);
+                color: var(--vscode-dropdown-foreground);
+                border: 1px solid var(--vscode-dropdown-border);
+                padding: 4px;
+            }
+
+            .comment.pending {
+                border-left: 2px dashed var(--vscode-editorWarning-foreground);
+                padding-left: 8px;
+            }
+
+            .suggestion {
+                margin: 6px 0;
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 4px;
+                font-family: var(--vscode-editor-font-family);
+                overflow-x: auto;
+            }
+
+            .suggestion-header {
+                padding: 2px 8px;
+                font-family: var(--vscode-font-family);
+                background-color: var(--vscode-editorWidget-background);
+            }
+
+            .suggestion-line {
+                padding: 0 8px;
+                white-space: pre;
+                background-color: var(--vscode-diffEditor-insertedLineBackground);
+            }
+
+            .suggestion-line.removed {
+                background-color: var(--vscode-diffEditor-removedLineBackground);
+            }
+
+            .pending-badge {
+                background-color: var(--vscode-editorWarning-foreground);
+                color: var(--vscode-editor-background);
+                padding: 0 6px;
+                border-radius: 8px;
+                font-size: 11px;
+            }
+
+            .work-item {
+                display: flex;
+                align-items: center;
+                gap: 10px;
+                padding: 6px 0;
+                border-bottom: 1px solid var(--vscode-panel-border);
+            }
+
+            .work-item:last-child {
+                border-bottom: none;
+            }
+
+            .work-item-title {
+                flex: 1;
+            }
+
+            .work-item-title a {
+                color: var(--vscode-textLink-foreground);
+                cursor: pointer;
+            }
+
+            .work-item-meta {
+                font-size: 12px;
+                color: var(--vscode-descriptionForeground);
+            }
+
+            .work-item-actions .btn {
+                padding: 2px 8px;
+                font-size: 12px;
+                background-color: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+            }
+
+            .policy {
+                display: flex;
+                align-items: center;
+                gap: 10px;
+                padding: 6px 0;
+            }
+
+            .policy-icon {
+                width: 16px;
+                text-align: center;
+                font-weight: bold;
+            }
+
+            .policy-name {
+                flex: 1;
+            }
+
+            .policy-approved {
+                color: var(--vscode-debugIcon-startForeground);
+            }
+
+            .policy-rejected {
+                color: var(--vscode-errorForeground);
+            }
+
+            .policy-running {
+                color: var(--vscode-descriptionForeground);
+            }
+
+            .policy-summary {
+                font-size: 13px;
+            }
+
+            .policy-actions .btn {
+                padding: 2px 8px;
+                font-size: 12px;
+                background-color: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+            }
+
+            .group-members {
+                margin-left: 24px;
+                font-size: 13px;
+            }
+
+            .group-members summary {
+                cursor: pointer;
+                color: var(--vscode-descriptionForeground);
+            }
+
             .description-content {
-                white-space: pre-wrap;
                 line-height: 1.6;
             }
 
+            .markdown p,
+            .markdown ul,
+            .markdown ol,
+            .markdown pre,
+            .markdown table,
+            .markdown blockquote {
+                margin: 0 0 8px;
+            }
+
+            .markdown ul,
+            .markdown ol {
+                padding-left: 24px;
+            }
+
+            .markdown h1,
+            .markdown h2,
+            .markdown h3,
+            .markdown h4,
+            .markdown h5,
+            .markdown h6 {
+                margin: 12px 0 6px;
+            }
+
+            .markdown code {
+                font-family: var(--vscode-editor-font-family);
+                background-color: var(--vscode-textCodeBlock-background);
+                padding: 0 3px;
+                border-radius: 3px;
+            }
+
+            .markdown pre {
+                padding: 8px;
+                overflow-x: auto;
+                background-color: var(--vscode-textCodeBlock-background);
+                border-radius: 4px;
+            }
+
+            .markdown pre code {
+                padding: 0;
+                background: none;
+            }
+
+            .markdown blockquote {
+                padding-left: 10px;
+                border-left: 3px solid var(--vscode-textBlockQuote-border);
+                color: var(--vscode-textBlockQuote-foreground, inherit);
+            }
+
+            .markdown table {
+                border-collapse: collapse;
+            }
+
+            .markdown th,
+            .markdown td {
+                padding: 4px 8px;
+                border: 1px solid var(--vscode-panel-border);
+            }
+
+            .markdown img {
+                max-width: 100%;
+            }
+
+            .markdown a {
+                color: var(--vscode-textLink-foreground);
+                cursor: pointer;
+            }
+
+            .mention {
+                color: var(--vscode-textLink-foreground);
+                font-weight: 600;
+            }
+
+            .like-button {
+                margin-top: 4px;
+                padding: 0 8px;
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 10px;
+                cursor: pointer;
+                font-size: 12px;
+                background: none;
+                color: var(--vscode-descriptionForeground);
+            }
+
+            .like-button.liked {
+                border-color: var(--vscode-textLink-foreground);
+                color: var(--vscode-textLink-foreground);
+            }
+
             .loading {
                 text-align: center;
                 padding: 20px;
@@ -688,6 +1329,40 @@ export class PRDetailWebView implements vscode.Disposable {
                 vscode.postMessage(message);
             }
 
+            const actions = {
+                showRejectDialog,
+                closeRejectDialog,
+                showAbandonDialog,
+                closeAbandonDialog,
+                rejectPullRequest,
+                abandonPullRequest,
+                addComment,
+                submitReview
+            };
+
+            // The content security policy blocks inline event handlers, so
+            // clicks are dispatched from data attributes: data-action runs a
+            // local function, data-type posts a message carrying the other
+            // data attributes (numeric values as numbers)
+            document.addEventListener('click', event => {
+                const target = event.target.closest('[data-action], [data-type]');
+                if (!target) {
+                    return;
+                }
+
+                const { action, type, ...fields } = target.dataset;
+                if (action) {
+                    actions[action]();
+                    return;
+                }
+
+                const message = { type: type };
+                Object.entries(fields).forEach(([key, value]) => {
+                    message[key] = /^\\d+$/.test(value) ? Number(value) : value;
+                });
+                postMessage(message);
+            });
+
             function showRejectDialog() {
                 document.getElementById('rejectDialog').classList.add('active');
             }
@@ -750,38 +1425,251 @@ export class PRDetailWebView implements vscode.Disposable {
                     case 'commentAdded':
                         showNotification('Comment added successfully');
                         break;
+                    case 'queued':
+                        showNotification(message.message);
+                        break;
+                    case 'policyRequeued':
+                        showNotification('Build queued');
+                        break;
                 }
             });
 
             function updatePullRequestData(data) {
+                // Update description with resolved mentions
+                document.getElementById('description').innerHTML = data.descriptionHtml;
+
+                // Update status and auto-complete
+                const pullRequest = data.pullRequest;
+                const statusSpan = document.getElementById('prStatus');
+                statusSpan.textContent = pullRequest.status;
+                statusSpan.className = 'status status-' + pullRequest.status;
+                document.getElementById('autoComplete').textContent = pullRequest.autoCompleteSetBy
+                    ? 'Auto-complete set by ' + pullRequest.autoCompleteSetBy.displayName
+                    : '';
+
+                // Update policies section
+                const policiesDiv = document.getElementById('policies');
+                policiesDiv.classList.remove('loading');
+                const policyChecks = data.policyChecks || [];
+                if (policyChecks.length > 0) {
+                    policiesDiv.innerHTML = policyChecks.map(check => renderPolicyCheck(check)).join('');
+                } else {
+                    policiesDiv.innerHTML = '<div class="no-policies">No branch policies apply to this pull request</div>';
+                }
+                const policySummary = document.getElementById('policyStatus');
+                policySummary.textContent = getPolicySummaryLabel(data.policyStatus);
+                policySummary.className = 'policy-summary policy-' + data.policyStatus;
+
+                // Update reviewers section
+                const reviewersDiv = document.getElementById('reviewers');
+                reviewersDiv.classList.remove('loading');
+                if (data.reviewers && data.reviewers.length > 0) {
+                    reviewersDiv.innerHTML = data.reviewers.map(reviewer => renderReviewer(reviewer)).join('');
+                } else {
+                    reviewersDiv.innerHTML = '<div class="no-reviewers">No reviewers yet</div>';
+                }
+
+                // Update work items section
+                const workItemsDiv = document.getElementById('workItems');
+                workItemsDiv.classList.remove('loading');
+                if (data.workItems && data.workItems.length > 0) {
+                    workItemsDiv.innerHTML = data.workItems.map(workItem => renderWorkItem(workItem)).join('');
+                } else {
+                    workItemsDiv.innerHTML = '<div class="no-work-items">No linked work items</div>';
+                }
+
+                // Update pending review bar
+                renderReview(data.review);
+                const drafts = data.review ? data.review.drafts : [];
+
                 // Update comments section
                 const commentsDiv = document.getElementById('comments');
-                if (data.comments && data.comments.length > 0) {
-                    commentsDiv.innerHTML = data.comments.map(thread => renderCommentThread(thread)).join('');
+                const newThreadDrafts = drafts.filter(draft => !draft.threadId);
+                if ((data.comments && data.comments.length > 0) || newThreadDrafts.length > 0) {
+                    commentsDiv.innerHTML = (data.comments || [])
+                        .map(thread => renderCommentThread(thread, drafts.filter(draft => draft.threadId === thread.id)))
+                        .join('') + newThreadDrafts.map(draft => \`
+                            <div class="comment-thread">\${renderDraft(draft)}</div>
+                        \`).join('');
                 } else {
                     commentsDiv.innerHTML = '<div class="no-comments">No comments yet</div>';
                 }
             }
 
-            function renderCommentThread(thread) {
+            function getPolicySummaryLabel(status) {
+                switch (status) {
+                    case 'approved': return 'All required policies passed';
+                    case 'rejected': return 'Required policies failed';
+                    case 'running': return 'Required policies pending';
+                    default: return '';
+                }
+            }
+
+            function getPolicyState(check) {
+                if (check.isExpired) {
+                    return { icon: '!', className: 'policy-rejected', label: 'Expired' };
+                }
+                switch (check.status) {
+                    case 'approved':
+                        return { icon: '✓', className: 'policy-approved', label: 'Passed' };
+                    case 'rejected':
+                    case 'broken':
+                        return { icon: '✗', className: 'policy-rejected', label: check.status === 'broken' ? 'Broken' : 'Failed' };
+                    case 'running':
+                        return { icon: '⋯', className: 'policy-running', label: 'Running' };
+                    default:
+                        return { icon: '○', className: 'policy-running', label: 'Queued' };
+                }
+            }
+
+            function renderPolicyCheck(check) {
+                const state = getPolicyState(check);
+                const id = escapeHtml(check.evaluationId);
                 return \`
-                    <div class="comment-thread">
-                        <div class="comment">
-                            <div class="comment-header">
-                                <span class="comment-author">\${escapeHtml(thread.comments[0].author.displayName)}</span>
-                                <span class="comment-date">\${new Date(thread.comments[0].publishedDate).toLocaleDateString()}</span>
-                            </div>
-                            <div class="comment-content">\${escapeHtml(thread.comments[0].content)}</div>
+                    <div class="policy">
+                        <span class="policy-icon \${state.className}">\${state.icon}</span>
+                        <span class="policy-name">\${escapeHtml(check.name)}</span>
+                        \${check.isBlocking ? '<span class="required">Required</span>' : ''}
+                        <span class="reviewer-vote \${state.className}">\${state.label}</span>
+                        <span class="policy-actions">
+                            \${check.canRequeue ? \`<button class="btn" data-type="requeuePolicy" data-evaluation-id="\${id}">Re-queue</button>\` : ''}
+                            \${check.buildUrl ? \`<button class="btn" data-type="openBuildLogs" data-evaluation-id="\${id}">View Logs</button>\` : ''}
+                        </span>
+                    </div>
+                \`;
+            }
+
+            function getVoteLabel(vote) {
+                switch (vote) {
+                    case 10: return 'Approved';
+                    case 5: return 'Approved with suggestions';
+                    case -5: return 'Waiting for author';
+                    case -10: return 'Rejected';
+                    default: return 'No vote';
+                }
+            }
+
+            function getVoteClass(vote) {
+                if (vote > 0) {
+                    return 'vote-approved';
+                }
+                if (vote === -5) {
+                    return 'vote-waiting';
+                }
+                return vote < 0 ? 'vote-rejected' : '';
+            }
+
+            function renderReviewer(reviewer) {
+                const id = escapeHtml(reviewer.id);
+                const members = reviewer.votedFor || [];
+                return \`
+                    <div class="reviewer-entry">
+                        <div class="reviewer">
+                            <span class="reviewer-name">\${escapeHtml(reviewer.displayName)}</span>
+                            \${reviewer.isRequired ? '<span class="required">Required</span>' : ''}
+                            <span class="reviewer-vote \${getVoteClass(reviewer.vote)}">\${getVoteLabel(reviewer.vote)}</span>
+                            <span class="reviewer-actions">
+                                <button class="btn" data-type="toggleReviewerRequired" data-reviewer-id="\${id}">
+                                    \${reviewer.isRequired ? 'Make Optional' : 'Make Required'}
+                                </button>
+                                \${reviewer.vote !== 0 ? \`<button class="btn" data-type="resetReviewerVote" data-reviewer-id="\${id}">Reset Vote</button>\` : ''}
+                                <button class="btn" data-type="removeReviewer" data-reviewer-id="\${id}">Remove</button>
+                            </span>
+                        </div>
+                        \${members.length > 0 ? \`
+                            <details class="group-members">
+                                <summary>Voted by \${members.length} member\${members.length === 1 ? '' : 's'}</summary>
+                                \${members.map(member => \`
+                                    <div class="reviewer">
+                                        <span class="reviewer-name">\${escapeHtml(member.displayName)}</span>
+                                        <span class="reviewer-vote \${getVoteClass(member.vote)}">\${getVoteLabel(member.vote)}</span>
+                                    </div>
+                                \`).join('')}
+                            </details>
+                        \` : ''}
+                    </div>
+                \`;
+            }
+
+            function renderWorkItem(workItem) {
+                const id = Number(workItem.id);
+                return \`
+                    <div class="work-item">
+                        <span class="required">\${escapeHtml(workItem.type)}</span>
+                        <span class="work-item-title">
+                            <a data-type="openWorkItem" data-work-item-id="\${id}">\${id}: \${escapeHtml(workItem.title)}</a>
+                        </span>
+                        <span class="work-item-meta">\${escapeHtml(workItem.state)} • \${escapeHtml(workItem.assignedTo || 'Unassigned')}</span>
+                        <span class="work-item-actions">
+                            <button class="btn" data-type="unlinkWorkItem" data-work-item-id="\${id}">Unlink</button>
+                        </span>
+                    </div>
+                \`;
+            }
+
+            function renderReview(review) {
+                const reviewDiv = document.getElementById('review');
+                const addCommentButton = document.getElementById('addCommentButton');
+                if (!review) {
+                    addCommentButton.textContent = 'Add Comment';
+                    reviewDiv.innerHTML = \`
+                        <span class="review-summary">Comments are posted immediately.</span>
+                        <button class="btn btn-primary" data-type="startReview">Start Review</button>
+                    \`;
+                    return;
+                }
+
+                const count = review.drafts.length;
+                addCommentButton.textContent = 'Add Pending Comment';
+                reviewDiv.innerHTML = \`
+                    <span class="review-summary">Review in progress: \${count} pending comment\${count === 1 ? '' : 's'}</span>
+                    <select id="reviewVote">
+                        <option value="0">Comment only</option>
+                        <option value="10">Approve</option>
+                        <option value="5">Approve with suggestions</option>
+                        <option value="-5">Wait for author</option>
+                        <option value="-10">Reject</option>
+                    </select>
+                    <button class="btn btn-primary" data-action="submitReview">Submit Review</button>
+                    <button class="btn" data-type="discardReview">Discard</button>
+                \`;
+            }
+
+            function submitReview() {
+                const vote = Number(document.getElementById('reviewVote').value);
+                postMessage({ type: 'submitReview', vote: vote });
+            }
+
+            function renderDraft(draft) {
+                return \`
+                    <div class="comment pending">
+                        <div class="comment-header">
+                            <span class="comment-author">You</span>
+                            <span class="pending-badge">Pending</span>
+                            \${draft.filePath ? \`<span class="comment-date">\${escapeHtml(draft.filePath)}\${draft.line ? ':' + Number(draft.line) : ''}</span>\` : ''}
                         </div>
-                        \${thread.comments.slice(1).map(comment => \`
-                            <div class="comment reply">
+                        <div class="comment-content markdown">\${draft.contentHtml}</div>
+                    </div>
+                \`;
+            }
+
+            function renderCommentThread(thread, drafts) {
+                return \`
+                    <div class="comment-thread">
+                        \${thread.comments.map((comment, index) => \`
+                            <div class="comment\${index > 0 ? ' reply' : ''}">
                                 <div class="comment-header">
                                     <span class="comment-author">\${escapeHtml(comment.author.displayName)}</span>
                                     <span class="comment-date">\${new Date(comment.publishedDate).toLocaleDateString()}</span>
                                 </div>
-                                <div class="comment-content">\${escapeHtml(comment.content)}</div>
+                                <div class="comment-content markdown">\${comment.contentHtml}</div>
+                                <button class="like-button\${comment.liked ? ' liked' : ''}" title="\${comment.liked ? 'Unlike' : 'Like'}"
+                                    data-type="toggleLike" data-thread-id="\${Number(thread.id)}" data-comment-id="\${Number(comment.id)}">
+                                    👍 \${Number(comment.likeCount)}
+                                </button>
                             </div>
                         \`).join('')}
+                        \${(drafts || []).map(draft => renderDraft(draft)).join('')}
                     </div>
                 \`;
             }
@@ -830,17 +1718,6 @@ export class PRDetailWebView implements vscode.Disposable {
         `;
   }
 
-  /**
-   * Format description with markdown-like syntax
-   */
-  private formatDescription(description: string): string {
-    return description
-      .split("\n")
-      .map((line) => line.trim())
-      .filter((line) => line.length > 0)
-      .join("<br>");
-  }
-
   /**
    * Escape HTML content
    */
@@ -859,6 +1736,7 @@ export class PRDetailWebView implements vscode.Disposable {
    * Dispose of resources
    */
   dispose(): void {
+    this.abortController.abort();
     this.disposables.forEach((d) => d.dispose());
     this.disposables = [];
   }
@@ -0,0 +1,219 @@
+import * as vscode from "vscode";
+import { randomBytes } from "crypto";
+import { TelemetryService } from "../services/TelemetryService";
+import { WorkItemSummary } from "../services/WorkItemService";
+
+/**
+ * WebView panel summarizing a work item
+ */
+export class WorkItemWebView implements vscode.Disposable {
+  private readonly panel: vscode.WebviewPanel;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly workItem: WorkItemSummary,
+    telemetryService: TelemetryService
+  ) {
+    this.panel = vscode.window.createWebviewPanel(
+      "workItemDetail",
+      `${workItem.type} ${workItem.id}: ${workItem.title}`,
+      vscode.ViewColumn.Beside,
+      { enableScripts: true }
+    );
+
+    this.panel.webview.html = this.getHtmlContent();
+    this.disposables.push(
+      this.panel.onDidDispose(() => this.dispose()),
+      this.panel.webview.onDidReceiveMessage((message) => {
+        if (message.type === "openInBrowser") {
+          vscode.env.openExternal(vscode.Uri.parse(this.workItem.webUrl));
+        }
+      })
+    );
+
+    telemetryService.trackEvent("workItemOpened", {
+      workItemType: workItem.type,
+    });
+  }
+
+  /**
+   * Get HTML content for the webview
+   */
+  private getHtmlContent(): string {
+    const workItem = this.workItem;
+    const cspSource = this.panel.webview.cspSource;
+    const nonce = randomBytes(16).toString("base64");
+    const field = (label: string, value?: string) => `
+                        <div class="field">
+                            <span class="field-label">${label}</span>
+                            <span>${this.escapeHtml(value || "None")}</span>
+                        </div>`;
+
+    return `
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>${this.escapeHtml(workItem.title)}</title>
+                <style>
+                    ${this.getCss()}
+                </style>
+            </head>
+            <body>
+                <div class="header">
+                    <div class="type">${this.escapeHtml(workItem.type)} ${workItem.id}</div>
+                    <h1>${this.escapeHtml(workItem.title)}</h1>
+                    <button class="btn" data-action="openInBrowser">
+                        Open in Browser
+                    </button>
+                </div>
+
+                <div class="fields">
+                    ${field("State", workItem.state)}
+                    ${field("Assigned To", workItem.assignedTo || "Unassigned")}
+                    ${field("Area", workItem.areaPath)}
+                    ${field("Iteration", workItem.iterationPath)}
+                    ${field(
+                      "Changed",
+                      workItem.changedDate
+                        ? new Date(workItem.changedDate).toLocaleString()
+                        : undefined
+                    )}
+                </div>
+
+                <h2>Description</h2>
+                <div class="description">${this.escapeHtml(
+                  this.toPlainText(workItem.description || "") ||
+                    "No description"
+                )}</div>
+
+                <script nonce="${nonce}">
+                    const vscode = acquireVsCodeApi();
+
+                    const actions = {
+                        openInBrowser: () => vscode.postMessage({ type: 'openInBrowser' })
+                    };
+
+                    // The content security policy blocks inline event
+                    // handlers, so clicks are dispatched from data-action
+                    document.addEventListener('click', event => {
+                        const target = event.target.closest('[data-action]');
+                        if (target) {
+                            actions[target.dataset.action]();
+                        }
+                    });
+                </script>
+            </body>
+            </html>
+        `;
+  }
+
+  /**
+   * Get CSS content
+   */
+  private getCss(): string {
+    return `
+            body {
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+                background-color: var(--vscode-editor-background);
+                color: var(--vscode-editor-foreground);
+                line-height: 1.6;
+                padding: 20px;
+            }
+
+            .header {
+                margin-bottom: 20px;
+                padding-bottom: 20px;
+                border-bottom: 1px solid var(--vscode-panel-border);
+            }
+
+            .type {
+                font-size: 13px;
+                color: var(--vscode-descriptionForeground);
+            }
+
+            h1 {
+                font-size: 22px;
+                margin: 4px 0 12px;
+            }
+
+            h2 {
+                font-size: 16px;
+                margin: 20px 0 10px;
+            }
+
+            .btn {
+                padding: 6px 14px;
+                border: none;
+                border-radius: 4px;
+                cursor: pointer;
+                background-color: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+            }
+
+            .fields {
+                display: grid;
+                grid-template-columns: max-content 1fr;
+                gap: 6px 20px;
+            }
+
+            .field {
+                display: contents;
+            }
+
+            .field-label {
+                color: var(--vscode-descriptionForeground);
+            }
+
+            .description {
+                white-space: pre-wrap;
+            }
+        `;
+  }
+
+  /**
+   * Reduce the HTML description stored by Azure Boards to plain text
+   */
+  private toPlainText(html: string): string {
+    const entities: Record<string, string> = {
+      "&nbsp;": " ",
+      "&lt;": "<",
+      "&gt;": ">",
+      "&quot;": '"',
+      "&#39;": "'",
+      "&amp;": "&",
+    };
+    return html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+      .replace(/<li[^>]*>/gi, "• ")
+      .replace(/<[^>]*>/g, "")
+      .replace(/&(nbsp|lt|gt|quot|#39|amp);/g, (entity) => entities[entity])
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  /**
+   * Escape HTML content
+   */
+  private escapeHtml(text: string): string {
+    const map: Record<string, string> = {
+      "&": "&amp;",
+      "<": "&lt;",
+      ">": "&gt;",
+      '"': "&quot;",
+      "'": "&#039;",
+    };
+    return text.replace(/[&<>"']/g, (m) => map[m]);
+  }
+
+  /**
+   * Dispose of resources
+   */
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
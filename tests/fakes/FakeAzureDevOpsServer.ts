@@ -0,0 +1,1120 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import {
+  FakeAzureDevOpsData,
+  FakeComment,
+  FakeIteration,
+  FakePolicy,
+  FakePullRequest,
+  FakeRepository,
+  FakeReviewer,
+  FakeThread,
+  createFixtures
+} from './fixtures';
+
+/**
+ * Scripted failure of matching requests
+ */
+export interface FakeFault {
+  /** HTTP method to match; any when omitted */
+  method?: string;
+  /** Matched against the path and query below the organization; any when omitted */
+  path?: string | RegExp;
+  /** Respond with this status instead, e.g. 429, 401 or 503 */
+  status?: number;
+  /** `Retry-After` header in seconds */
+  retryAfter?: number;
+  /** Extra response headers, e.g. `X-RateLimit-*` */
+  headers?: Record<string, string>;
+  /** Hold the response back, e.g. beyond the client's timeout */
+  delayMs?: number;
+  /** Number of requests to affect; 1 when omitted, Infinity for all */
+  times?: number;
+}
+
+/**
+ * Request received by the fake server
+ */
+export interface RecordedRequest {
+  readonly method: string;
+  /** Path below the organization, e.g. `/Fabrikam/_apis/git/repositories` */
+  readonly path: string;
+  readonly query: URLSearchParams;
+  readonly headers: http.IncomingHttpHeaders;
+  readonly body: any;
+}
+
+interface FakeResponse {
+  readonly status: number;
+  readonly body?: unknown;
+  readonly headers?: Record<string, string>;
+}
+
+type RouteHandler = (request: RecordedRequest, params: string[]) => FakeResponse;
+
+interface Route {
+  readonly method: string;
+  readonly pattern: RegExp;
+  readonly handler: RouteHandler;
+}
+
+class FakeHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const EMPTY_GUID = '00000000-0000-0000-0000-000000000000';
+const SERVICE_URL = 'https://dev.azure.com';
+
+/**
+ * In-process fake of the Azure DevOps REST API for offline development and
+ * tests
+ *
+ * Serves the seeded organization from `createFixtures()` at
+ * `<url>/<organization>/...`, so `AzureDevOpsApiClient` can use it by setting
+ * `azureDevOps.apiBaseUrl` to `url` while profiles keep their
+ * `https://dev.azure.com/<organization>` URLs. Covers repositories, pull
+ * requests, iterations, threads, votes, reviewers, policies and identities,
+ * answers conditional GETs with 304 and plays scripted faults.
+ *
+ * @example
+ * const server = new FakeAzureDevOpsServer();
+ * await server.start();
+ * server.addFault({ path: /pullrequests/, status: 429, retryAfter: 0 });
+ * // ... exercise the client ...
+ * await server.stop();
+ */
+export class FakeAzureDevOpsServer {
+  /** Requests received since start or the last reset, oldest first */
+  readonly requests: RecordedRequest[] = [];
+
+  /** Page pull request lists with `x-ms-continuationtoken` instead of `$skip` */
+  useContinuationTokens = false;
+
+  /** Most iteration changes per page when the request sets no `$top`, like the service */
+  changesPageSize = 100;
+
+  private data: FakeAzureDevOpsData;
+  private faults: FakeFault[] = [];
+  private server?: http.Server;
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private readonly routes: Route[];
+
+  constructor(private readonly createData: () => FakeAzureDevOpsData = () => createFixtures()) {
+    this.data = createData();
+
+    const project = '([^/]+)';
+    const pullRequest = `${project}/_apis/git/repositories/([^/]+)/pullrequests/(\\d+)`;
+    this.routes = [
+      this.define('GET', '_apis/connectionData', () => this.getConnectionData()),
+      this.define('GET', '_apis/profile/profiles/me', () => this.getProfile()),
+      this.define('GET', '_apis/identities', (request) => this.getIdentities(request)),
+      this.define('POST', '_apis/IdentityPicker/Identities', (request) => this.searchIdentities(request)),
+      this.define('GET', `${project}/_apis/git/repositories`, (_request, [name]) => this.getRepositories(name)),
+      this.define('GET', `${project}/_apis/git/repositories/([^/]+)/pullrequests`, (request, params) =>
+        this.getPullRequests(request, params)
+      ),
+      this.define('POST', `${project}/_apis/git/repositories/([^/]+)/pullrequests`, (request, params) =>
+        this.createPullRequest(request, params)
+      ),
+      this.define('GET', `${project}/_apis/git/pullrequests/(\\d+)`, (_request, [name, id]) =>
+        this.ok(this.toPullRequest(this.findPullRequestById(name, Number(id))))
+      ),
+      this.define('GET', pullRequest, (_request, params) => this.ok(this.toPullRequest(this.findPullRequest(params)))),
+      this.define('PATCH', pullRequest, (request, params) => this.updatePullRequest(request, params)),
+      this.define('GET', `${pullRequest}/iterations`, (_request, params) =>
+        this.list(this.findPullRequest(params).iterations.map((iteration) => this.toIteration(iteration)))
+      ),
+      this.define('GET', `${pullRequest}/iterations/(\\d+)/changes`, (request, params) =>
+        this.getIterationChanges(request, params)
+      ),
+      this.define('GET', `${pullRequest}/threads`, (_request, params) =>
+        this.list(this.findPullRequest(params).threads.map((thread) => this.toThread(thread)))
+      ),
+      this.define('POST', `${pullRequest}/threads`, (request, params) => this.createThread(request, params)),
+      this.define('GET', `${pullRequest}/threads/(\\d+)`, (_request, params) =>
+        this.ok(this.toThread(this.findThread(params)))
+      ),
+      this.define('PATCH', `${pullRequest}/threads/(\\d+)`, (request, params) => this.updateThread(request, params)),
+      this.define('POST', `${pullRequest}/threads/(\\d+)/comments`, (request, params) =>
+        this.createComment(request, params)
+      ),
+      this.define('PATCH', `${pullRequest}/threads/(\\d+)/comments/(\\d+)`, (request, params) =>
+        this.updateComment(request, params)
+      ),
+      this.define('DELETE', `${pullRequest}/threads/(\\d+)/comments/(\\d+)`, (_request, params) =>
+        this.deleteComment(params)
+      ),
+      this.define('POST', `${pullRequest}/threads/(\\d+)/comments/(\\d+)/likes`, (_request, params) =>
+        this.setLike(params, true)
+      ),
+      this.define('DELETE', `${pullRequest}/threads/(\\d+)/comments/(\\d+)/likes`, (_request, params) =>
+        this.setLike(params, false)
+      ),
+      this.define('GET', `${pullRequest}/reviewers`, (_request, params) => {
+        const found = this.findPullRequest(params);
+        return this.list(found.reviewers.map((reviewer) => this.toReviewer(reviewer)));
+      }),
+      this.define('PUT', `${pullRequest}/reviewers/([^/]+)`, (request, params) => this.putReviewer(request, params)),
+      this.define('DELETE', `${pullRequest}/reviewers/([^/]+)`, (_request, params) => this.removeReviewer(params)),
+      this.define('GET', `${pullRequest}/properties`, (_request, params) => this.getProperties(params)),
+      this.define('PATCH', `${pullRequest}/properties`, (request, params) => this.updateProperties(request, params)),
+      this.define('GET', `${pullRequest}/workitems`, (_request, params) => {
+        this.findPullRequest(params);
+        return this.list([]);
+      }),
+      this.define('GET', `${project}/_apis/policy/evaluations`, (request, [name]) =>
+        this.getPolicyEvaluations(request, name)
+      ),
+      this.define('PATCH', `${project}/_apis/policy/evaluations/([^/]+)`, (_request, params) =>
+        this.requeuePolicyEvaluation(params)
+      )
+    ];
+  }
+
+  /**
+   * Base URL to set as `azureDevOps.apiBaseUrl`
+   *
+   * @throws Error if the server is not started
+   */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error('Fake Azure DevOps server is not started');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Organization URL connection profiles use, e.g. `https://dev.azure.com/fabrikam`
+   */
+  get organizationUrl(): string {
+    return `${SERVICE_URL}/${this.data.organization}`;
+  }
+
+  /**
+   * Current data, for seeding extra records or asserting on changes
+   */
+  get state(): FakeAzureDevOpsData {
+    return this.data;
+  }
+
+  /**
+   * Start listening on localhost
+   *
+   * @param port Port to listen on; a free port when omitted
+   * @returns Promise resolving to the base URL
+   */
+  async start(port = 0): Promise<string> {
+    const server = http.createServer((request, response) => this.handle(request, response));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    return this.url;
+  }
+
+  /**
+   * Stop listening and drop open connections, including held responses
+   */
+  async stop(): Promise<void> {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Restore the seed data and clear faults and recorded requests
+   */
+  reset(): void {
+    this.data = this.createData();
+    this.faults = [];
+    this.requests.length = 0;
+    this.useContinuationTokens = false;
+    this.changesPageSize = 100;
+  }
+
+  /**
+   * Fail matching requests, in the order faults were added
+   */
+  addFault(fault: FakeFault): void {
+    this.faults.push({ ...fault, times: fault.times ?? 1 });
+  }
+
+  /**
+   * Drop all faults that have not played yet
+   */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  private async handle(incoming: http.IncomingMessage, outgoing: http.ServerResponse): Promise<void> {
+    const url = new URL(incoming.url || '/', 'http://127.0.0.1');
+    const organizationPrefix = `/${this.data.organization}`;
+    const path = url.pathname.startsWith(`${organizationPrefix}/`)
+      ? decodeURIComponent(url.pathname.substring(organizationPrefix.length))
+      : undefined;
+
+    const rawBody = await this.readBody(incoming);
+    let body: any;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : undefined;
+    } catch {
+      this.send(outgoing, incoming, { status: 400, body: { message: 'Invalid JSON body' } });
+      return;
+    }
+
+    const request: RecordedRequest = {
+      method: incoming.method || 'GET',
+      path: path ?? url.pathname,
+      query: url.searchParams,
+      headers: incoming.headers,
+      body
+    };
+    this.requests.push(request);
+
+    const fault = this.takeFault(request, url.search);
+    if (fault?.delayMs) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => {
+          this.timers.delete(timer);
+          resolve();
+        }, fault.delayMs);
+        this.timers.add(timer);
+      });
+      if (outgoing.destroyed || !this.server) {
+        return;
+      }
+    }
+
+    if (fault?.status) {
+      this.send(outgoing, incoming, {
+        status: fault.status,
+        body: { message: `Fake fault ${fault.status}`, typeKey: 'FakeFault' },
+        headers: {
+          ...(fault.retryAfter !== undefined ? { 'Retry-After': String(fault.retryAfter) } : {}),
+          ...fault.headers
+        }
+      });
+      return;
+    }
+
+    const response = this.dispatch(request, path);
+    this.send(outgoing, incoming, {
+      ...response,
+      headers: { ...response.headers, ...fault?.headers }
+    });
+  }
+
+  private define(method: string, pattern: string, handler: RouteHandler): Route {
+    return { method, pattern: new RegExp(`^/${pattern}$`, 'i'), handler };
+  }
+
+  private dispatch(request: RecordedRequest, path: string | undefined): FakeResponse {
+    if (path === undefined) {
+      return { status: 404, body: { message: `Unknown organization in ${request.path}` } };
+    }
+    if (!/^(Basic|Bearer) \S+/.test(request.headers.authorization || '')) {
+      return {
+        status: 401,
+        body: { message: 'TF400813: The user is not authorized to access this resource.' }
+      };
+    }
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(path);
+      if (match && route.method === request.method) {
+        try {
+          return route.handler(request, match.slice(1));
+        } catch (error) {
+          if (error instanceof FakeHttpError) {
+            return { status: error.status, body: { message: error.message } };
+          }
+          return { status: 500, body: { message: error instanceof Error ? error.message : 'Internal error' } };
+        }
+      }
+    }
+    return { status: 404, body: { message: `No fake route for ${request.method} ${request.path}` } };
+  }
+
+  private takeFault(request: RecordedRequest, search: string): FakeFault | undefined {
+    const target = `${request.path}${search}`;
+    const index = this.faults.findIndex(
+      (fault) =>
+        (!fault.method || fault.method.toUpperCase() === request.method) &&
+        (!fault.path ||
+          (typeof fault.path === 'string' ? target.includes(fault.path) : fault.path.test(target)))
+    );
+    if (index < 0) {
+      return undefined;
+    }
+
+    const fault = this.faults[index];
+    fault.times = fault.times! - 1;
+    if (fault.times <= 0) {
+      this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+
+  private send(outgoing: http.ServerResponse, incoming: http.IncomingMessage, response: FakeResponse): void {
+    if (outgoing.destroyed) {
+      return;
+    }
+
+    const headers: Record<string, string> = { ...response.headers };
+    let payload = '';
+    if (response.body !== undefined) {
+      payload = JSON.stringify(response.body);
+      headers['Content-Type'] = 'application/json; charset=utf-8';
+
+      // Conditional GETs, like the service, keyed by the response content
+      if (incoming.method === 'GET' && response.status === 200) {
+        const etag = `"${createHash('sha1').update(payload).digest('hex')}"`;
+        headers['ETag'] = etag;
+        if (incoming.headers['if-none-match'] === etag) {
+          outgoing.writeHead(304, headers);
+          outgoing.end();
+          return;
+        }
+      }
+    }
+
+    outgoing.writeHead(response.status, headers);
+    outgoing.end(payload);
+  }
+
+  private readBody(incoming: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      incoming.on('data', (chunk: Buffer) => chunks.push(chunk));
+      incoming.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      incoming.on('error', reject);
+    });
+  }
+
+  // Handlers
+
+  private getConnectionData(): FakeResponse {
+    const user = this.findIdentity(this.data.currentUserId);
+    const identity = {
+      id: user.id,
+      providerDisplayName: user.displayName,
+      properties: { Account: { $type: 'System.String', $value: user.uniqueName } }
+    };
+    return this.ok({ authenticatedUser: identity, authorizedUser: identity });
+  }
+
+  private getProfile(): FakeResponse {
+    const user = this.findIdentity(this.data.currentUserId);
+    return this.ok({ id: user.id, displayName: user.displayName, emailAddress: user.uniqueName });
+  }
+
+  private getIdentities(request: RecordedRequest): FakeResponse {
+    const ids = (request.query.get('identityIds') || '').split(',').filter(Boolean);
+    return this.list(
+      ids.map((id) => {
+        const identity = this.data.identities.find((candidate) => candidate.id === id);
+        return identity
+          ? {
+              id: identity.id,
+              providerDisplayName: identity.displayName,
+              properties: { Account: { $type: 'System.String', $value: identity.uniqueName } }
+            }
+          : null;
+      })
+    );
+  }
+
+  private searchIdentities(request: RecordedRequest): FakeResponse {
+    const query = String(request.body?.query || '').toLowerCase();
+    const identities = this.data.identities
+      .filter(
+        (identity) =>
+          identity.displayName.toLowerCase().includes(query) || identity.uniqueName.toLowerCase().includes(query)
+      )
+      .map((identity) => ({
+        localId: identity.id,
+        originId: identity.id,
+        entityType: identity.isGroup ? 'Group' : 'User',
+        displayName: identity.displayName,
+        mail: identity.isGroup ? undefined : identity.uniqueName,
+        signInAddress: identity.isGroup ? undefined : identity.uniqueName
+      }));
+    return this.ok({ results: [{ queryToken: query, identities }] });
+  }
+
+  private getRepositories(projectName: string): FakeResponse {
+    this.checkProject(projectName);
+    return this.list(this.data.repositories.map((repository) => this.toRepository(repository)));
+  }
+
+  private getPullRequests(request: RecordedRequest, [projectName, repositoryId]: string[]): FakeResponse {
+    this.checkProject(projectName);
+    this.findRepository(repositoryId);
+
+    const criteria = (name: string) => request.query.get(`searchCriteria.${name}`) || undefined;
+    const status = criteria('status') || 'active';
+    const creatorId = criteria('creatorId');
+    const reviewerId = criteria('reviewerId');
+    const sourceRefName = criteria('sourceRefName');
+    const targetRefName = criteria('targetRefName');
+    const minTime = criteria('minTime');
+    const timeRangeType = criteria('queryTimeRangeType') || 'created';
+
+    const matches = this.data.pullRequests
+      .filter(
+        (pullRequest) =>
+          pullRequest.repositoryId.toLowerCase() === repositoryId.toLowerCase() &&
+          (status === 'all' || pullRequest.status === status) &&
+          (!creatorId || pullRequest.createdById === creatorId) &&
+          (!reviewerId || pullRequest.reviewers.some((reviewer) => reviewer.id === reviewerId)) &&
+          (!sourceRefName || pullRequest.sourceRefName === sourceRefName) &&
+          (!targetRefName || pullRequest.targetRefName === targetRefName) &&
+          (!minTime ||
+            new Date((timeRangeType === 'closed' ? pullRequest.closedDate : pullRequest.creationDate) || 0) >=
+              new Date(minTime))
+      )
+      .sort((a, b) => b.pullRequestId - a.pullRequestId);
+
+    const top = Number(request.query.get('$top') || 101);
+    const token = request.query.get('continuationToken');
+    const skip = token
+      ? Number(Buffer.from(token, 'base64').toString('utf8'))
+      : Number(request.query.get('$skip') || 0);
+    const page = matches.slice(skip, skip + top);
+
+    const headers: Record<string, string> = {};
+    if (this.useContinuationTokens && skip + top < matches.length) {
+      headers['x-ms-continuationtoken'] = Buffer.from(String(skip + top)).toString('base64');
+    }
+
+    return {
+      status: 200,
+      body: { count: page.length, value: page.map((pullRequest) => this.toPullRequest(pullRequest)) },
+      headers
+    };
+  }
+
+  private createPullRequest(request: RecordedRequest, [projectName, repositoryId]: string[]): FakeResponse {
+    this.checkProject(projectName);
+    const repository = this.findRepository(repositoryId);
+    const body = request.body || {};
+    if (!body.sourceRefName || !body.targetRefName || !body.title) {
+      throw new FakeHttpError(400, 'sourceRefName, targetRefName and title are required');
+    }
+    if (
+      this.data.pullRequests.some(
+        (existing) =>
+          existing.repositoryId === repository.id &&
+          existing.status === 'active' &&
+          existing.sourceRefName === body.sourceRefName &&
+          existing.targetRefName === body.targetRefName
+      )
+    ) {
+      throw new FakeHttpError(409, 'TF401179: An active pull request for the source and target branch already exists.');
+    }
+
+    const now = new Date().toISOString();
+    const pullRequestId = Math.max(0, ...this.data.pullRequests.map((existing) => existing.pullRequestId)) + 1;
+    const created: FakePullRequest = {
+      repositoryId: repository.id,
+      pullRequestId,
+      title: body.title,
+      description: body.description || '',
+      status: 'active',
+      isDraft: !!body.isDraft,
+      createdById: this.data.currentUserId,
+      creationDate: now,
+      sourceRefName: body.sourceRefName,
+      targetRefName: body.targetRefName,
+      mergeStatus: 'queued',
+      reviewers: (body.reviewers || []).map((reviewer: { id: string; isRequired?: boolean }) => ({
+        id: reviewer.id,
+        vote: 0,
+        isRequired: !!reviewer.isRequired
+      })),
+      iterations: [
+        {
+          id: 1,
+          authorId: this.data.currentUserId,
+          createdDate: now,
+          sourceCommitId: this.commitId(`${repository.id}/${pullRequestId}/1`),
+          targetCommitId: this.commitId(`${repository.id}/${body.targetRefName}`),
+          reason: 'create',
+          changes: []
+        }
+      ],
+      threads: [],
+      policies: [],
+      properties: {}
+    };
+    this.data.pullRequests.push(created);
+    return { status: 201, body: this.toPullRequest(created) };
+  }
+
+  private updatePullRequest(request: RecordedRequest, params: string[]): FakeResponse {
+    const pullRequest = this.findPullRequest(params);
+    const body = request.body || {};
+
+    if (body.status === 'completed') {
+      const latest = this.latestIteration(pullRequest);
+      const expected = body.lastMergeSourceCommit?.commitId;
+      if (expected && latest && expected !== latest.sourceCommitId) {
+        throw new FakeHttpError(409, 'TF401192: The source branch was updated since the pull request was reviewed.');
+      }
+      if (pullRequest.mergeStatus === 'conflicts') {
+        throw new FakeHttpError(409, 'TF401181: The pull request cannot be completed because of merge conflicts.');
+      }
+      pullRequest.closedDate = new Date().toISOString();
+    } else if (body.status === 'abandoned') {
+      pullRequest.closedDate = new Date().toISOString();
+    } else if (body.status === 'active') {
+      pullRequest.closedDate = undefined;
+    }
+
+    if (body.status) {
+      pullRequest.status = body.status;
+    }
+    if (body.title !== undefined) {
+      pullRequest.title = body.title;
+    }
+    if (body.description !== undefined) {
+      pullRequest.description = body.description;
+    }
+    if (body.isDraft !== undefined) {
+      pullRequest.isDraft = !!body.isDraft;
+    }
+    if (body.autoCompleteSetBy) {
+      pullRequest.autoCompleteSetById =
+        body.autoCompleteSetBy.id === EMPTY_GUID ? undefined : body.autoCompleteSetBy.id;
+    }
+    if (body.completionOptions) {
+      pullRequest.completionOptions = body.completionOptions;
+    }
+
+    return this.ok(this.toPullRequest(pullRequest));
+  }
+
+  private getIterationChanges(request: RecordedRequest, params: string[]): FakeResponse {
+    const pullRequest = this.findPullRequest(params);
+    const iteration = pullRequest.iterations.find((candidate) => candidate.id === Number(params[3]));
+    if (!iteration) {
+      throw new FakeHttpError(404, `Iteration ${params[3]} not found`);
+    }
+
+    // Comparing against an earlier iteration only lists files it did not have
+    const compareTo = pullRequest.iterations.find(
+      (candidate) => candidate.id === Number(request.query.get('$compareTo'))
+    );
+    const changes = iteration.changes.filter(
+      (change) => !compareTo?.changes.some((earlier) => earlier.path === change.path)
+    );
+
+    // Page like the service, announcing the next page with nextSkip/nextTop
+    const skip = Number(request.query.get('$skip') || 0);
+    const top = Math.min(Number(request.query.get('$top') || this.changesPageSize), this.changesPageSize);
+    const more = skip + top < changes.length;
+
+    return this.ok({
+      nextSkip: more ? skip + top : undefined,
+      nextTop: more ? top : undefined,
+      changeEntries: changes.slice(skip, skip + top).map((change, index) => ({
+        changeTrackingId: skip + index + 1,
+        changeId: skip + index + 1,
+        changeType: change.changeType,
+        item: {
+          objectId: this.commitId(`${iteration.sourceCommitId}${change.path}`),
+          originalObjectId: change.changeType === 'add' ? undefined : this.commitId(change.path),
+          gitObjectType: 'blob',
+          commitId: iteration.sourceCommitId,
+          path: change.path,
+          isFolder: false,
+          url: `${this.projectUrl()}/_apis/git/repositories/${pullRequest.repositoryId}/items${change.path}`
+        }
+      }))
+    });
+  }
+
+  private createThread(request: RecordedRequest, params: string[]): FakeResponse {
+    const pullRequest = this.findPullRequest(params);
+    const body = request.body || {};
+    const now = new Date().toISOString();
+    const thread: FakeThread = {
+      id: Math.max(0, ...pullRequest.threads.map((existing) => existing.id)) + 1,
+      status: body.status || 'active',
+      filePath: body.threadContext?.filePath,
+      line: body.threadContext?.rightFileStart?.line,
+      publishedDate: now,
+      lastUpdatedDate: now,
+      isDeleted: false,
+      comments: (body.comments || []).map((comment: { content: string; commentType?: string }, index: number) =>
+        this.newComment(index + 1, index === 0 ? 0 : 1, comment.content, comment.commentType)
+      )
+    };
+    pullRequest.threads.push(thread);
+    return this.ok(this.toThread(thread));
+  }
+
+  private updateThread(request: RecordedRequest, params: string[]): FakeResponse {
+    const thread = this.findThread(params);
+    if (request.body?.status) {
+      thread.status = request.body.status;
+      thread.lastUpdatedDate = new Date().toISOString();
+    }
+    return this.ok(this.toThread(thread));
+  }
+
+  private createComment(request: RecordedRequest, params: string[]): FakeResponse {
+    const thread = this.findThread(params);
+    const body = request.body || {};
+    const comment = this.newComment(
+      Math.max(0, ...thread.comments.map((existing) => existing.id)) + 1,
+      body.parentCommentId ?? 1,
+      body.content || '',
+      body.commentType
+    );
+    thread.comments.push(comment);
+    thread.lastUpdatedDate = comment.publishedDate;
+    return this.ok(this.toComment(comment));
+  }
+
+  private updateComment(request: RecordedRequest, params: string[]): FakeResponse {
+    const comment = this.findComment(params);
+    if (comment.authorId !== this.data.currentUserId) {
+      throw new FakeHttpError(403, 'Only the author can edit a comment');
+    }
+    if (request.body?.content !== undefined) {
+      comment.content = request.body.content;
+      comment.lastUpdatedDate = new Date().toISOString();
+      this.findThread(params).lastUpdatedDate = comment.lastUpdatedDate;
+    }
+    return this.ok(this.toComment(comment));
+  }
+
+  private deleteComment(params: string[]): FakeResponse {
+    const comment = this.findComment(params);
+    if (comment.authorId !== this.data.currentUserId) {
+      throw new FakeHttpError(403, 'Only the author can delete a comment');
+    }
+    comment.isDeleted = true;
+    this.findThread(params).lastUpdatedDate = new Date().toISOString();
+    return { status: 204 };
+  }
+
+  private setLike(params: string[], liked: boolean): FakeResponse {
+    const comment = this.findComment(params);
+    comment.likedBy = comment.likedBy.filter((id) => id !== this.data.currentUserId);
+    if (liked) {
+      comment.likedBy.push(this.data.currentUserId);
+    }
+    return { status: 204 };
+  }
+
+  private putReviewer(request: RecordedRequest, params: string[]): FakeResponse {
+    const pullRequest = this.findPullRequest(params);
+    const reviewerId = this.resolveIdentityId(params[3]);
+    this.findIdentity(reviewerId);
+    if (pullRequest.status !== 'active') {
+      throw new FakeHttpError(409, 'TF401181: The pull request is not active.');
+    }
+
+    let reviewer = pullRequest.reviewers.find((existing) => existing.id === reviewerId);
+    if (!reviewer) {
+      reviewer = { id: reviewerId, vote: 0, isRequired: false };
+      pullRequest.reviewers.push(reviewer);
+    }
+    const body = request.body || {};
+    if (body.vote !== undefined) {
+      if (reviewerId !== this.data.currentUserId) {
+        throw new FakeHttpError(403, 'Only reviewers can cast their own vote');
+      }
+      reviewer.vote = Number(body.vote);
+      this.addVoteUpdate(pullRequest, reviewerId, reviewer.vote);
+    }
+    if (body.isRequired !== undefined) {
+      reviewer.isRequired = !!body.isRequired;
+    }
+    return this.ok(this.toReviewer(reviewer));
+  }
+
+  /** Post the system thread Azure DevOps adds for every vote */
+  private addVoteUpdate(pullRequest: FakePullRequest, voterId: string, vote: number): void {
+    const now = new Date().toISOString();
+    pullRequest.threads.push({
+      id: Math.max(0, ...pullRequest.threads.map((existing) => existing.id)) + 1,
+      status: 'closed',
+      publishedDate: now,
+      lastUpdatedDate: now,
+      isDeleted: false,
+      comments: [
+        {
+          ...this.newComment(1, 0, `${this.findIdentity(voterId).displayName} voted ${vote}`, 'system'),
+          authorId: voterId
+        }
+      ],
+      voteUpdate: { voterId, vote }
+    });
+  }
+
+  private removeReviewer(params: string[]): FakeResponse {
+    const pullRequest = this.findPullRequest(params);
+    const reviewerId = this.resolveIdentityId(params[3]);
+    pullRequest.reviewers = pullRequest.reviewers.filter((reviewer) => reviewer.id !== reviewerId);
+    return { status: 204 };
+  }
+
+  private getProperties(params: string[]): FakeResponse {
+    const pullRequest = this.findPullRequest(params);
+    const entries = Object.entries(pullRequest.properties);
+    return this.ok({
+      count: entries.length,
+      value: Object.fromEntries(entries.map(([key, value]) => [key, { $type: 'System.String', $value: value }]))
+    });
+  }
+
+  private updateProperties(request: RecordedRequest, params: string[]): FakeResponse {
+    const pullRequest = this.findPullRequest(params);
+    for (const operation of Array.isArray(request.body) ? request.body : []) {
+      const key = String(operation.path || '').replace(/^\//, '');
+      if (operation.op === 'remove') {
+        delete pullRequest.properties[key];
+      } else if (key) {
+        pullRequest.properties[key] = String(operation.value);
+      }
+    }
+    return this.getProperties(params);
+  }
+
+  private getPolicyEvaluations(request: RecordedRequest, projectName: string): FakeResponse {
+    this.checkProject(projectName);
+    const artifactId = request.query.get('artifactId');
+    const pullRequest = this.data.pullRequests.find((candidate) => this.artifactId(candidate) === artifactId);
+    if (!pullRequest) {
+      return this.list([]);
+    }
+    return this.list(pullRequest.policies.map((policy) => this.toPolicyEvaluation(pullRequest, policy)));
+  }
+
+  private requeuePolicyEvaluation([projectName, evaluationId]: string[]): FakeResponse {
+    this.checkProject(projectName);
+    for (const pullRequest of this.data.pullRequests) {
+      const policy = pullRequest.policies.find((candidate) => candidate.evaluationId === evaluationId);
+      if (policy) {
+        policy.status = 'queued';
+        policy.startedDate = new Date().toISOString();
+        return this.ok(this.toPolicyEvaluation(pullRequest, policy));
+      }
+    }
+    throw new FakeHttpError(404, `Policy evaluation ${evaluationId} not found`);
+  }
+
+  // Lookups
+
+  private checkProject(projectName: string): void {
+    const project = this.data.project;
+    if (![project.name.toLowerCase(), project.id].includes(projectName.toLowerCase())) {
+      throw new FakeHttpError(404, `TF200016: The project ${projectName} does not exist.`);
+    }
+  }
+
+  private findRepository(repositoryId: string): FakeRepository {
+    const repository = this.data.repositories.find(
+      (candidate) =>
+        candidate.id.toLowerCase() === repositoryId.toLowerCase() ||
+        candidate.name.toLowerCase() === repositoryId.toLowerCase()
+    );
+    if (!repository) {
+      throw new FakeHttpError(404, `TF401019: The Git repository ${repositoryId} does not exist.`);
+    }
+    return repository;
+  }
+
+  private findPullRequest([projectName, repositoryId, pullRequestId]: string[]): FakePullRequest {
+    this.checkProject(projectName);
+    const repository = this.findRepository(repositoryId);
+    const pullRequest = this.data.pullRequests.find(
+      (candidate) => candidate.repositoryId === repository.id && candidate.pullRequestId === Number(pullRequestId)
+    );
+    if (!pullRequest) {
+      throw new FakeHttpError(404, `TF401180: The requested pull request ${pullRequestId} was not found.`);
+    }
+    return pullRequest;
+  }
+
+  private findPullRequestById(projectName: string, pullRequestId: number): FakePullRequest {
+    this.checkProject(projectName);
+    const pullRequest = this.data.pullRequests.find((candidate) => candidate.pullRequestId === pullRequestId);
+    if (!pullRequest) {
+      throw new FakeHttpError(404, `TF401180: The requested pull request ${pullRequestId} was not found.`);
+    }
+    return pullRequest;
+  }
+
+  private findThread(params: string[]): FakeThread {
+    const thread = this.findPullRequest(params).threads.find((candidate) => candidate.id === Number(params[3]));
+    if (!thread) {
+      throw new FakeHttpError(404, `Thread ${params[3]} not found`);
+    }
+    return thread;
+  }
+
+  private findComment(params: string[]): FakeComment {
+    const comment = this.findThread(params).comments.find((candidate) => candidate.id === Number(params[4]));
+    if (!comment) {
+      throw new FakeHttpError(404, `Comment ${params[4]} not found`);
+    }
+    return comment;
+  }
+
+  private findIdentity(identityId: string) {
+    const identity = this.data.identities.find((candidate) => candidate.id === identityId);
+    if (!identity) {
+      throw new FakeHttpError(404, `Identity ${identityId} not found`);
+    }
+    return identity;
+  }
+
+  private resolveIdentityId(identityId: string): string {
+    return identityId === '@me' ? this.data.currentUserId : identityId;
+  }
+
+  private latestIteration(pullRequest: FakePullRequest): FakeIteration | undefined {
+    return pullRequest.iterations[pullRequest.iterations.length - 1];
+  }
+
+  // Wire formats
+
+  private ok(body: unknown): FakeResponse {
+    return { status: 200, body };
+  }
+
+  private list(value: unknown[]): FakeResponse {
+    return this.ok({ count: value.length, value });
+  }
+
+  private projectUrl(): string {
+    return `${this.organizationUrl}/${this.data.project.id}`;
+  }
+
+  private artifactId(pullRequest: FakePullRequest): string {
+    return `vstfs:///CodeReview/CodeReviewId/${this.data.project.id}/${pullRequest.pullRequestId}`;
+  }
+
+  private commitId(seed: string): string {
+    return createHash('sha1').update(seed).digest('hex');
+  }
+
+  private newComment(id: number, parentCommentId: number, content: string, commentType?: string): FakeComment {
+    const now = new Date().toISOString();
+    return {
+      id,
+      parentCommentId,
+      authorId: this.data.currentUserId,
+      content,
+      publishedDate: now,
+      lastUpdatedDate: now,
+      commentType: commentType === 'system' ? 'system' : 'text',
+      isDeleted: false,
+      likedBy: []
+    };
+  }
+
+  private toIdentity(identityId: string) {
+    const identity = this.findIdentity(identityId);
+    return {
+      id: identity.id,
+      displayName: identity.displayName,
+      uniqueName: identity.uniqueName,
+      url: `${SERVICE_URL}/${this.data.organization}/_apis/Identities/${identity.id}`,
+      imageUrl: `${this.organizationUrl}/_apis/GraphProfile/MemberAvatars/${identity.id}`,
+      descriptor: `${identity.isGroup ? 'vssgp' : 'aad'}.${Buffer.from(identity.id).toString('base64')}`
+    };
+  }
+
+  private toRepository(repository: FakeRepository) {
+    const url = `${this.projectUrl()}/_apis/git/repositories/${repository.id}`;
+    return {
+      id: repository.id,
+      name: repository.name,
+      url,
+      project: {
+        id: this.data.project.id,
+        name: this.data.project.name,
+        url: `${this.organizationUrl}/_apis/projects/${this.data.project.id}`,
+        state: 'wellFormed',
+        revision: 1,
+        visibility: 'private',
+        lastUpdateTime: '2024-01-01T00:00:00.000Z'
+      },
+      defaultBranch: repository.defaultBranch,
+      size: 0,
+      remoteUrl: `${this.organizationUrl}/${this.data.project.name}/_git/${repository.name}`,
+      sshUrl: `git@ssh.dev.azure.com:v3/${this.data.organization}/${this.data.project.name}/${repository.name}`,
+      webUrl: `${this.organizationUrl}/${this.data.project.name}/_git/${repository.name}`,
+      isDisabled: false
+    };
+  }
+
+  /** Repository as embedded in a pull request, without remotes or default branch */
+  private toRepositoryReference(repository: FakeRepository) {
+    const { id, name, url, project } = this.toRepository(repository);
+    return { id, name, url, project };
+  }
+
+  private toCommit(commitId: string, date: string) {
+    const author = { name: 'Fabrikam Build', email: 'build@fabrikam.com', date };
+    return {
+      commitId,
+      author,
+      committer: author,
+      comment: '',
+      commentTruncated: false,
+      url: `${this.projectUrl()}/_apis/git/commits/${commitId}`,
+      remoteUrl: ''
+    };
+  }
+
+  private toReviewer(reviewer: FakeReviewer) {
+    const identity = this.toIdentity(reviewer.id);
+    return {
+      ...identity,
+      reviewerUrl: identity.url,
+      vote: reviewer.vote,
+      hasDeclined: false,
+      isFlagged: false,
+      isRequired: reviewer.isRequired,
+      isContainer: !!this.findIdentity(reviewer.id).isGroup
+    };
+  }
+
+  private toPullRequest(pullRequest: FakePullRequest) {
+    const repository = this.findRepository(pullRequest.repositoryId);
+    const latest = this.latestIteration(pullRequest);
+    return {
+      pullRequestId: pullRequest.pullRequestId,
+      codeReviewId: pullRequest.pullRequestId,
+      status: pullRequest.status,
+      createdBy: this.toIdentity(pullRequest.createdById),
+      creationDate: pullRequest.creationDate,
+      closedDate: pullRequest.closedDate,
+      title: pullRequest.title,
+      description: pullRequest.description,
+      sourceRefName: pullRequest.sourceRefName,
+      targetRefName: pullRequest.targetRefName,
+      mergeStatus: pullRequest.mergeStatus,
+      isDraft: pullRequest.isDraft,
+      mergeId: this.commitId(`merge/${pullRequest.pullRequestId}`),
+      lastMergeSourceCommit: this.toCommit(
+        latest?.sourceCommitId ?? this.commitId(pullRequest.sourceRefName),
+        latest?.createdDate ?? pullRequest.creationDate
+      ),
+      lastMergeTargetCommit: this.toCommit(
+        latest?.targetCommitId ?? this.commitId(pullRequest.targetRefName),
+        latest?.createdDate ?? pullRequest.creationDate
+      ),
+      reviewers: pullRequest.reviewers.map((reviewer) => this.toReviewer(reviewer)),
+      url: `${this.projectUrl()}/_apis/git/repositories/${repository.id}/pullRequests/${pullRequest.pullRequestId}`,
+      webUrl: `${this.organizationUrl}/${this.data.project.name}/_git/${repository.name}/pullrequest/${pullRequest.pullRequestId}`,
+      repository: this.toRepositoryReference(repository),
+      workItemRefs: [],
+      labels: [],
+      hasMultipleMergeBases: false,
+      supportsIterations: true,
+      artifactId: this.artifactId(pullRequest),
+      autoCompleteSetBy: pullRequest.autoCompleteSetById ? this.toIdentity(pullRequest.autoCompleteSetById) : undefined,
+      completionOptions: pullRequest.completionOptions
+    };
+  }
+
+  private toIteration(iteration: FakeIteration) {
+    return {
+      id: iteration.id,
+      author: this.toIdentity(iteration.authorId),
+      createdDate: iteration.createdDate,
+      updatedDate: iteration.createdDate,
+      sourceRefCommit: { commitId: iteration.sourceCommitId },
+      targetRefCommit: { commitId: iteration.targetCommitId },
+      commonRefCommit: { commitId: iteration.targetCommitId },
+      hasMoreCommits: false,
+      reason: iteration.reason
+    };
+  }
+
+  private toComment(comment: FakeComment) {
+    return {
+      id: comment.id,
+      parentCommentId: comment.parentCommentId,
+      author: this.toIdentity(comment.authorId),
+      content: comment.content,
+      publishedDate: comment.publishedDate,
+      lastUpdatedDate: comment.lastUpdatedDate,
+      lastContentUpdatedDate: comment.lastUpdatedDate,
+      commentType: comment.commentType,
+      usersLiked: comment.likedBy.map((id) => this.toIdentity(id)),
+      isDeleted: comment.isDeleted
+    };
+  }
+
+  private toThread(thread: FakeThread) {
+    const position = thread.line ? { line: thread.line, offset: 1 } : undefined;
+    return {
+      id: thread.id,
+      publishedDate: thread.publishedDate,
+      lastUpdatedDate: thread.lastUpdatedDate,
+      status: thread.status,
+      isDeleted: thread.isDeleted,
+      threadContext: thread.filePath
+        ? { filePath: thread.filePath, rightFileStart: position, rightFileEnd: position }
+        : undefined,
+      comments: thread.comments.map((comment) => this.toComment(comment)),
+      properties: thread.voteUpdate
+        ? {
+            CodeReviewThreadType: { $type: 'System.String', $value: 'VoteUpdate' },
+            CodeReviewVoteResult: { $type: 'System.String', $value: String(thread.voteUpdate.vote) },
+            CodeReviewVotedByIdentity: { $type: 'System.String', $value: '1' }
+          }
+        : {},
+      identities: thread.voteUpdate ? { 1: this.toIdentity(thread.voteUpdate.voterId) } : undefined
+    };
+  }
+
+  private toPolicyEvaluation(pullRequest: FakePullRequest, policy: FakePolicy) {
+    const completed = policy.status === 'approved' || policy.status === 'rejected';
+    return {
+      evaluationId: policy.evaluationId,
+      artifactId: this.artifactId(pullRequest),
+      startedDate: policy.startedDate,
+      completedDate: completed ? policy.startedDate : undefined,
+      status: policy.status,
+      configuration: {
+        id: policy.configurationId,
+        revision: 1,
+        isEnabled: true,
+        isBlocking: policy.isBlocking,
+        url: `${this.projectUrl()}/_apis/policy/configurations/${policy.configurationId}`,
+        type: {
+          id: policy.typeId,
+          displayName: policy.displayName,
+          url: `${this.projectUrl()}/_apis/policy/types/${policy.typeId}`
+        },
+        settings: policy.requiredReviewerIds
+          ? { requiredReviewerIds: policy.requiredReviewerIds }
+          : {}
+      },
+      context: {}
+    };
+  }
+}
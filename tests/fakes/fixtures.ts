@@ -0,0 +1,409 @@
+/**
+ * Seed data of the fake Azure DevOps server
+ *
+ * Records are kept minimal and mutable; the server expands them into the
+ * shapes the REST API returns and updates them as requests change them.
+ */
+
+export interface FakeIdentity {
+  id: string;
+  displayName: string;
+  uniqueName: string;
+  isGroup?: boolean;
+}
+
+export interface FakeRepository {
+  id: string;
+  name: string;
+  defaultBranch: string;
+}
+
+export interface FakeReviewer {
+  id: string;
+  vote: number;
+  isRequired: boolean;
+}
+
+export interface FakeFileChange {
+  path: string;
+  changeType: 'add' | 'edit' | 'delete' | 'rename';
+}
+
+export interface FakeIteration {
+  id: number;
+  authorId: string;
+  createdDate: string;
+  sourceCommitId: string;
+  targetCommitId: string;
+  reason: 'create' | 'push' | 'forcePush' | 'rebase';
+  changes: FakeFileChange[];
+}
+
+export interface FakeComment {
+  id: number;
+  parentCommentId: number;
+  authorId: string;
+  content: string;
+  publishedDate: string;
+  lastUpdatedDate: string;
+  commentType: 'text' | 'system';
+  isDeleted: boolean;
+  likedBy: string[];
+}
+
+export interface FakeThread {
+  id: number;
+  status: 'active' | 'fixed' | 'wontFix' | 'closed' | 'byDesign' | 'pending';
+  filePath?: string;
+  line?: number;
+  publishedDate: string;
+  lastUpdatedDate: string;
+  isDeleted: boolean;
+  comments: FakeComment[];
+  /** Vote of a vote update system thread */
+  voteUpdate?: { voterId: string; vote: number };
+}
+
+export interface FakePolicy {
+  evaluationId: string;
+  configurationId: number;
+  displayName: string;
+  typeId: string;
+  isBlocking: boolean;
+  status: 'approved' | 'rejected' | 'running' | 'queued' | 'notApplicable';
+  startedDate: string;
+  /** Reviewers a required reviewers policy adds */
+  requiredReviewerIds?: string[];
+}
+
+export interface FakePullRequest {
+  repositoryId: string;
+  pullRequestId: number;
+  title: string;
+  description: string;
+  status: 'active' | 'completed' | 'abandoned';
+  isDraft: boolean;
+  createdById: string;
+  creationDate: string;
+  closedDate?: string;
+  sourceRefName: string;
+  targetRefName: string;
+  mergeStatus: 'succeeded' | 'conflicts' | 'queued' | 'notSet';
+  autoCompleteSetById?: string;
+  completionOptions?: Record<string, unknown>;
+  reviewers: FakeReviewer[];
+  iterations: FakeIteration[];
+  threads: FakeThread[];
+  policies: FakePolicy[];
+  properties: Record<string, string>;
+}
+
+export interface FakeAzureDevOpsData {
+  organization: string;
+  project: { id: string; name: string };
+  /** ID of the identity every authenticated request acts as */
+  currentUserId: string;
+  identities: FakeIdentity[];
+  repositories: FakeRepository[];
+  pullRequests: FakePullRequest[];
+}
+
+export interface FixtureOptions {
+  /** Extra active pull requests in the first repository, e.g. to page through */
+  bulkPullRequests?: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Create the seed data: the "fabrikam" organization with two repositories,
+ * pull requests in every state, iterations, threads, votes and policies
+ *
+ * Dates are relative to now so "recent" queries keep matching.
+ */
+export function createFixtures(options: FixtureOptions = {}): FakeAzureDevOpsData {
+  const daysAgo = (days: number) => new Date(Date.now() - days * DAY).toISOString();
+
+  const comment = (
+    id: number,
+    authorId: string,
+    content: string,
+    days: number
+  ): FakeComment => ({
+    id,
+    parentCommentId: id === 1 ? 0 : 1,
+    authorId,
+    content,
+    publishedDate: daysAgo(days),
+    lastUpdatedDate: daysAgo(days),
+    commentType: 'text',
+    isDeleted: false,
+    likedBy: []
+  });
+
+  const data: FakeAzureDevOpsData = {
+    organization: 'fabrikam',
+    project: { id: '6ce954b1-ce1f-45d1-b94d-e6bf2464ba2c', name: 'Fabrikam' },
+    currentUserId: 'a1b2c3d4-0000-0000-0000-000000000001',
+    identities: [
+      {
+        id: 'a1b2c3d4-0000-0000-0000-000000000001',
+        displayName: 'Ada Lovelace',
+        uniqueName: 'ada@fabrikam.com'
+      },
+      {
+        id: 'a1b2c3d4-0000-0000-0000-000000000002',
+        displayName: 'Grace Hopper',
+        uniqueName: 'grace@fabrikam.com'
+      },
+      {
+        id: 'a1b2c3d4-0000-0000-0000-000000000003',
+        displayName: 'Alan Turing',
+        uniqueName: 'alan@fabrikam.com'
+      },
+      {
+        id: 'a1b2c3d4-0000-0000-0000-00000000000a',
+        displayName: '[Fabrikam]\\Web Team',
+        uniqueName: 'vstfs:///Classification/TeamProject/web-team',
+        isGroup: true
+      }
+    ],
+    repositories: [
+      { id: 'e3b1a6c0-0000-0000-0000-000000000001', name: 'web', defaultBranch: 'refs/heads/main' },
+      { id: 'e3b1a6c0-0000-0000-0000-000000000002', name: 'api', defaultBranch: 'refs/heads/main' }
+    ],
+    pullRequests: []
+  };
+
+  const [ada, grace, alan, webTeam] = data.identities.map((identity) => identity.id);
+  const [web, api] = data.repositories.map((repository) => repository.id);
+
+  data.pullRequests.push(
+    {
+      repositoryId: web,
+      pullRequestId: 101,
+      title: 'Add login page',
+      description: 'Adds the login page with remember me.\n\nFixes #42',
+      status: 'active',
+      isDraft: false,
+      createdById: grace,
+      creationDate: daysAgo(3),
+      sourceRefName: 'refs/heads/feature/login',
+      targetRefName: 'refs/heads/main',
+      mergeStatus: 'succeeded',
+      reviewers: [
+        { id: ada, vote: 0, isRequired: true },
+        { id: webTeam, vote: 0, isRequired: false }
+      ],
+      iterations: [
+        {
+          id: 1,
+          authorId: grace,
+          createdDate: daysAgo(3),
+          sourceCommitId: '1111111111111111111111111111111111111111',
+          targetCommitId: '9999999999999999999999999999999999999999',
+          reason: 'create',
+          changes: [
+            { path: '/src/login/LoginPage.tsx', changeType: 'add' },
+            { path: '/src/routes.ts', changeType: 'edit' }
+          ]
+        },
+        {
+          id: 2,
+          authorId: grace,
+          createdDate: daysAgo(1),
+          sourceCommitId: '2222222222222222222222222222222222222222',
+          targetCommitId: '9999999999999999999999999999999999999999',
+          reason: 'push',
+          changes: [
+            { path: '/src/login/LoginPage.tsx', changeType: 'add' },
+            { path: '/src/login/RememberMe.tsx', changeType: 'add' },
+            { path: '/src/routes.ts', changeType: 'edit' }
+          ]
+        }
+      ],
+      threads: [
+        {
+          id: 1,
+          status: 'active',
+          filePath: '/src/login/LoginPage.tsx',
+          line: 12,
+          publishedDate: daysAgo(2),
+          lastUpdatedDate: daysAgo(1),
+          isDeleted: false,
+          comments: [
+            comment(1, ada, 'Should this validate the email on blur?', 2),
+            comment(2, grace, 'Good catch, done in the latest push.', 1)
+          ]
+        },
+        {
+          id: 2,
+          status: 'fixed',
+          publishedDate: daysAgo(2),
+          lastUpdatedDate: daysAgo(2),
+          isDeleted: false,
+          comments: [comment(1, alan, 'Please link the work item.', 2)]
+        }
+      ],
+      policies: [
+        {
+          evaluationId: 'b7e3c1a0-0000-0000-0000-000000000101',
+          configurationId: 1,
+          displayName: 'Build validation',
+          typeId: '0609b952-1397-4640-95ec-e00a01b2c241',
+          isBlocking: true,
+          status: 'approved',
+          startedDate: daysAgo(1)
+        },
+        {
+          evaluationId: 'b7e3c1a0-0000-0000-0000-000000000102',
+          configurationId: 2,
+          displayName: 'Minimum number of reviewers',
+          typeId: 'fa4e907d-c16b-4a4c-9dfa-4906e5d171dd',
+          isBlocking: true,
+          status: 'running',
+          startedDate: daysAgo(3)
+        }
+      ],
+      properties: {}
+    },
+    {
+      repositoryId: web,
+      pullRequestId: 102,
+      title: 'Fix header layout on small screens',
+      description: 'The header wrapped below 600px.',
+      status: 'active',
+      isDraft: false,
+      createdById: ada,
+      creationDate: daysAgo(2),
+      sourceRefName: 'refs/heads/fix/header',
+      targetRefName: 'refs/heads/main',
+      mergeStatus: 'succeeded',
+      reviewers: [{ id: grace, vote: 10, isRequired: false }],
+      iterations: [
+        {
+          id: 1,
+          authorId: ada,
+          createdDate: daysAgo(2),
+          sourceCommitId: '3333333333333333333333333333333333333333',
+          targetCommitId: '9999999999999999999999999999999999999999',
+          reason: 'create',
+          changes: [{ path: '/src/styles/header.css', changeType: 'edit' }]
+        }
+      ],
+      threads: [],
+      policies: [
+        {
+          evaluationId: 'b7e3c1a0-0000-0000-0000-000000000201',
+          configurationId: 1,
+          displayName: 'Build validation',
+          typeId: '0609b952-1397-4640-95ec-e00a01b2c241',
+          isBlocking: true,
+          status: 'rejected',
+          startedDate: daysAgo(2)
+        }
+      ],
+      properties: {}
+    },
+    {
+      repositoryId: web,
+      pullRequestId: 103,
+      title: 'Update dependencies',
+      description: '',
+      status: 'active',
+      isDraft: true,
+      createdById: alan,
+      creationDate: daysAgo(1),
+      sourceRefName: 'refs/heads/chore/deps',
+      targetRefName: 'refs/heads/main',
+      mergeStatus: 'conflicts',
+      reviewers: [],
+      iterations: [
+        {
+          id: 1,
+          authorId: alan,
+          createdDate: daysAgo(1),
+          sourceCommitId: '4444444444444444444444444444444444444444',
+          targetCommitId: '9999999999999999999999999999999999999999',
+          reason: 'create',
+          changes: [{ path: '/package.json', changeType: 'edit' }]
+        }
+      ],
+      threads: [],
+      policies: [],
+      properties: {}
+    },
+    {
+      repositoryId: api,
+      pullRequestId: 201,
+      title: 'Add rate limiting',
+      description: 'Limits clients to 200 requests per minute.',
+      status: 'completed',
+      isDraft: false,
+      createdById: alan,
+      creationDate: daysAgo(6),
+      closedDate: daysAgo(2),
+      sourceRefName: 'refs/heads/feature/rate-limit',
+      targetRefName: 'refs/heads/main',
+      mergeStatus: 'succeeded',
+      reviewers: [{ id: ada, vote: 10, isRequired: true }],
+      iterations: [
+        {
+          id: 1,
+          authorId: alan,
+          createdDate: daysAgo(6),
+          sourceCommitId: '5555555555555555555555555555555555555555',
+          targetCommitId: '8888888888888888888888888888888888888888',
+          reason: 'create',
+          changes: [{ path: '/src/middleware/rateLimit.ts', changeType: 'add' }]
+        }
+      ],
+      threads: [],
+      policies: [],
+      properties: {}
+    },
+    {
+      repositoryId: api,
+      pullRequestId: 202,
+      title: 'Experiment with GraphQL',
+      description: '',
+      status: 'abandoned',
+      isDraft: false,
+      createdById: grace,
+      creationDate: daysAgo(30),
+      closedDate: daysAgo(20),
+      sourceRefName: 'refs/heads/spike/graphql',
+      targetRefName: 'refs/heads/main',
+      mergeStatus: 'notSet',
+      reviewers: [],
+      iterations: [],
+      threads: [],
+      policies: [],
+      properties: {}
+    }
+  );
+
+  for (let index = 0; index < (options.bulkPullRequests || 0); index++) {
+    const pullRequestId = 1000 + index;
+    data.pullRequests.push({
+      repositoryId: web,
+      pullRequestId,
+      title: `Bulk change ${index + 1}`,
+      description: '',
+      status: 'active',
+      isDraft: false,
+      createdById: [ada, grace, alan][index % 3],
+      creationDate: daysAgo(10 + index / 100),
+      sourceRefName: `refs/heads/bulk/${index + 1}`,
+      targetRefName: 'refs/heads/main',
+      mergeStatus: 'succeeded',
+      reviewers: [],
+      iterations: [],
+      threads: [],
+      policies: [],
+      properties: {}
+    });
+  }
+
+  return data;
+}
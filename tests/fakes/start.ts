@@ -0,0 +1,35 @@
+/**
+ * Run the fake Azure DevOps server for offline development
+ *
+ * Usage: npm run fake-server [-- <port>] [-- --bulk <count>]
+ *
+ * Point the extension at it with `"azureDevOps.apiBaseUrl": "http://127.0.0.1:<port>"`
+ * and a profile for `https://dev.azure.com/fabrikam`, project `Fabrikam`, with
+ * any Personal Access Token.
+ */
+import { FakeAzureDevOpsServer } from './FakeAzureDevOpsServer';
+import { createFixtures } from './fixtures';
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const bulkIndex = args.indexOf('--bulk');
+  const bulkPullRequests = bulkIndex >= 0 ? Number(args.splice(bulkIndex, 2)[1]) : 0;
+  const port = Number(args[0] || process.env.FAKE_ADO_PORT || 8090);
+
+  const server = new FakeAzureDevOpsServer(() => createFixtures({ bulkPullRequests }));
+  const url = await server.start(port);
+  console.log(`Fake Azure DevOps server listening on ${url}`);
+  console.log(`Organization: ${server.organizationUrl}, project: ${server.state.project.name}`);
+
+  const stop = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,6 +1,7 @@
 import { AzureDevOpsApiClient } from '../../src/api/AzureDevOpsApiClient';
 import { AuthenticationService } from '../../src/services/AuthenticationService';
 import { ConfigurationService } from '../../src/services/ConfigurationService';
+import { CacheManager } from '../../src/services/CacheManager';
 import { PullRequest, PullRequestStatus, GitRepository, Identity } from '../../src/api/models';
 
 // Mock VS Code Extension Context
@@ -34,8 +35,9 @@ const mockConfigService = {
 describe('Azure DevOps API Integration Tests', () => {
   let apiClient: AzureDevOpsApiClient;
   let authService: AuthenticationService;
+  let cacheManager: CacheManager;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     // Create mock authentication service
     authService = {
       authenticate: jest.fn(),
@@ -45,7 +47,13 @@ describe('Azure DevOps API Integration Tests', () => {
     } as any;
 
     // Create API client
-    apiClient = new AzureDevOpsApiClient(authService, mockConfigService, mockExtensionContext);
+    cacheManager = new CacheManager(mockExtensionContext);
+    await cacheManager.initialize();
+    apiClient = new AzureDevOpsApiClient(authService, mockConfigService, mockExtensionContext, cacheManager);
+  });
+
+  afterEach(() => {
+    cacheManager.dispose();
   });
 
   describe('API Client Initialization', () => {
@@ -0,0 +1,583 @@
+import { AzureDevOpsApiClient } from '../../src/api/AzureDevOpsApiClient';
+import { AuthenticationService } from '../../src/services/AuthenticationService';
+import { CacheManager } from '../../src/services/CacheManager';
+import { ConfigurationService, ConnectionProfile } from '../../src/services/ConfigurationService';
+import { GitCheckoutService } from '../../src/services/GitCheckoutService';
+import { PullRequestService } from '../../src/services/PullRequestService';
+import { Repository } from '../../src/typings/git';
+import { FakeAzureDevOpsServer } from '../fakes/FakeAzureDevOpsServer';
+import { createFixtures } from '../fakes/fixtures';
+import { mockVscode } from '../setup';
+
+describe('AzureDevOpsApiClient against the fake server', () => {
+  const server = new FakeAzureDevOpsServer(() => createFixtures({ bulkPullRequests: 120 }));
+  const profile: ConnectionProfile = {
+    id: 'fabrikam',
+    name: 'Fabrikam',
+    organizationUrl: 'https://dev.azure.com/fabrikam',
+    project: 'Fabrikam'
+  };
+  const web = 'e3b1a6c0-0000-0000-0000-000000000001';
+
+  let mockAuthService: jest.Mocked<Pick<AuthenticationService, 'getAuthHeader' | 'refreshAuthHeader'>>;
+  let cacheManager: CacheManager;
+  let apiClient: AzureDevOpsApiClient;
+  let globalState: Map<string, unknown>;
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    globalState = new Map();
+    mockAuthService = {
+      getAuthHeader: jest.fn().mockResolvedValue('Basic OnRlc3QtcGF0'),
+      refreshAuthHeader: jest.fn().mockResolvedValue(null)
+    };
+    const mockConfigService = {
+      getProfiles: () => [profile],
+      getProfile: () => profile,
+      getProfileForUrl: (url: string) => (url.startsWith(`${profile.organizationUrl}/`) ? profile : undefined),
+      getApiBaseUrl: () => server.url
+    };
+    const context = {
+      workspaceState: { get: jest.fn(), update: jest.fn(), keys: jest.fn().mockReturnValue([]) },
+      subscriptions: []
+    } as any;
+    cacheManager = new CacheManager(context);
+    await cacheManager.initialize();
+    apiClient = new AzureDevOpsApiClient(
+      mockAuthService as unknown as AuthenticationService,
+      mockConfigService as unknown as ConfigurationService,
+      context,
+      cacheManager
+    );
+  });
+
+  afterEach(() => {
+    cacheManager.dispose();
+  });
+
+  const createPullRequestService = () =>
+    new PullRequestService(
+      apiClient,
+      { getProfiles: () => [profile] } as unknown as ConfigurationService,
+      {
+        globalState: {
+          get: (key: string) => globalState.get(key),
+          update: async (key: string, value: unknown) => {
+            globalState.set(key, value);
+          }
+        }
+      } as any,
+      cacheManager
+    );
+
+  it('should list repositories and page through pull requests', async () => {
+    const repositories = await apiClient.getRepositories();
+    const pullRequests = await apiClient.getPullRequests(web, 'active');
+
+    expect(repositories.map((repository) => repository.name)).toEqual(['web', 'api']);
+    expect(pullRequests).toHaveLength(123);
+    expect(pullRequests[0].repository.id).toBe(web);
+    expect(server.requests.filter((request) => request.path.endsWith('/pullrequests'))).toHaveLength(2);
+  });
+
+  it('should continue pages with continuation tokens', async () => {
+    server.useContinuationTokens = true;
+
+    const page = await apiClient.getPullRequestPage(web, { status: 'active' }, { top: 100 });
+    const next = await apiClient.getPullRequestPage(web, { status: 'active' }, page.next!);
+
+    expect(page.next?.continuationToken).toBeTruthy();
+    expect(next.pullRequests).toHaveLength(23);
+    expect(next.next).toBeUndefined();
+  });
+
+  it('should record votes and new threads', async () => {
+    await apiClient.votePullRequest(web, 101, 10);
+    await apiClient.addComment(web, 101, 'Looks good');
+
+    const pullRequest = await apiClient.getPullRequest(web, 101, { useCache: false });
+    const threads = await apiClient.getCommentThreads(web, 101);
+
+    expect(pullRequest.reviewers.find((reviewer) => reviewer.displayName === 'Ada Lovelace')?.vote).toBe(10);
+    expect(threads.map((thread) => thread.comments[0].content)).toContain('Looks good');
+  });
+
+  it('should invalidate cached reads of a pull request when it is written to', async () => {
+    const pullRequestService = createPullRequestService();
+    await pullRequestService.getPullRequests({ repositoryId: web });
+    await apiClient.getCommentThreads(web, 101);
+
+    await apiClient.votePullRequest(web, 101, 10);
+    await apiClient.addComment(web, 101, 'Looks good');
+
+    const listed = await pullRequestService.getPullRequests({ repositoryId: web });
+    const threads = await apiClient.getCommentThreads(web, 101);
+    const pullRequest = listed.find((candidate) => candidate.pullRequestId === 101);
+    expect(pullRequest?.reviewers.find((reviewer) => reviewer.displayName === 'Ada Lovelace')?.vote).toBe(10);
+    expect(threads.map((thread) => thread.comments[0].content)).toContain('Looks good');
+  });
+
+  it('should complete a pull request pinned to the reviewed source commit', async () => {
+    const pullRequestService = createPullRequestService();
+
+    const result = await pullRequestService.completePullRequest(web, 101, '2222222222222222222222222222222222222222', {
+      mergeStrategy: 'squash',
+      deleteSourceBranch: true
+    });
+
+    expect(result.success).toBe(true);
+    expect(server.requests.find((request) => request.method === 'PATCH')?.body).toEqual({
+      status: 'completed',
+      lastMergeSourceCommit: { commitId: '2222222222222222222222222222222222222222' },
+      completionOptions: { mergeStrategy: 'squash', deleteSourceBranch: true }
+    });
+  });
+
+  it('should not complete a pull request whose source branch moved since it was reviewed', async () => {
+    const pullRequestService = createPullRequestService();
+
+    const result = await pullRequestService.completePullRequest(web, 101, '1111111111111111111111111111111111111111', {});
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('new commits');
+    expect(server.requests.filter((request) => request.method === 'PATCH')).toHaveLength(0);
+  });
+
+  it('should set and cancel auto-complete', async () => {
+    const pullRequestService = createPullRequestService();
+    const user = await apiClient.getAuthenticatedUser();
+
+    await pullRequestService.setAutoComplete(web, 101, { mergeStrategy: 'rebase' });
+    await pullRequestService.setAutoComplete(web, 101);
+
+    expect(server.requests.filter((request) => request.method === 'PATCH').map((request) => request.body)).toEqual([
+      { autoCompleteSetBy: { id: user.id }, completionOptions: { mergeStrategy: 'rebase' } },
+      { autoCompleteSetBy: { id: '00000000-0000-0000-0000-000000000000' } }
+    ]);
+  });
+
+  it('should merge the pages of an iteration\'s changes', async () => {
+    server.changesPageSize = 2;
+    const pullRequestService = createPullRequestService();
+
+    const changes = await pullRequestService.getPullRequestChanges(web, 101, 2);
+
+    expect(changes.map((change) => change.item.path)).toEqual([
+      '/src/login/LoginPage.tsx',
+      '/src/login/RememberMe.tsx',
+      '/src/routes.ts'
+    ]);
+    expect(server.requests.filter((request) => request.path.endsWith('/iterations/2/changes'))).toHaveLength(2);
+  });
+
+  it('should list the changes since an earlier iteration', async () => {
+    const pullRequestService = createPullRequestService();
+
+    const changes = await pullRequestService.getPullRequestChanges(web, 101, 2, 1);
+
+    expect(changes.map((change) => change.item.path)).toEqual(['/src/login/RememberMe.tsx']);
+    expect(
+      server.requests.find((request) => request.path.endsWith('/iterations/2/changes'))?.query.get('$compareTo')
+    ).toBe('1');
+  });
+
+  describe('reviewed iterations', () => {
+    it('should remember the latest iteration on the first review', async () => {
+      const pullRequestService = createPullRequestService();
+      expect(pullRequestService.getLastReviewedIteration(web, 101)).toBeUndefined();
+
+      await pullRequestService.votePullRequest(web, 101, 10);
+
+      expect(pullRequestService.getLastReviewedIteration(web, 101)).toEqual({
+        iterationId: 2,
+        sourceCommitId: '2222222222222222222222222222222222222222',
+        reviewedAt: expect.any(String)
+      });
+    });
+
+    it('should list the changes since the stored iteration and move it on the next review', async () => {
+      const pullRequestService = createPullRequestService();
+      await pullRequestService.votePullRequest(web, 101, 10);
+      const [key] = globalState.keys();
+      globalState.set(key, { iterationId: 1, sourceCommitId: '1111111111111111111111111111111111111111', reviewedAt: '' });
+
+      const reviewed = pullRequestService.getLastReviewedIteration(web, 101);
+      const changes = await pullRequestService.getPullRequestChanges(web, 101, undefined, reviewed?.iterationId);
+      await pullRequestService.votePullRequest(web, 101, 5);
+
+      expect(changes.map((change) => change.item.path)).toEqual(['/src/login/RememberMe.tsx']);
+      expect(pullRequestService.getLastReviewedIteration(web, 101)?.iterationId).toBe(2);
+    });
+
+    it('should replace a stored iteration newer than the latest one', async () => {
+      const pullRequestService = createPullRequestService();
+      await pullRequestService.votePullRequest(web, 101, 10);
+      const [key] = globalState.keys();
+      globalState.set(key, { iterationId: 5, reviewedAt: '' });
+
+      await pullRequestService.votePullRequest(web, 101, 10);
+
+      expect(pullRequestService.getLastReviewedIteration(web, 101)).toEqual(
+        expect.objectContaining({ iterationId: 2, sourceCommitId: '2222222222222222222222222222222222222222' })
+      );
+    });
+
+    it('should not count resetting a vote as a review', async () => {
+      const pullRequestService = createPullRequestService();
+
+      await pullRequestService.votePullRequest(web, 101, 0);
+
+      expect(pullRequestService.getLastReviewedIteration(web, 101)).toBeUndefined();
+    });
+
+    describe('from vote update threads', () => {
+      const ada = 'a1b2c3d4-0000-0000-0000-000000000001';
+      const grace = 'a1b2c3d4-0000-0000-0000-000000000002';
+
+      const addVoteUpdate = (voterId: string, vote: number, daysAgo: number) => {
+        const pullRequest = server.state.pullRequests.find((candidate) => candidate.pullRequestId === 101)!;
+        const date = new Date(Date.now() - daysAgo * 86400000).toISOString();
+        pullRequest.threads.push({
+          id: 100 + pullRequest.threads.length,
+          status: 'closed',
+          publishedDate: date,
+          lastUpdatedDate: date,
+          isDeleted: false,
+          comments: [
+            {
+              id: 1,
+              parentCommentId: 0,
+              authorId: voterId,
+              content: `voted ${vote}`,
+              publishedDate: date,
+              lastUpdatedDate: date,
+              commentType: 'system',
+              isDeleted: false,
+              likedBy: []
+            }
+          ],
+          voteUpdate: { voterId, vote }
+        });
+      };
+
+      it('should find a vote cast in the web UI before the latest iteration', async () => {
+        addVoteUpdate(ada, 10, 2);
+        addVoteUpdate(grace, 10, 0.5);
+
+        await expect(createPullRequestService().getLastVotedIteration(web, 101)).resolves.toEqual({
+          iterationId: 1,
+          sourceCommitId: '1111111111111111111111111111111111111111',
+          reviewedAt: expect.any(String)
+        });
+      });
+
+      it('should find a vote cast from the extension after the latest iteration', async () => {
+        addVoteUpdate(ada, -5, 2);
+        const pullRequestService = createPullRequestService();
+
+        await pullRequestService.votePullRequest(web, 101, 10);
+
+        await expect(pullRequestService.getLastVotedIteration(web, 101)).resolves.toEqual(
+          expect.objectContaining({ iterationId: 2, sourceCommitId: '2222222222222222222222222222222222222222' })
+        );
+      });
+
+      it('should treat a reset vote as not voted', async () => {
+        addVoteUpdate(ada, 10, 2);
+        addVoteUpdate(ada, 0, 0.5);
+
+        await expect(createPullRequestService().getLastVotedIteration(web, 101)).resolves.toBeUndefined();
+      });
+    });
+  });
+
+  describe('local checkout', () => {
+    const localRepository = (fetchUrl: string) =>
+      ({ state: { remotes: [{ name: 'origin', fetchUrl, isReadOnly: false }] } }) as unknown as Repository;
+
+    it('should match the clone of a pull request repository by the remotes of the listed repository', async () => {
+      const clones = [
+        localRepository('git@ssh.dev.azure.com:v3/fabrikam/Fabrikam/api'),
+        localRepository('https://fabrikam@dev.azure.com/fabrikam/Fabrikam/_git/web')
+      ];
+      mockVscode.extensions.getExtension.mockReturnValue({
+        isActive: true,
+        exports: { enabled: true, getAPI: () => ({ repositories: clones }) }
+      });
+      const pullRequest = await apiClient.getPullRequest(web, 101);
+
+      const repository = await createPullRequestService().getRepository(pullRequest.repository.id);
+      const match = await new GitCheckoutService().findLocalRepository(repository!);
+
+      expect(pullRequest.repository.remoteUrl).toBeUndefined();
+      expect(repository?.defaultBranch).toBe('refs/heads/main');
+      expect(match?.repository).toBe(clones[1]);
+    });
+
+    it('should not find a repository no profile lists', async () => {
+      await expect(createPullRequestService().getRepository('unknown')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('reviewers', () => {
+    const grace = 'a1b2c3d4-0000-0000-0000-000000000002';
+    const webTeam = 'a1b2c3d4-0000-0000-0000-00000000000a';
+    const reviewerPath = (id: string) => `/_apis/git/repositories/${web}/pullrequests/101/reviewers/${id}`;
+
+    it('should add and remove reviewers', async () => {
+      const added = await apiClient.addPullRequestReviewer(web, 101, grace, true);
+      await apiClient.removePullRequestReviewer(web, 101, webTeam);
+
+      expect(added).toEqual(expect.objectContaining({ id: grace, isRequired: true }));
+      expect(server.requests.map(({ method, path, body }) => ({ method, path, body }))).toEqual([
+        { method: 'PUT', path: expect.stringContaining(reviewerPath(grace)), body: { id: grace, isRequired: true } },
+        { method: 'DELETE', path: expect.stringContaining(reviewerPath(webTeam)), body: undefined }
+      ]);
+      const reviewers = await apiClient.getPullRequestReviewers(web, 101);
+      expect(reviewers.map((reviewer) => reviewer.id)).not.toContain(webTeam);
+    });
+
+    it('should search users and groups with the Identity Picker', async () => {
+      const users = await apiClient.searchIdentities('grace', web);
+      const groups = await apiClient.searchIdentities('web team', web);
+
+      expect(users).toEqual([
+        { id: grace, displayName: 'Grace Hopper', uniqueName: 'grace@fabrikam.com', isGroup: false }
+      ]);
+      expect(groups).toEqual([expect.objectContaining({ id: webTeam, isGroup: true })]);
+      const [request] = server.requests;
+      expect(request.method).toBe('POST');
+      expect(request.path).toMatch(/\/_apis\/IdentityPicker\/Identities$/);
+      expect(request.query.get('api-version')).toBe('5.1-preview.1');
+      expect(request.body).toEqual({
+        query: 'grace',
+        identityTypes: ['user', 'group'],
+        operationScopes: ['ims', 'source'],
+        options: { MinResults: 5, MaxResults: 20 },
+        properties: ['DisplayName', 'Mail', 'SignInAddress', 'SamAccountName']
+      });
+    });
+
+    it('should add, require and remove reviewers through the service', async () => {
+      const pullRequestService = createPullRequestService();
+
+      const results = [
+        await pullRequestService.addReviewer(web, 101, grace),
+        await pullRequestService.setReviewerRequired(web, 101, grace, true),
+        await pullRequestService.setReviewerRequired(web, 101, grace, false),
+        await pullRequestService.removeReviewer(web, 101, grace)
+      ];
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(server.requests.map(({ method, body }) => ({ method, body }))).toEqual([
+        { method: 'PUT', body: { id: grace, isRequired: false } },
+        { method: 'PUT', body: { id: grace, isRequired: true } },
+        { method: 'PUT', body: { id: grace, isRequired: false } },
+        { method: 'DELETE', body: undefined }
+      ]);
+      expect(server.requests.every((request) => request.path.endsWith(reviewerPath(grace)))).toBe(true);
+    });
+
+    it('should report a reviewer change the server rejects', async () => {
+      const pullRequestService = createPullRequestService();
+
+      const result = await pullRequestService.addReviewer(web, 101, 'a1b2c3d4-0000-0000-0000-0000000000ff');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeTruthy();
+    });
+
+    describe('resetting another reviewer\'s vote', () => {
+      const pullRequest = () => server.state.pullRequests.find((candidate) => candidate.pullRequestId === 101)!;
+      const getWebTeam = async () =>
+        (await apiClient.getPullRequestReviewers(web, 101)).find((reviewer) => reviewer.id === webTeam)!;
+
+      it('should add the reviewer back after a failed attempt', async () => {
+        const pullRequestService = createPullRequestService();
+        const reviewer = await getWebTeam();
+        server.addFault({ method: 'PUT', path: /\/reviewers\//, status: 400 });
+
+        const result = await pullRequestService.resetReviewerVote(web, 101, reviewer);
+
+        expect(result.success).toBe(true);
+        expect(server.requests.filter((request) => request.method !== 'GET').map(({ method }) => method)).toEqual([
+          'DELETE',
+          'PUT',
+          'PUT'
+        ]);
+        expect(pullRequest().reviewers.map((entry) => entry.id)).toContain(webTeam);
+      });
+
+      it('should report that the reviewer was removed when they cannot be added back', async () => {
+        const pullRequestService = createPullRequestService();
+        const reviewer = await getWebTeam();
+        server.addFault({ method: 'PUT', path: /\/reviewers\//, status: 400, times: 2 });
+
+        const result = await pullRequestService.resetReviewerVote(web, 101, reviewer);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('was removed from the pull request but could not be added back');
+      });
+
+      it('should refuse a reviewer a required reviewers policy added', async () => {
+        const pullRequestService = createPullRequestService();
+        pullRequest().policies.push({
+          evaluationId: 'b7e3c1a0-0000-0000-0000-000000000103',
+          configurationId: 3,
+          displayName: 'Required reviewers',
+          typeId: 'fd2167ab-b0be-447a-8ec8-39368250530e',
+          isBlocking: true,
+          status: 'running',
+          startedDate: new Date().toISOString(),
+          requiredReviewerIds: [webTeam]
+        });
+        const reviewer = await getWebTeam();
+
+        const result = await pullRequestService.resetReviewerVote(web, 101, reviewer);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('added by a required reviewers policy');
+        expect(server.requests.some((request) => request.method === 'DELETE')).toBe(false);
+        expect(pullRequest().reviewers.map((entry) => entry.id)).toContain(webTeam);
+      });
+    });
+
+    it('should search identities through the service with a trimmed query', async () => {
+      const pullRequestService = createPullRequestService();
+
+      const empty = await pullRequestService.searchIdentities('   ', web);
+      const found = await pullRequestService.searchIdentities('  alan ', web);
+
+      expect(empty).toEqual([]);
+      expect(found.map((identity) => identity.displayName)).toEqual(['Alan Turing']);
+      expect(server.requests).toHaveLength(1);
+      expect(server.requests[0].body.query).toBe('alan');
+    });
+  });
+
+  it('should keep caches of other pull requests when one is written to', async () => {
+    await apiClient.getPullRequest(web, 102);
+    await apiClient.votePullRequest(web, 101, 10);
+    const requests = server.requests.length;
+
+    await apiClient.getPullRequest(web, 102);
+
+    expect(server.requests).toHaveLength(requests);
+    expect(apiClient.getCacheStats().hits).toBe(1);
+  });
+
+  it('should answer with an expired copy while refreshing it in the background', async () => {
+    await apiClient.getPullRequest(web, 101, { cacheTtl: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const requests = server.requests.length;
+
+    const stale = await apiClient.getPullRequest(web, 101, { staleWhileRevalidate: true });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await apiClient.getPullRequest(web, 101, { staleWhileRevalidate: true });
+
+    expect(stale.pullRequestId).toBe(101);
+    expect(server.requests).toHaveLength(requests + 1);
+    expect(apiClient.getCacheStats().revalidations).toBe(1);
+  });
+
+  it('should retry after the server throttles', async () => {
+    server.addFault({ path: /\/_apis\/git\/repositories\?/, status: 429, retryAfter: 0 });
+
+    const repositories = await apiClient.getRepositories();
+
+    expect(repositories).toHaveLength(2);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should hold requests while the server asks to wait and report it', async () => {
+    const onRequestCompleted = jest.fn();
+    apiClient.onRequestCompleted(onRequestCompleted);
+    server.addFault({
+      path: /\/_apis\/git\/repositories\?/,
+      headers: {
+        'Retry-After': '1',
+        'X-RateLimit-Resource': 'Core',
+        'X-RateLimit-Delay': '0.5',
+        'X-RateLimit-Limit': '200',
+        'X-RateLimit-Remaining': '20'
+      }
+    });
+
+    await apiClient.getRepositories();
+    const throttledAt = Date.now();
+    await apiClient.getAuthenticatedUser();
+
+    expect(Date.now() - throttledAt).toBeGreaterThanOrEqual(900);
+    expect(onRequestCompleted.mock.calls[0][3]).toEqual(
+      expect.objectContaining({
+        delayedUntil: expect.any(Number),
+        requestsPerMinute: 100,
+        resource: 'Core',
+        delaySeconds: 0.5,
+        remaining: 20,
+        limit: 200
+      })
+    );
+    expect(apiClient.getThrottlingState()).toEqual(
+      expect.objectContaining({ delayedUntil: undefined, requestsPerMinute: 101, resource: undefined })
+    );
+  });
+
+  it('should queue throttled requests instead of failing them', async () => {
+    server.addFault({ path: 'connectionData', status: 429, retryAfter: 0, times: 3 });
+
+    const [user, repositories] = await Promise.all([apiClient.getAuthenticatedUser(), apiClient.getRepositories()]);
+
+    expect(user.displayName).toBe('Ada Lovelace');
+    expect(repositories).toHaveLength(2);
+    expect(apiClient.getThrottlingState().queuedRequests).toBe(0);
+  });
+
+  it('should share one request between identical concurrent reads', async () => {
+    const [first, second] = await Promise.all([
+      apiClient.getPullRequest(web, 101),
+      apiClient.getPullRequest(web, 101)
+    ]);
+
+    expect(first.pullRequestId).toBe(101);
+    expect(second).toEqual(first);
+    expect(server.requests.filter((request) => request.path.endsWith('/pullrequests/101'))).toHaveLength(1);
+    expect(apiClient.getSchedulerStats().coalesced).toBe(1);
+  });
+
+  it('should cancel a read when its caller aborts', async () => {
+    server.addFault({ path: 'connectionData', delayMs: 500 });
+    const controller = new AbortController();
+
+    const request = apiClient.getAuthenticatedUser(undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(apiClient.getSchedulerStats()).toEqual(expect.objectContaining({ active: 0, queued: 0 }));
+  });
+
+  it('should report unauthenticated requests', async () => {
+    mockAuthService.getAuthHeader.mockResolvedValue(null);
+
+    await expect(apiClient.getRepositories()).rejects.toThrow(
+      'Authentication failed. Please check your Personal Access Token.'
+    );
+  });
+
+  it('should time out on a slow server', async () => {
+    server.addFault({ path: 'connectionData', delayMs: 1000 });
+
+    await expect(apiClient.getAuthenticatedUser(undefined, { timeout: 50 })).rejects.toThrow(
+      'Unable to connect to Azure DevOps'
+    );
+  });
+});
@@ -12,7 +12,10 @@ const mockVscode = {
       inspect: jest.fn()
     })),
     workspaceFolders: [],
-    onDidChangeConfiguration: jest.fn()
+    textDocuments: [],
+    onDidChangeConfiguration: jest.fn(),
+    onDidOpenTextDocument: jest.fn(() => ({ dispose: jest.fn() })),
+    onDidCloseTextDocument: jest.fn(() => ({ dispose: jest.fn() }))
   },
   window: {
     showInformationMessage: jest.fn(),
@@ -22,7 +25,30 @@ const mockVscode = {
     registerTreeDataProvider: jest.fn(),
     createWebviewPanel: jest.fn(),
     showInputBox: jest.fn(),
-    showQuickPick: jest.fn()
+    showQuickPick: jest.fn(),
+    createStatusBarItem: jest.fn(() => ({
+      show: jest.fn(),
+      hide: jest.fn(),
+      dispose: jest.fn()
+    }))
+  },
+  authentication: {
+    getSession: jest.fn(),
+    onDidChangeSessions: jest.fn(() => ({ dispose: jest.fn() }))
+  },
+  comments: {
+    createCommentController: jest.fn(() => ({
+      createCommentThread: jest.fn((uri: unknown, range: unknown, comments: unknown[]) => ({
+        uri,
+        range,
+        comments,
+        dispose: jest.fn()
+      })),
+      dispose: jest.fn()
+    }))
+  },
+  extensions: {
+    getExtension: jest.fn()
   },
   commands: {
     registerCommand: jest.fn(),
@@ -30,7 +56,37 @@ const mockVscode = {
   },
   Uri: {
     parse: jest.fn((str: string) => ({ path: str, toString: () => str })),
-    file: jest.fn((str: string) => ({ path: str, toString: () => str }))
+    file: jest.fn((str: string) => ({ path: str, toString: () => str })),
+    from: jest.fn((components: { scheme: string; path: string; query?: string }) => ({
+      scheme: components.scheme,
+      path: components.path,
+      query: components.query || '',
+      toString: () => `${components.scheme}:${components.path}?${components.query || ''}`
+    }))
+  },
+  Range: class {
+    readonly start: { line: number; character: number };
+    readonly end: { line: number; character: number };
+
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+      this.start = { line: startLine, character: startCharacter };
+      this.end = { line: endLine, character: endCharacter };
+    }
+  },
+  MarkdownString: class {
+    constructor(public readonly value = '') {}
+  },
+  CommentMode: {
+    Editing: 0,
+    Preview: 1
+  },
+  CommentThreadState: {
+    Unresolved: 0,
+    Resolved: 1
+  },
+  CommentThreadCollapsibleState: {
+    Collapsed: 0,
+    Expanded: 1
   },
   TreeItem: jest.fn(),
   TreeItemCollapsibleState: {
@@ -39,6 +95,10 @@ const mockVscode = {
     Expanded: 2
   },
   ThemeIcon: jest.fn(),
+  StatusBarAlignment: {
+    Left: 1,
+    Right: 2
+  },
   ConfigurationTarget: {
     Global: 1,
     Workspace: 2,
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { AuthenticationService } from '../../src/services/AuthenticationService';
+import { ConnectionProfile } from '../../src/services/ConfigurationService';
+
+describe('AuthenticationService', () => {
+  let secrets: Record<string, string>;
+  let service: AuthenticationService;
+
+  const entraProfile: ConnectionProfile = {
+    id: 'org/web',
+    name: 'Web',
+    organizationUrl: 'https://dev.azure.com/org',
+    project: 'Web',
+    authMethod: 'entra',
+    tenantId: 'tenant-1'
+  };
+
+  const session = (accessToken: string) => ({
+    id: 'session',
+    accessToken,
+    account: { id: 'account', label: 'user@example.com' },
+    scopes: []
+  });
+
+  beforeEach(() => {
+    secrets = {};
+    const secretStorage = {
+      get: jest.fn(async (key: string) => secrets[key]),
+      store: jest.fn(async (key: string, value: string) => {
+        secrets[key] = value;
+      }),
+      delete: jest.fn(async (key: string) => {
+        delete secrets[key];
+      })
+    };
+    (vscode.authentication.onDidChangeSessions as jest.Mock).mockReturnValue({ dispose: jest.fn() });
+    service = new AuthenticationService({ globalState: { get: jest.fn(), update: jest.fn() } } as any, secretStorage as any);
+  });
+
+  describe('getAuthHeader', () => {
+    it('should use the stored PAT of a PAT profile', async () => {
+      secrets['azure-devops-pat:org/api'] = 'token';
+
+      const header = await service.getAuthHeader({ ...entraProfile, id: 'org/api', authMethod: 'pat' });
+
+      expect(header).toBe(`Basic ${Buffer.from(':token').toString('base64')}`);
+    });
+
+    it('should request an Entra ID token for the Azure DevOps resource without prompting', async () => {
+      (vscode.authentication.getSession as jest.Mock).mockResolvedValue(session('access-1'));
+
+      const header = await service.getAuthHeader(entraProfile);
+
+      expect(header).toBe('Bearer access-1');
+      expect(vscode.authentication.getSession).toHaveBeenCalledWith(
+        'microsoft',
+        ['499b84ac-1321-427f-aa17-267ca6975798/.default', 'VSCODE_TENANT:tenant-1'],
+        { silent: true }
+      );
+    });
+
+    it('should return null when no Microsoft account is signed in', async () => {
+      (vscode.authentication.getSession as jest.Mock).mockResolvedValue(undefined);
+
+      await expect(service.getAuthHeader(entraProfile)).resolves.toBeNull();
+    });
+  });
+
+  describe('refreshAuthHeader', () => {
+    it('should return a new token after the cached one was rejected', async () => {
+      (vscode.authentication.getSession as jest.Mock)
+        .mockResolvedValueOnce(session('expired'))
+        .mockResolvedValueOnce(session('refreshed'));
+      await service.getAuthHeader(entraProfile);
+
+      await expect(service.refreshAuthHeader(entraProfile)).resolves.toBe('Bearer refreshed');
+      await expect(service.getAuthHeader(entraProfile)).resolves.toBe('Bearer refreshed');
+    });
+
+    it('should give up when the provider returns the same token', async () => {
+      (vscode.authentication.getSession as jest.Mock).mockResolvedValue(session('expired'));
+      await service.getAuthHeader(entraProfile);
+
+      await expect(service.refreshAuthHeader(entraProfile)).resolves.toBeNull();
+    });
+
+    it('should not refresh PAT profiles', async () => {
+      await expect(service.refreshAuthHeader({ ...entraProfile, authMethod: 'pat' })).resolves.toBeNull();
+      expect(vscode.authentication.getSession).not.toHaveBeenCalled();
+    });
+  });
+});
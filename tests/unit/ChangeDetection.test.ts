@@ -0,0 +1,76 @@
+import { diffCommentThreads, diffPullRequest, hasThreadChanges } from '../../src/utils/ChangeDetection';
+import { CommentThread, PullRequest } from '../../src/api/models';
+
+describe('ChangeDetection', () => {
+  describe('diffPullRequest', () => {
+    const pullRequest = {
+      pullRequestId: 7,
+      status: 'active',
+      title: 'Add login page',
+      description: 'Adds the page',
+      isDraft: false,
+      mergeStatus: 'succeeded',
+      reviewers: [{ id: 'user-1', vote: 0, isRequired: true }],
+      lastMergeSourceCommit: { commitId: 'abc123' },
+      lastMergeTargetCommit: { commitId: 'def456' }
+    } as unknown as PullRequest;
+
+    it('should report nothing for an unchanged pull request', () => {
+      expect(diffPullRequest(pullRequest, { ...pullRequest })).toEqual([]);
+    });
+
+    it('should report each changed part', () => {
+      const latest = {
+        ...pullRequest,
+        title: 'Add login and logout pages',
+        reviewers: [
+          { id: 'user-1', vote: 10, isRequired: true },
+          { id: 'user-2', vote: 0, isRequired: false }
+        ],
+        lastMergeSourceCommit: { commitId: 'abc124' }
+      } as unknown as PullRequest;
+
+      expect(diffPullRequest(pullRequest, latest)).toEqual(['title', 'reviewers', 'votes', 'sourceCommit']);
+    });
+  });
+
+  describe('diffCommentThreads', () => {
+    const createThread = (id: number, comments: number, overrides: Partial<CommentThread> = {}): CommentThread =>
+      ({
+        id,
+        status: 'active',
+        isDeleted: false,
+        lastUpdatedDate: new Date('2024-01-01T10:00:00Z'),
+        comments: Array.from({ length: comments }, (_, index) => ({ id: index + 1, isDeleted: false })),
+        ...overrides
+      }) as unknown as CommentThread;
+
+    it('should tell new threads, replies, updates and removals apart', () => {
+      const before = [createThread(1, 1), createThread(2, 1), createThread(3, 2), createThread(4, 1)];
+      const after = [
+        createThread(1, 1),
+        createThread(2, 2),
+        // Dates restored from storage are strings
+        createThread(3, 2, { status: 'fixed', lastUpdatedDate: '2024-01-01T11:00:00Z' as unknown as Date }),
+        createThread(4, 1, { isDeleted: true }),
+        createThread(5, 1)
+      ];
+
+      expect(diffCommentThreads(before, after)).toEqual({
+        added: [5],
+        replied: [2],
+        updated: [3],
+        removed: [4]
+      });
+    });
+
+    it('should treat serialized dates as unchanged', () => {
+      const changes = diffCommentThreads(
+        [createThread(1, 1)],
+        [createThread(1, 1, { lastUpdatedDate: '2024-01-01T10:00:00.000Z' as unknown as Date })]
+      );
+
+      expect(hasThreadChanges(changes)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { ConfigurationService, ConnectionProfile, resolveServerUrl } from '../../src/services/ConfigurationService';
+
+describe('ConfigurationService', () => {
+  let settings: Record<string, unknown>;
+  let service: ConfigurationService;
+
+  const profile = (id: string, organizationUrl: string, project: string): ConnectionProfile => ({
+    id,
+    name: id,
+    organizationUrl,
+    project
+  });
+
+  beforeEach(() => {
+    settings = {};
+    (vscode.workspace.getConfiguration as jest.Mock).mockImplementation(() => ({
+      get: jest.fn((key: string, defaultValue?: unknown) => settings[key] ?? defaultValue),
+      update: jest.fn(async (key: string, value: unknown) => {
+        settings[key] = value;
+      }),
+      has: jest.fn(),
+      inspect: jest.fn()
+    }));
+    service = new ConfigurationService();
+  });
+
+  describe('getProfiles', () => {
+    it('should turn the legacy settings into a default profile', () => {
+      settings.organizationUrl = 'https://dev.azure.com/org/';
+      settings.project = 'Web';
+
+      expect(service.getProfiles()).toEqual([
+        {
+          id: ConfigurationService.DEFAULT_PROFILE_ID,
+          name: 'org/Web',
+          organizationUrl: 'https://dev.azure.com/org',
+          project: 'Web'
+        }
+      ]);
+    });
+
+    it('should return no profiles when nothing is configured', () => {
+      expect(service.getProfiles()).toEqual([]);
+    });
+  });
+
+  describe('getProfileForUrl', () => {
+    beforeEach(() => {
+      settings.profiles = [
+        profile('org/web', 'https://dev.azure.com/org', 'Web'),
+        profile('org/my tools', 'https://dev.azure.com/org', 'My Tools'),
+        profile('other/api', 'https://dev.azure.com/other', 'Api')
+      ];
+    });
+
+    it('should match organization and project', () => {
+      expect(
+        service.getProfileForUrl('https://dev.azure.com/org/My%20Tools/_apis/git/repositories')?.id
+      ).toBe('org/my tools');
+      expect(service.getProfileForUrl('https://dev.azure.com/other/Api/_apis/git/repositories')?.id).toBe(
+        'other/api'
+      );
+    });
+
+    it('should fall back to the organization for organization-level URLs', () => {
+      expect(service.getProfileForUrl('https://dev.azure.com/other/_apis/connectionData')?.id).toBe('other/api');
+    });
+
+    it('should ignore URLs of unknown organizations', () => {
+      expect(service.getProfileForUrl('https://dev.azure.com/organization/_apis/connectionData')).toBeUndefined();
+    });
+  });
+
+  describe('saveProfile', () => {
+    it('should migrate the legacy profile when adding another one', async () => {
+      settings.organizationUrl = 'https://dev.azure.com/org';
+      settings.project = 'Web';
+
+      await service.saveProfile(profile('other/api', 'https://dev.azure.com/other/', 'Api'));
+
+      expect((settings.profiles as ConnectionProfile[]).map((p) => p.id)).toEqual([
+        ConfigurationService.DEFAULT_PROFILE_ID,
+        'other/api'
+      ]);
+      expect((settings.profiles as ConnectionProfile[])[1].organizationUrl).toBe('https://dev.azure.com/other');
+    });
+  });
+
+  describe('resolveServerUrl', () => {
+    it('should send Azure DevOps Services requests to the base URL', () => {
+      const baseUrl = 'http://127.0.0.1:8090/';
+
+      expect(resolveServerUrl('https://dev.azure.com/org/Project/_apis/git/repositories', baseUrl)).toBe(
+        'http://127.0.0.1:8090/org/Project/_apis/git/repositories'
+      );
+      expect(resolveServerUrl('https://vssps.dev.azure.com/org/_apis/identities', baseUrl)).toBe(
+        'http://127.0.0.1:8090/org/_apis/identities'
+      );
+      expect(resolveServerUrl('https://org.visualstudio.com/_apis/connectionData', baseUrl)).toBe(
+        'https://org.visualstudio.com/_apis/connectionData'
+      );
+      expect(resolveServerUrl('https://dev.azure.com/org', '')).toBe('https://dev.azure.com/org');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CacheEntry } from '../../src/services/CacheManager';
+import { DiskCache } from '../../src/services/DiskCache';
+
+describe('DiskCache', () => {
+  let directory: string;
+  let storageUri: vscode.Uri;
+  let legacyState: { keys: jest.Mock; get: jest.Mock; update: jest.Mock };
+
+  const entry = <T>(data: T, lastAccess = Date.now()): CacheEntry<T> => ({
+    data,
+    timestamp: lastAccess,
+    expiry: lastAccess + 60000,
+    accessCount: 0,
+    lastAccess
+  });
+  const cacheFile = () => path.join(directory, DiskCache.FILE_NAME);
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'disk-cache-'));
+    storageUri = { fsPath: directory } as vscode.Uri;
+    legacyState = {
+      keys: jest.fn().mockReturnValue([]),
+      get: jest.fn(),
+      update: jest.fn().mockResolvedValue(undefined)
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep entries across instances with their dates', async () => {
+    const cache = new DiskCache(storageUri, legacyState as any, 10);
+    await cache.load();
+    const creationDate = new Date('2026-01-02T03:04:05.000Z');
+    cache.set('pr', entry({ pullRequestId: 101, creationDate }));
+    await cache.flush();
+
+    const restored = new DiskCache(storageUri, legacyState as any, 10);
+    await restored.load();
+
+    expect(restored.get<{ creationDate: Date }>('pr')?.data.creationDate).toEqual(creationDate);
+    expect(JSON.parse(fs.readFileSync(cacheFile(), 'utf8')).version).toBe(DiskCache.VERSION);
+  });
+
+  it('should keep the entries other windows wrote to the same file', async () => {
+    const first = new DiskCache(storageUri, legacyState as any, 10);
+    const second = new DiskCache(storageUri, legacyState as any, 10);
+    await first.load();
+    await second.load();
+
+    first.set('shared', entry('first'));
+    first.set('first', entry('first'));
+    await first.flush();
+    second.set('second', entry('second'));
+    second.delete('missing');
+    await second.flush();
+    first.delete('shared');
+    first.dispose();
+
+    const restored = new DiskCache(storageUri, legacyState as any, 10);
+    await restored.load();
+
+    expect(restored.keys().sort()).toEqual(['first', 'second']);
+    expect(fs.readdirSync(directory)).toEqual([DiskCache.FILE_NAME]);
+  });
+
+  it('should evict the least recently used entries beyond the limit', async () => {
+    const cache = new DiskCache(storageUri, legacyState as any, 2);
+    await cache.load();
+
+    cache.set('old', entry('old', 1000));
+    cache.set('recent', entry('recent', 3000));
+    cache.set('new', entry('new', 2000));
+    cache.dispose();
+
+    expect(cache.keys().sort()).toEqual(['new', 'recent']);
+  });
+
+  it('should drop the cache kept in the workspace state by earlier versions', async () => {
+    legacyState.keys.mockReturnValue(['cache_GET_abc', 'api_cache_GET_abc', 'state_view_state']);
+
+    const cache = new DiskCache(storageUri, legacyState as any, 10);
+    await cache.load();
+    await cache.flush();
+
+    expect(legacyState.update).toHaveBeenCalledWith('cache_GET_abc', undefined);
+    expect(legacyState.update).toHaveBeenCalledWith('api_cache_GET_abc', undefined);
+    expect(legacyState.update).not.toHaveBeenCalledWith('state_view_state', undefined);
+    expect(fs.existsSync(cacheFile())).toBe(true);
+  });
+
+  it('should discard a file written by a newer version', async () => {
+    fs.writeFileSync(
+      cacheFile(),
+      JSON.stringify({ version: DiskCache.VERSION + 1, entries: { pr: entry('future') } })
+    );
+
+    const cache = new DiskCache(storageUri, legacyState as any, 10);
+    await cache.load();
+    cache.dispose();
+
+    expect(cache.size).toBe(0);
+    expect(legacyState.update).not.toHaveBeenCalled();
+  });
+
+  it('should only keep entries in memory without a storage location', async () => {
+    const cache = new DiskCache(undefined, legacyState as any, 10);
+    await cache.load();
+
+    cache.set('pr', entry('pr'));
+    cache.dispose();
+
+    expect(cache.get('pr')?.data).toBe('pr');
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { execFile } from 'child_process';
+import { mockVscode } from '../setup';
+import {
+  GitCheckoutService,
+  LocalRepositoryMatch,
+  normalizeRemoteUrl
+} from '../../src/services/GitCheckoutService';
+import { Ref, Repository } from '../../src/typings/git';
+
+jest.mock('child_process', () => ({ execFile: jest.fn() }));
+
+describe('GitCheckoutService', () => {
+  describe('normalizeRemoteUrl', () => {
+    const canonical = 'dev.azure.com/contoso/web/portal';
+
+    it.each([
+      ['https://dev.azure.com/contoso/web/_git/portal'],
+      ['https://contoso@dev.azure.com/contoso/web/_git/portal'],
+      ['https://dev.azure.com/Contoso/Web/_git/Portal.git'],
+      ['git@ssh.dev.azure.com:v3/contoso/web/portal'],
+      ['ssh://git@ssh.dev.azure.com:22/v3/contoso/web/portal'],
+      ['https://contoso.visualstudio.com/web/_git/portal'],
+      ['https://contoso.visualstudio.com/DefaultCollection/web/_git/portal'],
+      ['contoso@vs-ssh.visualstudio.com:v3/contoso/web/portal']
+    ])('should normalize %s', (url) => {
+      expect(normalizeRemoteUrl(url)).toBe(canonical);
+    });
+
+    it('should decode encoded project names', () => {
+      expect(normalizeRemoteUrl('https://dev.azure.com/contoso/My%20Project/_git/portal'))
+        .toBe('dev.azure.com/contoso/my project/portal');
+    });
+
+    it('should not match repositories from other hosts', () => {
+      expect(normalizeRemoteUrl('https://github.com/contoso/portal.git'))
+        .toBe('github.com/contoso/portal');
+    });
+  });
+
+  describe('branch state', () => {
+    let repository: jest.Mocked<Pick<Repository, 'getBranches' | 'log'>>;
+    let match: LocalRepositoryMatch;
+    const service = new GitCheckoutService();
+
+    const remoteRef = (name: string, remote = 'origin'): Ref => ({ type: 1, name, remote });
+
+    beforeEach(() => {
+      repository = {
+        getBranches: jest.fn().mockResolvedValue([
+          { type: 0, name: 'feature/login' },
+          remoteRef('origin/HEAD'),
+          remoteRef('origin/main'),
+          remoteRef('origin/develop'),
+          remoteRef('upstream/main', 'upstream')
+        ]),
+        log: jest.fn().mockResolvedValue([])
+      };
+      match = {
+        repository: repository as unknown as Repository,
+        remote: { name: 'origin', isReadOnly: false }
+      };
+    });
+
+    it('should list the branches of the matching remote only', async () => {
+      await expect(service.getRemoteBranches(match)).resolves.toEqual(['develop', 'main']);
+    });
+
+    it('should report branches missing on the remote as unpublished', async () => {
+      await expect(service.getPushState(match, 'feature/login')).resolves.toEqual({
+        isPublished: false,
+        ahead: 0
+      });
+    });
+
+    it('should count local commits not on the remote branch', async () => {
+      repository.log.mockResolvedValue([
+        { hash: 'b', message: 'Second', parents: ['a'] },
+        { hash: 'a', message: 'First', parents: [] }
+      ]);
+
+      await expect(service.getPushState(match, 'develop')).resolves.toEqual({ isPublished: true, ahead: 2 });
+      expect(repository.log).toHaveBeenCalledWith({ range: 'origin/develop..develop' });
+    });
+  });
+
+  describe('stashChanges', () => {
+    const mockExecFile = execFile as unknown as jest.Mock;
+    let repository: jest.Mocked<Pick<Repository, 'rootUri' | 'status'>>;
+
+    beforeEach(() => {
+      repository = {
+        rootUri: { fsPath: '/work/portal' } as Repository['rootUri'],
+        status: jest.fn().mockResolvedValue(undefined)
+      };
+      mockVscode.extensions.getExtension.mockReturnValue({
+        isActive: true,
+        exports: { enabled: true, getAPI: () => ({ git: { path: '/usr/bin/git' } }) }
+      });
+      mockExecFile.mockImplementation((_file, _args, _options, callback) => callback(null, '', ''));
+    });
+
+    it('should stash in the root of the given repository', async () => {
+      await new GitCheckoutService().stashChanges(repository as unknown as Repository, 'Before #42');
+
+      expect(mockExecFile).toHaveBeenCalledWith(
+        '/usr/bin/git',
+        ['stash', 'push', '--include-untracked', '--message', 'Before #42'],
+        { cwd: '/work/portal' },
+        expect.any(Function)
+      );
+      expect(repository.status).toHaveBeenCalled();
+    });
+
+    it('should fail with the output of git', async () => {
+      mockExecFile.mockImplementation((_file, _args, _options, callback) =>
+        callback(new Error('Command failed'), '', 'fatal: not a git repository\n')
+      );
+
+      await expect(
+        new GitCheckoutService().stashChanges(repository as unknown as Repository, 'Before #42')
+      ).rejects.toThrow('fatal: not a git repository');
+      expect(repository.status).not.toHaveBeenCalled();
+    });
+  });
+});
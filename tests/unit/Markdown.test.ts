@@ -0,0 +1,71 @@
+import { findMentions, renderMarkdown, replaceMentions } from '../../src/utils/Markdown';
+
+describe('Markdown', () => {
+  const userId = '0f8fe3a1-43f4-4bd0-9e0c-4c3a7c1f2f55';
+
+  describe('renderMarkdown', () => {
+    it('should escape raw HTML instead of rendering it', () => {
+      const html = renderMarkdown('<img src=x onerror="alert(1)"> **bold**');
+
+      expect(html).toBe('<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <strong>bold</strong></p>');
+    });
+
+    it('should only link safe URLs', () => {
+      expect(renderMarkdown('[docs](https://example.com/a?b=1&c=2)')).toBe(
+        '<p><a href="https://example.com/a?b=1&amp;c=2">docs</a></p>'
+      );
+      expect(renderMarkdown('[click](javascript:void)')).toBe('<p>click</p>');
+      expect(renderMarkdown('![logo](http://example.com/logo.png)')).toBe('<p>logo</p>');
+      expect(renderMarkdown('![logo](https://example.com/logo.png)')).toBe(
+        '<p><img src="https://example.com/logo.png" alt="logo"></p>'
+      );
+    });
+
+    it('should render code blocks without processing their content', () => {
+      expect(renderMarkdown('```ts\nconst a = <T>(b: T) => b; // **not bold** #1\n```')).toBe(
+        '<pre><code class="language-ts">const a = &lt;T&gt;(b: T) =&gt; b; // **not bold** #1</code></pre>'
+      );
+      expect(renderMarkdown('Run `npm test` first')).toBe('<p>Run <code>npm test</code> first</p>');
+    });
+
+    it('should render tables, lists and headings', () => {
+      const html = renderMarkdown(
+        ['## Checklist', '', '| Step | Done |', '| :--- | ---: |', '| Build | yes |', '', '- [x] Tests', '- Docs', '  1. API'].join('\n')
+      );
+
+      expect(html).toBe(
+        [
+          '<h2>Checklist</h2>',
+          '<table><thead><tr><th style="text-align: left">Step</th><th style="text-align: right">Done</th></tr></thead>' +
+            '<tbody><tr><td style="text-align: left">Build</td><td style="text-align: right">yes</td></tr></tbody></table>',
+          '<ul><li><input type="checkbox" disabled checked> Tests</li><li>Docs<ol><li>API</li></ol></li></ul>'
+        ].join('\n')
+      );
+    });
+
+    it('should resolve mentions and link work items and pull requests', () => {
+      const html = renderMarkdown(`@<${userId.toUpperCase()}> see #123 and !456, not https://example.com/#7`, {
+        mentions: new Map([[userId, 'Ada Lovelace']])
+      });
+
+      expect(html).toBe(
+        `<p><span class="mention" title="${userId.toUpperCase()}">@Ada Lovelace</span> see ` +
+          '<a class="work-item-link" data-type="openWorkItem" data-work-item-id="123">#123</a> and ' +
+          '<a class="pull-request-link" data-type="openPullRequest" data-pull-request-id="456">!456</a>, not ' +
+          '<a href="https://example.com/#7">https://example.com/#7</a></p>'
+      );
+    });
+  });
+
+  describe('mentions', () => {
+    it('should find each mentioned identity once', () => {
+      expect(findMentions(`@<${userId}> and @<${userId.toUpperCase()}>`)).toEqual([userId]);
+    });
+
+    it('should keep mentions of unknown identities', () => {
+      const other = '11111111-2222-3333-4444-555555555555';
+
+      expect(replaceMentions(`@<${userId}> @<${other}>`, new Map([[userId, 'Ada']]))).toBe(`@Ada @<${other}>`);
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import { NotificationService, isWithinQuietHours } from '../../src/services/NotificationService';
+import { CommentService } from '../../src/services/CommentService';
+import { PullRequestService } from '../../src/services/PullRequestService';
+import { PolicyService } from '../../src/services/PolicyService';
+import { BackgroundSyncService } from '../../src/services/BackgroundSyncService';
+import { ConfigurationService, NotificationSettings } from '../../src/services/ConfigurationService';
+import { CommentThread, PullRequest } from '../../src/api/models';
+
+describe('NotificationService', () => {
+  const me = 'user-me';
+  const other = 'user-other';
+
+  let mockPullRequestService: jest.Mocked<Pick<PullRequestService, 'getPullRequests'>>;
+  let mockCommentService: jest.Mocked<Pick<CommentService, 'getCurrentUserId' | 'getCommentThreads'>>;
+  let mockPolicyService: jest.Mocked<Pick<PolicyService, 'getPolicyChecks'>>;
+  let mockBackgroundSync: jest.Mocked<Pick<BackgroundSyncService, 'addSyncListener' | 'removeSyncListener'>>;
+  let settings: NotificationSettings;
+  let storage: Map<string, unknown>;
+  let service: NotificationService;
+
+  const createPullRequest = (overrides: Partial<PullRequest> = {}): PullRequest =>
+    ({
+      pullRequestId: 7,
+      title: 'Add login page',
+      repository: { id: 'repo-1' },
+      createdBy: { id: other, displayName: 'Grace Hopper' },
+      reviewers: [],
+      lastMergeSourceCommit: { commitId: 'abc123' },
+      ...overrides
+    }) as unknown as PullRequest;
+
+  const createThread = (authors: string[]): CommentThread =>
+    ({
+      id: 12,
+      isDeleted: false,
+      comments: authors.map((author, index) => ({
+        id: index + 1,
+        author: { id: author },
+        commentType: 'text',
+        isDeleted: false
+      }))
+    }) as unknown as CommentThread;
+
+  beforeEach(() => {
+    storage = new Map();
+    settings = {
+      types: { reviewRequested: true, threadReply: true, newIteration: true, policyFailed: true },
+      quietHoursStart: '',
+      quietHoursEnd: ''
+    };
+    mockPullRequestService = { getPullRequests: jest.fn().mockResolvedValue([]) };
+    mockCommentService = {
+      getCurrentUserId: jest.fn().mockResolvedValue(me),
+      getCommentThreads: jest.fn().mockResolvedValue([])
+    };
+    mockPolicyService = { getPolicyChecks: jest.fn().mockResolvedValue([]) };
+    mockBackgroundSync = { addSyncListener: jest.fn(), removeSyncListener: jest.fn() };
+    service = new NotificationService(
+      mockPullRequestService as unknown as PullRequestService,
+      mockCommentService as unknown as CommentService,
+      mockPolicyService as unknown as PolicyService,
+      { getNotificationSettings: () => settings } as unknown as ConfigurationService,
+      mockBackgroundSync as unknown as BackgroundSyncService,
+      {
+        globalState: {
+          get: jest.fn((key: string, defaultValue?: unknown) => storage.get(key) ?? defaultValue),
+          update: jest.fn(async (key: string, value: unknown) => {
+            storage.set(key, value);
+          })
+        }
+      } as unknown as vscode.ExtensionContext
+    );
+  });
+
+  describe('check', () => {
+    it('should only record the state on the first check', async () => {
+      mockPullRequestService.getPullRequests.mockResolvedValue([
+        createPullRequest({ reviewers: [{ id: me, vote: 0 }] as PullRequest['reviewers'] })
+      ]);
+
+      await service.check();
+
+      expect(service.getNotifications()).toEqual([]);
+      expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    });
+
+    it('should notify about review requests and persist them', async () => {
+      await service.check();
+      mockPullRequestService.getPullRequests.mockResolvedValue([
+        createPullRequest({ reviewers: [{ id: me, vote: 0 }] as PullRequest['reviewers'] })
+      ]);
+
+      await service.check();
+
+      expect(service.getNotifications()).toEqual([
+        expect.objectContaining({
+          type: 'reviewRequested',
+          pullRequestId: 7,
+          message: 'Grace Hopper requested your review on PR #7'
+        })
+      ]);
+      expect(storage.get('azureDevOps.notifications')).toEqual(service.getNotifications());
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        'Grace Hopper requested your review on PR #7: Add login page',
+        'Open'
+      );
+    });
+
+    it('should notify about replies by others and pushes after a vote', async () => {
+      const voted = { reviewers: [{ id: me, vote: 10 }] as PullRequest['reviewers'] };
+      mockPullRequestService.getPullRequests.mockResolvedValue([createPullRequest(voted)]);
+      mockCommentService.getCommentThreads.mockResolvedValue([createThread([me])]);
+      await service.check();
+
+      mockPullRequestService.getPullRequests.mockResolvedValue([
+        createPullRequest({ ...voted, lastMergeSourceCommit: { commitId: 'def456' } } as Partial<PullRequest>)
+      ]);
+      mockCommentService.getCommentThreads.mockResolvedValue([createThread([me, me, other])]);
+      await service.check();
+
+      expect(service.getNotifications().map((notification) => notification.type)).toEqual([
+        'threadReply',
+        'newIteration'
+      ]);
+      expect(service.getNotifications()[0].threadId).toBe(12);
+    });
+
+    it('should skip disabled types and stay silent during quiet hours', async () => {
+      const author = { createdBy: { id: me, displayName: 'Me' } } as Partial<PullRequest>;
+      mockPullRequestService.getPullRequests.mockResolvedValue([createPullRequest(author)]);
+      await service.check();
+
+      const hour = new Date().getHours();
+      settings = { ...settings, quietHoursStart: `${(hour + 23) % 24}:00`, quietHoursEnd: `${(hour + 1) % 24}:00` };
+      mockPolicyService.getPolicyChecks.mockResolvedValue([
+        { evaluationId: 'eval-1', status: 'rejected' }
+      ] as Awaited<ReturnType<PolicyService['getPolicyChecks']>>);
+      mockCommentService.getCommentThreads.mockResolvedValue([createThread([me, other])]);
+      settings = { ...settings, types: { ...settings.types, threadReply: false } };
+      await service.check();
+
+      expect(service.getNotifications()).toEqual([
+        expect.objectContaining({ type: 'policyFailed', message: 'A policy failed on PR #7' })
+      ]);
+      expect(vscode.window.showInformationMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetching details', () => {
+    it('should only fetch threads and policies of pull requests that changed', async () => {
+      const pullRequest = createPullRequest({ createdBy: { id: me, displayName: 'Me' } } as Partial<PullRequest>);
+      mockPullRequestService.getPullRequests.mockResolvedValue([pullRequest]);
+      mockPolicyService.getPolicyChecks.mockResolvedValue([
+        { evaluationId: 'eval-1', status: 'approved' }
+      ] as Awaited<ReturnType<PolicyService['getPolicyChecks']>>);
+      await service.check();
+      await service.check();
+
+      expect(mockCommentService.getCommentThreads).toHaveBeenCalledTimes(1);
+      expect(mockPolicyService.getPolicyChecks).toHaveBeenCalledTimes(1);
+
+      const [syncListener] = mockBackgroundSync.addSyncListener.mock.calls[0];
+      syncListener({
+        type: 'commentAdded',
+        data: { repositoryId: 'repo-1', pullRequestId: 7, threadIds: [12] },
+        timestamp: new Date()
+      });
+      await service.check();
+
+      expect(mockCommentService.getCommentThreads).toHaveBeenCalledTimes(2);
+      expect(mockPolicyService.getPolicyChecks).toHaveBeenCalledTimes(1);
+
+      mockPullRequestService.getPullRequests.mockResolvedValue([
+        { ...pullRequest, lastMergeSourceCommit: { commitId: 'def456' } } as PullRequest
+      ]);
+      await service.check();
+
+      expect(mockCommentService.getCommentThreads).toHaveBeenCalledTimes(3);
+      expect(mockPolicyService.getPolicyChecks).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep comparing with the previous threads when fetching them fails', async () => {
+      const reviewing = { reviewers: [{ id: me, vote: 0 }] as PullRequest['reviewers'] };
+      mockPullRequestService.getPullRequests.mockResolvedValue([createPullRequest(reviewing)]);
+      mockCommentService.getCommentThreads.mockResolvedValue([createThread([me])]);
+      await service.check();
+
+      mockPullRequestService.getPullRequests.mockResolvedValue([createPullRequest({ ...reviewing, title: 'Retitled' })]);
+      mockCommentService.getCommentThreads.mockResolvedValue([]);
+      await service.check();
+
+      mockPullRequestService.getPullRequests.mockResolvedValue([createPullRequest(reviewing)]);
+      mockCommentService.getCommentThreads.mockResolvedValue([createThread([me, other])]);
+      await service.check();
+
+      expect(service.getNotifications()).toEqual([
+        expect.objectContaining({ type: 'threadReply', threadId: 12 })
+      ]);
+    });
+
+    it('should keep the previous policy failures when fetching them fails', async () => {
+      const author = { createdBy: { id: me, displayName: 'Me' } } as Partial<PullRequest>;
+      mockPullRequestService.getPullRequests.mockResolvedValue([createPullRequest(author)]);
+      mockPolicyService.getPolicyChecks.mockResolvedValue([
+        { evaluationId: 'eval-1', status: 'rejected' }
+      ] as Awaited<ReturnType<PolicyService['getPolicyChecks']>>);
+      await service.check();
+
+      mockPolicyService.getPolicyChecks.mockRejectedValue(new Error('Request failed'));
+      mockPullRequestService.getPullRequests.mockResolvedValue([createPullRequest({ ...author, title: 'Retitled' })]);
+      await service.check();
+
+      mockPolicyService.getPolicyChecks.mockResolvedValue([
+        { evaluationId: 'eval-1', status: 'rejected' }
+      ] as Awaited<ReturnType<PolicyService['getPolicyChecks']>>);
+      await service.check();
+
+      expect(service.getNotifications()).toEqual([]);
+    });
+  });
+
+  describe('markRead', () => {
+    it('should remove read notifications', async () => {
+      await service.check();
+      mockPullRequestService.getPullRequests.mockResolvedValue([
+        createPullRequest({ reviewers: [{ id: me, vote: 0 }] as PullRequest['reviewers'] })
+      ]);
+      await service.check();
+
+      await service.markRead(service.getNotifications()[0].id);
+
+      expect(service.getNotifications()).toEqual([]);
+      expect(storage.get('azureDevOps.notifications')).toEqual([]);
+    });
+  });
+
+  describe('isWithinQuietHours', () => {
+    it('should support quiet hours spanning midnight', () => {
+      expect(isWithinQuietHours('22:00', '07:00', new Date(2024, 0, 1, 23, 30))).toBe(true);
+      expect(isWithinQuietHours('22:00', '07:00', new Date(2024, 0, 1, 6, 59))).toBe(true);
+      expect(isWithinQuietHours('22:00', '07:00', new Date(2024, 0, 1, 7, 0))).toBe(false);
+      expect(isWithinQuietHours('09:00', '17:00', new Date(2024, 0, 1, 12, 0))).toBe(true);
+      expect(isWithinQuietHours('', '07:00', new Date(2024, 0, 1, 3, 0))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import * as vscode from 'vscode';
+import { OutboxService } from '../../src/services/OutboxService';
+import { AzureDevOpsApiClient } from '../../src/api/AzureDevOpsApiClient';
+import { CommentService } from '../../src/services/CommentService';
+import { PullRequestService } from '../../src/services/PullRequestService';
+import { BackgroundSyncService } from '../../src/services/BackgroundSyncService';
+import { Comment, CommentThread } from '../../src/api/models';
+
+describe('OutboxService', () => {
+  let mockApiClient: jest.Mocked<
+    Pick<AzureDevOpsApiClient, 'addComment' | 'updateThreadStatus' | 'getPullRequest' | 'getCommentThreads'>
+  >;
+  let mockPullRequestService: jest.Mocked<Pick<PullRequestService, 'votePullRequest'>>;
+  let mockBackgroundSync: jest.Mocked<
+    Pick<BackgroundSyncService, 'getSyncStatus' | 'reportNetworkError' | 'addSyncListener' | 'removeSyncListener'>
+  >;
+  let mockCommentService: jest.Mocked<Pick<CommentService, 'postCommentThread' | 'invalidateCommentCache'>>;
+  let storage: Map<string, unknown>;
+  let service: OutboxService;
+
+  const networkError = new Error('Unable to connect to Azure DevOps. Please check your network connection.');
+  const comment = { id: 3, content: 'Looks good' } as Comment;
+
+  const createThread = (overrides: Partial<CommentThread> = {}): CommentThread =>
+    ({
+      id: 12,
+      status: 'active',
+      isDeleted: false,
+      comments: [{ id: 1, isDeleted: false, commentType: 'text' }],
+      ...overrides
+    }) as unknown as CommentThread;
+
+  const createService = () =>
+    new OutboxService(
+      mockApiClient as unknown as AzureDevOpsApiClient,
+      mockCommentService as unknown as CommentService,
+      mockPullRequestService as unknown as PullRequestService,
+      mockBackgroundSync as unknown as BackgroundSyncService,
+      {
+        globalState: {
+          get: jest.fn((key: string, defaultValue?: unknown) => storage.get(key) ?? defaultValue),
+          update: jest.fn(async (key: string, value: unknown) => {
+            storage.set(key, value);
+          })
+        }
+      } as unknown as vscode.ExtensionContext
+    );
+
+  beforeEach(() => {
+    storage = new Map();
+    mockApiClient = {
+      addComment: jest.fn().mockResolvedValue(comment),
+      updateThreadStatus: jest.fn().mockResolvedValue(createThread()),
+      getPullRequest: jest.fn().mockResolvedValue({ status: 'active' }),
+      getCommentThreads: jest.fn().mockResolvedValue([createThread()])
+    };
+    mockCommentService = {
+      postCommentThread: jest.fn().mockResolvedValue(createThread({ id: 30 })),
+      invalidateCommentCache: jest.fn()
+    };
+    mockPullRequestService = {
+      votePullRequest: jest.fn().mockResolvedValue({ success: true, timestamp: new Date() })
+    };
+    mockBackgroundSync = {
+      getSyncStatus: jest.fn().mockReturnValue({ networkStatus: 'online' }),
+      reportNetworkError: jest.fn((error: unknown) => error === networkError),
+      addSyncListener: jest.fn(),
+      removeSyncListener: jest.fn()
+    };
+    service = createService();
+  });
+
+  afterEach(() => {
+    service.dispose();
+  });
+
+  describe('submit', () => {
+    it('should send the action while online', async () => {
+      const result = await service.submit({
+        type: 'reply',
+        repositoryId: 'repo-1',
+        pullRequestId: 7,
+        threadId: 12,
+        content: 'Looks good'
+      });
+
+      expect(result).toEqual({ queued: false, comment });
+      expect(mockApiClient.addComment).toHaveBeenCalledWith('repo-1', 7, 'Looks good', 12);
+      expect(service.getPendingActions()).toHaveLength(0);
+    });
+
+    it('should start a thread on file lines', async () => {
+      const position = { filePath: '/src/a.ts', line: 3, endLine: 4, side: 'right' as const, iterationId: 2 };
+
+      const result = await service.submit({
+        type: 'comment',
+        repositoryId: 'repo-1',
+        pullRequestId: 7,
+        content: 'Nit',
+        position
+      });
+
+      expect(result).toEqual({ queued: false, thread: createThread({ id: 30 }) });
+      expect(mockCommentService.postCommentThread).toHaveBeenCalledWith('repo-1', 7, { content: 'Nit', ...position });
+      expect(mockApiClient.addComment).not.toHaveBeenCalled();
+    });
+
+    it('should persist the action when the network is unreachable', async () => {
+      mockApiClient.addComment.mockRejectedValue(networkError);
+
+      const result = await service.submit({ type: 'comment', repositoryId: 'repo-1', pullRequestId: 7, content: 'Nit' });
+
+      expect(result).toEqual({ queued: true, queueReason: 'unreachable' });
+      expect(createService().getPendingActions()).toEqual([
+        expect.objectContaining({ type: 'comment', content: 'Nit' })
+      ]);
+    });
+
+    it('should queue behind pending actions without sending', async () => {
+      mockBackgroundSync.getSyncStatus.mockReturnValue({ networkStatus: 'offline' } as ReturnType<BackgroundSyncService['getSyncStatus']>);
+      await service.submit({ type: 'vote', repositoryId: 'repo-1', pullRequestId: 7, vote: 10 });
+      mockBackgroundSync.getSyncStatus.mockReturnValue({ networkStatus: 'online' } as ReturnType<BackgroundSyncService['getSyncStatus']>);
+
+      const result = await service.submit({ type: 'comment', repositoryId: 'repo-1', pullRequestId: 7, content: 'Nit' });
+
+      expect(result).toEqual({ queued: true, queueReason: 'pendingActions' });
+      expect(OutboxService.getQueuedMessage(result.queueReason, 'The comment')).toBe(
+        'The comment will be sent after the pending changes to this pull request.'
+      );
+      expect(mockPullRequestService.votePullRequest).not.toHaveBeenCalled();
+      expect(mockApiClient.addComment).not.toHaveBeenCalled();
+      expect(service.getPendingActions().map((action) => action.type)).toEqual(['vote', 'comment']);
+    });
+
+    it('should send actions on other pull requests while actions are pending', async () => {
+      mockBackgroundSync.getSyncStatus.mockReturnValue({ networkStatus: 'offline' } as ReturnType<BackgroundSyncService['getSyncStatus']>);
+      await service.submit({ type: 'vote', repositoryId: 'repo-1', pullRequestId: 7, vote: 10 });
+      mockBackgroundSync.getSyncStatus.mockReturnValue({ networkStatus: 'online' } as ReturnType<BackgroundSyncService['getSyncStatus']>);
+
+      const result = await service.submit({ type: 'comment', repositoryId: 'repo-1', pullRequestId: 8, content: 'Nit' });
+
+      expect(result).toEqual({ queued: false, comment });
+      expect(service.getPendingActions().map((action) => action.pullRequestId)).toEqual([7]);
+    });
+
+    it('should send actions queued behind pending ones right away while online', async () => {
+      jest.useFakeTimers();
+      mockBackgroundSync.getSyncStatus.mockReturnValue({ networkStatus: 'offline' } as ReturnType<BackgroundSyncService['getSyncStatus']>);
+      await service.submit({ type: 'vote', repositoryId: 'repo-1', pullRequestId: 7, vote: 10 });
+      mockBackgroundSync.getSyncStatus.mockReturnValue({ networkStatus: 'online' } as ReturnType<BackgroundSyncService['getSyncStatus']>);
+
+      await service.submit({ type: 'comment', repositoryId: 'repo-1', pullRequestId: 7, content: 'Nit' });
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(mockPullRequestService.votePullRequest).toHaveBeenCalledWith('repo-1', 7, 10);
+      expect(mockApiClient.addComment).toHaveBeenCalledWith('repo-1', 7, 'Nit', undefined);
+      expect(service.getPendingActions()).toHaveLength(0);
+      jest.useRealTimers();
+    });
+
+    it('should retry an action that failed to send after a delay', async () => {
+      jest.useFakeTimers();
+      mockApiClient.addComment.mockRejectedValueOnce(networkError);
+      await service.submit({ type: 'comment', repositoryId: 'repo-1', pullRequestId: 7, content: 'Nit' });
+
+      await jest.advanceTimersByTimeAsync(29000);
+      expect(service.getPendingActions()).toHaveLength(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockApiClient.addComment).toHaveBeenCalledTimes(2);
+      expect(service.getPendingActions()).toHaveLength(0);
+      jest.useRealTimers();
+    });
+
+    it('should rethrow errors unrelated to the network', async () => {
+      mockApiClient.addComment.mockRejectedValue(new Error('API error: 400'));
+
+      await expect(
+        service.submit({ type: 'comment', repositoryId: 'repo-1', pullRequestId: 7, content: 'Nit' })
+      ).rejects.toThrow('API error: 400');
+      expect(service.getPendingActions()).toHaveLength(0);
+    });
+  });
+
+  describe('replay', () => {
+    beforeEach(async () => {
+      mockBackgroundSync.getSyncStatus.mockReturnValue({ networkStatus: 'offline' } as ReturnType<BackgroundSyncService['getSyncStatus']>);
+      await service.submit({ type: 'vote', repositoryId: 'repo-1', pullRequestId: 7, vote: 10 });
+      await service.submit({
+        type: 'threadStatus',
+        repositoryId: 'repo-1',
+        pullRequestId: 7,
+        threadId: 12,
+        status: 'fixed',
+        baseline: { status: 'active', commentCount: 1 }
+      });
+    });
+
+    it('should send the pending actions in order', async () => {
+      await service.replay();
+
+      expect(mockPullRequestService.votePullRequest).toHaveBeenCalledWith('repo-1', 7, 10);
+      expect(mockApiClient.updateThreadStatus).toHaveBeenCalledWith('repo-1', 7, 12, 'fixed');
+      expect(mockPullRequestService.votePullRequest.mock.invocationCallOrder[0]).toBeLessThan(
+        mockApiClient.updateThreadStatus.mock.invocationCallOrder[0]
+      );
+      expect(service.getPendingActions()).toHaveLength(0);
+    });
+
+    it('should stop and keep the queue while the network is still unreachable', async () => {
+      mockApiClient.getPullRequest.mockRejectedValue(networkError);
+
+      await service.replay();
+
+      expect(mockPullRequestService.votePullRequest).not.toHaveBeenCalled();
+      expect(service.getPendingActions()).toHaveLength(2);
+    });
+
+    it('should let the user discard an action that conflicts with the server thread', async () => {
+      mockApiClient.getCommentThreads.mockResolvedValue([createThread({ status: 'wontFix' })]);
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue('Discard');
+
+      await service.replay();
+
+      expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+        expect.stringContaining('the thread status was changed to "wontFix"'),
+        'Send Anyway',
+        'Discard'
+      );
+      expect(mockApiClient.updateThreadStatus).not.toHaveBeenCalled();
+      expect(service.getPendingActions()).toHaveLength(0);
+    });
+
+    it('should hold back only the pull request of an unanswered conflict', async () => {
+      await service.submit({ type: 'comment', repositoryId: 'repo-1', pullRequestId: 8, content: 'Nit' });
+      mockApiClient.getPullRequest.mockImplementation(async (_repositoryId, pullRequestId) =>
+        ({ status: pullRequestId === 7 ? 'abandoned' : 'active' }) as Awaited<ReturnType<AzureDevOpsApiClient['getPullRequest']>>
+      );
+      (vscode.window.showWarningMessage as jest.Mock).mockResolvedValue(undefined);
+
+      await service.replay();
+
+      expect(mockPullRequestService.votePullRequest).not.toHaveBeenCalled();
+      expect(mockApiClient.updateThreadStatus).not.toHaveBeenCalled();
+      expect(mockApiClient.addComment).toHaveBeenCalledWith('repo-1', 8, 'Nit', undefined);
+      expect(service.getPendingActions().map((action) => action.type)).toEqual(['vote', 'threadStatus']);
+    });
+  });
+});
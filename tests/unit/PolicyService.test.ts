@@ -0,0 +1,131 @@
+import { PolicyService, PolicyCheck } from '../../src/services/PolicyService';
+import { AzureDevOpsApiClient } from '../../src/api/AzureDevOpsApiClient';
+import { PullRequestService } from '../../src/services/PullRequestService';
+import { PolicyEvaluationRecord, PolicyEvaluationStatus } from '../../src/api/models';
+
+describe('PolicyService', () => {
+  let mockApiClient: jest.Mocked<Pick<AzureDevOpsApiClient, 'requeuePolicyEvaluation' | 'getRepositoryProfile'>>;
+  let mockPullRequestService: jest.Mocked<Pick<PullRequestService, 'getPolicyEvaluations'>>;
+  let service: PolicyService;
+
+  const buildTypeId = '0609b952-1397-4640-95ec-e00a01b2c241';
+  const commentsTypeId = 'c6a1889d-b943-4856-b76f-9e46bb6b0df2';
+
+  const createEvaluation = (
+    evaluationId: string,
+    typeId: string,
+    status: PolicyEvaluationStatus,
+    overrides: { isBlocking?: boolean; context?: Record<string, unknown>; displayName?: string } = {}
+  ): PolicyEvaluationRecord => ({
+    evaluationId,
+    startedDate: new Date(),
+    status,
+    context: overrides.context,
+    configuration: {
+      id: 1,
+      type: { id: typeId, displayName: 'Policy type', url: '' },
+      url: '',
+      revision: 1,
+      isEnabled: true,
+      isBlocking: overrides.isBlocking ?? true,
+      isDeleted: false,
+      settings: overrides.displayName ? { displayName: overrides.displayName } : {}
+    }
+  });
+
+  beforeEach(() => {
+    mockApiClient = {
+      requeuePolicyEvaluation: jest.fn(),
+      getRepositoryProfile: jest.fn().mockReturnValue({
+        id: 'org/my project',
+        name: 'My Project',
+        organizationUrl: 'https://dev.azure.com/org',
+        project: 'My Project'
+      })
+    };
+    mockPullRequestService = {
+      getPolicyEvaluations: jest.fn().mockResolvedValue([])
+    };
+
+    service = new PolicyService(
+      mockApiClient as unknown as AzureDevOpsApiClient,
+      mockPullRequestService as unknown as PullRequestService
+    );
+  });
+
+  describe('getPolicyChecks', () => {
+    it('should classify build policies and link their logs in the repository project', async () => {
+      mockPullRequestService.getPolicyEvaluations.mockResolvedValue([
+        createEvaluation('eval-1', buildTypeId, 'rejected', {
+          context: { buildId: 77 },
+          displayName: 'CI'
+        })
+      ]);
+
+      const [check] = await service.getPolicyChecks('repo-1', 42);
+
+      expect(mockApiClient.getRepositoryProfile).toHaveBeenCalledWith('repo-1');
+      expect(check).toMatchObject({
+        kind: 'build',
+        name: 'CI',
+        canRequeue: true,
+        buildId: 77,
+        buildUrl: 'https://dev.azure.com/org/My%20Project/_build/results?buildId=77&view=logs'
+      });
+    });
+
+    it('should allow re-queueing expired builds only', async () => {
+      mockPullRequestService.getPolicyEvaluations.mockResolvedValue([
+        createEvaluation('expired', buildTypeId, 'queued', { context: { isExpired: true } }),
+        createEvaluation('running', buildTypeId, 'running', { context: { buildId: 3 } }),
+        createEvaluation('comments', commentsTypeId, 'rejected')
+      ]);
+
+      const checks = await service.getPolicyChecks('repo-1', 42);
+      const requeueable = checks.filter((check) => check.canRequeue).map((check) => check.evaluationId);
+
+      expect(requeueable).toEqual(['expired']);
+    });
+
+    it('should skip policies that do not apply', async () => {
+      mockPullRequestService.getPolicyEvaluations.mockResolvedValue([
+        createEvaluation('eval-1', commentsTypeId, 'notApplicable')
+      ]);
+
+      await expect(service.getPolicyChecks('repo-1', 42)).resolves.toEqual([]);
+    });
+  });
+
+  describe('getSummaryStatus', () => {
+    const check = (status: PolicyEvaluationStatus, isBlocking = true): PolicyCheck => ({
+      evaluationId: status,
+      kind: 'other',
+      name: status,
+      status,
+      isBlocking,
+      isExpired: false,
+      canRequeue: false
+    });
+
+    it('should ignore optional policies', () => {
+      expect(service.getSummaryStatus([check('rejected', false)])).toBe('none');
+    });
+
+    it('should report failures before pending checks', () => {
+      expect(service.getSummaryStatus([check('running'), check('rejected')])).toBe('rejected');
+      expect(service.getSummaryStatus([check('approved'), check('queued')])).toBe('running');
+      expect(service.getSummaryStatus([check('approved')])).toBe('approved');
+    });
+  });
+
+  describe('requeuePolicyEvaluation', () => {
+    it('should report API failures', async () => {
+      mockApiClient.requeuePolicyEvaluation.mockRejectedValue(new Error('Forbidden'));
+
+      const result = await service.requeuePolicyEvaluation('repo-1', 'eval-1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Forbidden');
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import { mockVscode } from '../setup';
+import { PullRequestCommentController } from '../../src/providers/PullRequestCommentController';
+import { PullRequestContentProvider, PullRequestFileQuery } from '../../src/providers/PullRequestContentProvider';
+import { CommentService } from '../../src/services/CommentService';
+import { PullRequestService } from '../../src/services/PullRequestService';
+import { OutboxService } from '../../src/services/OutboxService';
+import { ReviewDraftService } from '../../src/services/ReviewDraftService';
+import { SuggestionService } from '../../src/services/SuggestionService';
+import { ErrorCategory, ErrorHandler } from '../../src/utils/ErrorHandler';
+import { Comment, CommentThread } from '../../src/api/models';
+
+describe('PullRequestCommentController', () => {
+  let mockCommentService: jest.Mocked<Pick<CommentService, 'getCommentThreads' | 'resolveMentions'>>;
+  let mockPullRequestService: jest.Mocked<Pick<PullRequestService, 'getPullRequestIterations'>>;
+  let mockOutboxService: jest.Mocked<Pick<OutboxService, 'submit'>>;
+  let mockReviewDraftService: jest.Mocked<Pick<ReviewDraftService, 'isReviewing' | 'getDrafts'>>;
+  let mockErrorHandler: jest.Mocked<Pick<ErrorHandler, 'handleError'>>;
+  let controller: PullRequestCommentController;
+
+  const createComment = (id: number, content: string): Comment =>
+    ({
+      id,
+      content,
+      commentType: 'text',
+      isDeleted: false,
+      author: { displayName: 'Ada Lovelace' },
+      publishedDate: new Date('2024-01-01T00:00:00Z')
+    }) as unknown as Comment;
+
+  const createThread = (overrides: Partial<CommentThread>): CommentThread =>
+    ({
+      id: 1,
+      status: 'active',
+      isDeleted: false,
+      comments: [createComment(1, 'Please rename this')],
+      ...overrides
+    }) as unknown as CommentThread;
+
+  const createDocument = (query: Partial<PullRequestFileQuery> = {}) => {
+    const lines = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'];
+    return {
+      uri: PullRequestContentProvider.toUri({
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        path: '/src/login.ts',
+        commitId: 'abc123',
+        ...query
+      }),
+      lineCount: lines.length,
+      lineAt: (line: number) => ({ text: lines[line] })
+    } as unknown as vscode.TextDocument;
+  };
+
+  const getShownThreads = (): vscode.CommentThread[] => {
+    const commentController = (mockVscode.comments.createCommentController as jest.Mock).mock.results[0].value;
+    return commentController.createCommentThread.mock.results.map((result: { value: vscode.CommentThread }) => result.value);
+  };
+
+  const createController = () =>
+    new PullRequestCommentController(
+      mockCommentService as unknown as CommentService,
+      mockPullRequestService as unknown as PullRequestService,
+      mockOutboxService as unknown as OutboxService,
+      mockReviewDraftService as unknown as ReviewDraftService,
+      { canApply: jest.fn().mockResolvedValue(false) } as unknown as SuggestionService,
+      mockErrorHandler as unknown as ErrorHandler
+    );
+
+  beforeEach(() => {
+    mockVscode.workspace.textDocuments = [];
+    mockCommentService = {
+      getCommentThreads: jest.fn().mockResolvedValue([]),
+      resolveMentions: jest.fn().mockResolvedValue(new Map())
+    };
+    mockPullRequestService = {
+      getPullRequestIterations: jest.fn().mockResolvedValue([{ id: 1 }, { id: 2 }])
+    };
+    mockOutboxService = {
+      submit: jest.fn()
+    };
+    mockReviewDraftService = {
+      isReviewing: jest.fn().mockReturnValue(false),
+      getDrafts: jest.fn().mockReturnValue([])
+    };
+    mockErrorHandler = {
+      handleError: jest.fn().mockResolvedValue(undefined)
+    };
+    controller = createController();
+  });
+
+  afterEach(() => {
+    controller.dispose();
+  });
+
+  describe('loading threads', () => {
+    it('should show source side threads at their lines', async () => {
+      const document = createDocument();
+      mockVscode.workspace.textDocuments = [document] as never[];
+      mockCommentService.getCommentThreads.mockResolvedValue([
+        createThread({
+          id: 1,
+          threadContext: {
+            filePath: '/src/login.ts',
+            rightFileStart: { line: 3, offset: 1 },
+            rightFileEnd: { line: 5, offset: 1 }
+          }
+        }),
+        createThread({
+          id: 2,
+          threadContext: {
+            filePath: '/src/login.ts',
+            leftFileStart: { line: 2, offset: 1 },
+            leftFileEnd: { line: 2, offset: 1 }
+          }
+        }),
+        createThread({
+          id: 3,
+          threadContext: {
+            filePath: '/src/other.ts',
+            rightFileStart: { line: 1, offset: 1 },
+            rightFileEnd: { line: 1, offset: 1 }
+          }
+        })
+      ]);
+
+      await controller.reloadThreads('repo-1', 42);
+
+      const threads = getShownThreads();
+      expect(threads).toHaveLength(1);
+      expect(threads[0].range).toEqual(new vscode.Range(2, 0, 4, 0));
+      expect(threads[0].comments.map((comment) => (comment.body as vscode.MarkdownString).value)).toEqual([
+        'Please rename this'
+      ]);
+    });
+
+    it('should show base side threads at their lines, clamped to the document', async () => {
+      const document = createDocument({ side: 'left' });
+      mockVscode.workspace.textDocuments = [document] as never[];
+      mockCommentService.getCommentThreads.mockResolvedValue([
+        createThread({
+          status: 'fixed',
+          threadContext: {
+            filePath: '/src/login.ts',
+            leftFileStart: { line: 7, offset: 1 },
+            leftFileEnd: { line: 20, offset: 1 }
+          }
+        })
+      ]);
+
+      await controller.reloadThreads('repo-1', 42);
+
+      const threads = getShownThreads();
+      expect(threads).toHaveLength(1);
+      expect(threads[0].range).toEqual(new vscode.Range(6, 0, 7, 0));
+      expect(threads[0].state).toBe(vscode.CommentThreadState.Resolved);
+    });
+
+    it('should show base side threads of a renamed file filed under either path', async () => {
+      const document = createDocument({ path: '/src/signIn.ts', originalPath: '/src/login.ts', side: 'left' });
+      mockVscode.workspace.textDocuments = [document] as never[];
+      mockCommentService.getCommentThreads.mockResolvedValue([
+        createThread({
+          id: 1,
+          threadContext: {
+            filePath: '/src/signIn.ts',
+            leftFileStart: { line: 1, offset: 1 },
+            leftFileEnd: { line: 1, offset: 1 }
+          }
+        }),
+        createThread({
+          id: 2,
+          threadContext: {
+            filePath: '/src/login.ts',
+            leftFileStart: { line: 4, offset: 1 },
+            leftFileEnd: { line: 4, offset: 1 }
+          }
+        })
+      ]);
+
+      await controller.reloadThreads('repo-1', 42);
+
+      expect(getShownThreads().map((thread) => thread.range?.start.line)).toEqual([0, 3]);
+    });
+
+    it('should report threads that fail to load for an opened document', async () => {
+      const error = new Error('Request failed');
+      mockCommentService.getCommentThreads.mockRejectedValue(error);
+      mockVscode.workspace.textDocuments = [createDocument()] as never[];
+
+      controller.dispose();
+      controller = createController();
+      await new Promise(process.nextTick);
+
+      expect(mockErrorHandler.handleError).toHaveBeenCalledWith(error, ErrorCategory.API);
+    });
+  });
+
+  describe('submitComment', () => {
+    it('should start a thread on the selected lines through the outbox', async () => {
+      const document = createDocument();
+      const created = createThread({ id: 9, comments: [createComment(5, 'Nit')] });
+      mockOutboxService.submit.mockResolvedValue({ queued: false, thread: created });
+      const thread = {
+        uri: document.uri,
+        range: new vscode.Range(4, 0, 6, 0),
+        comments: [],
+        dispose: jest.fn()
+      } as unknown as vscode.CommentThread;
+
+      await controller.submitComment({ thread, text: ' Nit ' });
+
+      expect(mockOutboxService.submit).toHaveBeenCalledWith({
+        type: 'comment',
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        content: 'Nit',
+        position: { filePath: '/src/login.ts', line: 5, endLine: 7, side: 'right', iterationId: 2 }
+      });
+      expect(thread.comments).toHaveLength(1);
+      expect(thread.contextValue).toBe('active');
+    });
+
+    it('should tell the user when a new thread is queued', async () => {
+      mockOutboxService.submit.mockResolvedValue({ queued: true });
+      const thread = {
+        uri: createDocument().uri,
+        range: new vscode.Range(0, 0, 0, 0),
+        comments: [],
+        dispose: jest.fn()
+      } as unknown as vscode.CommentThread;
+
+      await controller.submitComment({ thread, text: 'Nit' });
+
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        expect.stringContaining('The comment will be sent when the connection returns')
+      );
+      expect(thread.comments).toHaveLength(0);
+    });
+
+    it('should reply to a loaded thread through the outbox', async () => {
+      mockVscode.workspace.textDocuments = [createDocument()] as never[];
+      mockCommentService.getCommentThreads.mockResolvedValue([
+        createThread({
+          id: 7,
+          threadContext: {
+            filePath: '/src/login.ts',
+            rightFileStart: { line: 1, offset: 1 },
+            rightFileEnd: { line: 1, offset: 1 }
+          }
+        })
+      ]);
+      await controller.reloadThreads('repo-1', 42);
+      const [thread] = getShownThreads();
+      mockOutboxService.submit.mockResolvedValue({ queued: false, comment: createComment(2, 'Done') });
+
+      await controller.submitComment({ thread, text: 'Done' });
+
+      expect(mockOutboxService.submit).toHaveBeenCalledWith({
+        type: 'reply',
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        threadId: 7,
+        content: 'Done',
+        baseline: { status: 'active', commentCount: 1 }
+      });
+      expect(thread.comments).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { PullRequestContentProvider } from '../../src/providers/PullRequestContentProvider';
+import { AzureDevOpsApiClient } from '../../src/api/AzureDevOpsApiClient';
+
+describe('PullRequestContentProvider', () => {
+  let mockApiClient: jest.Mocked<Pick<AzureDevOpsApiClient, 'getFileContent'>>;
+  let provider: PullRequestContentProvider;
+  const token = { isCancellationRequested: false, onCancellationRequested: jest.fn() };
+
+  beforeEach(() => {
+    mockApiClient = {
+      getFileContent: jest.fn()
+    };
+    provider = new PullRequestContentProvider(mockApiClient as unknown as AzureDevOpsApiClient);
+  });
+
+  describe('URI encoding', () => {
+    it('should round-trip a file version through its URI', () => {
+      const uri = PullRequestContentProvider.toUri({
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        path: '/src/index.ts',
+        commitId: 'abc123'
+      });
+
+      expect(uri.scheme).toBe('azuredevops-pr');
+      expect(uri.path).toBe('/src/index.ts');
+      expect(PullRequestContentProvider.fromUri(uri)).toEqual({
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        path: '/src/index.ts',
+        commitId: 'abc123',
+        side: 'right'
+      });
+    });
+
+    it('should preserve the left side for base documents', () => {
+      const uri = PullRequestContentProvider.toUri({
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        path: '/src/index.ts',
+        commitId: 'def456',
+        side: 'left'
+      });
+
+      expect(PullRequestContentProvider.fromUri(uri)?.side).toBe('left');
+    });
+
+    it('should prefix relative paths with a slash', () => {
+      const uri = PullRequestContentProvider.toUri({
+        repositoryId: 'repo-1',
+        pullRequestId: 1,
+        path: 'README.md'
+      });
+
+      expect(uri.path).toBe('/README.md');
+    });
+
+    it('should ignore URIs from other schemes', () => {
+      const uri = { scheme: 'file', path: '/tmp/a.ts', query: '' } as any;
+
+      expect(PullRequestContentProvider.fromUri(uri)).toBeUndefined();
+    });
+  });
+
+  describe('provideTextDocumentContent', () => {
+    it('should fetch the file content at the requested commit', async () => {
+      mockApiClient.getFileContent.mockResolvedValue('console.log("hi");');
+      const uri = PullRequestContentProvider.toUri({
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        path: '/src/index.ts',
+        commitId: 'abc123'
+      });
+
+      const content = await provider.provideTextDocumentContent(uri, token as any);
+
+      expect(content).toBe('console.log("hi");');
+      expect(mockApiClient.getFileContent).toHaveBeenCalledWith('repo-1', '/src/index.ts', 'abc123');
+    });
+
+    it('should read the base document of a renamed file at its original path', async () => {
+      mockApiClient.getFileContent.mockResolvedValue('export {};');
+      const uri = PullRequestContentProvider.toUri({
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        path: '/src/renamed.ts',
+        originalPath: '/src/original.ts',
+        commitId: 'def456',
+        side: 'left'
+      });
+
+      await provider.provideTextDocumentContent(uri, token as any);
+
+      expect(uri.path).toBe('/src/renamed.ts');
+      expect(mockApiClient.getFileContent).toHaveBeenCalledWith('repo-1', '/src/original.ts', 'def456');
+    });
+
+    it('should return empty content for the missing side of an added or deleted file', async () => {
+      const uri = PullRequestContentProvider.toUri({
+        repositoryId: 'repo-1',
+        pullRequestId: 42,
+        path: '/src/new.ts'
+      });
+
+      const content = await provider.provideTextDocumentContent(uri, token as any);
+
+      expect(content).toBe('');
+      expect(mockApiClient.getFileContent).not.toHaveBeenCalled();
+    });
+  });
+});
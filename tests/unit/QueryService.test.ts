@@ -0,0 +1,154 @@
+import { QueryService } from '../../src/services/QueryService';
+import { AzureDevOpsApiClient } from '../../src/api/AzureDevOpsApiClient';
+import { ConfigurationService } from '../../src/services/ConfigurationService';
+import { PullRequestService } from '../../src/services/PullRequestService';
+import { PullRequest, PullRequestVote } from '../../src/api/models';
+
+describe('QueryService', () => {
+  let mockApiClient: jest.Mocked<Pick<AzureDevOpsApiClient, 'getAuthenticatedUser'>>;
+  let mockConfigService: jest.Mocked<Pick<ConfigurationService, 'getSavedQueries'>>;
+  let mockPullRequestService: jest.Mocked<
+    Pick<PullRequestService, 'getPullRequests' | 'getPullRequestPage' | 'getLastVotedIteration'>
+  >;
+  let service: QueryService;
+
+  const createPullRequest = (
+    pullRequestId: number,
+    overrides: {
+      createdBy?: string;
+      myVote?: PullRequestVote;
+      sourceCommitId?: string;
+      closedDate?: Date;
+      isDraft?: boolean;
+    } = {}
+  ): PullRequest =>
+    ({
+      pullRequestId,
+      title: `PR ${pullRequestId}`,
+      description: '',
+      isDraft: overrides.isDraft ?? false,
+      targetRefName: 'refs/heads/main',
+      closedDate: overrides.closedDate,
+      createdBy: { id: overrides.createdBy ?? 'someone-else' },
+      repository: { id: 'repo-1' },
+      lastMergeSourceCommit: { commitId: overrides.sourceCommitId ?? 'commit-1' },
+      reviewers:
+        overrides.myVote === undefined ? [] : [{ id: 'me', vote: overrides.myVote, hasDeclined: false }]
+    }) as unknown as PullRequest;
+
+  const builtIn = (id: string) => service.getQueries().find((query) => query.id === id)!;
+
+  beforeEach(() => {
+    mockApiClient = {
+      getAuthenticatedUser: jest.fn().mockResolvedValue({ id: 'me' })
+    };
+    mockConfigService = {
+      getSavedQueries: jest.fn().mockReturnValue([{ id: 'team', name: 'Team' }])
+    };
+    mockPullRequestService = {
+      getPullRequests: jest.fn().mockResolvedValue([]),
+      getPullRequestPage: jest.fn().mockResolvedValue({ pullRequests: [] }),
+      getLastVotedIteration: jest.fn()
+    };
+
+    service = new QueryService(
+      mockApiClient as unknown as AzureDevOpsApiClient,
+      mockConfigService as unknown as ConfigurationService,
+      mockPullRequestService as unknown as PullRequestService
+    );
+  });
+
+  it('should list built-in queries before saved queries', () => {
+    const queries = service.getQueries();
+
+    expect(queries.map((query) => query.id)).toEqual([
+      'created-by-me',
+      'waiting-for-my-vote',
+      'voted-new-changes',
+      'completed-recently',
+      'team'
+    ]);
+    expect(queries[4].isBuiltIn).toBe(false);
+  });
+
+  it('should resolve @me per repository for "Created by me"', async () => {
+    mockPullRequestService.getPullRequests.mockResolvedValue([
+      createPullRequest(1, { createdBy: 'me' }),
+      createPullRequest(2)
+    ]);
+
+    const result = await service.getPullRequests(builtIn('created-by-me'));
+
+    expect(result.map((pr) => pr.pullRequestId)).toEqual([1]);
+    expect(mockApiClient.getAuthenticatedUser).toHaveBeenCalledWith('repo-1', { staleWhileRevalidate: true });
+  });
+
+  it('should list non-draft pull requests without my vote as waiting for my vote', async () => {
+    mockPullRequestService.getPullRequests.mockResolvedValue([
+      createPullRequest(1, { myVote: 0 }),
+      createPullRequest(2, { myVote: 10 }),
+      createPullRequest(3, { myVote: 0, isDraft: true }),
+      createPullRequest(4)
+    ]);
+
+    const result = await service.getPullRequests(builtIn('waiting-for-my-vote'));
+
+    expect(result.map((pr) => pr.pullRequestId)).toEqual([1]);
+  });
+
+  it('should list voted pull requests whose source commit moved since the vote', async () => {
+    mockPullRequestService.getPullRequests.mockResolvedValue([
+      createPullRequest(1, { myVote: 10, sourceCommitId: 'commit-2' }),
+      createPullRequest(2, { myVote: 10, sourceCommitId: 'commit-1' }),
+      createPullRequest(3, { myVote: -5, sourceCommitId: 'commit-2' })
+    ]);
+    mockPullRequestService.getLastVotedIteration.mockImplementation(async (_repositoryId, pullRequestId) =>
+      pullRequestId === 3
+        ? undefined
+        : { iterationId: 1, sourceCommitId: 'commit-1', reviewedAt: new Date().toISOString() }
+    );
+
+    const result = await service.getPullRequests(builtIn('voted-new-changes'));
+
+    expect(result.map((pr) => pr.pullRequestId)).toEqual([1]);
+  });
+
+  it('should only list pull requests completed within the last week', async () => {
+    const day = 86400000;
+    mockPullRequestService.getPullRequests.mockResolvedValue([
+      createPullRequest(1, { closedDate: new Date(Date.now() - 2 * day) }),
+      createPullRequest(2, { closedDate: new Date(Date.now() - 30 * day) })
+    ]);
+
+    const result = await service.getPullRequests(builtIn('completed-recently'));
+
+    expect(mockPullRequestService.getPullRequests).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'completed' }),
+      expect.anything()
+    );
+    expect(result.map((pr) => pr.pullRequestId)).toEqual([1]);
+  });
+
+  it('should push criteria down to the server when paging a repository', async () => {
+    const next = { top: 50, continuationToken: 'token-2' };
+    mockPullRequestService.getPullRequestPage.mockResolvedValue({
+      pullRequests: [createPullRequest(1, { createdBy: 'me' }), createPullRequest(2, { createdBy: 'me', isDraft: true })],
+      next
+    });
+
+    const page = await service.getPullRequestPage(
+      { id: 'mine', name: 'Mine', createdBy: '@me', targetBranch: 'main', includeDrafts: false },
+      'repo-1',
+      { top: 50 }
+    );
+
+    expect(mockApiClient.getAuthenticatedUser).toHaveBeenCalledWith('repo-1', { staleWhileRevalidate: true });
+    expect(mockPullRequestService.getPullRequestPage).toHaveBeenCalledWith(
+      'repo-1',
+      expect.objectContaining({ status: 'active', createdBy: 'me', targetRefName: 'refs/heads/main' }),
+      { top: 50 }
+    );
+    expect(page.pullRequests.map((pr) => pr.pullRequestId)).toEqual([1]);
+    expect(page.next).toBe(next);
+  });
+});
@@ -0,0 +1,127 @@
+import { RequestScheduler } from '../../src/api/RequestScheduler';
+
+describe('RequestScheduler', () => {
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>((done) => {
+      resolve = done;
+    });
+    return { promise, resolve };
+  };
+
+  it('should share identical pending requests', async () => {
+    const scheduler = new RequestScheduler(2);
+    const response = deferred<string>();
+    const task = jest.fn(() => response.promise);
+
+    const first = scheduler.run(task, { key: 'GET_threads' });
+    const second = scheduler.run(task, { key: 'GET_threads' });
+    response.resolve('threads');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['threads', 'threads']);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStats()).toEqual({ active: 0, queued: 0, coalesced: 1 });
+  });
+
+  it('should cap concurrency and run higher priorities first', async () => {
+    const scheduler = new RequestScheduler(1);
+    const blocker = deferred<void>();
+    const started: string[] = [];
+    const run = (name: string, priority: 'high' | 'normal' | 'low') =>
+      scheduler.run(async () => {
+        started.push(name);
+      }, { priority });
+
+    const blocking = scheduler.run(() => blocker.promise);
+    const queued = [run('sync', 'low'), run('tree', 'normal'), run('click', 'high')];
+    expect(scheduler.getStats()).toEqual({ active: 1, queued: 3, coalesced: 0 });
+
+    blocker.resolve();
+    await Promise.all([blocking, ...queued]);
+
+    expect(started).toEqual(['click', 'tree', 'sync']);
+  });
+
+  it('should raise the priority of a queued request a user asks for too', async () => {
+    const scheduler = new RequestScheduler(1);
+    const blocker = deferred<void>();
+    const started: string[] = [];
+
+    const blocking = scheduler.run(() => blocker.promise);
+    const other = scheduler.run(async () => {
+      started.push('other');
+    });
+    const background = scheduler.run(
+      async () => {
+        started.push('pull request');
+      },
+      { key: 'GET_pr', priority: 'low' }
+    );
+    const user = scheduler.run(async () => undefined, { key: 'GET_pr', priority: 'high' });
+
+    blocker.resolve();
+    await Promise.all([blocking, other, background, user]);
+
+    expect(started).toEqual(['pull request', 'other']);
+  });
+
+  it('should cancel a request once every caller aborted', async () => {
+    const scheduler = new RequestScheduler(1);
+    const response = deferred<string>();
+    let requestSignal: AbortSignal | undefined;
+    const task = (signal: AbortSignal) => {
+      requestSignal = signal;
+      return response.promise;
+    };
+    const panel = new AbortController();
+    const otherPanel = new AbortController();
+
+    const first = scheduler.run(task, { key: 'GET_pr', signal: panel.signal });
+    const second = scheduler.run(task, { key: 'GET_pr', signal: otherPanel.signal });
+    panel.abort();
+
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requestSignal?.aborted).toBe(false);
+
+    otherPanel.abort();
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  it('should send a request again when asked for after every caller aborted', async () => {
+    const scheduler = new RequestScheduler(1);
+    const aborted = deferred<string>();
+    const task = jest
+      .fn<Promise<string>, [AbortSignal]>()
+      .mockReturnValueOnce(aborted.promise)
+      .mockResolvedValueOnce('data');
+    const panel = new AbortController();
+
+    const first = scheduler.run(task, { key: 'GET_pr', signal: panel.signal });
+    panel.abort();
+    const second = scheduler.run(task, { key: 'GET_pr' });
+    aborted.resolve('stale');
+
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(second).resolves.toBe('data');
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStats().coalesced).toBe(0);
+  });
+
+  it('should drop queued requests that are aborted', async () => {
+    const scheduler = new RequestScheduler(1);
+    const blocker = deferred<void>();
+    const task = jest.fn(async () => 'data');
+    const panel = new AbortController();
+
+    const blocking = scheduler.run(() => blocker.promise);
+    const queued = scheduler.run(task, { signal: panel.signal });
+    panel.abort();
+    blocker.resolve();
+    await blocking;
+
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    expect(task).not.toHaveBeenCalled();
+    expect(scheduler.getStats().queued).toBe(0);
+  });
+});
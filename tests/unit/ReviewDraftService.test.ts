@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { ReviewDraftService } from '../../src/services/ReviewDraftService';
+
+describe('ReviewDraftService', () => {
+  let storage: Map<string, unknown>;
+  let service: ReviewDraftService;
+
+  const createService = () =>
+    new ReviewDraftService({
+      globalState: {
+        get: jest.fn((key: string) => storage.get(key)),
+        update: jest.fn(async (key: string, value: unknown) => {
+          if (value === undefined) {
+            storage.delete(key);
+          } else {
+            storage.set(key, value);
+          }
+        })
+      }
+    } as unknown as vscode.ExtensionContext);
+
+  beforeEach(() => {
+    storage = new Map();
+    service = createService();
+  });
+
+  it('should not hold drafts before a review is started', async () => {
+    expect(service.isReviewing('repo-1', 7)).toBe(false);
+    await expect(service.addDraft('repo-1', 7, { content: 'Nit' })).rejects.toThrow(
+      'No review of PR #7 is in progress'
+    );
+  });
+
+  it('should persist drafts per pull request in order', async () => {
+    await service.startReview('repo-1', 7);
+    await service.addDraft('repo-1', 7, { content: 'First', threadId: 12 });
+    await service.addDraft('repo-1', 7, { content: 'Second', filePath: '/src/app.ts', line: 4 });
+
+    const reloaded = createService();
+    expect(reloaded.isReviewing('repo-1', 7)).toBe(true);
+    expect(reloaded.isReviewing('repo-1', 8)).toBe(false);
+    expect(reloaded.getDrafts('repo-1', 7).map((draft) => draft.content)).toEqual(['First', 'Second']);
+  });
+
+  it('should keep the review when only some drafts are removed', async () => {
+    await service.startReview('repo-1', 7);
+    const posted = await service.addDraft('repo-1', 7, { content: 'Posted' });
+    await service.addDraft('repo-1', 7, { content: 'Failed' });
+
+    await service.removeDrafts('repo-1', 7, [posted.id]);
+
+    expect(service.isReviewing('repo-1', 7)).toBe(true);
+    expect(service.getDrafts('repo-1', 7).map((draft) => draft.content)).toEqual(['Failed']);
+  });
+
+  it('should discard the drafts when the review ends', async () => {
+    await service.startReview('repo-1', 7);
+    await service.addDraft('repo-1', 7, { content: 'Nit' });
+
+    await service.endReview('repo-1', 7);
+
+    expect(service.isReviewing('repo-1', 7)).toBe(false);
+    expect(service.getDrafts('repo-1', 7)).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  SuggestionService,
+  createSuggestionBlock,
+  parseSuggestions,
+  renderSuggestionDiff,
+  replaceLines
+} from '../../src/services/SuggestionService';
+import { AzureDevOpsApiClient } from '../../src/api/AzureDevOpsApiClient';
+import { CommentService } from '../../src/services/CommentService';
+import { GitCheckoutService } from '../../src/services/GitCheckoutService';
+import { PullRequestService } from '../../src/services/PullRequestService';
+import { PullRequest } from '../../src/api/models';
+
+describe('SuggestionService', () => {
+  describe('suggestion blocks', () => {
+    it('should round-trip the suggested lines', () => {
+      const content = `Use a constant here\n\n${createSuggestionBlock(['const limit = 10;', ''])}`;
+
+      expect(parseSuggestions(content)).toEqual([['const limit = 10;', '']]);
+    });
+
+    it('should treat an empty block as deleting the lines', () => {
+      expect(parseSuggestions('```suggestion\n```')).toEqual([[]]);
+      expect(parseSuggestions('```ts\nlet a = 1;\n```')).toEqual([]);
+    });
+
+    it('should render suggestions as diffs against the anchored lines', () => {
+      const rendered = renderSuggestionDiff('Nit:\n```suggestion\nlet b = 2;\n```', ['let a = 1;']);
+
+      expect(rendered).toBe('Nit:\n**Suggested change**\n```diff\n-let a = 1;\n+let b = 2;\n```');
+    });
+
+    it('should replace lines and keep the line endings of the file', () => {
+      expect(replaceLines('a\r\nb\r\nc\r\n', 2, 2, ['x', 'y'])).toBe('a\r\nx\r\ny\r\nc\r\n');
+      expect(replaceLines('a\nb\nc', 1, 2, [])).toBe('c');
+      expect(() => replaceLines('a\nb', 2, 5, ['x'])).toThrow('Lines 2-5 are outside the file (2 lines)');
+    });
+  });
+
+  describe('findLocalCheckout', () => {
+    const pullRequest = {
+      sourceRefName: 'refs/heads/feature/login',
+      repository: { id: 'repo-1', name: 'portal' }
+    } as unknown as PullRequest;
+    const listed = { id: 'repo-1', name: 'portal', remoteUrl: 'https://dev.azure.com/contoso/web/_git/portal' };
+    const match = { repository: { rootUri: {} }, remote: { name: 'origin' } };
+
+    let mockPullRequestService: jest.Mocked<Pick<PullRequestService, 'getRepository'>>;
+    let mockGitCheckoutService: jest.Mocked<Pick<GitCheckoutService, 'findLocalRepository' | 'getCurrentBranch'>>;
+    let service: SuggestionService;
+
+    beforeEach(() => {
+      mockPullRequestService = {
+        getRepository: jest.fn().mockResolvedValue(listed)
+      };
+      mockGitCheckoutService = {
+        findLocalRepository: jest.fn().mockResolvedValue(match),
+        getCurrentBranch: jest.fn().mockReturnValue('feature/login')
+      };
+      service = new SuggestionService(
+        {} as AzureDevOpsApiClient,
+        mockPullRequestService as unknown as PullRequestService,
+        {} as CommentService,
+        mockGitCheckoutService as unknown as GitCheckoutService
+      );
+    });
+
+    it('should match remotes of the listed repository', async () => {
+      await expect(service.findLocalCheckout(pullRequest)).resolves.toBe(match);
+      expect(mockPullRequestService.getRepository).toHaveBeenCalledWith('repo-1');
+      expect(mockGitCheckoutService.findLocalRepository).toHaveBeenCalledWith(listed);
+    });
+
+    it('should not offer a checkout of another branch', async () => {
+      mockGitCheckoutService.getCurrentBranch.mockReturnValue('main');
+
+      await expect(service.findLocalCheckout(pullRequest)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('commitSuggestion', () => {
+    const pullRequest = {
+      pullRequestId: 7,
+      sourceRefName: 'refs/heads/feature/login',
+      repository: { id: 'repo-1' },
+      lastMergeSourceCommit: { commitId: 'abc123' }
+    } as unknown as PullRequest;
+    const location = { threadId: 12, filePath: '/src/app.ts', startLine: 2, endLine: 2, originalLines: ['two'] };
+
+    let mockApiClient: jest.Mocked<Pick<AzureDevOpsApiClient, 'getFileContent' | 'createPush'>>;
+    let mockCommentService: jest.Mocked<Pick<CommentService, 'updateCommentThread'>>;
+    let service: SuggestionService;
+
+    beforeEach(() => {
+      mockApiClient = {
+        getFileContent: jest.fn().mockResolvedValue('one\ntwo\nthree\n'),
+        createPush: jest.fn().mockResolvedValue({ pushId: 1 })
+      };
+      mockCommentService = {
+        updateCommentThread: jest.fn().mockResolvedValue({ id: 12, status: 'fixed' })
+      };
+      service = new SuggestionService(
+        mockApiClient as unknown as AzureDevOpsApiClient,
+        {} as PullRequestService,
+        mockCommentService as unknown as CommentService,
+        {} as GitCheckoutService
+      );
+    });
+
+    it('should push the edited file on top of the source commit and resolve the thread', async () => {
+      const result = await service.commitSuggestion(pullRequest, location, ['TWO']);
+
+      expect(result).toEqual(expect.objectContaining({ success: true, threadResolved: true }));
+      expect(mockApiClient.createPush).toHaveBeenCalledWith(
+        'repo-1',
+        'refs/heads/feature/login',
+        'abc123',
+        'Apply suggestion from pull request 7',
+        [
+          {
+            changeType: 'edit',
+            item: { path: '/src/app.ts' },
+            newContent: { content: 'one\nTWO\nthree\n', contentType: 'rawtext' }
+          }
+        ]
+      );
+      expect(mockCommentService.updateCommentThread).toHaveBeenCalledWith('repo-1', 7, 12, { status: 'fixed' });
+    });
+
+    it('should leave the thread open when the push is rejected', async () => {
+      mockApiClient.createPush.mockRejectedValue(new Error('API error: 409'));
+
+      const result = await service.commitSuggestion(pullRequest, location, ['TWO']);
+
+      expect(result).toEqual(expect.objectContaining({ success: false, error: 'API error: 409' }));
+      expect(mockCommentService.updateCommentThread).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to commit when a later iteration moved the anchored lines', async () => {
+      mockApiClient.getFileContent.mockResolvedValue('zero\none\ntwo\nthree\n');
+
+      const result = await service.commitSuggestion(pullRequest, location, ['TWO']);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          success: false,
+          error: 'Lines 2-2 of /src/app.ts no longer match the lines the suggestion was made on. Apply the suggestion by hand.'
+        })
+      );
+      expect(mockApiClient.createPush).not.toHaveBeenCalled();
+      expect(mockCommentService.updateCommentThread).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { ViewedFilesService } from '../../src/services/ViewedFilesService';
+import { AzureDevOpsApiClient } from '../../src/api/AzureDevOpsApiClient';
+import { GitPullRequestChange } from '../../src/api/models';
+
+describe('ViewedFilesService', () => {
+  let mockApiClient: jest.Mocked<
+    Pick<AzureDevOpsApiClient, 'getAuthenticatedUser' | 'getPullRequestProperties' | 'updatePullRequestProperties'>
+  >;
+  let service: ViewedFilesService;
+
+  const propertyName = 'AdoPrReviewer.ViewedFiles.user-1';
+
+  const createChange = (path: string, objectId: string): GitPullRequestChange => ({
+    changeId: 1,
+    changeType: 'edit',
+    item: {
+      objectId,
+      gitObjectType: 'blob',
+      commitId: 'commit-1',
+      path,
+      isFolder: false,
+      url: ''
+    }
+  });
+
+  beforeEach(() => {
+    mockApiClient = {
+      getAuthenticatedUser: jest.fn().mockResolvedValue({
+        id: 'user-1',
+        displayName: 'Test User',
+        uniqueName: 'test@example.com'
+      }),
+      getPullRequestProperties: jest.fn().mockResolvedValue({}),
+      updatePullRequestProperties: jest.fn().mockResolvedValue(undefined)
+    };
+    service = new ViewedFilesService(mockApiClient as unknown as AzureDevOpsApiClient);
+  });
+
+  describe('getViewedFiles', () => {
+    it('should read the current user\'s viewed files property', async () => {
+      mockApiClient.getPullRequestProperties.mockResolvedValue({
+        [propertyName]: JSON.stringify({ '/src/a.ts': 'blob-a' }),
+        'AdoPrReviewer.ViewedFiles.user-2': JSON.stringify({ '/src/b.ts': 'blob-b' })
+      });
+
+      const viewed = await service.getViewedFiles('repo-1', 42);
+
+      expect(Array.from(viewed.entries())).toEqual([['/src/a.ts', 'blob-a']]);
+    });
+
+    it('should treat a malformed property as nothing viewed', async () => {
+      mockApiClient.getPullRequestProperties.mockResolvedValue({
+        [propertyName]: 'not json'
+      });
+
+      const viewed = await service.getViewedFiles('repo-1', 42);
+
+      expect(viewed.size).toBe(0);
+    });
+  });
+
+  describe('isViewed', () => {
+    it('should reset the viewed state when the file changed in a new iteration', () => {
+      const viewed = new Map([['/src/a.ts', 'blob-old']]);
+
+      expect(service.isViewed(createChange('/src/a.ts', 'blob-old'), viewed)).toBe(true);
+      expect(service.isViewed(createChange('/src/a.ts', 'blob-new'), viewed)).toBe(false);
+    });
+  });
+
+  describe('setViewed', () => {
+    it('should persist the file version that was viewed', async () => {
+      await service.setViewed('repo-1', 42, createChange('/src/a.ts', 'blob-a'), true);
+
+      expect(mockApiClient.updatePullRequestProperties).toHaveBeenCalledWith('repo-1', 42, {
+        [propertyName]: JSON.stringify({ '/src/a.ts': 'blob-a' })
+      });
+    });
+
+    it('should remove a file when marked as not viewed', async () => {
+      mockApiClient.getPullRequestProperties.mockResolvedValue({
+        [propertyName]: JSON.stringify({ '/src/a.ts': 'blob-a', '/src/b.ts': 'blob-b' })
+      });
+
+      await service.setViewed('repo-1', 42, createChange('/src/a.ts', 'blob-a'), false);
+
+      expect(mockApiClient.updatePullRequestProperties).toHaveBeenCalledWith('repo-1', 42, {
+        [propertyName]: JSON.stringify({ '/src/b.ts': 'blob-b' })
+      });
+    });
+
+    it('should roll back the viewed state when saving it fails', async () => {
+      mockApiClient.getPullRequestProperties.mockResolvedValue({
+        [propertyName]: JSON.stringify({ '/src/a.ts': 'blob-a' })
+      });
+      mockApiClient.updatePullRequestProperties.mockRejectedValue(new Error('Request failed'));
+
+      await expect(
+        service.setViewed('repo-1', 42, createChange('/src/b.ts', 'blob-b'), true)
+      ).rejects.toThrow('Request failed');
+      await expect(
+        service.setViewed('repo-1', 42, createChange('/src/a.ts', 'blob-a'), false)
+      ).rejects.toThrow('Request failed');
+
+      const viewed = await service.getViewedFiles('repo-1', 42);
+      expect(Array.from(viewed.entries())).toEqual([['/src/a.ts', 'blob-a']]);
+    });
+  });
+
+  describe('getReviewProgress', () => {
+    it('should count only files viewed at their current version', () => {
+      const changes = [
+        createChange('/src/a.ts', 'blob-a'),
+        createChange('/src/b.ts', 'blob-b2'),
+        createChange('/src/c.ts', 'blob-c')
+      ];
+      const viewed = new Map([
+        ['/src/a.ts', 'blob-a'],
+        ['/src/b.ts', 'blob-b1']
+      ]);
+
+      expect(service.getReviewProgress(changes, viewed)).toEqual({ viewed: 1, total: 3 });
+    });
+  });
+});
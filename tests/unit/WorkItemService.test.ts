@@ -0,0 +1,115 @@
+import { WorkItemService } from '../../src/services/WorkItemService';
+import { AzureDevOpsApiClient } from '../../src/api/AzureDevOpsApiClient';
+import { PullRequest, WorkItem } from '../../src/api/models';
+
+describe('WorkItemService', () => {
+  let mockApiClient: jest.Mocked<
+    Pick<
+      AzureDevOpsApiClient,
+      | 'getPullRequestWorkItemRefs'
+      | 'getWorkItems'
+      | 'searchWorkItems'
+      | 'linkWorkItem'
+      | 'unlinkWorkItem'
+      | 'getProjectUrl'
+    >
+  >;
+  let service: WorkItemService;
+
+  const createWorkItem = (id: number, fields: Record<string, unknown> = {}): WorkItem => ({
+    id,
+    rev: 1,
+    url: `https://dev.azure.com/org/_apis/wit/workItems/${id}`,
+    fields: {
+      'System.WorkItemType': 'Bug',
+      'System.Title': `Work item ${id}`,
+      'System.State': 'Active',
+      ...fields
+    }
+  });
+
+  const pullRequest = {
+    pullRequestId: 7,
+    repository: { id: 'repo-1', project: { id: 'project-1' } }
+  } as unknown as PullRequest;
+
+  beforeEach(() => {
+    mockApiClient = {
+      getPullRequestWorkItemRefs: jest.fn().mockResolvedValue([]),
+      getWorkItems: jest.fn().mockResolvedValue([]),
+      searchWorkItems: jest.fn().mockResolvedValue([]),
+      linkWorkItem: jest.fn().mockResolvedValue(createWorkItem(42)),
+      unlinkWorkItem: jest.fn().mockResolvedValue(undefined),
+      getProjectUrl: jest.fn().mockReturnValue('https://dev.azure.com/org/Web')
+    };
+    service = new WorkItemService(mockApiClient as unknown as AzureDevOpsApiClient);
+  });
+
+  describe('getLinkedWorkItems', () => {
+    it('should flatten the linked work items', async () => {
+      mockApiClient.getPullRequestWorkItemRefs.mockResolvedValue([{ id: '42' }]);
+      mockApiClient.getWorkItems.mockResolvedValue([
+        createWorkItem(42, { 'System.AssignedTo': { displayName: 'Jordan Lee' } })
+      ]);
+
+      const workItems = await service.getLinkedWorkItems('repo-1', 7);
+
+      expect(mockApiClient.getWorkItems).toHaveBeenCalledWith('repo-1', [42]);
+      expect(workItems).toEqual([
+        expect.objectContaining({
+          id: 42,
+          type: 'Bug',
+          title: 'Work item 42',
+          state: 'Active',
+          assignedTo: 'Jordan Lee',
+          webUrl: 'https://dev.azure.com/org/Web/_workitems/edit/42'
+        })
+      ]);
+    });
+
+    it('should return an empty array when the request fails', async () => {
+      mockApiClient.getPullRequestWorkItemRefs.mockRejectedValue(new Error('Network error'));
+
+      await expect(service.getLinkedWorkItems('repo-1', 7)).resolves.toEqual([]);
+    });
+  });
+
+  describe('searchWorkItems', () => {
+    it('should look up numeric input by ID', async () => {
+      mockApiClient.getWorkItems.mockResolvedValue([createWorkItem(123)]);
+
+      const workItems = await service.searchWorkItems('repo-1', '#123');
+
+      expect(mockApiClient.getWorkItems).toHaveBeenCalledWith('repo-1', [123]);
+      expect(mockApiClient.searchWorkItems).not.toHaveBeenCalled();
+      expect(workItems.map((workItem) => workItem.id)).toEqual([123]);
+    });
+
+    it('should search titles for other input', async () => {
+      mockApiClient.searchWorkItems.mockResolvedValue([createWorkItem(5)]);
+
+      const workItems = await service.searchWorkItems('repo-1', 'login bug');
+
+      expect(mockApiClient.searchWorkItems).toHaveBeenCalledWith('repo-1', 'login bug');
+      expect(workItems.map((workItem) => workItem.id)).toEqual([5]);
+    });
+  });
+
+  describe('linkWorkItem', () => {
+    it('should link through the pull request project', async () => {
+      const result = await service.linkWorkItem(pullRequest, 42);
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.linkWorkItem).toHaveBeenCalledWith('repo-1', 7, 'project-1', 42);
+    });
+
+    it('should report failures', async () => {
+      mockApiClient.unlinkWorkItem.mockRejectedValue(new Error('Work item 42 is not linked to pull request 7'));
+
+      const result = await service.unlinkWorkItem(pullRequest, 42);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Work item 42 is not linked to pull request 7');
+    });
+  });
+});